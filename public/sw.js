@@ -0,0 +1,109 @@
+/*
+  Direktor service worker
+
+  - Precaches the app shell (index.html and the built assets listed in
+    precache-manifest.js, written by the build) so the app reloads at a
+    venue without a connection
+  - Serves page loads from the network, falling back to the cached shell
+  - Keeps the data public tournament pages read, so standings and pairings
+    last seen stay viewable offline
+  - Waits to take over until the page asks, so a director mid-event chooses
+    when to load a new version
+*/
+
+importScripts('/precache-manifest.js');
+
+const SHELL_CACHE = `direktor-shell-${self.__PRECACHE_VERSION}`;
+const PUBLIC_DATA_CACHE = 'direktor-public-data';
+const FONT_CACHE = 'direktor-fonts';
+
+// Public tournament pages, projector screens and statistics
+const PUBLIC_PAGE = /^\/(t|tournaments)\/[^/]+|^\/projector\//;
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE).then(cache => cache.addAll(self.__PRECACHE_URLS))
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys
+          .filter(key => key.startsWith('direktor-shell-') && key !== SHELL_CACHE)
+          .map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', event => {
+  if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate' && url.origin === self.location.origin) {
+    event.respondWith(networkFirst(request, SHELL_CACHE, '/index.html'));
+    return;
+  }
+
+  if (url.origin === self.location.origin && url.pathname.startsWith('/assets/')) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+    return;
+  }
+
+  if (url.hostname === 'fonts.googleapis.com' || url.hostname === 'fonts.gstatic.com') {
+    event.respondWith(cacheFirst(request, FONT_CACHE));
+    return;
+  }
+
+  if (url.pathname.startsWith('/rest/v1/')) {
+    event.respondWith(
+      fromPublicPage(event.clientId).then(isPublic => isPublic
+        ? networkFirst(request, PUBLIC_DATA_CACHE)
+        : fetch(request))
+    );
+  }
+});
+
+// Whether the page making a request is a public tournament page
+async function fromPublicPage(clientId) {
+  if (!clientId) return false;
+  const client = await self.clients.get(clientId);
+  return !!client && PUBLIC_PAGE.test(new URL(client.url).pathname);
+}
+
+async function networkFirst(request, cacheName, fallbackUrl) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok && !fallbackUrl) {
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (err) {
+    const cached = await cache.match(fallbackUrl || request);
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+async function cacheFirst(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok || response.type === 'opaque') {
+    cache.put(request, response.clone());
+  }
+  return response;
+}
@@ -13,9 +13,11 @@ import UserDashboard from './components/UserDashboard';
 import TournamentSetupModal from './components/TournamentSetupModal';
 import TournamentResume from './components/TournamentResume';
 import PublicTournamentView from './components/PublicTournamentView';
+import PlayerResultReport from './components/PlayerResultReport';
 import LandingPage from './components/LandingPage';
 import TournamentControlCenter from './components/TournamentControlCenter';
 import DirectorsLeaderboard from './components/DirectorsLeaderboard';
+import UpdatePrompt from './components/UpdatePrompt';
 import { supabase } from './lib/supabase';
 import { useTournamentProgress } from './hooks/useTournamentProgress';
 import { useAuditLog } from './hooks/useAuditLog';
@@ -673,6 +675,11 @@ function PublicTournamentRoute() {
   return <PublicTournamentView />;
 }
 
+// Player Result Report Route Component
+function PlayerResultReportRoute() {
+  return <PlayerResultReport />;
+}
+
 // Projection Mode Route Component
 function ProjectionModeRoute() {
   return (
@@ -816,10 +823,13 @@ function App() {
         <Route path="/tournaments/:slug" element={<PublicTournamentRoute />} />
         <Route path="/t/:tournamentId/statistics" element={<StatisticsRoute />} />
         <Route path="/tournaments/:slug/statistics" element={<StatisticsRoute />} />
+        <Route path="/t/:tournamentId/report" element={<PlayerResultReportRoute />} />
+        <Route path="/tournaments/:slug/report" element={<PlayerResultReportRoute />} />
         <Route path="/statistics" element={<StatisticsRoute />} />
         <Route path="/projector/:tournamentId/:divisionId" element={<ProjectionModeRoute />} />
         <Route path="/leaderboard/directors" element={<DirectorsLeaderboardRoute />} />
       </Routes>
+      <UpdatePrompt />
     </Router>
   );
 }
@@ -4,6 +4,7 @@ import { supabase } from '../lib/supabase';
 import { useLogicBlock } from '../hooks/useLogicBlocks';
 import { useAuditLog } from '../hooks/useAuditLog';
 import { Player, Tournament, Result, Pairing } from '../types/database';
+import { computeStandings, splitJoinedResults, getStandingsOptions, StandingsPairing } from '../utils/standings';
 
 interface AIInsightsPanelProps {
   isOpen: boolean;
@@ -91,14 +92,27 @@ const AIInsightsPanel: React.FC<AIInsightsPanelProps> = ({
         .select(`
           *,
           pairing:pairings!results_pairing_id_fkey(
+            id,
             player1_id,
             player2_id,
-            round_number
+            player1_rank,
+            player2_rank,
+            round_number,
+            first_move_player_id
           )
         `)
         .eq('tournament_id', tournamentId);
         
       if (resultsError) throw resultsError;
+
+      // Byes have no result row, so load them separately
+      const { data: byePairings, error: byesError } = await supabase
+        .from('pairings')
+        .select('id, player1_id, player2_id, round_number, is_bye')
+        .eq('tournament_id', tournamentId)
+        .eq('is_bye', true);
+
+      if (byesError) throw byesError;
       
       // Load pairings for current round
       const { data: currentPairings, error: pairingsError } = await supabase
@@ -140,11 +154,11 @@ const AIInsightsPanel: React.FC<AIInsightsPanelProps> = ({
         } catch (err) {
           console.error('Error executing insights logic:', err);
           // Fall back to static insights
-          generateStaticInsights(tournament, players, results, currentPairings);
+          generateStaticInsights(tournament, players, results, currentPairings, byePairings || []);
         }
       } else {
         // Fall back to static insights
-        generateStaticInsights(tournament, players, results, currentPairings);
+        generateStaticInsights(tournament, players, results, currentPairings, byePairings || []);
       }
     } catch (err) {
       console.error('Error loading insights:', err);
@@ -158,10 +172,14 @@ const AIInsightsPanel: React.FC<AIInsightsPanelProps> = ({
     tournament: Tournament,
     players: Player[],
     results: any[],
-    currentPairings: any[]
+    currentPairings: any[],
+    byePairings: StandingsPairing[]
   ) => {
     // Calculate player standings
-    const standings = calculateStandings(players, results);
+    const { pairings, results: scoredResults } = splitJoinedResults(results);
+    const standings = computeStandings(players, [...pairings, ...byePairings], scoredResults,
+      getStandingsOptions(tournament.tournament_config)
+    );
     
     // Generate player insights
     const insights: PlayerInsight[] = standings.slice(0, 10).map(player => {
@@ -257,64 +275,6 @@ const AIInsightsPanel: React.FC<AIInsightsPanelProps> = ({
     setTournamentInsights(tournamentInsights);
   };
   
-  const calculateStandings = (players: Player[], results: any[]) => {
-    const standings = players.map(player => {
-      let wins = 0;
-      let losses = 0;
-      let draws = 0;
-      let spread = 0;
-      
-      // Process each result
-      results.forEach(result => {
-        const pairing = result.pairing;
-        if (!pairing) return;
-        
-        const isPlayer1 = pairing.player1_id === player.id;
-        const isPlayer2 = pairing.player2_id === player.id;
-        
-        if (!isPlayer1 && !isPlayer2) return;
-        
-        const playerScore = isPlayer1 ? result.player1_score : result.player2_score;
-        const opponentScore = isPlayer1 ? result.player2_score : result.player1_score;
-        
-        spread += playerScore - opponentScore;
-        
-        if (playerScore > opponentScore) {
-          wins++;
-        } else if (playerScore < opponentScore) {
-          losses++;
-        } else {
-          draws++;
-        }
-      });
-      
-      return {
-        id: player.id,
-        name: player.name,
-        rating: player.rating,
-        wins,
-        losses,
-        draws,
-        points: wins + (draws * 0.5),
-        spread,
-        rank: 0 // Will be assigned after sorting
-      };
-    });
-    
-    // Sort by points, then spread, then rating
-    standings.sort((a, b) => {
-      if (a.points !== b.points) return b.points - a.points;
-      if (a.spread !== b.spread) return b.spread - a.spread;
-      return b.rating - a.rating;
-    });
-    
-    // Assign ranks
-    standings.forEach((player, index) => {
-      player.rank = index + 1;
-    });
-    
-    return standings;
-  };
   
   const getCompetitiveBalance = (standings: any[]) => {
     if (standings.length < 2) return 'unknown';
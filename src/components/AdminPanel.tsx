@@ -1,10 +1,13 @@
 import React, { useState, useEffect } from 'react';
-import { ArrowLeft, Settings, Edit3, Trash2, Save, AlertTriangle, Users, Target, Shield, Upload, Plus, ExternalLink, Image, X, Clock, FileText } from 'lucide-react';
+import { ArrowLeft, Settings, Edit3, Trash2, Save, AlertTriangle, Users, Target, Shield, Upload, Plus, ExternalLink, Image, X, Clock, FileText, Download } from 'lucide-react';
 import ParticleBackground from './ParticleBackground';
 import Button from './Button';
+import TournamentFilesPanel from './TournamentFilesPanel';
 import { supabase } from '../lib/supabase';
-import { Tournament, Player, PairingWithPlayers, Result, Sponsor } from '../types/database';
+import { loadTournamentSnapshot, getRoundPairings, writeChange, isNetworkError, isDuplicateRow } from '../lib/offlineRepository';
+import { Tournament, Player, PairingWithPlayers, Result, Sponsor, Division, PlayerStatus } from '../types/database';
 import { useAuditLog } from '../hooks/useAuditLog';
+import { PLAYER_STATUS_LABELS, describePlayerStatus } from '../utils/playerStatus';
 
 interface AdminPanelProps {
   onBack: () => void;
@@ -19,6 +22,8 @@ interface EditableResult {
   player2: Player;
   player1Score: number;
   player2Score: number;
+  /** Who failed to show up, if the game was forfeited */
+  forfeit: 'none' | 'player1' | 'player2' | 'both';
   firstMovePlayerId: string;
   roundNumber: number;
   hasChanges: boolean;
@@ -36,6 +41,7 @@ interface AuditLogEntry {
 const AdminPanel: React.FC<AdminPanelProps> = ({ onBack, tournamentId }) => {
   const [tournament, setTournament] = useState<Tournament | null>(null);
   const [players, setPlayers] = useState<Player[]>([]);
+  const [divisions, setDivisions] = useState<Division[]>([]);
   const [sponsors, setSponsors] = useState<Sponsor[]>([]);
   const [selectedRound, setSelectedRound] = useState(1);
   const [maxRounds] = useState(7);
@@ -44,7 +50,7 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onBack, tournamentId }) => {
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'scores' | 'players' | 'sponsors' | 'pairings' | 'logs'>('scores');
+  const [activeTab, setActiveTab] = useState<'scores' | 'players' | 'sponsors' | 'pairings' | 'files' | 'logs'>('scores');
   const [auditLogs, setAuditLogs] = useState<AuditLogEntry[]>([]);
   const [isLoadingLogs, setIsLoadingLogs] = useState(false);
   
@@ -59,6 +65,15 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onBack, tournamentId }) => {
   const [editingPlayer, setEditingPlayer] = useState<string | null>(null);
   const [editPlayerName, setEditPlayerName] = useState('');
   const [editPlayerRating, setEditPlayerRating] = useState(0);
+  const [editCareerGames, setEditCareerGames] = useState('');
+  const [editFixedTable, setEditFixedTable] = useState('');
+  const [editPlayerStatus, setEditPlayerStatus] = useState<PlayerStatus>('active');
+  const [editSuspendedRound, setEditSuspendedRound] = useState(1);
+
+  // Late entry state
+  const [lateEntryName, setLateEntryName] = useState('');
+  const [lateEntryRating, setLateEntryRating] = useState(1500);
+  const [lateEntryDivision, setLateEntryDivision] = useState('');
 
   // Sponsor management state
   const [isUploadingSponsor, setIsUploadingSponsor] = useState(false);
@@ -71,7 +86,7 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onBack, tournamentId }) => {
   const [tournamentPassword, setTournamentPassword] = useState('');
   const [publicSharingEnabled, setPublicSharingEnabled] = useState(true);
 
-  const { getAuditLogs } = useAuditLog();
+  const { getAuditLogs, logAction } = useAuditLog();
 
   useEffect(() => {
     loadData();
@@ -91,14 +106,9 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onBack, tournamentId }) => {
     try {
       setIsLoading(true);
       
-      // Load tournament
-      const { data: tournamentData, error: tournamentError } = await supabase
-        .from('tournaments')
-        .select('*')
-        .eq('id', tournamentId)
-        .single();
-
-      if (tournamentError) throw tournamentError;
+      // Load the tournament, from the offline snapshot if the server is unreachable
+      const snapshot = await loadTournamentSnapshot(tournamentId);
+      const tournamentData = snapshot.tournaments[0];
       setTournament(tournamentData);
       
       // Set sharing settings
@@ -106,24 +116,21 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onBack, tournamentId }) => {
       setTournamentPassword(tournamentData.password || '');
       setPublicSharingEnabled(tournamentData.public_sharing_enabled !== false);
 
-      // Load players
-      const { data: playersData, error: playersError } = await supabase
-        .from('players')
-        .select('*')
-        .eq('tournament_id', tournamentId)
-        .order('rating', { ascending: false });
+      // Players, including late entries added on this device
+      setPlayers([...snapshot.players].sort((a, b) => b.rating - a.rating));
 
-      if (playersError) throw playersError;
-      setPlayers(playersData);
+      // Divisions for late entries
+      setDivisions(snapshot.divisions);
+      setLateEntryDivision(prev => prev || snapshot.divisions[0]?.id || '');
 
-      // Load sponsors
+      // Load sponsors; they are only managed online
       const { data: sponsorsData, error: sponsorsError } = await supabase
         .from('sponsors')
         .select('*')
         .eq('tournament_id', tournamentId)
         .order('display_order');
 
-      if (sponsorsError && sponsorsError.code !== 'PGRST116') {
+      if (sponsorsError && sponsorsError.code !== 'PGRST116' && !isNetworkError(sponsorsError)) {
         throw sponsorsError;
       }
       setSponsors(sponsorsData || []);
@@ -138,43 +145,30 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onBack, tournamentId }) => {
 
   const loadRoundData = async () => {
     try {
-      // Load pairings with player details for selected round
-      const { data: pairingsData, error: pairingsError } = await supabase
-        .from('pairings')
-        .select(`
-          *,
-          player1:players!pairings_player1_id_fkey(id, name, rating),
-          player2:players!pairings_player2_id_fkey(id, name, rating)
-        `)
-        .eq('tournament_id', tournamentId)
-        .eq('round_number', selectedRound)
-        .order('table_number');
-
-      if (pairingsError) throw pairingsError;
-
-      // Load results for this round
-      const { data: resultsData, error: resultsError } = await supabase
-        .from('results')
-        .select('*')
-        .eq('round_number', selectedRound)
-        .in('pairing_id', pairingsData.map(p => p.id));
-
-      if (resultsError && resultsError.code !== 'PGRST116') {
-        throw resultsError;
-      }
-
-      // Combine pairings and results
-      const editableData: EditableResult[] = pairingsData.map(pairing => {
-        const result = resultsData?.find(r => r.pairing_id === pairing.id);
+      // Pairings of the selected round with their players, and their results
+      const snapshot = await loadTournamentSnapshot(tournamentId);
+      const pairingsData = getRoundPairings(snapshot, selectedRound);
+      const resultsData = snapshot.results.filter(r => r.round_number === selectedRound);
+
+      // Combine pairings and results; byes have no score to edit
+      const editableData: EditableResult[] = pairingsData.filter(pairing => !pairing.is_bye).map(pairing => {
+        const result = resultsData.find(r => r.pairing_id === pairing.id);
         
+        let forfeit: EditableResult['forfeit'] = 'none';
+        if (result?.is_forfeit) {
+          forfeit = result.winner_id === pairing.player1_id ? 'player2' :
+                    result.winner_id === pairing.player2_id ? 'player1' : 'both';
+        }
+
         return {
           id: result?.id,
-          pairingId: pairing.id,
+          pairingId: pairing.id!,
           tableNumber: pairing.table_number,
           player1: pairing.player1,
-          player2: pairing.player2,
+          player2: pairing.player2!,
           player1Score: result?.player1_score || 0,
           player2Score: result?.player2_score || 0,
+          forfeit,
           firstMovePlayerId: pairing.first_move_player_id,
           roundNumber: selectedRound,
           hasChanges: false
@@ -234,6 +228,14 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onBack, tournamentId }) => {
     ));
   };
 
+  const handleForfeitChange = (pairingId: string, forfeit: EditableResult['forfeit']) => {
+    setEditableResults(prev => prev.map(result => 
+      result.pairingId === pairingId 
+        ? { ...result, forfeit, hasChanges: true }
+        : result
+    ));
+  };
+
   const handleFirstMoveChange = (pairingId: string, playerId: string) => {
     setEditableResults(prev => prev.map(result => 
       result.pairingId === pairingId 
@@ -247,48 +249,70 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onBack, tournamentId }) => {
     setError(null);
 
     try {
-      // Update or insert result
-      const resultData = {
+      // Update or insert result; a forfeit has no scores, the spread comes from the tournament config
+      const isForfeit = result.forfeit !== 'none';
+      const resultData = isForfeit ? {
+        pairing_id: result.pairingId,
+        tournament_id: tournamentId,
+        round_number: result.roundNumber,
+        player1_score: 0,
+        player2_score: 0,
+        winner_id: result.forfeit === 'player1' ? result.player2.id :
+                   result.forfeit === 'player2' ? result.player1.id : null,
+        is_forfeit: true,
+        submitted_by: null
+      } : {
         pairing_id: result.pairingId,
+        tournament_id: tournamentId,
         round_number: result.roundNumber,
         player1_score: result.player1Score,
         player2_score: result.player2Score,
         winner_id: result.player1Score > result.player2Score ? result.player1.id :
                    result.player2Score > result.player1Score ? result.player2.id : null,
+        is_forfeit: false,
         submitted_by: null
       };
 
       if (result.id) {
         // Update existing result
-        const { error: updateError } = await supabase
-          .from('results')
-          .update(resultData)
-          .eq('id', result.id);
-
-        if (updateError) throw updateError;
+        await writeChange({
+          tournament_id: tournamentId,
+          table: 'results',
+          operation: 'update',
+          data: resultData,
+          match: { id: result.id }
+        });
       } else {
         // Insert new result
-        const { error: insertError } = await supabase
-          .from('results')
-          .insert([resultData]);
-
-        if (insertError) throw insertError;
+        await writeChange({
+          tournament_id: tournamentId,
+          table: 'results',
+          operation: 'insert',
+          data: [{ id: crypto.randomUUID(), ...resultData }]
+        });
       }
 
       // Update pairing first move if changed
-      const { error: pairingError } = await supabase
-        .from('pairings')
-        .update({ first_move_player_id: result.firstMovePlayerId })
-        .eq('id', result.pairingId);
-
-      if (pairingError) throw pairingError;
+      await writeChange({
+        tournament_id: tournamentId,
+        table: 'pairings',
+        operation: 'update',
+        data: { first_move_player_id: result.firstMovePlayerId },
+        match: { id: result.pairingId }
+      });
 
       // Reload round data
       await loadRoundData();
       
     } catch (err) {
       console.error('Error updating result:', err);
-      setError('Failed to update result');
+      if (isDuplicateRow(err)) {
+        // Another device entered the game meanwhile; show its result instead
+        await loadRoundData();
+        setError('This game was entered on another device meanwhile. Its result is now shown; check it and save again to correct it.');
+      } else {
+        setError('Failed to update result');
+      }
     } finally {
       setIsSaving(false);
     }
@@ -306,18 +330,20 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onBack, tournamentId }) => {
 
     try {
       // Delete result first (if exists)
-      await supabase
-        .from('results')
-        .delete()
-        .eq('pairing_id', pairingId);
+      await writeChange({
+        tournament_id: tournamentId,
+        table: 'results',
+        operation: 'delete',
+        match: { pairing_id: pairingId }
+      });
 
       // Delete pairing
-      const { error: pairingError } = await supabase
-        .from('pairings')
-        .delete()
-        .eq('id', pairingId);
-
-      if (pairingError) throw pairingError;
+      await writeChange({
+        tournament_id: tournamentId,
+        table: 'pairings',
+        operation: 'delete',
+        match: { id: pairingId }
+      });
 
       // Reload round data
       await loadRoundData();
@@ -342,13 +368,23 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onBack, tournamentId }) => {
     setError(null);
 
     try {
-      // Delete player (cascading deletes will handle pairings and results)
-      const { error: playerError } = await supabase
-        .from('players')
-        .delete()
-        .eq('id', playerId);
+      // Deleting a player who has been paired would take their opponents' games with them
+      const snapshot = await loadTournamentSnapshot(tournamentId);
+      const hasBeenPaired = snapshot.pairings.some(p => p.player1_id === playerId || p.player2_id === playerId);
+
+      if (hasBeenPaired) {
+        setError('This player has already been paired. Withdraw them instead of deleting.');
+        setDeleteConfirm(null);
+        return;
+      }
 
-      if (playerError) throw playerError;
+      // Delete player
+      await writeChange({
+        tournament_id: tournamentId,
+        table: 'players',
+        operation: 'delete',
+        match: { id: playerId }
+      });
 
       // Reload data
       await loadData();
@@ -368,15 +404,36 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onBack, tournamentId }) => {
     setError(null);
 
     try {
-      const { error: updateError } = await supabase
-        .from('players')
-        .update({
+      const previous = players.find(p => p.id === playerId);
+      const suspendedRound = editPlayerStatus === 'suspended' ? editSuspendedRound : null;
+
+      await writeChange({
+        tournament_id: tournamentId,
+        table: 'players',
+        operation: 'update',
+        data: {
           name: editPlayerName,
-          rating: editPlayerRating
-        })
-        .eq('id', playerId);
+          rating: editPlayerRating,
+          career_games: editCareerGames === '' ? null : Math.max(0, parseInt(editCareerGames) || 0),
+          fixed_table: parseInt(editFixedTable) > 0 ? parseInt(editFixedTable) : null,
+          status: editPlayerStatus,
+          suspended_round: suspendedRound
+        },
+        match: { id: playerId }
+      });
 
-      if (updateError) throw updateError;
+      if ((previous?.status || 'active') !== editPlayerStatus || previous?.suspended_round !== suspendedRound) {
+        logAction({
+          action: 'player_status_changed',
+          details: {
+            tournament_id: tournamentId,
+            player_id: playerId,
+            player_name: editPlayerName,
+            status: editPlayerStatus,
+            suspended_round: suspendedRound
+          }
+        });
+      }
 
       // Reload data
       await loadData();
@@ -391,6 +448,59 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onBack, tournamentId }) => {
     }
   };
 
+  const handleAddLateEntry = async () => {
+    if (!lateEntryName.trim()) {
+      setError('Player name is required');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const currentRound = tournament?.current_round || 1;
+      const divisionId = lateEntryDivision || null;
+
+      // If the current round is already paired, the entrant starts in the next one
+      const snapshot = await loadTournamentSnapshot(tournamentId);
+      const roundIsPaired = getRoundPairings(snapshot, currentRound, divisionId).length > 0;
+      const firstRound = roundIsPaired ? currentRound + 1 : currentRound;
+
+      await writeChange({
+        tournament_id: tournamentId,
+        table: 'players',
+        operation: 'insert',
+        data: [{
+          id: crypto.randomUUID(),
+          name: lateEntryName.trim(),
+          rating: lateEntryRating,
+          tournament_id: tournamentId,
+          division_id: divisionId,
+          late_entry_round: firstRound > 1 ? firstRound : null
+        }]
+      });
+
+      logAction({
+        action: 'late_entry_added',
+        details: {
+          tournament_id: tournamentId,
+          player_name: lateEntryName.trim(),
+          first_round: firstRound
+        }
+      });
+
+      setLateEntryName('');
+      setLateEntryRating(1500);
+      await loadData();
+      
+    } catch (err) {
+      console.error('Error adding late entry:', err);
+      setError('Failed to add late entry');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   const handleManualPairing = async () => {
     if (!manualPlayer1 || !manualPlayer2 || manualPlayer1 === manualPlayer2) {
       setError('Please select two different players');
@@ -413,9 +523,12 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onBack, tournamentId }) => {
       const player2Rank = players.findIndex(p => p.id === manualPlayer2) + 1;
 
       // Insert manual pairing
-      const { error: pairingError } = await supabase
-        .from('pairings')
-        .insert([{
+      await writeChange({
+        tournament_id: tournamentId,
+        table: 'pairings',
+        operation: 'insert',
+        data: [{
+          id: crypto.randomUUID(),
           round_number: manualRound,
           tournament_id: tournamentId,
           table_number: manualTable,
@@ -424,9 +537,8 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onBack, tournamentId }) => {
           player1_rank: player1Rank,
           player2_rank: player2Rank,
           first_move_player_id: manualFirstMove || manualPlayer1
-        }]);
-
-      if (pairingError) throw pairingError;
+        }]
+      });
 
       // Reset form
       setManualPlayer1('');
@@ -569,12 +681,13 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onBack, tournamentId }) => {
         updateData.password = null;
       }
 
-      const { error } = await supabase
-        .from('tournaments')
-        .update(updateData)
-        .eq('id', tournamentId);
-
-      if (error) throw error;
+      await writeChange({
+        tournament_id: tournamentId,
+        table: 'tournaments',
+        operation: 'update',
+        data: updateData,
+        match: { id: tournamentId }
+      });
 
       // Show success message
       const toast = document.createElement('div');
@@ -719,6 +832,18 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onBack, tournamentId }) => {
               Sponsors
             </button>
             
+            <button
+              onClick={() => setActiveTab('files')}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg font-jetbrains font-medium transition-all duration-200 ${
+                activeTab === 'files'
+                  ? 'bg-teal-600 text-white'
+                  : 'bg-gray-800/50 border border-gray-600/50 text-gray-400 hover:bg-gray-700/50 hover:text-white'
+              }`}
+            >
+              <Download size={16} />
+              TOU / tsh
+            </button>
+            
             <button
               onClick={() => setActiveTab('logs')}
               className={`flex items-center gap-2 px-4 py-2 rounded-lg font-jetbrains font-medium transition-all duration-200 ${
@@ -881,6 +1006,7 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onBack, tournamentId }) => {
                         <th className="px-4 py-3 text-center text-xs font-medium text-gray-300 uppercase tracking-wider font-jetbrains">Score</th>
                         <th className="px-4 py-3 text-center text-xs font-medium text-gray-300 uppercase tracking-wider font-jetbrains">Score</th>
                         <th className="px-4 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider font-jetbrains">Player 2</th>
+                        <th className="px-4 py-3 text-center text-xs font-medium text-gray-300 uppercase tracking-wider font-jetbrains">Forfeit</th>
                         <th className="px-4 py-3 text-center text-xs font-medium text-gray-300 uppercase tracking-wider font-jetbrains">First Move</th>
                         <th className="px-4 py-3 text-center text-xs font-medium text-gray-300 uppercase tracking-wider font-jetbrains">Actions</th>
                       </tr>
@@ -908,7 +1034,8 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onBack, tournamentId }) => {
                               max="9999"
                               value={result.player1Score}
                               onChange={(e) => handleScoreChange(result.pairingId, 'player1Score', parseInt(e.target.value) || 0)}
-                              className="w-20 px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white text-center font-mono focus:border-blue-500 focus:outline-none transition-colors duration-300"
+                              disabled={result.forfeit !== 'none'}
+                              className="w-20 px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white text-center font-mono focus:border-blue-500 focus:outline-none transition-colors duration-300 disabled:opacity-40"
                             />
                           </td>
                           
@@ -919,7 +1046,8 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onBack, tournamentId }) => {
                               max="9999"
                               value={result.player2Score}
                               onChange={(e) => handleScoreChange(result.pairingId, 'player2Score', parseInt(e.target.value) || 0)}
-                              className="w-20 px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white text-center font-mono focus:border-blue-500 focus:outline-none transition-colors duration-300"
+                              disabled={result.forfeit !== 'none'}
+                              className="w-20 px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white text-center font-mono focus:border-blue-500 focus:outline-none transition-colors duration-300 disabled:opacity-40"
                             />
                           </td>
                           
@@ -932,6 +1060,19 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onBack, tournamentId }) => {
                             </div>
                           </td>
                           
+                          <td className="px-4 py-4 text-center">
+                            <select
+                              value={result.forfeit}
+                              onChange={(e) => handleForfeitChange(result.pairingId, e.target.value as EditableResult['forfeit'])}
+                              className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-xs font-jetbrains focus:border-blue-500 focus:outline-none"
+                            >
+                              <option value="none">Played</option>
+                              <option value="player1">{result.player1.name} forfeits</option>
+                              <option value="player2">{result.player2.name} forfeits</option>
+                              <option value="both">Both forfeit</option>
+                            </select>
+                          </td>
+                          
                           <td className="px-4 py-4 text-center">
                             <select
                               value={result.firstMovePlayerId}
@@ -990,6 +1131,68 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onBack, tournamentId }) => {
                 <Users size={24} />
                 Player Manager
               </h2>
+
+              {/* Late Entry */}
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+                <div>
+                  <label className="block text-gray-300 text-sm font-medium mb-2 font-jetbrains">
+                    Late Entry Name
+                  </label>
+                  <input
+                    type="text"
+                    value={lateEntryName}
+                    onChange={(e) => setLateEntryName(e.target.value)}
+                    className="w-full bg-gray-800 border border-gray-600 rounded-lg px-4 py-3 text-white font-jetbrains focus:border-blue-500 focus:outline-none"
+                    placeholder="Player name"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-gray-300 text-sm font-medium mb-2 font-jetbrains">
+                    Rating
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="3000"
+                    value={lateEntryRating}
+                    onChange={(e) => setLateEntryRating(parseInt(e.target.value) || 0)}
+                    className="w-full bg-gray-800 border border-gray-600 rounded-lg px-4 py-3 text-white font-jetbrains focus:border-blue-500 focus:outline-none"
+                  />
+                </div>
+
+                {divisions.length > 1 ? (
+                  <div>
+                    <label className="block text-gray-300 text-sm font-medium mb-2 font-jetbrains">
+                      Division
+                    </label>
+                    <select
+                      value={lateEntryDivision}
+                      onChange={(e) => setLateEntryDivision(e.target.value)}
+                      className="w-full bg-gray-800 border border-gray-600 rounded-lg px-4 py-3 text-white font-jetbrains focus:border-blue-500 focus:outline-none"
+                    >
+                      {divisions.map(division => (
+                        <option key={division.id} value={division.id}>
+                          {division.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ) : (
+                  <div />
+                )}
+
+                <div className="flex items-end">
+                  <button
+                    onClick={handleAddLateEntry}
+                    disabled={isSaving || !lateEntryName.trim()}
+                    className="w-full px-4 py-3 bg-green-600 hover:bg-green-700 disabled:bg-gray-700 disabled:text-gray-500 text-white rounded-lg font-jetbrains font-medium transition-all duration-300 flex items-center justify-center gap-2"
+                  >
+                    <Plus size={16} />
+                    Add Late Entry
+                  </button>
+                </div>
+              </div>
               
               <div className="overflow-x-auto">
                 <table className="w-full">
@@ -1015,20 +1218,45 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onBack, tournamentId }) => {
                           ) : (
                             <div className="text-sm font-medium text-white">
                               {player.name}
+                              {player.fixed_table && (
+                                <span className="ml-2 px-2 py-0.5 bg-purple-600/20 text-purple-300 rounded text-xs font-jetbrains" title="Fixed table">
+                                  Table {player.fixed_table}
+                                </span>
+                              )}
                             </div>
                           )}
                         </td>
                         
                         <td className="px-4 py-4 text-center">
                           {editingPlayer === player.id ? (
-                            <input
-                              type="number"
-                              min="0"
-                              max="3000"
-                              value={editPlayerRating}
-                              onChange={(e) => setEditPlayerRating(parseInt(e.target.value) || 0)}
-                              className="w-20 px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white text-center font-mono focus:border-blue-500 focus:outline-none"
-                            />
+                            <div className="flex items-center justify-center gap-2">
+                              <input
+                                type="number"
+                                min="0"
+                                max="3000"
+                                value={editPlayerRating}
+                                onChange={(e) => setEditPlayerRating(parseInt(e.target.value) || 0)}
+                                className="w-20 px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white text-center font-mono focus:border-blue-500 focus:outline-none"
+                              />
+                              <input
+                                type="number"
+                                min="0"
+                                value={editCareerGames}
+                                onChange={(e) => setEditCareerGames(e.target.value)}
+                                placeholder="Games"
+                                title="Rated games played before this tournament"
+                                className="w-20 px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white text-center font-mono focus:border-blue-500 focus:outline-none"
+                              />
+                              <input
+                                type="number"
+                                min="1"
+                                value={editFixedTable}
+                                onChange={(e) => setEditFixedTable(e.target.value)}
+                                placeholder="Table"
+                                title="Fixed table, e.g. for mobility needs; leave empty to seat anywhere"
+                                className="w-20 px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white text-center font-mono focus:border-blue-500 focus:outline-none"
+                              />
+                            </div>
                           ) : (
                             <span className="text-sm text-gray-300 font-mono">
                               {player.rating}
@@ -1037,9 +1265,45 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onBack, tournamentId }) => {
                         </td>
                         
                         <td className="px-4 py-4 text-center">
-                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
-                            Active
-                          </span>
+                          {editingPlayer === player.id ? (
+                            <div className="flex items-center justify-center gap-2">
+                              <select
+                                value={editPlayerStatus}
+                                onChange={(e) => setEditPlayerStatus(e.target.value as PlayerStatus)}
+                                className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-xs font-jetbrains focus:border-blue-500 focus:outline-none"
+                              >
+                                {(Object.keys(PLAYER_STATUS_LABELS) as PlayerStatus[]).map(status => (
+                                  <option key={status} value={status}>{PLAYER_STATUS_LABELS[status]}</option>
+                                ))}
+                              </select>
+                              {editPlayerStatus === 'suspended' && (
+                                <input
+                                  type="number"
+                                  min="1"
+                                  max={maxRounds}
+                                  value={editSuspendedRound}
+                                  onChange={(e) => setEditSuspendedRound(parseInt(e.target.value) || 1)}
+                                  title="Round the player sits out"
+                                  className="w-16 px-2 py-1 bg-gray-800 border border-gray-600 rounded text-white text-center text-xs font-mono focus:border-blue-500 focus:outline-none"
+                                />
+                              )}
+                            </div>
+                          ) : (
+                            <div className="flex flex-col items-center gap-1">
+                              <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                                player.status === 'withdrawn' ? 'bg-red-100 text-red-800' :
+                                player.status === 'suspended' ? 'bg-yellow-100 text-yellow-800' :
+                                'bg-green-100 text-green-800'
+                              }`}>
+                                {describePlayerStatus(player)}
+                              </span>
+                              {player.late_entry_round && (
+                                <span className="text-xs text-gray-400 font-jetbrains">
+                                  Late entry from R{player.late_entry_round}
+                                </span>
+                              )}
+                            </div>
+                          )}
                         </td>
                         
                         <td className="px-4 py-4 text-center">
@@ -1068,6 +1332,10 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onBack, tournamentId }) => {
                                     setEditingPlayer(player.id!);
                                     setEditPlayerName(player.name);
                                     setEditPlayerRating(player.rating);
+                                    setEditCareerGames(player.career_games != null ? String(player.career_games) : '');
+                                    setEditFixedTable(player.fixed_table ? String(player.fixed_table) : '');
+                                    setEditPlayerStatus(player.status || 'active');
+                                    setEditSuspendedRound(player.suspended_round || tournament?.current_round || 1);
                                   }}
                                   className="px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded text-xs font-jetbrains transition-all duration-200 flex items-center gap-1"
                                 >
@@ -1348,6 +1616,19 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ onBack, tournamentId }) => {
         )}
 
         {/* Audit Logs */}
+        {/* TOU and tsh Files */}
+        {activeTab === 'files' && (
+          <div className="fade-up max-w-6xl mx-auto w-full mb-12">
+            <TournamentFilesPanel
+              tournamentId={tournamentId}
+              onImported={async () => {
+                await loadData();
+                await loadRoundData();
+              }}
+            />
+          </div>
+        )}
+
         {activeTab === 'logs' && (
           <div className="fade-up max-w-6xl mx-auto w-full mb-12">
             <div className="bg-gray-900/50 border border-gray-700 rounded-xl p-6 backdrop-blur-sm">
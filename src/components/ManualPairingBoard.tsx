@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { Users, Plus, ArrowLeftRight, AlertTriangle, GripVertical } from 'lucide-react';
+import { PairingDisplay, PlayerWithRank } from '../types/database';
+import { PairingIssue } from '../utils/pairingValidator';
+import { seatPlayer, unseatPlayer, toggleFirstMove, unpairedPlayers, SeatTarget } from '../utils/manualPairing';
+import { FirstMoveHistory } from '../utils/firstMove';
+
+interface ManualPairingBoardProps {
+  pairings: PairingDisplay[];
+  /** Players who can be paired this round */
+  players: PlayerWithRank[];
+  /** Validator findings for the current board, shown against their tables */
+  issues: PairingIssue[];
+  /** Earlier first moves, used to decide who starts at a changed table */
+  firstMoveHistory?: FirstMoveHistory;
+  onChange: (pairings: PairingDisplay[]) => void;
+}
+
+type DropZone = SeatTarget | 'unpaired';
+
+const ManualPairingBoard: React.FC<ManualPairingBoardProps> = ({ pairings, players, issues, firstMoveHistory, onChange }) => {
+  const [draggedPlayerId, setDraggedPlayerId] = useState<string | null>(null);
+  const [hoveredZone, setHoveredZone] = useState<string | null>(null);
+
+  const unpaired = unpairedPlayers(pairings, players);
+  const zoneKey = (zone: DropZone) => typeof zone === 'string' ? zone : `${zone.tableNumber}-${zone.side}`;
+
+  const handleDrop = (zone: DropZone) => {
+    const player = players.find(p => p.id === draggedPlayerId);
+    setDraggedPlayerId(null);
+    setHoveredZone(null);
+    if (!player) return;
+
+    onChange(zone === 'unpaired'
+      ? unseatPlayer(pairings, player.id!, firstMoveHistory)
+      : seatPlayer(pairings, player, zone, firstMoveHistory));
+  };
+
+  const dropTargetProps = (zone: DropZone) => ({
+    onDragOver: (e: React.DragEvent) => {
+      e.preventDefault();
+      setHoveredZone(zoneKey(zone));
+    },
+    onDragLeave: () => setHoveredZone(null),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      handleDrop(zone);
+    }
+  });
+
+  const playerChip = (player: PlayerWithRank, isFirst: boolean = false) => (
+    <div
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.setData('text/plain', player.id!);
+        e.dataTransfer.effectAllowed = 'move';
+        setDraggedPlayerId(player.id!);
+      }}
+      onDragEnd={() => {
+        setDraggedPlayerId(null);
+        setHoveredZone(null);
+      }}
+      className={`flex items-center gap-2 px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg cursor-grab active:cursor-grabbing hover:border-blue-500/50 transition-all duration-200 ${
+        draggedPlayerId === player.id ? 'opacity-50' : ''
+      }`}
+    >
+      <GripVertical size={14} className="text-gray-500 flex-shrink-0" />
+      {isFirst && <div className="w-3 h-3 bg-green-500 rounded-full flex-shrink-0" title="Moves first"></div>}
+      <div className="min-w-0">
+        <div className="text-sm font-medium text-white truncate">{player.name}</div>
+        <div className="text-xs text-gray-400 font-jetbrains">
+          {player.rank > 0 && `#${player.rank} • `}{player.rating} • {player.points}pts
+        </div>
+      </div>
+    </div>
+  );
+
+  const seat = (pairing: PairingDisplay, side: 1 | 2) => {
+    const target: SeatTarget = { tableNumber: pairing.table_number, side };
+    const player = side === 1 ? pairing.player1 : pairing.player2;
+    return (
+      <div
+        {...dropTargetProps(target)}
+        className={`flex-1 min-h-[60px] rounded-lg border-2 border-dashed p-1 transition-all duration-200 ${
+          hoveredZone === zoneKey(target) ? 'border-blue-500 bg-blue-500/10' : 'border-transparent'
+        }`}
+      >
+        {player ? playerChip(player, pairing.player2 !== null && pairing.first_move_player_id === player.id) : (
+          <div className="h-full min-h-[52px] flex items-center justify-center text-xs text-gray-500 font-jetbrains">
+            BYE — drop a player to pair
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {/* Unpaired Players */}
+      <div
+        {...dropTargetProps('unpaired')}
+        className={`bg-gray-900/50 border rounded-xl p-4 transition-all duration-200 ${
+          hoveredZone === 'unpaired' ? 'border-blue-500' : 'border-gray-700'
+        }`}
+      >
+        <h3 className="text-lg font-bold text-white font-orbitron mb-3 flex items-center gap-2">
+          <Users size={20} />
+          Unpaired ({unpaired.length})
+        </h3>
+        <p className="text-xs text-gray-400 font-jetbrains mb-3">
+          Drag players onto a table, or back here to unseat them.
+        </p>
+        <div className="space-y-2">
+          {unpaired.map(player => (
+            <div key={player.id}>{playerChip(player)}</div>
+          ))}
+          {unpaired.length === 0 && (
+            <div className="text-center py-6 text-sm text-gray-500 font-jetbrains">Everyone is seated</div>
+          )}
+        </div>
+      </div>
+
+      {/* Tables */}
+      <div className="lg:col-span-2 space-y-3">
+        {pairings.map(pairing => {
+          const tableIssues = issues.filter(issue => issue.tableNumber === pairing.table_number);
+          const hasError = tableIssues.some(issue => issue.severity === 'error');
+          return (
+            <div
+              key={pairing.table_number}
+              className={`bg-gray-900/50 border rounded-xl p-3 ${
+                hasError ? 'border-red-500/50' : tableIssues.length > 0 ? 'border-yellow-500/50' : 'border-gray-700'
+              }`}
+            >
+              <div className="flex items-center gap-3">
+                <span className="w-10 text-center text-sm text-white font-mono font-bold flex-shrink-0">
+                  {pairing.table_number}
+                </span>
+                {seat(pairing, 1)}
+                <span className="text-gray-500 font-bold text-xs flex-shrink-0">VS</span>
+                {seat(pairing, 2)}
+                <button
+                  onClick={() => onChange(toggleFirstMove(pairings, pairing.table_number))}
+                  disabled={!pairing.player2}
+                  title="Swap who moves first"
+                  className="p-2 text-gray-400 hover:text-green-400 disabled:opacity-30 disabled:hover:text-gray-400 transition-colors duration-200 flex-shrink-0"
+                >
+                  <ArrowLeftRight size={16} />
+                </button>
+              </div>
+              {tableIssues.length > 0 && (
+                <div className={`mt-2 ml-12 space-y-1 text-xs font-jetbrains ${hasError ? 'text-red-300' : 'text-yellow-300'}`}>
+                  {tableIssues.map((issue, index) => (
+                    <div key={index} className="flex items-center gap-1">
+                      <AlertTriangle size={12} className="flex-shrink-0" />
+                      {issue.message.replace(/^Table \d+: /, '')}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {/* New Table */}
+        <div
+          {...dropTargetProps('new')}
+          className={`flex items-center justify-center gap-2 p-4 border-2 border-dashed rounded-xl text-sm font-jetbrains transition-all duration-200 ${
+            hoveredZone === 'new' ? 'border-blue-500 bg-blue-500/10 text-blue-300' : 'border-gray-700 text-gray-500'
+          }`}
+        >
+          <Plus size={16} />
+          Drop a player here to open a new table
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ManualPairingBoard;
@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { WifiOff, RefreshCw, AlertTriangle } from 'lucide-react';
+import { useOfflineMode } from '../hooks/useOfflineMode';
+import SyncConflictsModal from './SyncConflictsModal';
+
+/**
+ * Header badge for director screens: shown while offline or while changes
+ * made offline are waiting to reach the server, with a button to review
+ * any the sync has held back.
+ */
+const OfflineStatus: React.FC = () => {
+  const { isOnline, pendingChanges, attentionCount, isSyncing, syncPendingChanges, resolvePendingChange } = useOfflineMode();
+  const [showConflicts, setShowConflicts] = useState(false);
+  const waiting = pendingChanges.length - attentionCount;
+
+  if (isOnline && pendingChanges.length === 0) return null;
+
+  const changeCount = `${waiting} change${waiting === 1 ? '' : 's'}`;
+
+  return (
+    <div className="flex items-center gap-2">
+      {attentionCount > 0 && (
+        <button
+          onClick={() => setShowConflicts(true)}
+          title="Review changes the sync could not send"
+          className="px-4 py-2 bg-red-600/30 border border-red-500/50 text-red-200 rounded-lg font-jetbrains text-sm flex items-center gap-2 hover:bg-red-600/40 transition-colors duration-200"
+        >
+          <AlertTriangle size={16} />
+          {attentionCount} need{attentionCount === 1 ? 's' : ''} attention
+        </button>
+      )}
+
+      {!isOnline ? (
+        <div className="px-4 py-2 bg-yellow-600/80 text-yellow-200 rounded-lg font-jetbrains text-sm flex items-center gap-2">
+          <WifiOff size={16} />
+          {waiting > 0 ? `Offline – ${changeCount} waiting to sync` : 'Offline – showing saved data'}
+        </div>
+      ) : waiting > 0 && (
+        <button
+          onClick={syncPendingChanges}
+          disabled={isSyncing}
+          title="Send waiting changes to the server now"
+          className="px-4 py-2 bg-blue-600/30 border border-blue-500/50 text-blue-200 rounded-lg font-jetbrains text-sm flex items-center gap-2 hover:bg-blue-600/40 disabled:opacity-70 transition-colors duration-200"
+        >
+          <RefreshCw size={16} className={isSyncing ? 'animate-spin' : ''} />
+          {isSyncing ? `Syncing ${changeCount}…` : `${changeCount} waiting to sync`}
+        </button>
+      )}
+
+      <SyncConflictsModal
+        isOpen={showConflicts}
+        onClose={() => setShowConflicts(false)}
+        changes={pendingChanges}
+        onResolve={resolvePendingChange}
+      />
+    </div>
+  );
+};
+
+export default OfflineStatus;
@@ -2,6 +2,8 @@ import React, { useState, useEffect } from 'react';
 import { X, Download, Trophy, Target, TrendingUp, Calendar, Users, Medal } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { Player, Result, Pairing } from '../types/database';
+import { computeStandings, splitJoinedResults, getStandingsOptions } from '../utils/standings';
+import { calculateRatingChanges, formatRatingChange, RatingChange } from '../utils/ratings';
 
 interface PlayerDetailsModalProps {
   isOpen: boolean;
@@ -38,6 +40,9 @@ interface PlayerStats {
   winPercentage: number;
   currentRank: number;
   games: PlayerGame[];
+  ratingChange: RatingChange | null;
+  /** Ratings are final once the tournament is completed */
+  ratingsFinal: boolean;
 }
 
 const PlayerDetailsModal: React.FC<PlayerDetailsModalProps> = ({
@@ -154,22 +159,49 @@ const PlayerDetailsModal: React.FC<PlayerDetailsModalProps> = ({
       // Sort games by round
       games.sort((a, b) => a.round - b.round);
 
-      // Calculate current rank by getting all players and their standings
-      const { data: allPlayersData, error: playersError } = await supabase
+      // Calculate current rank within the player's division
+      let playersQuery = supabase
         .from('players')
         .select('*')
-        .eq('tournament_id', tournamentId)
+        .eq('tournament_id', tournamentId);
+
+      if (playerData.division_id) {
+        playersQuery = playersQuery.eq('division_id', playerData.division_id);
+      }
+
+      const { data: allPlayersData, error: playersError } = await playersQuery
         .order('rating', { ascending: false });
 
       if (playersError) throw playersError;
 
-      // Calculate standings for ranking
-      const standings = await calculatePlayerStandings(allPlayersData || [], tournamentId);
-      const currentRank = standings.findIndex(s => s.id === playerId) + 1;
+      // Rank with the tournament's tiebreak chain
+      const { data: tournamentData } = await supabase
+        .from('tournaments')
+        .select('tournament_config, status')
+        .eq('id', tournamentId)
+        .single();
+
+      // Byes have no result row, so load them separately
+      const { data: byePairings, error: byesError } = await supabase
+        .from('pairings')
+        .select('id, player1_id, player2_id, round_number, is_bye')
+        .eq('tournament_id', tournamentId)
+        .eq('is_bye', true);
+
+      if (byesError) throw byesError;
+
+      const { pairings, results } = splitJoinedResults(resultsData || []);
+      const standings = computeStandings(allPlayersData || [], [...pairings, ...(byePairings || [])], results,
+        getStandingsOptions(tournamentData?.tournament_config)
+      );
+      const playerStanding = standings.find(s => s.id === playerId);
+      const ratingChanges = calculateRatingChanges(allPlayersData || [], pairings, results);
+      const currentRank = playerStanding?.rank || 0;
 
       const totalGames = games.length;
-      const points = wins + (draws * 0.5);
-      const totalSpread = totalPlayerScore - totalOpponentScore;
+      const points = playerStanding?.points ?? wins + (draws * 0.5);
+      // Standings include the bye award; the game list does not
+      const totalSpread = playerStanding?.spread ?? totalPlayerScore - totalOpponentScore;
       const averageScore = totalGames > 0 ? totalPlayerScore / totalGames : 0;
       const averageOpponentScore = totalGames > 0 ? totalOpponentScore / totalGames : 0;
       const winPercentage = totalGames > 0 ? (wins / totalGames) * 100 : 0;
@@ -177,9 +209,9 @@ const PlayerDetailsModal: React.FC<PlayerDetailsModalProps> = ({
       setPlayerStats({
         player: playerData,
         totalGames,
-        wins,
-        losses,
-        draws,
+        wins: playerStanding?.wins ?? wins,
+        losses: playerStanding?.losses ?? losses,
+        draws: playerStanding?.draws ?? draws,
         points,
         totalSpread,
         averageScore,
@@ -187,7 +219,9 @@ const PlayerDetailsModal: React.FC<PlayerDetailsModalProps> = ({
         firstMoveGames,
         winPercentage,
         currentRank,
-        games
+        games,
+        ratingChange: ratingChanges.get(playerId) || null,
+        ratingsFinal: tournamentData?.status === 'completed'
       });
 
     } catch (err) {
@@ -198,72 +232,6 @@ const PlayerDetailsModal: React.FC<PlayerDetailsModalProps> = ({
     }
   };
 
-  const calculatePlayerStandings = async (players: Player[], tournamentId: string) => {
-    // Load all results for ranking calculation
-    const { data: allResults } = await supabase
-      .from('results')
-      .select(`
-        *,
-        pairing:pairings!results_pairing_id_fkey(
-          player1_id,
-          player2_id,
-          round_number
-        )
-      `)
-      .eq('pairing.tournament_id', tournamentId);
-
-    const standings = players.map(player => {
-      let wins = 0;
-      let losses = 0;
-      let draws = 0;
-      let pointsFor = 0;
-      let pointsAgainst = 0;
-
-      for (const result of allResults || []) {
-        const pairing = result.pairing;
-        if (!pairing) continue;
-
-        const isPlayer1 = pairing.player1_id === player.id;
-        const isPlayer2 = pairing.player2_id === player.id;
-
-        if (!isPlayer1 && !isPlayer2) continue;
-
-        const playerScore = isPlayer1 ? result.player1_score : result.player2_score;
-        const opponentScore = isPlayer1 ? result.player2_score : result.player1_score;
-
-        pointsFor += playerScore;
-        pointsAgainst += opponentScore;
-
-        if (playerScore > opponentScore) {
-          wins++;
-        } else if (playerScore < opponentScore) {
-          losses++;
-        } else {
-          draws++;
-        }
-      }
-
-      const points = wins + (draws * 0.5);
-      const spread = pointsFor - pointsAgainst;
-
-      return {
-        id: player.id!,
-        points,
-        spread,
-        rating: player.rating
-      };
-    });
-
-    // Sort by points, then spread, then rating
-    standings.sort((a, b) => {
-      if (a.points !== b.points) return b.points - a.points;
-      if (a.spread !== b.spread) return b.spread - a.spread;
-      return b.rating - a.rating;
-    });
-
-    return standings;
-  };
-
   const exportPlayerSummary = (format: 'csv' | 'pdf') => {
     if (!playerStats) return;
 
@@ -284,6 +252,7 @@ const PlayerDetailsModal: React.FC<PlayerDetailsModalProps> = ({
       const csvContent = [
         [`Player Summary: ${playerStats.player.name}`],
         [`Rating: ${playerStats.player.rating}`],
+        ...(playerStats.ratingChange ? [[`New Rating: ${playerStats.ratingChange.newRating} (${formatRatingChange(playerStats.ratingChange.change)})`]] : []),
         [`Record: ${playerStats.wins}-${playerStats.losses}-${playerStats.draws}`],
         [`Total Spread: ${playerStats.totalSpread}`],
         [`Win Percentage: ${playerStats.winPercentage.toFixed(1)}%`],
@@ -439,6 +408,58 @@ const PlayerDetailsModal: React.FC<PlayerDetailsModalProps> = ({
                 </div>
               </div>
 
+              {/* Rating Change */}
+              {playerStats.ratingChange && (
+                <div className="bg-gray-900/50 border border-gray-700 rounded-xl p-6">
+                  <div className="flex items-center justify-between mb-4">
+                    <h4 className="text-xl font-bold text-white font-orbitron flex items-center gap-2">
+                      <TrendingUp size={24} />
+                      {playerStats.ratingsFinal ? 'Rating Change' : 'Projected Rating Change'}
+                    </h4>
+                    <div className="text-lg font-jetbrains text-gray-300">
+                      {playerStats.ratingChange.unrated ? 'Unrated' : playerStats.ratingChange.oldRating}
+                      {' → '}
+                      <span className="text-white font-bold">{playerStats.ratingChange.newRating}</span>
+                      {!playerStats.ratingChange.unrated && (
+                        <span className={`ml-2 font-mono ${
+                          playerStats.ratingChange.change > 0 ? 'text-green-400' :
+                          playerStats.ratingChange.change < 0 ? 'text-red-400' : 'text-gray-400'
+                        }`}>
+                          ({formatRatingChange(playerStats.ratingChange.change)})
+                        </span>
+                      )}
+                    </div>
+                  </div>
+
+                  {playerStats.ratingChange.unrated ? (
+                    <p className="text-sm text-gray-400 font-jetbrains">
+                      First rating is the performance rating over {playerStats.ratingChange.games.length} games against rated opponents.
+                    </p>
+                  ) : (
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+                      <div>
+                        <div className="text-xl font-bold text-white font-orbitron">{playerStats.ratingChange.actualWins}</div>
+                        <div className="text-xs text-gray-400 font-jetbrains">Actual Wins</div>
+                      </div>
+                      <div>
+                        <div className="text-xl font-bold text-white font-orbitron">{playerStats.ratingChange.expectedWins.toFixed(2)}</div>
+                        <div className="text-xs text-gray-400 font-jetbrains">Expected Wins</div>
+                      </div>
+                      <div>
+                        <div className="text-xl font-bold text-white font-orbitron">{playerStats.ratingChange.kFactor}</div>
+                        <div className="text-xs text-gray-400 font-jetbrains">
+                          K-Factor{playerStats.ratingChange.provisional ? ' (provisional)' : ''}
+                        </div>
+                      </div>
+                      <div>
+                        <div className="text-xl font-bold text-white font-orbitron">{playerStats.ratingChange.games.length}</div>
+                        <div className="text-xs text-gray-400 font-jetbrains">Rated Games</div>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Export Buttons */}
               <div className="flex items-center justify-center gap-4">
                 <button
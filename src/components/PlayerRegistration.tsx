@@ -8,7 +8,9 @@ import TeamManager from './TeamManager';
 import TeamScheduleModal from './TeamScheduleModal';
 import { parsePlayerInput } from '../utils/playerParser';
 import { generateTeamRoundRobinPairings } from '../utils/teamPairingAlgorithms';
+import { FirstMoveGame } from '../utils/firstMove';
 import { supabase } from '../lib/supabase';
+import { loadTournamentSnapshot, writeChange } from '../lib/offlineRepository';
 import { ParsedPlayer, Player, Tournament, Division, Team } from '../types/database';
 
 interface PlayerRegistrationProps {
@@ -69,14 +71,9 @@ James Rodriguez, 1856`;
     try {
       setIsLoading(true);
       
-      // Load tournament
-      const { data: tournamentData, error: tournamentError } = await supabase
-        .from('tournaments')
-        .select('*')
-        .eq('id', tournamentId)
-        .single();
-
-      if (tournamentError) throw tournamentError;
+      // Load the tournament, from the offline snapshot if the server is unreachable
+      const snapshot = await loadTournamentSnapshot(tournamentId);
+      const tournamentData = snapshot.tournaments[0];
       setTournament(tournamentData);
 
       // Generate public URL using slug if available
@@ -87,48 +84,32 @@ James Rodriguez, 1856`;
       }
 
       // Load divisions if they exist
-      const { data: divisionsData, error: divisionsError } = await supabase
-        .from('divisions')
-        .select('*')
-        .eq('tournament_id', tournamentId)
-        .order('division_number');
-
-      if (divisionsError && divisionsError.code !== 'PGRST116') {
-        throw divisionsError;
-      }
+      const divisionsData = snapshot.divisions;
 
       // If no divisions found or only 1 division configured, create a default division
-      if (!divisionsData || divisionsData.length === 0) {
-        if (tournamentData.divisions && tournamentData.divisions > 1) {
-          // Create default divisions
-          const defaultDivisions = Array.from({ length: tournamentData.divisions }, (_,i) => ({
-            tournament_id: tournamentId,
-            name: `Division ${i + 1}`,
-            division_number: i + 1
-          }));
-
-          const { data: createdDivisions, error: createError } = await supabase
-            .from('divisions')
-            .insert(defaultDivisions)
-            .select();
-
-          if (createError) throw createError;
-          setDivisions(createdDivisions || []);
-        } else {
+      if (divisionsData.length === 0) {
+        const defaultDivisions: Division[] = tournamentData.divisions && tournamentData.divisions > 1
+          ? Array.from({ length: tournamentData.divisions }, (_, i) => ({
+              id: crypto.randomUUID(),
+              tournament_id: tournamentId,
+              name: `Division ${i + 1}`,
+              division_number: i + 1
+            }))
           // Single division tournament - create one default division
-          const { data: singleDivision, error: singleError } = await supabase
-            .from('divisions')
-            .insert([{
+          : [{
+              id: crypto.randomUUID(),
               tournament_id: tournamentId,
               name: 'Main Division',
               division_number: 1
-            }])
-            .select()
-            .single();
-
-          if (singleError) throw singleError;
-          setDivisions([singleDivision]);
-        }
+            }];
+
+        await writeChange({
+          tournament_id: tournamentId,
+          table: 'divisions',
+          operation: 'insert',
+          data: defaultDivisions
+        });
+        setDivisions(defaultDivisions);
       } else {
         setDivisions(divisionsData);
       }
@@ -216,20 +197,21 @@ James Rodriguez, 1856`;
     setError(null);
 
     try {
-      const playersToInsert: Omit<Player, 'id' | 'created_at'>[] = validPlayers.map(player => ({
+      const playersToInsert: Omit<Player, 'created_at'>[] = validPlayers.map(player => ({
+        id: crypto.randomUUID(),
         name: player.name,
         rating: player.rating,
         tournament_id: tournamentId,
-        team_name: isTeamMode ? player.team_name : undefined
+        team_name: isTeamMode ? player.team_name : undefined,
+        division_id: currentDivision.id
       }));
 
-      const { error: insertError } = await supabase
-        .from('players')
-        .insert(playersToInsert);
-
-      if (insertError) {
-        throw insertError;
-      }
+      await writeChange({
+        tournament_id: tournamentId,
+        table: 'players',
+        operation: 'insert',
+        data: playersToInsert
+      });
 
       // Mark this division as completed
       setCompletedDivisions(prev => new Set([...prev, currentDivisionIndex]));
@@ -305,16 +287,11 @@ James Rodriguez, 1856`;
     
     try {
       // Get all players
-      const { data: playersData, error: playersError } = await supabase
-        .from('players')
-        .select('*')
-        .eq('tournament_id', tournamentId);
-        
-      if (playersError) throw playersError;
+      const { players: playersData } = await loadTournamentSnapshot(tournamentId);
       
       // Group players by team
       const teamMap = new Map<string, Player[]>();
-      playersData?.forEach(player => {
+      playersData.forEach(player => {
         if (!player.team_name) return;
         
         if (!teamMap.has(player.team_name)) {
@@ -334,16 +311,20 @@ James Rodriguez, 1856`;
       
       // Update tournament rounds if needed
       if (tournament && tournament.rounds !== totalRounds) {
-        await supabase
-          .from('tournaments')
-          .update({ rounds: totalRounds })
-          .eq('id', tournamentId);
+        await writeChange({
+          tournament_id: tournamentId,
+          table: 'tournaments',
+          operation: 'update',
+          data: { rounds: totalRounds },
+          match: { id: tournamentId }
+        });
       }
       
-      // Generate round-robin schedule for teams
+      // Generate round-robin schedule for teams, balancing starts across rounds
+      const scheduledGames: FirstMoveGame[] = [];
       for (let round = 1; round <= totalRounds; round++) {
         // Generate pairings for this round
-        const playersWithRank = playersData?.map(player => ({
+        const playersWithRank = playersData.map(player => ({
           ...player,
           rank: 0,
           previous_starts: 0,
@@ -353,34 +334,40 @@ James Rodriguez, 1856`;
           points: 0,
           spread: 0,
           is_gibsonized: false
-        })) || [];
+        }));
         
         const { pairings } = generateTeamRoundRobinPairings(
           playersWithRank,
           round,
-          []
+          [],
+          scheduledGames
         );
         
         // Insert pairings into database
         if (pairings.length > 0) {
-          const pairingsToInsert = pairings.map((pairing, index) => ({
+          const pairingsToInsert = pairings.map(pairing => ({
+            id: crypto.randomUUID(),
             round_number: round,
             tournament_id: tournamentId,
+            division_id: pairing.player1.division_id || null,
             table_number: pairing.table_number,
             player1_id: pairing.player1.id!,
-            player2_id: pairing.player2.id!,
+            player2_id: pairing.player2?.id || null,
             player1_rank: pairing.player1.rank,
-            player2_rank: pairing.player2.rank,
+            player2_rank: pairing.player2?.rank ?? null,
             first_move_player_id: pairing.first_move_player_id,
+            is_bye: !pairing.player2,
             player1_gibsonized: false,
             player2_gibsonized: false
           }));
           
-          const { error: pairingError } = await supabase
-            .from('pairings')
-            .insert(pairingsToInsert);
-            
-          if (pairingError) throw pairingError;
+          await writeChange({
+            tournament_id: tournamentId,
+            table: 'pairings',
+            operation: 'insert',
+            data: pairingsToInsert
+          });
+          scheduledGames.push(...pairingsToInsert);
         }
       }
       
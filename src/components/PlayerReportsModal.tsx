@@ -0,0 +1,391 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { X, AlertTriangle, Check, Trash2, Save, Unlock } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { loadTournamentSnapshot, writeChange, isDuplicateRow, OfflineData } from '../lib/offlineRepository';
+import { useAuditLog } from '../hooks/useAuditLog';
+import { ResultSubmission, Result, PlayerReportPin } from '../types/database';
+
+interface PlayerReportsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  tournamentId: string;
+  onResolved: () => void;
+}
+
+interface DisputedGame {
+  pairingId: string;
+  submissions: ResultSubmission[];
+}
+
+/**
+ * Games whose players reported different scores. The director accepts one
+ * player's report or enters the score, which goes into `results` like any
+ * other entry; dismissing clears both reports so the players can report again.
+ * Players locked out after too many wrong PINs are listed for unlocking.
+ */
+const PlayerReportsModal: React.FC<PlayerReportsModalProps> = ({
+  isOpen,
+  onClose,
+  tournamentId,
+  onResolved
+}) => {
+  const [games, setGames] = useState<DisputedGame[]>([]);
+  const [lockedPins, setLockedPins] = useState<PlayerReportPin[]>([]);
+  const [snapshot, setSnapshot] = useState<OfflineData | null>(null);
+  const [customScores, setCustomScores] = useState<Record<string, { player1: number | ''; player2: number | '' }>>({});
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { logAction } = useAuditLog();
+
+  const loadReports = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const [tournamentSnapshot, { data, error: reportsError }, { data: pinsData, error: pinsError }] = await Promise.all([
+        loadTournamentSnapshot(tournamentId),
+        supabase
+          .from('result_submissions')
+          .select('*')
+          .eq('tournament_id', tournamentId)
+          .eq('status', 'disputed')
+          .order('created_at'),
+        supabase
+          .from('player_report_pins')
+          .select('player_id, tournament_id, failed_attempts, locked_until')
+          .eq('tournament_id', tournamentId)
+          .gt('locked_until', new Date().toISOString())
+      ]);
+
+      if (reportsError) throw reportsError;
+      if (pinsError) throw pinsError;
+
+      const byPairing = new Map<string, ResultSubmission[]>();
+      ((data || []) as ResultSubmission[]).forEach(submission => {
+        byPairing.set(submission.pairing_id, [...(byPairing.get(submission.pairing_id) || []), submission]);
+      });
+
+      setSnapshot(tournamentSnapshot);
+      setLockedPins((pinsData || []) as PlayerReportPin[]);
+      setGames(Array.from(byPairing, ([pairingId, submissions]) => ({ pairingId, submissions })));
+    } catch (err) {
+      console.error('Error loading player reports:', err);
+      setError(navigator.onLine ? 'Failed to load player reports' : 'Connect to the internet to review player reports');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [tournamentId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadReports();
+    }
+  }, [isOpen, loadReports]);
+
+  const playerName = (playerId?: string | null) =>
+    snapshot?.players.find(player => player.id === playerId)?.name || 'Unknown';
+
+  const acceptScore = async (game: DisputedGame, player1Score: number, player2Score: number) => {
+    const pairing = snapshot?.pairings.find(p => p.id === game.pairingId);
+    if (!pairing) return;
+
+    setResolvingId(game.pairingId);
+    setError(null);
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      const entry = {
+        player1_score: player1Score,
+        player2_score: player2Score,
+        winner_id: player1Score > player2Score
+          ? pairing.player1_id
+          : player2Score > player1Score ? pairing.player2_id : null,
+        submitted_by: session?.user.id || null,
+        entered_by: 'Director review'
+      };
+
+      // A scorekeeper may have entered the game meanwhile
+      const existingResult = snapshot?.results.find(r => r.pairing_id === game.pairingId);
+      if (existingResult) {
+        await writeChange({
+          tournament_id: tournamentId,
+          table: 'results',
+          operation: 'update',
+          data: entry,
+          match: { id: existingResult.id! }
+        });
+      } else {
+        const result: Result = {
+          id: crypto.randomUUID(),
+          pairing_id: game.pairingId,
+          tournament_id: tournamentId,
+          round_number: pairing.round_number,
+          ...entry
+        };
+        await writeChange({
+          tournament_id: tournamentId,
+          table: 'results',
+          operation: 'insert',
+          data: [result]
+        });
+      }
+
+      const { error: updateError } = await supabase
+        .from('result_submissions')
+        .update({ status: 'resolved' })
+        .eq('pairing_id', game.pairingId);
+
+      if (updateError) throw updateError;
+
+      // Log resolution
+      logAction({
+        action: 'player_report_resolved',
+        details: {
+          tournament_id: tournamentId,
+          pairing_id: game.pairingId,
+          round: pairing.round_number,
+          player1_score: player1Score,
+          player2_score: player2Score
+        }
+      });
+
+      setGames(prev => prev.filter(g => g.pairingId !== game.pairingId));
+      onResolved();
+    } catch (err) {
+      console.error('Error resolving player report:', err);
+      if (isDuplicateRow(err)) {
+        // A scorekeeper entered the game after the reports were loaded
+        await loadReports();
+        setError('A scorekeeper has entered this game meanwhile. Accept again to replace their score with this one.');
+      } else {
+        setError('Failed to save the result. Please try again.');
+      }
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const dismissReports = async (game: DisputedGame) => {
+    setResolvingId(game.pairingId);
+    setError(null);
+
+    try {
+      const { error: deleteError } = await supabase
+        .from('result_submissions')
+        .delete()
+        .eq('pairing_id', game.pairingId);
+
+      if (deleteError) throw deleteError;
+
+      // Log dismissal
+      logAction({
+        action: 'player_report_dismissed',
+        details: {
+          tournament_id: tournamentId,
+          pairing_id: game.pairingId
+        }
+      });
+
+      setGames(prev => prev.filter(g => g.pairingId !== game.pairingId));
+      onResolved();
+    } catch (err) {
+      console.error('Error dismissing player reports:', err);
+      setError('Failed to dismiss the reports. Please try again.');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const unlockPin = async (playerId: string) => {
+    setResolvingId(playerId);
+    setError(null);
+
+    try {
+      const { error: unlockError } = await supabase
+        .from('player_report_pins')
+        .update({ failed_attempts: 0, locked_until: null })
+        .eq('player_id', playerId);
+
+      if (unlockError) throw unlockError;
+
+      // Log unlock
+      logAction({
+        action: 'player_pin_unlocked',
+        details: {
+          tournament_id: tournamentId,
+          player_id: playerId
+        }
+      });
+
+      setLockedPins(prev => prev.filter(pin => pin.player_id !== playerId));
+      onResolved();
+    } catch (err) {
+      console.error('Error unlocking player PIN:', err);
+      setError('Failed to unlock the PIN. Please try again.');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/80 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="relative w-full max-w-3xl max-h-[90vh] flex flex-col bg-gray-900/95 backdrop-blur-lg border-2 border-yellow-500/50 rounded-2xl shadow-2xl overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b-2 border-yellow-500/30 bg-gradient-to-r from-yellow-900/30 to-orange-900/30">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 bg-gradient-to-r from-yellow-500 to-orange-500 rounded-lg flex items-center justify-center">
+              <AlertTriangle className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-white font-orbitron">
+                Player Reports to Review
+              </h2>
+              <p className="text-yellow-300 font-jetbrains">
+                Games where the players reported different scores
+              </p>
+            </div>
+          </div>
+
+          <button
+            onClick={onClose}
+            className="w-10 h-10 flex items-center justify-center rounded-lg text-gray-400 hover:text-white hover:bg-gray-800 transition-all duration-200"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 overflow-y-auto space-y-4">
+          {error && (
+            <div className="bg-red-900/30 border border-red-500/50 rounded-lg p-4 text-red-300 font-jetbrains text-sm">
+              {error}
+            </div>
+          )}
+
+          {!isLoading && lockedPins.map(lockedPin => (
+            <div key={lockedPin.player_id} className="flex items-center justify-between gap-3 bg-red-900/20 border border-red-500/40 rounded-xl px-5 py-4">
+              <p className="text-red-200 font-jetbrains text-sm">
+                {playerName(lockedPin.player_id)} is locked out after too many wrong PINs
+                {lockedPin.locked_until && ` until ${new Date(lockedPin.locked_until).toLocaleTimeString()}`}
+              </p>
+              <button
+                onClick={() => unlockPin(lockedPin.player_id)}
+                disabled={resolvingId === lockedPin.player_id}
+                className="flex items-center gap-2 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white rounded-lg font-jetbrains text-xs transition-colors duration-200"
+              >
+                <Unlock size={14} />
+                Unlock
+              </button>
+            </div>
+          ))}
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <div className="w-8 h-8 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+            </div>
+          ) : games.length === 0 ? (
+            <p className="text-center text-gray-400 font-jetbrains py-8">
+              No disputed reports.
+            </p>
+          ) : games.map(game => {
+            const pairing = snapshot?.pairings.find(p => p.id === game.pairingId);
+            const custom = customScores[game.pairingId] || { player1: '', player2: '' };
+            const isResolving = resolvingId === game.pairingId;
+
+            return (
+              <div key={game.pairingId} className="bg-gray-800/50 border border-gray-600 rounded-xl p-5">
+                <h3 className="text-lg font-bold text-white font-orbitron mb-4">
+                  {pairing
+                    ? `Round ${pairing.round_number}, Table ${pairing.table_number}: ${playerName(pairing.player1_id)} vs ${playerName(pairing.player2_id)}`
+                    : 'Game no longer paired'}
+                </h3>
+
+                <div className="space-y-2 mb-4">
+                  {game.submissions.map(submission => (
+                    <div key={submission.id} className="flex items-center justify-between gap-3 bg-gray-900/60 border border-gray-700 rounded-lg px-4 py-3">
+                      <div className="font-jetbrains text-sm">
+                        <span className="text-gray-400">{playerName(submission.player_id)} reported </span>
+                        <span className="text-white font-mono font-bold">
+                          {submission.player1_score}–{submission.player2_score}
+                        </span>
+                      </div>
+                      <button
+                        onClick={() => acceptScore(game, submission.player1_score, submission.player2_score)}
+                        disabled={isResolving || !pairing}
+                        className="flex items-center gap-2 px-3 py-1.5 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white rounded-lg font-jetbrains text-xs transition-colors duration-200"
+                      >
+                        <Check size={14} />
+                        Accept
+                      </button>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="number"
+                      min="0"
+                      max="9999"
+                      value={custom.player1}
+                      onChange={(e) => setCustomScores(prev => ({
+                        ...prev,
+                        [game.pairingId]: { ...custom, player1: e.target.value === '' ? '' : Number(e.target.value) }
+                      }))}
+                      className="w-20 px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white text-center font-mono focus:border-purple-500 focus:outline-none transition-colors duration-300"
+                      placeholder={pairing ? playerName(pairing.player1_id).split(' ')[0] : '0'}
+                    />
+                    <span className="text-gray-500 font-bold">–</span>
+                    <input
+                      type="number"
+                      min="0"
+                      max="9999"
+                      value={custom.player2}
+                      onChange={(e) => setCustomScores(prev => ({
+                        ...prev,
+                        [game.pairingId]: { ...custom, player2: e.target.value === '' ? '' : Number(e.target.value) }
+                      }))}
+                      className="w-20 px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white text-center font-mono focus:border-purple-500 focus:outline-none transition-colors duration-300"
+                      placeholder={pairing ? playerName(pairing.player2_id).split(' ')[0] : '0'}
+                    />
+                    <button
+                      onClick={() => acceptScore(game, Number(custom.player1), Number(custom.player2))}
+                      disabled={isResolving || !pairing || custom.player1 === '' || custom.player2 === ''}
+                      className="flex items-center gap-2 px-3 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-lg font-jetbrains text-xs transition-colors duration-200"
+                    >
+                      <Save size={14} />
+                      Enter Score
+                    </button>
+                  </div>
+
+                  <button
+                    onClick={() => dismissReports(game)}
+                    disabled={isResolving}
+                    title="Clear both reports so the players can report again"
+                    className="flex items-center gap-2 px-3 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white rounded-lg font-jetbrains text-xs transition-colors duration-200"
+                  >
+                    <Trash2 size={14} />
+                    Dismiss
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlayerReportsModal;
@@ -0,0 +1,538 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Trophy, Send, CheckCircle, Clock, AlertTriangle } from 'lucide-react';
+import ParticleBackground from './ParticleBackground';
+import { supabase } from '../lib/supabase';
+import { Tournament, Division, PairingWithPlayers } from '../types/database';
+import { getTableName } from '../utils/tableAssignment';
+
+type ReportTournament = Pick<Tournament, 'id' | 'name' | 'slug' | 'current_round' | 'tournament_config'>;
+
+type ReportStatus = 'waiting' | 'confirmed' | 'disputed' | 'already_entered' | 'wrong_pin' | 'pin_locked' | 'wrong_password';
+
+// Statuses that turn the report away; the player can correct it and send again
+const REJECTED_STATUSES: ReportStatus[] = ['wrong_pin', 'pin_locked', 'wrong_password'];
+
+const STATUS_MESSAGES: Record<ReportStatus, string> = {
+  waiting: 'Thanks! The result will be entered once your opponent reports the same score.',
+  confirmed: 'Both players agree – the result has been entered.',
+  disputed: "Your score doesn't match your opponent's report. The director will check it with you.",
+  already_entered: "This game's result has already been entered by the director.",
+  wrong_pin: "That PIN doesn't match. Check the PIN the director gave you.",
+  pin_locked: 'Too many wrong PINs. Try again in 15 minutes, or ask the director to unlock your PIN.',
+  wrong_password: 'The tournament password has changed. Reload the page and enter it again.'
+};
+
+const SUBMIT_ERRORS: Record<string, string> = {
+  round_not_open: 'This round is no longer open for reporting.',
+  player_not_in_pairing: "You're not playing at this table.",
+  bye_takes_no_score: 'A bye takes no score.',
+  invalid_score: 'Enter scores between 0 and 9999.',
+  pairing_not_found: 'This game could not be found. Ask the director.',
+  too_many_attempts: 'Too many wrong passwords. Try again in 15 minutes.'
+};
+
+/**
+ * Lets the players of a game report its score from their phones, reached
+ * from the public tournament page or a table's QR code (`?table=N`). Each
+ * player reports separately with the PIN the director handed them; the
+ * server enters the result when both reports agree and passes it to the
+ * director when they don't.
+ */
+const PlayerResultReport: React.FC = () => {
+  const { tournamentId, slug } = useParams<{ tournamentId?: string; slug?: string }>();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+
+  const [tournament, setTournament] = useState<ReportTournament | null>(null);
+  const [divisions, setDivisions] = useState<Division[]>([]);
+  const [pairings, setPairings] = useState<PairingWithPlayers[]>([]);
+  const [scoredPairingIds, setScoredPairingIds] = useState<Set<string>>(new Set());
+  const [tableNumber, setTableNumber] = useState<number | null>(() => {
+    const table = parseInt(searchParams.get('table') || '', 10);
+    return Number.isNaN(table) ? null : table;
+  });
+  const [pairingId, setPairingId] = useState<string | null>(null);
+  const [playerId, setPlayerId] = useState<string | null>(null);
+  const [myScore, setMyScore] = useState<number | ''>('');
+  const [opponentScore, setOpponentScore] = useState<number | ''>('');
+  const [pin, setPin] = useState('');
+  const [password, setPassword] = useState('');
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [status, setStatus] = useState<ReportStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const currentRound = tournament?.current_round || 1;
+  const tablePairings = pairings.filter(p => p.table_number === tableNumber);
+  const pairing = pairings.find(p => p.id === pairingId) || (tablePairings.length === 1 ? tablePairings[0] : null);
+  const me = pairing && playerId ? (pairing.player1_id === playerId ? pairing.player1 : pairing.player2) : null;
+  const opponent = pairing && playerId ? (pairing.player1_id === playerId ? pairing.player2 : pairing.player1) : null;
+
+  useEffect(() => {
+    const loadTournament = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        // Never the password; the server checks it
+        let tournamentQuery = supabase
+          .from('tournaments')
+          .select('id, name, slug, current_round, tournament_config');
+        if (tournamentId) {
+          tournamentQuery = tournamentQuery.eq('id', tournamentId);
+        } else if (slug) {
+          tournamentQuery = tournamentQuery.eq('slug', slug);
+        } else {
+          setError('Tournament not found');
+          return;
+        }
+
+        const { data: tournamentData, error: tournamentError } = await tournamentQuery.single();
+        if (tournamentError) {
+          setError(tournamentError.code === 'PGRST116' ? 'Tournament not found' : 'Failed to load the tournament');
+          return;
+        }
+
+        setTournament(tournamentData);
+
+        const { data: isOpen } = await supabase.rpc('check_tournament_password', {
+          p_tournament_id: tournamentData.id,
+          p_password: null
+        });
+        if (isOpen) {
+          setIsAuthenticated(true);
+        }
+
+        await loadRound(tournamentData);
+      } catch (err) {
+        console.error('Error loading tournament:', err);
+        setError('Failed to load the tournament. Check your connection and try again.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    // The current round's games, and which already have a result
+    const loadRound = async (tournamentData: ReportTournament) => {
+      const round = tournamentData.current_round || 1;
+
+      const [divisionsResponse, pairingsResponse, resultsResponse] = await Promise.all([
+        supabase
+          .from('divisions')
+          .select('*')
+          .eq('tournament_id', tournamentData.id)
+          .order('division_number'),
+        supabase
+          .from('pairings')
+          .select(`
+            *,
+            player1:players!pairings_player1_id_fkey(id, name, rating),
+            player2:players!pairings_player2_id_fkey(id, name, rating)
+          `)
+          .eq('tournament_id', tournamentData.id)
+          .eq('round_number', round)
+          .order('table_number'),
+        supabase
+          .from('results')
+          .select('pairing_id')
+          .eq('tournament_id', tournamentData.id)
+          .eq('round_number', round)
+      ]);
+
+      if (pairingsResponse.error) throw pairingsResponse.error;
+
+      setDivisions(divisionsResponse.data || []);
+      setPairings(((pairingsResponse.data || []) as PairingWithPlayers[]).filter(p => !p.is_bye && p.player2_id));
+      setScoredPairingIds(new Set((resultsResponse.data || []).map((r: { pairing_id: string }) => r.pairing_id)));
+    };
+
+    loadTournament();
+  }, [tournamentId, slug]);
+
+  // Once reported, show the result as soon as the opponent confirms it
+  useEffect(() => {
+    if (!tournament?.id || status !== 'waiting' || !pairing?.id) return;
+
+    const resultsSubscription = supabase
+      .channel(`player-report:${pairing.id}`)
+      .on('postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'results', filter: `pairing_id=eq.${pairing.id}` },
+        () => setStatus('confirmed')
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(resultsSubscription);
+    };
+  }, [tournament?.id, status, pairing?.id]);
+
+  const handlePasswordSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!tournament) return;
+
+    const { data: isCorrect, error: checkError } = await supabase.rpc('check_tournament_password', {
+      p_tournament_id: tournament.id,
+      p_password: password
+    });
+
+    if (checkError) {
+      setPasswordError(checkError.message.includes('too_many_attempts')
+        ? SUBMIT_ERRORS.too_many_attempts
+        : 'Could not check the password. Please try again.');
+    } else if (isCorrect) {
+      setIsAuthenticated(true);
+      setPasswordError(null);
+    } else {
+      setPasswordError('Incorrect password');
+    }
+  };
+
+  const chooseTable = (table: number | null) => {
+    setTableNumber(table);
+    setPairingId(null);
+    setPlayerId(null);
+    setPin('');
+    setStatus(null);
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pairing || !playerId || !pin || myScore === '' || opponentScore === '') return;
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      // Scores are stored in the pairing's player order
+      const isPlayer1 = pairing.player1_id === playerId;
+      const { data, error: submitError } = await supabase.rpc('submit_player_result', {
+        p_pairing_id: pairing.id,
+        p_player_id: playerId,
+        p_pin: pin,
+        p_password: password || null,
+        p_player1_score: isPlayer1 ? myScore : opponentScore,
+        p_player2_score: isPlayer1 ? opponentScore : myScore
+      });
+
+      if (submitError) throw submitError;
+
+      const reported = (data as { status: ReportStatus }).status;
+      if (REJECTED_STATUSES.includes(reported)) {
+        setError(STATUS_MESSAGES[reported]);
+        setPin('');
+      } else {
+        setStatus(reported);
+      }
+    } catch (err) {
+      console.error('Error submitting result:', err);
+      const message = String((err as { message?: string }).message || '');
+      const known = Object.keys(SUBMIT_ERRORS).find(code => message.includes(code));
+      setError(known
+        ? SUBMIT_ERRORS[known]
+        : navigator.onLine
+          ? 'Failed to send your result. Please try again.'
+          : "You're offline – send your result once you're connected.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleBack = () => {
+    if (tournament?.slug) {
+      navigate(`/tournaments/${tournament.slug}`);
+    } else if (tournament?.id) {
+      navigate(`/t/${tournament.id}`);
+    } else {
+      navigate('/');
+    }
+  };
+
+  const divisionName = (divisionId?: string | null) =>
+    divisions.length > 1 ? divisions.find(d => d.id === divisionId)?.name : null;
+
+  const tableLabel = (table: number) => {
+    const name = getTableName(tournament?.tournament_config, table);
+    return name ? `Table ${table} – ${name}` : `Table ${table}`;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-900 flex items-center justify-center">
+        <div className="w-8 h-8 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  const tables = Array.from(new Set(pairings.map(p => p.table_number))).sort((a, b) => a - b);
+  const pairingScored = !!pairing?.id && scoredPairingIds.has(pairing.id);
+
+  const renderStep = () => {
+    if (!tournament) {
+      return null;
+    }
+
+    if (!isAuthenticated) {
+      return (
+        <form onSubmit={handlePasswordSubmit} className="space-y-4">
+          <label className="block text-sm font-medium text-gray-300 font-jetbrains">
+            This tournament requires a password
+          </label>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="w-full px-4 py-3 bg-gray-800/50 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-200 font-jetbrains"
+            placeholder="Tournament password"
+          />
+          {passwordError && (
+            <p className="text-red-400 text-sm font-jetbrains">{passwordError}</p>
+          )}
+          <button
+            type="submit"
+            className="w-full px-6 py-3 bg-purple-600 hover:bg-purple-700 text-white rounded-lg font-jetbrains font-medium transition-all duration-200"
+          >
+            Continue
+          </button>
+        </form>
+      );
+    }
+
+    if (status) {
+      const isDone = status === 'confirmed' || status === 'already_entered';
+      return (
+        <div className="text-center space-y-4">
+          {isDone ? (
+            <CheckCircle className="w-12 h-12 text-green-400 mx-auto" />
+          ) : status === 'waiting' ? (
+            <Clock className="w-12 h-12 text-blue-400 mx-auto animate-pulse" />
+          ) : (
+            <AlertTriangle className="w-12 h-12 text-yellow-400 mx-auto" />
+          )}
+          <p className="text-white font-jetbrains">{STATUS_MESSAGES[status]}</p>
+          {status === 'disputed' && (
+            <button
+              onClick={() => setStatus(null)}
+              className="text-purple-300 hover:text-white font-jetbrains text-sm transition-colors duration-200"
+            >
+              Made a typo? Report again
+            </button>
+          )}
+        </div>
+      );
+    }
+
+    if (tableNumber === null || tablePairings.length === 0) {
+      return (
+        <div>
+          {tableNumber !== null && (
+            <p className="mb-4 text-yellow-300 font-jetbrains text-sm">
+              There is no game at table {tableNumber} in round {currentRound}.
+            </p>
+          )}
+          <p className="text-gray-300 font-jetbrains mb-4">Which table did you play at?</p>
+          {tables.length === 0 ? (
+            <p className="text-gray-500 font-jetbrains text-sm">Round {currentRound} has not been paired yet.</p>
+          ) : (
+            <div className="grid grid-cols-3 sm:grid-cols-4 gap-3">
+              {tables.map(table => (
+                <button
+                  key={table}
+                  onClick={() => chooseTable(table)}
+                  className="px-4 py-3 bg-gray-800/50 border border-gray-600 hover:border-purple-500 text-white rounded-lg font-mono font-bold transition-all duration-200"
+                >
+                  {table}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      );
+    }
+
+    if (!pairing) {
+      return (
+        <div className="space-y-3">
+          <p className="text-gray-300 font-jetbrains">Which game at {tableLabel(tableNumber)}?</p>
+          {tablePairings.map(p => (
+            <button
+              key={p.id}
+              onClick={() => setPairingId(p.id!)}
+              className="w-full px-4 py-3 bg-gray-800/50 border border-gray-600 hover:border-purple-500 text-white rounded-lg font-jetbrains text-left transition-all duration-200"
+            >
+              {divisionName(p.division_id) && (
+                <span className="text-purple-300 text-xs block">{divisionName(p.division_id)}</span>
+              )}
+              {p.player1.name} vs {p.player2?.name}
+            </button>
+          ))}
+        </div>
+      );
+    }
+
+    if (pairingScored) {
+      return (
+        <div className="text-center space-y-4">
+          <CheckCircle className="w-12 h-12 text-green-400 mx-auto" />
+          <p className="text-white font-jetbrains">{STATUS_MESSAGES.already_entered}</p>
+        </div>
+      );
+    }
+
+    if (!playerId || !me || !opponent) {
+      return (
+        <div className="space-y-3">
+          <p className="text-gray-300 font-jetbrains">Who are you?</p>
+          {[pairing.player1, pairing.player2].map(player => player && (
+            <button
+              key={player.id}
+              onClick={() => setPlayerId(player.id!)}
+              className="w-full px-4 py-3 bg-gray-800/50 border border-gray-600 hover:border-purple-500 text-white rounded-lg font-jetbrains font-medium transition-all duration-200"
+            >
+              {player.name}
+            </button>
+          ))}
+        </div>
+      );
+    }
+
+    return (
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2 font-jetbrains truncate">
+              {me.name} (you)
+            </label>
+            <input
+              type="number"
+              inputMode="numeric"
+              min="0"
+              max="9999"
+              value={myScore}
+              onChange={(e) => setMyScore(e.target.value === '' ? '' : Number(e.target.value))}
+              className="w-full px-4 py-3 bg-gray-800 border border-gray-600 rounded-lg text-white text-center text-2xl font-mono focus:border-purple-500 focus:outline-none transition-colors duration-300"
+              placeholder="0"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2 font-jetbrains truncate">
+              {opponent.name}
+            </label>
+            <input
+              type="number"
+              inputMode="numeric"
+              min="0"
+              max="9999"
+              value={opponentScore}
+              onChange={(e) => setOpponentScore(e.target.value === '' ? '' : Number(e.target.value))}
+              className="w-full px-4 py-3 bg-gray-800 border border-gray-600 rounded-lg text-white text-center text-2xl font-mono focus:border-purple-500 focus:outline-none transition-colors duration-300"
+              placeholder="0"
+              required
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2 font-jetbrains">
+            Your PIN
+          </label>
+          <input
+            type="password"
+            inputMode="numeric"
+            autoComplete="off"
+            maxLength={4}
+            value={pin}
+            onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+            className="w-full px-4 py-3 bg-gray-800 border border-gray-600 rounded-lg text-white text-center text-2xl font-mono tracking-widest focus:border-purple-500 focus:outline-none transition-colors duration-300"
+            placeholder="••••"
+            required
+          />
+          <p className="mt-2 text-xs text-gray-500 font-jetbrains">
+            The four-digit PIN on the slip the director gave you
+          </p>
+        </div>
+
+        <button
+          type="submit"
+          disabled={isSubmitting || pin.length !== 4 || myScore === '' || opponentScore === ''}
+          className="w-full flex items-center justify-center gap-2 px-6 py-3 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-700 disabled:text-gray-500 text-white rounded-lg font-jetbrains font-medium transition-all duration-200"
+        >
+          <Send size={16} />
+          {isSubmitting ? 'Sending...' : 'Report Result'}
+        </button>
+
+        <button
+          type="button"
+          onClick={() => {
+            setPlayerId(null);
+            setPin('');
+          }}
+          className="w-full text-gray-400 hover:text-white font-jetbrains text-sm transition-colors duration-200"
+        >
+          Not {me.name}?
+        </button>
+      </form>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-900 relative overflow-hidden">
+      <ParticleBackground />
+
+      <div className="relative z-10 min-h-screen flex flex-col items-center px-4 py-8">
+        <div className="max-w-md w-full">
+          <button
+            onClick={handleBack}
+            className="flex items-center gap-2 text-gray-400 hover:text-white transition-colors duration-200 mb-6"
+          >
+            <ArrowLeft size={20} />
+            <span className="font-jetbrains">Tournament</span>
+          </button>
+
+          <div className="bg-gray-900/80 backdrop-blur-xl border border-purple-500/30 rounded-2xl p-6 shadow-2xl">
+            <div className="text-center mb-6">
+              <div className="flex items-center justify-center gap-2 text-purple-400 mb-2">
+                <Trophy size={20} />
+                <span className="font-jetbrains text-sm">Report a Result</span>
+              </div>
+              <h1 className="text-2xl font-bold text-white font-orbitron">
+                {tournament?.name || 'Tournament'}
+              </h1>
+              {tournament && isAuthenticated && (
+                <p className="text-gray-400 font-jetbrains text-sm mt-1">
+                  Round {currentRound}
+                  {tableNumber !== null && tablePairings.length > 0 && ` • ${tableLabel(tableNumber)}`}
+                </p>
+              )}
+            </div>
+
+            {error && (
+              <div className="mb-6 bg-red-900/30 border border-red-500/50 rounded-lg p-4 text-red-300 font-jetbrains text-sm">
+                {error}
+              </div>
+            )}
+
+            {renderStep()}
+
+            {isAuthenticated && tableNumber !== null && !status && (
+              <div className="mt-6 text-center">
+                <button
+                  onClick={() => chooseTable(null)}
+                  className="text-gray-400 hover:text-white font-jetbrains text-sm transition-colors duration-200"
+                >
+                  Choose a different table
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlayerResultReport;
@@ -4,19 +4,10 @@ import { Trophy, Users, Clock, Zap } from 'lucide-react';
 import TournamentHeader from './TournamentHeader';
 import { supabase } from '../lib/supabase';
 import { Tournament, Division, Player, PairingWithPlayers, Result } from '../types/database';
-
-interface PlayerStanding {
-  id: string;
-  name: string;
-  rank: number;
-  rating: number;
-  wins: number;
-  losses: number;
-  draws: number;
-  points: number;
-  spread: number;
-  gamesPlayed: number;
-}
+import { computeStandings, splitJoinedResults, getStandingsOptions, PlayerStanding, StandingsPairing } from '../utils/standings';
+import { getTableName } from '../utils/tableAssignment';
+import { formatOdds, SimulationInput } from '../utils/tournamentSimulator';
+import { useTournamentOdds } from '../hooks/useTournamentOdds';
 
 interface RoundPairing extends PairingWithPlayers {
   result?: Result;
@@ -35,6 +26,8 @@ const ProjectionMode: React.FC = () => {
   const [secondsSinceUpdate, setSecondsSinceUpdate] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [simulationInput, setSimulationInput] = useState<SimulationInput | null>(null);
+  const { odds } = useTournamentOdds(simulationInput);
 
   // Auto-refresh every 15 seconds
   useEffect(() => {
@@ -104,18 +97,27 @@ const ProjectionMode: React.FC = () => {
         setDivision(null);
       }
 
+      // Only the projected division's players and pairings are shown
+      const projectedDivisionId = divisionId && divisionId !== 'main' ? divisionId : null;
+
       // Load players
-      const { data: playersData, error: playersError } = await supabase
+      let playersQuery = supabase
         .from('players')
         .select('*')
-        .eq('tournament_id', tournamentId)
+        .eq('tournament_id', tournamentId);
+
+      if (projectedDivisionId) {
+        playersQuery = playersQuery.eq('division_id', projectedDivisionId);
+      }
+
+      const { data: playersData, error: playersError } = await playersQuery
         .order('rating', { ascending: false });
 
       if (playersError) throw playersError;
       setPlayers(playersData || []);
 
       // Load current round pairings
-      const { data: pairingsData, error: pairingsError } = await supabase
+      let pairingsQuery = supabase
         .from('pairings')
         .select(`
           *,
@@ -123,7 +125,13 @@ const ProjectionMode: React.FC = () => {
           player2:players!pairings_player2_id_fkey(id, name, rating)
         `)
         .eq('tournament_id', tournamentId)
-        .eq('round_number', tournamentData.current_round || 1)
+        .eq('round_number', tournamentData.current_round || 1);
+
+      if (projectedDivisionId) {
+        pairingsQuery = pairingsQuery.eq('division_id', projectedDivisionId);
+      }
+
+      const { data: pairingsData, error: pairingsError } = await pairingsQuery
         .order('table_number');
 
       if (pairingsError && pairingsError.code !== 'PGRST116') {
@@ -150,7 +158,7 @@ const ProjectionMode: React.FC = () => {
       setCurrentRoundPairings(pairingsWithResults);
 
       // Calculate standings
-      await calculateStandings(playersData || [], tournamentId!);
+      await calculateStandings(playersData || [], tournamentData, pairingsData || []);
 
       setLastUpdated(new Date());
       setSecondsSinceUpdate(0);
@@ -163,7 +171,8 @@ const ProjectionMode: React.FC = () => {
     }
   };
 
-  const calculateStandings = async (players: Player[], tournamentId: string) => {
+  const calculateStandings = async (players: Player[], tournamentData: Tournament, roundPairings: StandingsPairing[]) => {
+    const config = tournamentData.tournament_config;
     try {
       // Load all results for this tournament
       const { data: allResults, error: resultsError } = await supabase
@@ -171,84 +180,45 @@ const ProjectionMode: React.FC = () => {
         .select(`
           *,
           pairing:pairings!results_pairing_id_fkey(
+            id,
             player1_id,
             player2_id,
             player1_rank,
             player2_rank,
-            round_number
+            round_number,
+            first_move_player_id,
+            player1_gibsonized,
+            player2_gibsonized
           )
         `)
-        .eq('pairing.tournament_id', tournamentId);
+        .eq('pairing.tournament_id', tournamentData.id);
 
       if (resultsError) throw resultsError;
 
-      const standings: PlayerStanding[] = [];
-
-      for (const player of players) {
-        let wins = 0;
-        let losses = 0;
-        let draws = 0;
-        let pointsFor = 0;
-        let pointsAgainst = 0;
-        let gamesPlayed = 0;
-
-        // Process each result
-        for (const result of allResults || []) {
-          const pairing = result.pairing;
-          if (!pairing) continue;
-
-          const isPlayer1 = pairing.player1_id === player.id;
-          const isPlayer2 = pairing.player2_id === player.id;
-
-          if (!isPlayer1 && !isPlayer2) continue;
-
-          const playerScore = isPlayer1 ? result.player1_score : result.player2_score;
-          const opponentScore = isPlayer1 ? result.player2_score : result.player1_score;
-
-          pointsFor += playerScore;
-          pointsAgainst += opponentScore;
-          gamesPlayed++;
-
-          // Determine result
-          if (playerScore > opponentScore) {
-            wins++;
-          } else if (playerScore < opponentScore) {
-            losses++;
-          } else {
-            draws++;
-          }
-        }
-
-        const points = wins + (draws * 0.5);
-        const spread = pointsFor - pointsAgainst;
-
-        standings.push({
-          id: player.id!,
-          name: player.name,
-          rank: 0, // Will be calculated after sorting
-          rating: player.rating,
-          wins,
-          losses,
-          draws,
-          points,
-          spread,
-          gamesPlayed
-        });
-      }
-
-      // Sort by points (desc), then spread (desc), then rating (desc)
-      standings.sort((a, b) => {
-        if (a.points !== b.points) return b.points - a.points;
-        if (a.spread !== b.spread) return b.spread - a.spread;
-        return b.rating - a.rating;
-      });
-
-      // Assign ranks
-      standings.forEach((standing, index) => {
-        standing.rank = index + 1;
+      // Byes have no result row, so load them separately
+      const { data: byePairings, error: byesError } = await supabase
+        .from('pairings')
+        .select('id, player1_id, player2_id, round_number, is_bye')
+        .eq('tournament_id', tournamentData.id)
+        .eq('is_bye', true);
+
+      if (byesError) throw byesError;
+
+      const { pairings, results } = splitJoinedResults(allResults || []);
+      setStandings(computeStandings(players, [...pairings, ...(byePairings || [])], results,
+        getStandingsOptions(config)
+      ));
+
+      // The current round's unreported games are played out in the simulation
+      const knownPairings = new Set([...pairings, ...(byePairings || [])].map(pairing => pairing.id));
+      setSimulationInput({
+        players,
+        pairings: [...pairings, ...(byePairings || []), ...roundPairings.filter(pairing => !knownPairings.has(pairing.id))],
+        results,
+        config,
+        totalRounds: tournamentData.rounds || 7,
+        fallbackSystem: tournamentData.pairing_system
       });
-
-      setStandings(standings);
     } catch (err) {
       console.error('Error calculating standings:', err);
     }
@@ -363,6 +333,11 @@ const ProjectionMode: React.FC = () => {
                       }`}>
                         {standing.spread > 0 ? '+' : ''}{standing.spread}
                       </div>
+                      {(odds.get(standing.id)?.first ?? 0) > 0 && (
+                        <div className="text-lg text-yellow-400 font-jetbrains">
+                          {formatOdds(odds.get(standing.id)!.first)} to win
+                        </div>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -388,6 +363,11 @@ const ProjectionMode: React.FC = () => {
                         {/* Table Number */}
                         <div className="text-3xl font-bold text-blue-400 font-orbitron min-w-[100px]">
                           T{pairing.table_number}
+                          {getTableName(tournament?.tournament_config, pairing.table_number) && (
+                            <div className="text-sm text-blue-300 font-jetbrains font-normal">
+                              {getTableName(tournament?.tournament_config, pairing.table_number)}
+                            </div>
+                          )}
                         </div>
                         
                         {/* Players */}
@@ -404,18 +384,30 @@ const ProjectionMode: React.FC = () => {
                           <div className="text-4xl font-bold text-gray-500">VS</div>
                           
                           <div className="text-left">
-                            <div className="text-2xl font-bold text-white font-jetbrains">
-                              {pairing.player2.name}
-                            </div>
-                            <div className="text-lg text-gray-400 font-jetbrains">
-                              #{pairing.player2_rank} • {pairing.player2.rating}
-                            </div>
+                            {pairing.player2 ? (
+                              <>
+                                <div className="text-2xl font-bold text-white font-jetbrains">
+                                  {pairing.player2.name}
+                                </div>
+                                <div className="text-lg text-gray-400 font-jetbrains">
+                                  #{pairing.player2_rank} • {pairing.player2.rating}
+                                </div>
+                              </>
+                            ) : (
+                              <div className="text-2xl font-bold text-gray-500 font-jetbrains">
+                                BYE
+                              </div>
+                            )}
                           </div>
                         </div>
                         
                         {/* Result */}
                         <div className="text-right min-w-[150px]">
-                          {pairing.result ? (
+                          {pairing.is_bye ? (
+                            <div className="text-2xl text-gray-400 font-jetbrains">
+                              BYE
+                            </div>
+                          ) : pairing.result ? (
                             <div>
                               <div className="text-3xl font-bold text-white font-orbitron">
                                 {pairing.result.player1_score} - {pairing.result.player2_score}
@@ -439,7 +431,7 @@ const ProjectionMode: React.FC = () => {
                           <div className="inline-flex items-center gap-2 px-4 py-2 bg-green-500/20 border border-green-500/50 rounded-lg">
                             <div className="w-3 h-3 bg-green-500 rounded-full"></div>
                             <span className="text-lg text-green-400 font-jetbrains">
-                              First Move: {pairing.first_move_player_id === pairing.player1_id ? pairing.player1.name : pairing.player2.name}
+                              First Move: {pairing.first_move_player_id === pairing.player1_id ? pairing.player1.name : pairing.player2?.name}
                             </span>
                           </div>
                         </div>
@@ -1,25 +1,17 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { ArrowLeft, RefreshCw, Users, Trophy, Calendar, MapPin, Download, ChevronDown, Search, X, BarChart3 } from 'lucide-react';
+import { ArrowLeft, RefreshCw, Users, Trophy, Calendar, MapPin, Download, ChevronDown, Search, X, BarChart3, Send } from 'lucide-react';
 import ParticleBackground from './ParticleBackground';
 import PlayerDetailsModal from './PlayerDetailsModal';
 import TournamentHeader from './TournamentHeader';
 import { supabase } from '../lib/supabase';
 import { useAuditLog } from '../hooks/useAuditLog';
 import { Tournament, Division, Player, PairingWithPlayers, Result } from '../types/database';
-
-interface PlayerStanding {
-  id: string;
-  name: string;
-  rank: number;
-  rating: number;
-  wins: number;
-  losses: number;
-  draws: number;
-  points: number;
-  spread: number;
-  gamesPlayed: number;
-}
+import { computeStandings, getStandingsOptions, PlayerStanding } from '../utils/standings';
+import { getTableName } from '../utils/tableAssignment';
+import { formatOdds, SimulationInput } from '../utils/tournamentSimulator';
+import { getGibsonConfig } from '../utils/gibsonization';
+import { useTournamentOdds } from '../hooks/useTournamentOdds';
 
 interface RoundPairing extends PairingWithPlayers {
   result?: Result;
@@ -48,6 +40,8 @@ const PublicTournamentView: React.FC = () => {
   const [password, setPassword] = useState('');
   const [passwordError, setPasswordError] = useState<string | null>(null);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [simulationInput, setSimulationInput] = useState<SimulationInput | null>(null);
+  const { odds, completedRuns } = useTournamentOdds(simulationInput);
   
   const { logAction } = useAuditLog();
 
@@ -221,25 +215,40 @@ const PublicTournamentView: React.FC = () => {
       const currentDivision = divisions[selectedDivision];
       if (!currentDivision) return;
 
+      // The placeholder 'default' division covers the whole tournament
+      const divisionId = currentDivision.id && currentDivision.id !== 'default' ? currentDivision.id : null;
+
       // Load players for this division
-      const { data: playersData, error: playersError } = await supabase
+      let playersQuery = supabase
         .from('players')
         .select('*')
-        .eq('tournament_id', tournament.id)
+        .eq('tournament_id', tournament.id);
+
+      if (divisionId) {
+        playersQuery = playersQuery.eq('division_id', divisionId);
+      }
+
+      const { data: playersData, error: playersError } = await playersQuery
         .order('rating', { ascending: false });
 
       if (playersError) throw playersError;
       setPlayers(playersData || []);
 
-      // Load all pairings for this tournament
-      const { data: pairingsData, error: pairingsError } = await supabase
+      // Load all pairings for this division
+      let pairingsQuery = supabase
         .from('pairings')
         .select(`
           *,
           player1:players!pairings_player1_id_fkey(id, name, rating),
           player2:players!pairings_player2_id_fkey(id, name, rating)
         `)
-        .eq('tournament_id', tournament.id)
+        .eq('tournament_id', tournament.id);
+
+      if (divisionId) {
+        pairingsQuery = pairingsQuery.eq('division_id', divisionId);
+      }
+
+      const { data: pairingsData, error: pairingsError } = await pairingsQuery
         .order('round_number')
         .order('table_number');
 
@@ -274,8 +283,18 @@ const PublicTournamentView: React.FC = () => {
       setPairings(pairingsByRound);
 
       // Calculate standings
-      const calculatedStandings = calculateStandings(playersData || [], resultsData || [], pairingsData || []);
+      const calculatedStandings = computeStandings(playersData || [], pairingsData || [], resultsData || [],
+        getStandingsOptions(tournament.tournament_config)
+      );
       setStandings(calculatedStandings);
+      setSimulationInput({
+        players: playersData || [],
+        pairings: pairingsData || [],
+        results: resultsData || [],
+        config: tournament.tournament_config,
+        totalRounds: tournament.rounds || 7,
+        fallbackSystem: tournament.pairing_system
+      });
 
     } catch (err) {
       console.error('Error loading division data:', err);
@@ -283,76 +302,6 @@ const PublicTournamentView: React.FC = () => {
     }
   };
 
-  const calculateStandings = (players: Player[], results: Result[], pairings: any[]): PlayerStanding[] => {
-    const standings: PlayerStanding[] = [];
-
-    for (const player of players) {
-      let wins = 0;
-      let losses = 0;
-      let draws = 0;
-      let pointsFor = 0;
-      let pointsAgainst = 0;
-      let gamesPlayed = 0;
-
-      // Process each result
-      for (const result of results) {
-        const pairing = pairings.find(p => p.id === result.pairing_id);
-        if (!pairing) continue;
-
-        const isPlayer1 = pairing.player1_id === player.id;
-        const isPlayer2 = pairing.player2_id === player.id;
-
-        if (!isPlayer1 && !isPlayer2) continue;
-
-        const playerScore = isPlayer1 ? result.player1_score : result.player2_score;
-        const opponentScore = isPlayer1 ? result.player2_score : result.player1_score;
-
-        pointsFor += playerScore;
-        pointsAgainst += opponentScore;
-        gamesPlayed++;
-
-        // Determine result
-        if (playerScore > opponentScore) {
-          wins++;
-        } else if (playerScore < opponentScore) {
-          losses++;
-        } else {
-          draws++;
-        }
-      }
-
-      const points = wins + (draws * 0.5);
-      const spread = pointsFor - pointsAgainst;
-
-      standings.push({
-        id: player.id!,
-        name: player.name,
-        rank: 0, // Will be calculated after sorting
-        rating: player.rating,
-        wins,
-        losses,
-        draws,
-        points,
-        spread,
-        gamesPlayed
-      });
-    }
-
-    // Sort by points (desc), then spread (desc), then rating (desc)
-    standings.sort((a, b) => {
-      if (a.points !== b.points) return b.points - a.points;
-      if (a.spread !== b.spread) return b.spread - a.spread;
-      return b.rating - a.rating;
-    });
-
-    // Assign ranks
-    standings.forEach((standing, index) => {
-      standing.rank = index + 1;
-    });
-
-    return standings;
-  };
-
   const handlePlayerClick = (playerId: string) => {
     setSelectedPlayerId(playerId);
     setShowPlayerModal(true);
@@ -393,6 +342,14 @@ const PublicTournamentView: React.FC = () => {
     }
   };
 
+  const handleReportResult = () => {
+    if (tournament?.slug) {
+      navigate(`/tournaments/${tournament.slug}/report`);
+    } else if (tournament?.id) {
+      navigate(`/t/${tournament.id}/report`);
+    }
+  };
+
   const exportStandings = () => {
     const headers = ['Rank', 'Name', 'Rating', 'W-L-D', 'Points', 'Spread', 'Games'];
     const rows = standings.map(s => [
@@ -495,7 +452,7 @@ const PublicTournamentView: React.FC = () => {
     ? Object.entries(pairings).reduce((acc, [round, roundPairings]) => {
         const filtered = roundPairings.filter(pairing => 
           pairing.player1.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          pairing.player2.name.toLowerCase().includes(searchQuery.toLowerCase())
+          pairing.player2?.name.toLowerCase().includes(searchQuery.toLowerCase())
         );
         if (filtered.length > 0) {
           acc[parseInt(round)] = filtered;
@@ -844,11 +801,16 @@ const PublicTournamentView: React.FC = () => {
                               <tr key={pairing.id} className={`hover:bg-gray-800/30 transition-colors duration-200 ${
                                 searchQuery && (
                                   pairing.player1.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                                  pairing.player2.name.toLowerCase().includes(searchQuery.toLowerCase())
+                                  pairing.player2?.name.toLowerCase().includes(searchQuery.toLowerCase())
                                 ) ? 'bg-blue-900/20 border-y border-blue-500/30' : ''
                               }`}>
                                 <td className="px-4 py-4 whitespace-nowrap text-sm text-white font-mono font-bold">
                                   {pairing.table_number}
+                                  {getTableName(tournament?.tournament_config, pairing.table_number) && (
+                                    <div className="text-xs text-gray-400 font-jetbrains font-normal">
+                                      {getTableName(tournament?.tournament_config, pairing.table_number)}
+                                    </div>
+                                  )}
                                 </td>
                                 
                                 <td className="px-4 py-4 whitespace-nowrap">
@@ -883,26 +845,32 @@ const PublicTournamentView: React.FC = () => {
                                 </td>
                                 
                                 <td className="px-4 py-4 whitespace-nowrap">
-                                  <div className="flex items-center gap-2">
-                                    {pairing.first_move_player_id === pairing.player2_id && (
-                                      <div className="w-3 h-3 bg-green-500 rounded-full" title="First move"></div>
-                                    )}
-                                    <button
-                                      onClick={() => handlePlayerClick(pairing.player2.id)}
-                                      className="text-left hover:text-blue-300 transition-colors duration-200"
-                                    >
-                                      <div className="text-sm font-medium text-white">
-                                        {pairing.player2.name}
-                                      </div>
-                                      <div className="text-xs text-gray-400 font-jetbrains">
-                                        #{pairing.player2_rank} • {pairing.player2.rating}
-                                      </div>
-                                    </button>
-                                  </div>
+                                  {pairing.player2 ? (
+                                    <div className="flex items-center gap-2">
+                                      {pairing.first_move_player_id === pairing.player2_id && (
+                                        <div className="w-3 h-3 bg-green-500 rounded-full" title="First move"></div>
+                                      )}
+                                      <button
+                                        onClick={() => handlePlayerClick(pairing.player2!.id)}
+                                        className="text-left hover:text-blue-300 transition-colors duration-200"
+                                      >
+                                        <div className="text-sm font-medium text-white">
+                                          {pairing.player2.name}
+                                        </div>
+                                        <div className="text-xs text-gray-400 font-jetbrains">
+                                          #{pairing.player2_rank} • {pairing.player2.rating}
+                                        </div>
+                                      </button>
+                                    </div>
+                                  ) : (
+                                    <span className="text-sm text-gray-500 font-jetbrains">BYE</span>
+                                  )}
                                 </td>
                                 
                                 <td className="px-4 py-4 text-center">
-                                  {pairing.result ? (
+                                  {pairing.is_bye ? (
+                                    <span className="text-gray-400 font-jetbrains text-sm">Bye</span>
+                                  ) : pairing.result ? (
                                     <div className="flex items-center justify-center">
                                       {pairing.result.winner_id === pairing.player1_id ? (
                                         <span className="text-green-400 font-jetbrains text-sm">P1 Wins</span>
@@ -963,6 +931,12 @@ const PublicTournamentView: React.FC = () => {
                         <th className="px-4 py-3 text-center text-xs font-medium text-gray-300 uppercase tracking-wider font-jetbrains">Points</th>
                         <th className="px-4 py-3 text-center text-xs font-medium text-gray-300 uppercase tracking-wider font-jetbrains">Spread</th>
                         <th className="px-4 py-3 text-center text-xs font-medium text-gray-300 uppercase tracking-wider font-jetbrains">Games</th>
+                        {odds.size > 0 && (
+                          <>
+                            <th className="px-4 py-3 text-center text-xs font-medium text-gray-300 uppercase tracking-wider font-jetbrains" title="Chance of finishing first">Win</th>
+                            <th className="px-4 py-3 text-center text-xs font-medium text-gray-300 uppercase tracking-wider font-jetbrains" title={`Chance of finishing in the top ${getGibsonConfig(tournament?.tournament_config).prizePlaces}`}>Money</th>
+                          </>
+                        )}
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-gray-700">
@@ -1027,12 +1001,29 @@ const PublicTournamentView: React.FC = () => {
                               {standing.gamesPlayed}
                             </span>
                           </td>
+
+                          {odds.size > 0 && (
+                            <>
+                              <td className="px-4 py-4 text-center font-mono text-sm text-yellow-400">
+                                {formatOdds(odds.get(standing.id)?.first ?? 0)}
+                              </td>
+                              <td className="px-4 py-4 text-center font-mono text-sm text-green-400">
+                                {formatOdds(odds.get(standing.id)?.inTheMoney ?? 0)}
+                              </td>
+                            </>
+                          )}
                         </tr>
                       ))}
                     </tbody>
                   </table>
                 </div>
                 
+                {odds.size > 0 && (
+                  <div className="px-6 py-3 border-t border-gray-700 text-xs text-gray-500 font-jetbrains">
+                    Chances from {completedRuns.toLocaleString()} simulated finishes of the remaining games, decided by rating
+                  </div>
+                )}
+
                 {filteredStandings.length === 0 && (
                   <div className="text-center py-12 text-gray-400 font-jetbrains">
                     {searchQuery ? 'No standings match your search' : 'No standings available yet'}
@@ -1043,15 +1034,25 @@ const PublicTournamentView: React.FC = () => {
           )}
         </div>
 
-        {/* Statistics Button */}
-        <div className="max-w-6xl mx-auto w-full mt-8 mb-8">
+        {/* Statistics and Result Report Buttons */}
+        <div className="max-w-6xl mx-auto w-full mt-8 mb-8 flex flex-col sm:flex-row items-center justify-center gap-4">
           <button
             onClick={handleViewStatistics}
-            className="flex items-center gap-2 px-6 py-3 bg-gradient-to-r from-cyan-600/30 to-blue-600/30 hover:from-cyan-600/40 hover:to-blue-600/40 text-cyan-300 hover:text-white border border-cyan-500/50 rounded-lg font-jetbrains font-medium transition-all duration-200 mx-auto"
+            className="flex items-center gap-2 px-6 py-3 bg-gradient-to-r from-cyan-600/30 to-blue-600/30 hover:from-cyan-600/40 hover:to-blue-600/40 text-cyan-300 hover:text-white border border-cyan-500/50 rounded-lg font-jetbrains font-medium transition-all duration-200"
           >
             <BarChart3 size={20} />
             📊 View Tournament Statistics
           </button>
+
+          {tournament.status !== 'completed' && (
+            <button
+              onClick={handleReportResult}
+              className="flex items-center gap-2 px-6 py-3 bg-gradient-to-r from-purple-600/30 to-pink-600/30 hover:from-purple-600/40 hover:to-pink-600/40 text-purple-300 hover:text-white border border-purple-500/50 rounded-lg font-jetbrains font-medium transition-all duration-200"
+            >
+              <Send size={20} />
+              📝 Report Your Result
+            </button>
+          )}
         </div>
 
         {/* Footer */}
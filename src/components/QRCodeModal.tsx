@@ -1,8 +1,9 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { X, Download, Share2, QrCode, Copy, Check } from 'lucide-react';
+import { X, Download, Share2, QrCode, Copy, Check, Printer, KeyRound } from 'lucide-react';
 import QRCodeLib from 'qrcode';
 import { supabase } from '../lib/supabase';
 import { useAuditLog } from '../hooks/useAuditLog';
+import { getTableName } from '../utils/tableAssignment';
 
 interface QRCodeModalProps {
   isOpen: boolean;
@@ -21,6 +22,8 @@ const QRCodeModal: React.FC<QRCodeModalProps> = ({
   const [isGenerating, setIsGenerating] = useState(false);
   const [copied, setCopied] = useState(false);
   const [tournamentSlug, setTournamentSlug] = useState<string | null>(null);
+  const [isPrintingTables, setIsPrintingTables] = useState(false);
+  const [isPrintingPins, setIsPrintingPins] = useState(false);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   
   const { logAction } = useAuditLog();
@@ -205,6 +208,185 @@ const QRCodeModal: React.FC<QRCodeModalProps> = ({
     }
   };
 
+  // One code per table, opening the result report page for that table
+  const printTableCodes = async () => {
+    setIsPrintingTables(true);
+
+    try {
+      const [{ data: tournamentData, error: tournamentError }, { data: pairingsData, error: pairingsError }] = await Promise.all([
+        supabase
+          .from('tournaments')
+          .select('tournament_config')
+          .eq('id', tournamentId)
+          .single(),
+        supabase
+          .from('pairings')
+          .select('table_number')
+          .eq('tournament_id', tournamentId)
+      ]);
+
+      if (tournamentError) throw tournamentError;
+      if (pairingsError) throw pairingsError;
+
+      // The venue's tables if set up, otherwise every table used so far
+      const config = tournamentData?.tournament_config;
+      const venueTables: number[] = (config?.venue_tables || []).map((table: { number: number }) => table.number);
+      const usedTables = (pairingsData || []).map((pairing: { table_number: number }) => pairing.table_number);
+      const tables = Array.from(new Set(venueTables.length > 0 ? venueTables : usedTables)).sort((a, b) => a - b);
+
+      if (tables.length === 0) {
+        alert('Pair a round or set up venue tables before printing table codes.');
+        return;
+      }
+
+      const reportUrl = tournamentSlug
+        ? `https://direktorweb.com/tournaments/${tournamentSlug}/report`
+        : `https://direktorweb.com/t/${tournamentId}/report`;
+
+      const codes = await Promise.all(tables.map(async table => ({
+        table,
+        name: getTableName(config, table),
+        dataUrl: await QRCodeLib.toDataURL(`${reportUrl}?table=${table}`, {
+          width: 300,
+          margin: 1,
+          errorCorrectionLevel: 'M'
+        })
+      })));
+
+      const printWindow = window.open('', '_blank');
+      if (!printWindow) {
+        alert('Allow pop-ups to print the table codes.');
+        return;
+      }
+
+      printWindow.document.write(`
+        <html>
+          <head>
+            <title>${tournamentName} - Table Result Codes</title>
+            <style>
+              body { font-family: Arial, sans-serif; margin: 0; }
+              .grid { display: grid; grid-template-columns: repeat(2, 1fr); }
+              .card { border: 1px dashed #999; padding: 24px; text-align: center; page-break-inside: avoid; }
+              .table { font-size: 32px; font-weight: bold; margin-bottom: 4px; }
+              .name { font-size: 16px; color: #555; margin-bottom: 8px; }
+              .hint { font-size: 14px; color: #333; margin-top: 8px; }
+              img { width: 220px; height: 220px; }
+            </style>
+          </head>
+          <body>
+            <div class="grid">
+              ${codes.map(code => `
+                <div class="card">
+                  <div class="table">Table ${code.table}</div>
+                  ${code.name ? `<div class="name">${code.name}</div>` : ''}
+                  <img src="${code.dataUrl}" alt="Table ${code.table} result code" />
+                  <div class="hint">Scan after your game to report the score with your player PIN</div>
+                  <div class="hint">${tournamentName}</div>
+                </div>
+              `).join('')}
+            </div>
+            <script>window.onload = function () { window.print(); };</script>
+          </body>
+        </html>
+      `);
+      printWindow.document.close();
+
+      // Log table codes printed
+      logAction({
+        action: 'table_qr_codes_printed',
+        details: {
+          tournament_id: tournamentId,
+          table_count: tables.length
+        }
+      });
+    } catch (err) {
+      console.error('Error printing table codes:', err);
+    } finally {
+      setIsPrintingTables(false);
+    }
+  };
+
+  // One slip per player with the PIN they report their results with
+  const printPlayerPins = async () => {
+    setIsPrintingPins(true);
+
+    try {
+      const [{ data: playersData, error: playersError }, { data: pinsData, error: pinsError }] = await Promise.all([
+        supabase
+          .from('players')
+          .select('id, name')
+          .eq('tournament_id', tournamentId)
+          .order('name'),
+        supabase
+          .from('player_report_pins')
+          .select('player_id, pin')
+          .eq('tournament_id', tournamentId)
+      ]);
+
+      if (playersError) throw playersError;
+      if (pinsError) throw pinsError;
+
+      const pins = new Map((pinsData || []).map((row: { player_id: string; pin: string }) => [row.player_id, row.pin]));
+      const slips = (playersData || [])
+        .filter((player: { id: string }) => pins.has(player.id))
+        .map((player: { id: string; name: string }) => ({ name: player.name, pin: pins.get(player.id) }));
+
+      if (slips.length === 0) {
+        alert('Add players before printing their PINs.');
+        return;
+      }
+
+      const printWindow = window.open('', '_blank');
+      if (!printWindow) {
+        alert('Allow pop-ups to print the player PINs.');
+        return;
+      }
+
+      printWindow.document.write(`
+        <html>
+          <head>
+            <title>${tournamentName} - Player PINs</title>
+            <style>
+              body { font-family: Arial, sans-serif; margin: 0; }
+              .grid { display: grid; grid-template-columns: repeat(3, 1fr); }
+              .slip { border: 1px dashed #999; padding: 16px; text-align: center; page-break-inside: avoid; }
+              .name { font-size: 16px; font-weight: bold; margin-bottom: 4px; }
+              .pin { font-size: 28px; font-family: monospace; letter-spacing: 6px; margin: 8px 0; }
+              .hint { font-size: 12px; color: #333; }
+            </style>
+          </head>
+          <body>
+            <div class="grid">
+              ${slips.map(slip => `
+                <div class="slip">
+                  <div class="name">${slip.name}</div>
+                  <div class="pin">${slip.pin}</div>
+                  <div class="hint">Your PIN for reporting results. Keep it to yourself.</div>
+                  <div class="hint">${tournamentName}</div>
+                </div>
+              `).join('')}
+            </div>
+            <script>window.onload = function () { window.print(); };</script>
+          </body>
+        </html>
+      `);
+      printWindow.document.close();
+
+      // Log PINs printed
+      logAction({
+        action: 'player_pins_printed',
+        details: {
+          tournament_id: tournamentId,
+          player_count: slips.length
+        }
+      });
+    } catch (err) {
+      console.error('Error printing player PINs:', err);
+    } finally {
+      setIsPrintingPins(false);
+    }
+  };
+
   if (!isOpen) return null;
 
   const tournamentUrl = `https://direktorweb.com/tournaments/${tournamentSlug || tournamentId}`;
@@ -344,6 +526,27 @@ const QRCodeModal: React.FC<QRCodeModalProps> = ({
             </button>
           </div>
 
+          {/* Table Result Codes */}
+          <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+            <button
+              onClick={printTableCodes}
+              disabled={isPrintingTables}
+              className="w-full flex items-center justify-center gap-3 px-6 py-4 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-700 disabled:text-gray-500 text-white rounded-xl font-jetbrains font-medium transition-all duration-200"
+            >
+              <Printer size={20} />
+              {isPrintingTables ? 'Preparing Table Codes...' : 'Print Table Result Codes'}
+            </button>
+
+            <button
+              onClick={printPlayerPins}
+              disabled={isPrintingPins}
+              className="w-full flex items-center justify-center gap-3 px-6 py-4 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-700 disabled:text-gray-500 text-white rounded-xl font-jetbrains font-medium transition-all duration-200"
+            >
+              <KeyRound size={20} />
+              {isPrintingPins ? 'Preparing PINs...' : 'Print Player PINs'}
+            </button>
+          </div>
+
           {/* Instructions */}
           <div className="mt-8 bg-blue-900/20 border border-blue-500/30 rounded-xl p-4">
             <h4 className="text-lg font-bold text-blue-300 font-orbitron mb-2">
@@ -354,6 +557,8 @@ const QRCodeModal: React.FC<QRCodeModalProps> = ({
               <li>• Players and spectators can scan it to view live results</li>
               <li>• The link works on any device with internet access</li>
               <li>• Results update automatically as games are completed</li>
+              <li>• Put a table result code on each board so players can report their own scores</li>
+              <li>• Hand each player their PIN slip; a report needs the reporting player's PIN</li>
             </ul>
           </div>
         </div>
@@ -1,13 +1,25 @@
 import React, { useState, useEffect } from 'react';
-import { ArrowLeft, Play, Lock, Users, Settings, Crown, Zap, Info, Target, Brain, TrendingUp, AlertTriangle, BarChart3, Edit3, History } from 'lucide-react';
+import { ArrowLeft, Play, Lock, Users, Settings, Crown, Zap, Info, Target, Brain, TrendingUp, AlertTriangle, BarChart3, Edit3, History, Calendar, SlidersHorizontal, X } from 'lucide-react';
 import ParticleBackground from './ParticleBackground';
 import Button from './Button';
 import StandingsImpactVisualizer from './StandingsImpactVisualizer';
 import AIInsightsPanel from './AIInsightsPanel';
-import { supabase } from '../lib/supabase';
+import ManualPairingBoard from './ManualPairingBoard';
+import OfflineStatus from './OfflineStatus';
+import { loadTournamentSnapshot, getRoundPairings, replaceRoundPairings, OfflineData } from '../lib/offlineRepository';
 import { useAuditLog } from '../hooks/useAuditLog';
-import { Tournament, Player, PlayerWithRank, PairingDisplay, PairingFormat, Pairing } from '../types/database';
-import { generatePairings } from '../utils/pairingAlgorithms';
+import { Tournament, Player, PlayerWithRank, TournamentConfig, PairingDisplay, PairingFormat, PairingOptions, Pairing, Division } from '../types/database';
+import { generatePairings, generateRoundRobinSchedule, getRoundRobinSitOuts, DEFAULT_PAIRING_OPTIONS } from '../utils/pairingAlgorithms';
+import { getGibsonConfig } from '../utils/gibsonization';
+import { getTiebreakChain } from '../utils/tiebreaks';
+import { computeStandings, getStandingsOptions, getLastCompleteRound, StandingsPairing, StandingsResult } from '../utils/standings';
+import { getRoundPlan, describeRoundPlan } from '../utils/pairingSchedule';
+import { isAvailableForRound } from '../utils/playerStatus';
+import { PairingHistoryEntry } from '../utils/swissPairingEngine';
+import { validatePairings } from '../utils/pairingValidator';
+import { buildFirstMoveHistory } from '../utils/firstMove';
+import { assignTables, getFixedTables, getTableHistory, getTableName, TableAssignmentOptions } from '../utils/tableAssignment';
+import { diffRoundPairings, RoundReplacementDiff } from '../utils/roundReplacement';
 import { 
   analyzePairingSystem, 
   recommendPairingSystem, 
@@ -24,40 +36,126 @@ interface RoundManagerProps {
 
 const RoundManager: React.FC<RoundManagerProps> = ({ onBack, onNext, tournamentId }) => {
   const [tournament, setTournament] = useState<Tournament | null>(null);
+  const [divisions, setDivisions] = useState<Division[]>([]);
+  const [selectedDivisionId, setSelectedDivisionId] = useState<string | null>(null);
   const [players, setPlayers] = useState<PlayerWithRank[]>([]);
+  const [divisionHistory, setDivisionHistory] = useState<DivisionHistory>({ players: [], pairings: [], results: [] });
   const [currentRound, setCurrentRound] = useState(1);
-  const [maxRounds] = useState(7); // Default to 7 rounds
   const [pairingFormat, setPairingFormat] = useState<PairingFormat>('swiss');
-  const [avoidRematches, setAvoidRematches] = useState(true);
-  const [enableGibsonization, setEnableGibsonization] = useState(true);
+  const [pairingOptions, setPairingOptions] = useState<PairingOptions>(DEFAULT_PAIRING_OPTIONS);
+  const [showOverrides, setShowOverrides] = useState(false);
+  const [fixedPairDraft, setFixedPairDraft] = useState<[string, string]>(['', '']);
   const [pairings, setPairings] = useState<PairingDisplay[]>([]);
+  const [isEditingPairings, setIsEditingPairings] = useState(false);
+  const [pairingsEdited, setPairingsEdited] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [warnings, setWarnings] = useState<string[]>([]);
+  const [previousPairings, setPreviousPairings] = useState<PairingHistoryEntry[]>([]);
+  const [occupiedTables, setOccupiedTables] = useState<number[]>([]);
+  const [replacementDiff, setReplacementDiff] = useState<RoundReplacementDiff | null>(null);
   const [showStrategyAnalysis, setShowStrategyAnalysis] = useState(false);
   const [showRecommendations, setShowRecommendations] = useState(false);
   const [showImpactVisualizer, setShowImpactVisualizer] = useState(false);
   const [showAIInsights, setShowAIInsights] = useState(false);
   const [showPastRounds, setShowPastRounds] = useState(false);
+  const [showSchedulePreview, setShowSchedulePreview] = useState(false);
   const [pastRoundPairings, setPastRoundPairings] = useState<Record<number, PairingDisplay[]>>({});
   
+  // The event's length, as set up by the director; 0 until it is known.
+  // Pairing waits for it rather than guessing.
+  const maxRounds = tournament?.rounds || 0;
+
   const { logAction } = useAuditLog();
 
   useEffect(() => {
     loadTournamentData();
   }, [tournamentId]);
 
+  // Restore the options a locked round was paired with, so re-pairing it
+  // reproduces the same choices. Unlocked rounds start from the tournament's
+  // pairing schedule without overrides.
+  useEffect(() => {
+    if (!tournament) return;
+
+    const loadRoundOptions = async () => {
+      try {
+        const { round_pairing_options: roundOptions } = await loadTournamentSnapshot(tournamentId);
+        const savedOptions = roundOptions.find(saved =>
+          saved.round_number === currentRound && (saved.division_id ?? null) === (selectedDivisionId ?? null)
+        );
+
+        if (savedOptions) {
+          setPairingOptions({ ...DEFAULT_PAIRING_OPTIONS, ...savedOptions.options });
+          if (savedOptions.pairing_system) {
+            setPairingFormat(savedOptions.pairing_system as PairingFormat);
+          }
+        } else {
+          const plan = getRoundPlan(tournament?.tournament_config, currentRound, tournament?.pairing_system);
+          setPairingFormat(plan.pairing_system);
+          setPairingOptions(prev => ({
+            ...prev,
+            avoid_rematches: plan.avoid_rematches,
+            rematch_tolerance: plan.rematch_tolerance,
+            based_on_round: plan.based_on_round,
+            fixed_pairs: [],
+            forced_byes: [],
+            sit_outs: []
+          }));
+        }
+      } catch (err) {
+        console.error('Error loading round pairing options:', err);
+      }
+    };
+
+    loadRoundOptions();
+  }, [tournament, tournamentId, selectedDivisionId, currentRound]);
+
+  useEffect(() => {
+    if (!tournament) return;
+
+    const loadDivisionPlayers = async (tournamentData: Tournament) => {
+      try {
+        const snapshot = await loadTournamentSnapshot(tournamentId);
+        const history = getDivisionHistory(snapshot, selectedDivisionId);
+
+        setDivisionHistory(history);
+        setPlayers(withStandings(history, tournamentData.tournament_config));
+      
+        // Load past rounds pairings
+        if ((tournamentData.current_round || 1) > 1) {
+          setPastRoundPairings(getPastRoundPairings(snapshot, tournamentData.current_round || 1, selectedDivisionId));
+        }
+      
+        // Log access
+        logAction({
+          action: 'round_manager_loaded',
+          details: {
+            tournament_id: tournamentId,
+            division_id: selectedDivisionId,
+            current_round: tournamentData.current_round || 1,
+            player_count: history.players.length
+          }
+        });
+      } catch (err) {
+        console.error('Error loading division players:', err);
+        setError('Failed to load players for this division');
+      }
+    };
+
+    setPairings([]);
+    setPreviousPairings([]);
+    setReplacementDiff(null);
+    setIsEditingPairings(false);
+    setPairingsEdited(false);
+    loadDivisionPlayers(tournament);
+  }, [tournament, tournamentId, selectedDivisionId, logAction]);
+
   const loadTournamentData = async () => {
     try {
-      // Load tournament
-      const { data: tournamentData, error: tournamentError } = await supabase
-        .from('tournaments')
-        .select('*')
-        .eq('id', tournamentId)
-        .single();
-
-      if (tournamentError) throw tournamentError;
+      // Load tournament, from the offline snapshot if the server is unreachable
+      const snapshot = await loadTournamentSnapshot(tournamentId);
+      const tournamentData = snapshot.tournaments[0];
       setTournament(tournamentData);
       setCurrentRound(tournamentData.current_round || 1);
       
@@ -66,214 +164,145 @@ const RoundManager: React.FC<RoundManagerProps> = ({ onBack, onNext, tournamentI
         setPairingFormat(tournamentData.pairing_system as PairingFormat);
       }
 
-      // Load players
-      const { data: playersData, error: playersError } = await supabase
-        .from('players')
-        .select('*')
-        .eq('tournament_id', tournamentId)
-        .order('rating', { ascending: false });
-
-      if (playersError) throw playersError;
-
-      // Calculate player statistics and previous starts
-      const playersWithStats = await Promise.all(
-        playersData.map(async (player) => {
-          // Get previous starts for each player
-          const { data: startsData } = await supabase
-            .from('pairings')
-            .select('first_move_player_id')
-            .eq('tournament_id', tournamentId)
-            .eq('first_move_player_id', player.id);
-
-          // Get all results for this player to calculate wins/losses/draws
-          const { data: resultsData } = await supabase
-            .from('results')
-            .select(`
-              *,
-              pairing:pairings!results_pairing_id_fkey(
-                player1_id,
-                player2_id,
-                round_number
-              )
-            `)
-            .eq('pairing.tournament_id', tournamentId);
-
-          let wins = 0;
-          let losses = 0;
-          let draws = 0;
-          let pointsFor = 0;
-          let pointsAgainst = 0;
-
-          // Process each result
-          for (const result of resultsData || []) {
-            const pairing = result.pairing;
-            if (!pairing) continue;
-
-            const isPlayer1 = pairing.player1_id === player.id;
-            const isPlayer2 = pairing.player2_id === player.id;
-
-            if (!isPlayer1 && !isPlayer2) continue;
-
-            const playerScore = isPlayer1 ? result.player1_score : result.player2_score;
-            const opponentScore = isPlayer1 ? result.player2_score : result.player1_score;
-
-            pointsFor += playerScore;
-            pointsAgainst += opponentScore;
-
-            // Determine result
-            if (playerScore > opponentScore) {
-              wins++;
-            } else if (playerScore < opponentScore) {
-              losses++;
-            } else {
-              draws++;
-            }
-          }
-
-          const points = wins + (draws * 0.5);
-          const spread = pointsFor - pointsAgainst;
-
-          return {
-            ...player,
-            rank: 0, // Will be set in pairing generation
-            previous_starts: startsData?.length || 0,
-            wins,
-            losses,
-            draws,
-            points,
-            spread,
-            is_gibsonized: false // Will be calculated in pairing generation
-          } as PlayerWithRank;
-        })
-      );
+      // Load divisions - pairings are generated one division at a time
+      const divisionsData = snapshot.divisions;
 
-      setPlayers(playersWithStats);
-      
-      // Load past rounds pairings
-      if (currentRound > 1) {
-        await loadPastRoundsPairings(tournamentData.current_round || 1);
+      setDivisions(divisionsData);
+      if (divisionsData.length > 0) {
+        setSelectedDivisionId(prev => prev && divisionsData.some(d => d.id === prev) ? prev : divisionsData[0].id || null);
       }
-      
-      // Log access
-      logAction({
-        action: 'round_manager_loaded',
-        details: {
-          tournament_id: tournamentId,
-          current_round: tournamentData.current_round || 1,
-          player_count: playersData.length
-        }
-      });
     } catch (err) {
       console.error('Error loading tournament data:', err);
       setError('Failed to load tournament data');
     }
   };
-  
-  const loadPastRoundsPairings = async (currentRound: number) => {
-    try {
-      const pastRounds: Record<number, PairingDisplay[]> = {};
-      
-      // Load pairings for past rounds
-      for (let round = 1; round < currentRound; round++) {
-        const { data: pairingsData, error: pairingsError } = await supabase
-          .from('pairings')
-          .select(`
-            *,
-            player1:players!pairings_player1_id_fkey(id, name, rating, team_name),
-            player2:players!pairings_player2_id_fkey(id, name, rating, team_name)
-          `)
-          .eq('tournament_id', tournamentId)
-          .eq('round_number', round)
-          .order('table_number');
-          
-        if (pairingsError) throw pairingsError;
-        
-        // Convert to PairingDisplay format
-        const displayPairings: PairingDisplay[] = (pairingsData || []).map(pairing => {
-          // Add missing fields to match PlayerWithRank
-          const player1WithRank = {
-            ...pairing.player1,
-            rank: 0,
-            previous_starts: 0,
-            wins: 0,
-            losses: 0,
-            draws: 0,
-            points: 0,
-            spread: 0,
-            is_gibsonized: pairing.player1_gibsonized || false
-          };
-          
-          const player2WithRank = {
-            ...pairing.player2,
-            rank: 0,
-            previous_starts: 0,
-            wins: 0,
-            losses: 0,
-            draws: 0,
-            points: 0,
-            spread: 0,
-            is_gibsonized: pairing.player2_gibsonized || false
-          };
-          
-          return {
-            table_number: pairing.table_number,
-            player1: player1WithRank,
-            player2: player2WithRank,
-            first_move_player_id: pairing.first_move_player_id,
-            player1_gibsonized: pairing.player1_gibsonized || false,
-            player2_gibsonized: pairing.player2_gibsonized || false
-          };
-        });
-        
-        pastRounds[round] = displayPairings;
-      }
-      
-      setPastRoundPairings(pastRounds);
-    } catch (err) {
-      console.error('Error loading past rounds pairings:', err);
-    }
+
+  const updatePairingOptions = (changes: Partial<PairingOptions>) => {
+    setPairingOptions(prev => ({ ...prev, ...changes }));
   };
 
+  // A player can only be in one override at a time
+  const clearOverrides = (options: PairingOptions, playerIds: string[]): PairingOptions => ({
+    ...options,
+    fixed_pairs: options.fixed_pairs.filter(pair => !pair.some(id => playerIds.includes(id))),
+    forced_byes: options.forced_byes.filter(id => !playerIds.includes(id)),
+    sit_outs: options.sit_outs.filter(id => !playerIds.includes(id))
+  });
+
+  const handleAddFixedPair = () => {
+    const [player1Id, player2Id] = fixedPairDraft;
+    if (!player1Id || !player2Id || player1Id === player2Id) return;
+    setPairingOptions(prev => {
+      const cleared = clearOverrides(prev, [player1Id, player2Id]);
+      return { ...cleared, fixed_pairs: [...cleared.fixed_pairs, [player1Id, player2Id]] };
+    });
+    setFixedPairDraft(['', '']);
+  };
+
+  const handleAddPlayerOverride = (key: 'forced_byes' | 'sit_outs', playerId: string) => {
+    if (!playerId) return;
+    setPairingOptions(prev => {
+      const cleared = clearOverrides(prev, [playerId]);
+      return { ...cleared, [key]: [...cleared[key], playerId] };
+    });
+  };
+
+  const inDivision = (row: { division_id?: string | null }) => !selectedDivisionId || row.division_id === selectedDivisionId;
+
+  const getTableAssignment = (history: PairingHistoryEntry[], occupied: number[]): TableAssignmentOptions => ({
+    venueTables: tournament?.tournament_config?.venue_tables,
+    topBoards: tournament?.tournament_config?.top_boards,
+    fixedTables: getFixedTables(players),
+    previousTables: getTableHistory(history),
+    occupiedTables: new Set(occupied)
+  });
+
+  // Pairing never uses results past the last fully reported round
+  const getStandingsRound = (history: DivisionHistory): number => Math.min(
+    pairingOptions.based_on_round ?? currentRound - 1,
+    currentRound - 1,
+    getLastCompleteRound(history.pairings, history.results)
+  );
+
   const handleGeneratePairings = async () => {
-    if (players.length < 2) {
-      setError('Need at least 2 players to generate pairings');
+    if (!maxRounds) {
+      setError('Set the number of rounds for this tournament before pairing');
+      return;
+    }
+
+    if (availablePlayerCount < 2) {
+      setError('Need at least 2 available players to generate pairings');
       return;
     }
 
     setIsGenerating(true);
     setError(null);
-    setWarnings([]);
+    setPreviousPairings([]);
+    setReplacementDiff(null);
 
     try {
-      // Get previous pairings for rematch avoidance
-      const { data: previousPairings } = await supabase
-        .from('pairings')
-        .select('player1_id, player2_id')
-        .eq('tournament_id', tournamentId);
+      const snapshot = await loadTournamentSnapshot(tournamentId);
+      const resultsByPairing = new Map(snapshot.results.map(result => [result.pairing_id, result]));
+
+      // Get previous pairings for rematch avoidance, carrying scores along
+      // so standings tiebreaks can be applied before pairing
+      const previousPairings: PairingHistoryEntry[] = snapshot.pairings
+        .filter(pairing => pairing.round_number < currentRound && inDivision(pairing))
+        .map(pairing => ({
+          player1_id: pairing.player1_id,
+          player2_id: pairing.player2_id,
+          round_number: pairing.round_number,
+          table_number: pairing.table_number,
+          first_move_player_id: pairing.first_move_player_id,
+          is_bye: pairing.is_bye,
+          player1_score: resultsByPairing.get(pairing.id!)?.player1_score,
+          player2_score: resultsByPairing.get(pairing.id!)?.player2_score
+        }));
+
+      // Rank players on results through the based-on round, or the last round
+      // that is fully reported if the rounds after it are still being played
+      const history = getDivisionHistory(snapshot, selectedDivisionId);
+      const basedOnRound = getStandingsRound(history);
+      const roundOptions: PairingOptions = { ...pairingOptions, based_on_round: basedOnRound };
+      const pairingPlayers = withStandings(history, tournament?.tournament_config, basedOnRound);
+      setDivisionHistory(history);
 
       const newPairings = generatePairings(
-        players,
+        pairingPlayers,
         pairingFormat,
-        avoidRematches,
-        previousPairings || [],
+        previousPairings,
         currentRound,
-        maxRounds
+        maxRounds,
+        roundOptions,
+        getGibsonConfig(tournament?.tournament_config),
+        getTiebreakChain(tournament?.tournament_config)
       );
 
-      setPairings(newPairings);
-      
-      // Validate pairings for warnings
-      validatePairings(newPairings);
+      // Other divisions playing this round keep their tables
+      let occupied: number[] = [];
+      if (divisions.length > 1 && selectedDivisionId) {
+        occupied = snapshot.pairings
+          .filter(pairing => pairing.round_number === currentRound && pairing.division_id !== selectedDivisionId && !pairing.is_bye)
+          .map(pairing => pairing.table_number);
+      }
+
+      setPairings(assignTables(newPairings, getTableAssignment(previousPairings, occupied)));
+      setPlayers(pairingPlayers);
+      setPreviousPairings(previousPairings);
+      setOccupiedTables(occupied);
+      setIsEditingPairings(pairingFormat === 'manual');
+      setPairingsEdited(false);
       
       // Log pairing generation
       logAction({
         action: 'pairings_generated',
         details: {
           tournament_id: tournamentId,
+          division_id: selectedDivisionId,
           round: currentRound,
           pairing_format: pairingFormat,
-          avoid_rematches: avoidRematches,
-          enable_gibsonization: enableGibsonization,
+          options: roundOptions,
+          rounds_in_play: Math.max(0, currentRound - 1 - getLastCompleteRound(history.pairings, history.results)),
           pairing_count: newPairings.length
         }
       });
@@ -285,96 +314,92 @@ const RoundManager: React.FC<RoundManagerProps> = ({ onBack, onNext, tournamentI
     }
   };
   
-  const validatePairings = (pairings: PairingDisplay[]) => {
-    const newWarnings: string[] = [];
-    
-    // Check for duplicate players
-    const playerCounts: Record<string, number> = {};
-    pairings.forEach(pairing => {
-      if (pairing.player1.id !== 'bye') {
-        playerCounts[pairing.player1.id!] = (playerCounts[pairing.player1.id!] || 0) + 1;
-      }
-      if (pairing.player2.id !== 'bye') {
-        playerCounts[pairing.player2.id!] = (playerCounts[pairing.player2.id!] || 0) + 1;
-      }
-    });
-    
-    const duplicatePlayers = Object.entries(playerCounts)
-      .filter(([_, count]) => count > 1)
-      .map(([id]) => players.find(p => p.id === id)?.name || id);
-      
-    if (duplicatePlayers.length > 0) {
-      newWarnings.push(`Duplicate players detected: ${duplicatePlayers.join(', ')}`);
-    }
-    
-    // Check for team members playing each other in team mode
-    if (tournament?.team_mode) {
-      const sameTeamPairings = pairings.filter(pairing => 
-        pairing.player1.team_name && 
-        pairing.player2.team_name && 
-        pairing.player1.team_name === pairing.player2.team_name
-      );
-      
-      if (sameTeamPairings.length > 0) {
-        newWarnings.push(`${sameTeamPairings.length} pairings have players from the same team`);
-      }
-    }
-    
-    // Check for rematches if avoid rematches is enabled
-    if (avoidRematches) {
-      // This would require checking against all previous pairings
-      // For simplicity, we'll skip this check here
-    }
-    
-    setWarnings(newWarnings);
-  };
-
-  const handleLockPairings = async () => {
+  /**
+   * Saves the proposed pairings through `replace_round_pairings`. If the round
+   * was already paired and the pairings differ, the changes are shown for
+   * confirmation first; unchanged pairings keep their results.
+   */
+  const handleLockPairings = async (confirmed: boolean = false) => {
     if (pairings.length === 0) {
       setError('No pairings to save');
       return;
     }
 
+    if (pairingReport && !pairingReport.canLock) {
+      setError('Fix the pairing errors before locking this round');
+      return;
+    }
+
     setIsSaving(true);
     setError(null);
 
     try {
-      // Delete existing pairings for this round
-      await supabase
-        .from('pairings')
-        .delete()
-        .eq('tournament_id', tournamentId)
-        .eq('round_number', currentRound);
-
-      // Insert new pairings
-      const pairingsToInsert: Omit<Pairing, 'id' | 'created_at'>[] = pairings
-        .filter(p => p.player2.id !== 'bye') // Exclude bye pairings
-        .map(pairing => ({
-          round_number: currentRound,
-          tournament_id: tournamentId,
-          table_number: pairing.table_number,
-          player1_id: pairing.player1.id!,
-          player2_id: pairing.player2.id!,
-          player1_rank: pairing.player1.rank,
-          player2_rank: pairing.player2.rank,
-          first_move_player_id: pairing.first_move_player_id,
-          player1_gibsonized: pairing.player1_gibsonized || false,
-          player2_gibsonized: pairing.player2_gibsonized || false
-        }));
+      if (!confirmed) {
+        // Check what is already stored for this round before replacing it
+        const snapshot = await loadTournamentSnapshot(tournamentId);
+        const reported = new Set(snapshot.results.map(result => result.pairing_id));
+        const storedData = snapshot.pairings.filter(pairing => pairing.round_number === currentRound && inDivision(pairing));
+
+        if (storedData.length > 0) {
+          const diff = diffRoundPairings(
+            storedData.map(pairing => ({
+              id: pairing.id!,
+              table_number: pairing.table_number,
+              player1_id: pairing.player1_id,
+              player2_id: pairing.player2_id,
+              has_result: reported.has(pairing.id!)
+            })),
+            pairings,
+            playerId => players.find(p => p.id === playerId)?.name || 'Unknown'
+          );
+          if (!diff.identical) {
+            setReplacementDiff(diff);
+            return;
+          }
+        }
+      }
+
+      const pairingsToSave: Omit<Pairing, 'id' | 'created_at'>[] = pairings.map(pairing => ({
+        round_number: currentRound,
+        tournament_id: tournamentId,
+        division_id: selectedDivisionId,
+        table_number: pairing.table_number,
+        player1_id: pairing.player1.id!,
+        player2_id: pairing.player2?.id || null,
+        player1_rank: pairing.player1.rank,
+        player2_rank: pairing.player2?.rank ?? null,
+        first_move_player_id: pairing.first_move_player_id,
+        player1_gibsonized: pairing.player1_gibsonized || false,
+        player2_gibsonized: pairing.player2_gibsonized || false,
+        is_bye: pairing.is_bye || false
+      }));
 
-      const { error: insertError } = await supabase
-        .from('pairings')
-        .insert(pairingsToInsert);
+      // Replaces the round in one transaction; results of unchanged pairings
+      // are kept. Offline, the round is saved on this device and queued
+      const { data: summary, queued } = await replaceRoundPairings({
+        p_tournament_id: tournamentId,
+        p_division_id: selectedDivisionId,
+        p_round_number: currentRound,
+        p_pairings: pairingsToSave,
+        p_discard_results: confirmed,
+        p_pairing_system: pairingFormat,
+        p_options: { ...pairingOptions, based_on_round: standingsRound }
+      });
 
-      if (insertError) throw insertError;
+      setReplacementDiff(null);
       
       // Log pairings locked
       logAction({
         action: 'pairings_locked',
         details: {
           tournament_id: tournamentId,
+          division_id: selectedDivisionId,
           round: currentRound,
-          pairing_count: pairingsToInsert.length
+          pairing_count: pairingsToSave.length,
+          manually_edited: pairingsEdited,
+          kept: summary?.kept ?? 0,
+          results_discarded: summary?.results_discarded ?? 0,
+          queued_offline: queued
         }
       });
 
@@ -397,7 +422,7 @@ const RoundManager: React.FC<RoundManagerProps> = ({ onBack, onNext, tournamentI
       case 'king-of-hill':
         return 'Pair highest ranked vs lowest ranked players';
       case 'round-robin':
-        return 'Each player plays every other player once';
+        return 'Each player plays every other player once, following a fixed Berger table schedule';
       case 'quartile':
         return 'Split into quartiles, pair 1st vs 2nd, 3rd vs 4th';
       case 'manual':
@@ -408,7 +433,7 @@ const RoundManager: React.FC<RoundManagerProps> = ({ onBack, onNext, tournamentI
   };
 
   const getGibsonizedTooltip = () => {
-    return "Gibsonized players are mathematically guaranteed a prize position. They are paired together or with non-contenders to maintain competitive balance.";
+    return "Gibsonized players are mathematically guaranteed their prize position. They are paired with each other, or with the highest-ranked player who can no longer win a prize.";
   };
 
   const getGibsonizationBanner = () => {
@@ -418,7 +443,7 @@ const RoundManager: React.FC<RoundManagerProps> = ({ onBack, onNext, tournamentI
     const gibsonizedPlayers = pairings
       .flatMap(p => [
         p.player1_gibsonized ? p.player1.name : null,
-        p.player2_gibsonized ? p.player2.name : null
+        p.player2_gibsonized ? p.player2?.name : null
       ])
       .filter(Boolean);
 
@@ -444,6 +469,25 @@ const RoundManager: React.FC<RoundManagerProps> = ({ onBack, onNext, tournamentI
 
   // Get strategy analysis for current format
   const currentAnalysis = analyzePairingSystem(pairingFormat, players.length, maxRounds);
+  const roundPlan = getRoundPlan(tournament?.tournament_config, currentRound, tournament?.pairing_system);
+  const lastCompleteRound = getLastCompleteRound(divisionHistory.pairings, divisionHistory.results);
+  const standingsRound = getStandingsRound(divisionHistory);
+  const availablePlayerCount = players.filter(player => isAvailableForRound(player, currentRound)).length;
+  const boardPlayers = players.filter(player =>
+    isAvailableForRound(player, currentRound) && !pairingOptions.sit_outs.includes(player.id!)
+  );
+
+  // Re-audited whenever the proposed pairings change
+  const pairingReport = pairings.length > 0 ? validatePairings(pairings, players, {
+    round: currentRound,
+    previousPairings,
+    teamMode: tournament?.team_mode,
+    checkScoreGroups: pairingFormat === 'swiss' || pairingFormat === 'fonte-swiss',
+    // A round robin's schedule leaves its late entrants out on purpose
+    sitOuts: pairingFormat === 'round-robin'
+      ? [...pairingOptions.sit_outs, ...getRoundRobinSitOuts(players)]
+      : pairingOptions.sit_outs
+  }) : null;
   
   // Get quick recommendations
   const quickRecs = getQuickRecommendations();
@@ -472,9 +516,12 @@ const RoundManager: React.FC<RoundManagerProps> = ({ onBack, onNext, tournamentI
               <ArrowLeft size={20} />
               <span className="font-jetbrains">Back</span>
             </button>
-            <div className="flex items-center gap-2 text-green-400">
-              <Play size={24} />
-              <span className="font-jetbrains text-sm">Round Manager</span>
+            <div className="flex items-center gap-4">
+              <OfflineStatus />
+              <div className="flex items-center gap-2 text-green-400">
+                <Play size={24} />
+                <span className="font-jetbrains text-sm">Round Manager</span>
+              </div>
             </div>
           </div>
 
@@ -547,6 +594,30 @@ const RoundManager: React.FC<RoundManagerProps> = ({ onBack, onNext, tournamentI
                 </button>
               </div>
             </div>
+
+            {/* Division Selection */}
+            {divisions.length > 1 && (
+              <div className="mb-6">
+                <label className="block text-gray-300 text-sm font-medium mb-2 font-jetbrains">
+                  Division
+                </label>
+                <div className="flex flex-wrap gap-2">
+                  {divisions.map(division => (
+                    <button
+                      key={division.id}
+                      onClick={() => setSelectedDivisionId(division.id!)}
+                      className={`px-4 py-2 rounded-lg font-jetbrains text-sm font-medium transition-all duration-200 ${
+                        selectedDivisionId === division.id
+                          ? 'bg-blue-600 text-white border border-blue-500'
+                          : 'bg-gray-800 text-gray-400 border border-gray-600 hover:text-white hover:bg-gray-700'
+                      }`}
+                    >
+                      {division.name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
             
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6">
               {/* Round Selection */}
@@ -559,7 +630,7 @@ const RoundManager: React.FC<RoundManagerProps> = ({ onBack, onNext, tournamentI
                   onChange={(e) => setCurrentRound(parseInt(e.target.value))}
                   className="w-full bg-gray-800 border border-gray-600 rounded-lg px-4 py-3 text-white font-jetbrains focus:border-blue-500 focus:outline-none transition-colors duration-300"
                 >
-                  {Array.from({ length: maxRounds }, (_, i) => (
+                  {Array.from({ length: Math.max(maxRounds, currentRound) }, (_, i) => (
                     <option key={i + 1} value={i + 1}>
                       Round {i + 1}
                     </option>
@@ -592,14 +663,14 @@ const RoundManager: React.FC<RoundManagerProps> = ({ onBack, onNext, tournamentI
                   Avoid Rematches
                 </label>
                 <button
-                  onClick={() => setAvoidRematches(!avoidRematches)}
+                  onClick={() => updatePairingOptions({ avoid_rematches: !pairingOptions.avoid_rematches })}
                   className={`w-full px-4 py-3 rounded-lg font-jetbrains font-medium transition-all duration-300 ${
-                    avoidRematches
+                    pairingOptions.avoid_rematches
                       ? 'bg-green-600 text-white border border-green-500'
                       : 'bg-gray-800 text-gray-400 border border-gray-600'
                   }`}
                 >
-                  {avoidRematches ? 'ON' : 'OFF'}
+                  {pairingOptions.avoid_rematches ? 'ON' : 'OFF'}
                 </button>
               </div>
 
@@ -609,15 +680,15 @@ const RoundManager: React.FC<RoundManagerProps> = ({ onBack, onNext, tournamentI
                   Enable Gibsonization
                 </label>
                 <button
-                  onClick={() => setEnableGibsonization(!enableGibsonization)}
+                  onClick={() => updatePairingOptions({ gibsonization: !pairingOptions.gibsonization })}
                   className={`w-full px-4 py-3 rounded-lg font-jetbrains font-medium transition-all duration-300 flex items-center justify-center gap-2 ${
-                    enableGibsonization
+                    pairingOptions.gibsonization
                       ? 'bg-yellow-600 text-white border border-yellow-500'
                       : 'bg-gray-800 text-gray-400 border border-gray-600'
                   }`}
                 >
                   <Crown size={16} />
-                  {enableGibsonization ? 'ON' : 'OFF'}
+                  {pairingOptions.gibsonization ? 'ON' : 'OFF'}
                 </button>
               </div>
 
@@ -628,7 +699,8 @@ const RoundManager: React.FC<RoundManagerProps> = ({ onBack, onNext, tournamentI
                 </label>
                 <button
                   onClick={handleGeneratePairings}
-                  disabled={isGenerating || players.length < 2}
+                  disabled={isGenerating || !maxRounds || availablePlayerCount < 2}
+                  title={tournament && !maxRounds ? 'Set the number of rounds for this tournament before pairing' : undefined}
                   className="w-full px-4 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:text-gray-500 text-white rounded-lg font-jetbrains font-medium transition-all duration-300 flex items-center justify-center gap-2"
                 >
                   <Play size={16} />
@@ -638,10 +710,165 @@ const RoundManager: React.FC<RoundManagerProps> = ({ onBack, onNext, tournamentI
             </div>
 
             {/* Format Description */}
-            <div className="mt-6 p-4 bg-blue-900/20 border border-blue-500/30 rounded-lg">
-              <p className="text-blue-300 font-jetbrains text-sm">
-                <strong>{pairingFormat.charAt(0).toUpperCase() + pairingFormat.slice(1).replace('-', '-')}:</strong> {getPairingFormatDescription(pairingFormat)}
-              </p>
+            <div className="mt-6 p-4 bg-blue-900/20 border border-blue-500/30 rounded-lg flex items-center justify-between gap-4">
+              <div className="text-blue-300 font-jetbrains text-sm">
+                <p>
+                  <strong>{pairingFormat.charAt(0).toUpperCase() + pairingFormat.slice(1).replace('-', '-')}:</strong> {getPairingFormatDescription(pairingFormat)}
+                </p>
+                {(tournament?.tournament_config?.pairing_schedule?.length ?? 0) > 0 && (
+                  <p className="mt-1 text-xs text-blue-400">
+                    Scheduled for round {currentRound}: {describeRoundPlan(roundPlan)}
+                  </p>
+                )}
+                {standingsRound < currentRound - 1 && (
+                  <p className="mt-1 text-xs text-yellow-300">
+                    {lastCompleteRound < currentRound - 1
+                      ? `Round ${lastCompleteRound + 1} is still being played, so round ${currentRound} will be paired on `
+                      : `Round ${currentRound} will be paired on `}
+                    {standingsRound === 0 ? 'ratings alone' : `standings after round ${standingsRound}`}
+                  </p>
+                )}
+              </div>
+              {pairingFormat === 'round-robin' && players.length >= 2 && (
+                <button
+                  onClick={() => setShowSchedulePreview(!showSchedulePreview)}
+                  className="flex-shrink-0 flex items-center gap-2 px-3 py-2 bg-blue-600/20 border border-blue-500/50 text-blue-300 hover:bg-blue-600/30 hover:text-white rounded-lg font-jetbrains text-xs transition-all duration-200"
+                >
+                  <Calendar size={14} />
+                  {showSchedulePreview ? 'Hide Schedule' : 'Preview Full Schedule'}
+                </button>
+              )}
+            </div>
+
+            {/* Round Overrides */}
+            <div className="mt-6">
+              <button
+                onClick={() => setShowOverrides(!showOverrides)}
+                className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg font-jetbrains text-sm transition-all duration-200 ${
+                  showOverrides
+                    ? 'bg-gray-700 text-white'
+                    : 'bg-gray-800/50 border border-gray-600 text-gray-300 hover:bg-gray-700/50 hover:text-white'
+                }`}
+              >
+                <SlidersHorizontal size={16} />
+                Round {currentRound} Overrides
+                {(pairingOptions.fixed_pairs.length + pairingOptions.forced_byes.length + pairingOptions.sit_outs.length + (pairingOptions.rematch_tolerance > 0 ? 1 : 0)) > 0 && (
+                  <span className="px-2 py-0.5 bg-blue-600 text-white rounded-full text-xs">
+                    {pairingOptions.fixed_pairs.length + pairingOptions.forced_byes.length + pairingOptions.sit_outs.length + (pairingOptions.rematch_tolerance > 0 ? 1 : 0)}
+                  </span>
+                )}
+              </button>
+
+              {showOverrides && (
+                <div className="mt-4 p-4 bg-gray-800/50 border border-gray-600 rounded-lg grid grid-cols-1 md:grid-cols-2 gap-6 font-jetbrains text-sm">
+                  {/* Rematch Tolerance */}
+                  <div>
+                    <label className="block text-gray-300 font-medium mb-2">Rematch Tolerance</label>
+                    <select
+                      value={pairingOptions.rematch_tolerance}
+                      onChange={(e) => updatePairingOptions({ rematch_tolerance: parseInt(e.target.value) })}
+                      disabled={!pairingOptions.avoid_rematches}
+                      className="w-full bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-white focus:border-blue-500 focus:outline-none disabled:opacity-50"
+                    >
+                      <option value={0}>Avoid any rematch</option>
+                      <option value={1}>Allow players to meet twice</option>
+                      <option value={2}>Allow players to meet three times</option>
+                    </select>
+                  </div>
+
+                  {/* Based On Round */}
+                  <div>
+                    <label className="block text-gray-300 font-medium mb-2">Rank Players On</label>
+                    <select
+                      value={pairingOptions.based_on_round ?? currentRound - 1}
+                      onChange={(e) => updatePairingOptions({ based_on_round: parseInt(e.target.value) })}
+                      className="w-full bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-white focus:border-blue-500 focus:outline-none"
+                    >
+                      <option value={0}>Ratings only</option>
+                      {Array.from({ length: currentRound - 1 }, (_, i) => (
+                        <option key={i + 1} value={i + 1}>Results through round {i + 1}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {/* Fixed Pairs */}
+                  <div>
+                    <label className="block text-gray-300 font-medium mb-2">Fixed Pairs</label>
+                    <div className="flex gap-2">
+                      {[0, 1].map(side => (
+                        <select
+                          key={side}
+                          value={fixedPairDraft[side]}
+                          onChange={(e) => setFixedPairDraft(prev => side === 0 ? [e.target.value, prev[1]] : [prev[0], e.target.value])}
+                          className="flex-1 bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-white focus:border-blue-500 focus:outline-none"
+                        >
+                          <option value="">Player {side + 1}</option>
+                          {players.filter(player => isAvailableForRound(player, currentRound)).map(player => (
+                            <option key={player.id} value={player.id}>{player.name}</option>
+                          ))}
+                        </select>
+                      ))}
+                      <button
+                        onClick={handleAddFixedPair}
+                        disabled={!fixedPairDraft[0] || !fixedPairDraft[1] || fixedPairDraft[0] === fixedPairDraft[1]}
+                        className="px-3 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:text-gray-500 text-white rounded-lg transition-all duration-200"
+                      >
+                        Add
+                      </button>
+                    </div>
+                    <div className="flex flex-wrap gap-2 mt-2">
+                      {pairingOptions.fixed_pairs.map(([player1Id, player2Id]) => (
+                        <span key={`${player1Id}-${player2Id}`} className="inline-flex items-center gap-1 px-2 py-1 bg-blue-600/20 border border-blue-500/50 text-blue-300 rounded text-xs">
+                          {players.find(p => p.id === player1Id)?.name} vs {players.find(p => p.id === player2Id)?.name}
+                          <button onClick={() => setPairingOptions(prev => clearOverrides(prev, [player1Id, player2Id]))} className="hover:text-white">
+                            <X size={12} />
+                          </button>
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* Forced Byes and Sit-outs */}
+                  {([
+                    ['forced_byes', 'Forced Byes', 'Receives the bye award'],
+                    ['sit_outs', 'Sitting Out', 'Not paired and no bye']
+                  ] as const).map(([key, label, hint]) => (
+                    <div key={key}>
+                      <label className="block text-gray-300 font-medium mb-2">
+                        {label} <span className="text-gray-500 font-normal">— {hint}</span>
+                      </label>
+                      <select
+                        value=""
+                        onChange={(e) => handleAddPlayerOverride(key, e.target.value)}
+                        className="w-full bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-white focus:border-blue-500 focus:outline-none"
+                      >
+                        <option value="">Add a player...</option>
+                        {players
+                          .filter(player => isAvailableForRound(player, currentRound) && !pairingOptions[key].includes(player.id!))
+                          .map(player => (
+                            <option key={player.id} value={player.id}>{player.name}</option>
+                          ))}
+                      </select>
+                      <div className="flex flex-wrap gap-2 mt-2">
+                        {pairingOptions[key].map(playerId => (
+                          <span key={playerId} className="inline-flex items-center gap-1 px-2 py-1 bg-gray-700 border border-gray-600 text-gray-200 rounded text-xs">
+                            {players.find(p => p.id === playerId)?.name || 'Unknown'}
+                            <button onClick={() => setPairingOptions(prev => clearOverrides(prev, [playerId]))} className="hover:text-white">
+                              <X size={12} />
+                            </button>
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+
+                  {pairingFormat === 'round-robin' && (
+                    <p className="md:col-span-2 text-yellow-300 text-xs">
+                      Round robin schedules are fixed in advance, so these overrides do not apply.
+                    </p>
+                  )}
+                </div>
+              )}
             </div>
 
             {/* Current Round Display */}
@@ -652,9 +879,13 @@ const RoundManager: React.FC<RoundManagerProps> = ({ onBack, onNext, tournamentI
                   Current Round: {currentRound}
                 </span>
                 <span className="text-gray-400 font-jetbrains">
-                  ({players.length} players)
+                  ({players.length} players{divisions.length > 1 && selectedDivisionId
+                    ? ` in ${divisions.find(d => d.id === selectedDivisionId)?.name}`
+                    : ''}{availablePlayerCount < players.length
+                    ? `, ${players.length - availablePlayerCount} not playing this round`
+                    : ''})
                 </span>
-                {enableGibsonization && (
+                {pairingOptions.gibsonization && (
                   <>
                     <span className="text-gray-500">•</span>
                     <Crown size={16} className="text-yellow-400" />
@@ -853,6 +1084,40 @@ const RoundManager: React.FC<RoundManagerProps> = ({ onBack, onNext, tournamentI
           </div>
         )}
 
+        {/* Round Robin Schedule Preview */}
+        {showSchedulePreview && pairingFormat === 'round-robin' && maxRounds > 0 && (
+          <div className="fade-up max-w-6xl mx-auto w-full mb-8">
+            <div className="bg-gray-900/50 border border-blue-500/30 rounded-xl p-6 backdrop-blur-sm">
+              <h3 className="text-xl font-bold text-white font-orbitron flex items-center gap-2 mb-6">
+                <Calendar size={24} className="text-blue-400" />
+                Round Robin Schedule
+              </h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {generateRoundRobinSchedule(players, maxRounds).slice(0, maxRounds).map(round => (
+                  <div
+                    key={round.round_number}
+                    className={`bg-gray-800/50 border rounded-lg p-4 ${
+                      round.round_number === currentRound ? 'border-blue-500' : 'border-gray-700'
+                    }`}
+                  >
+                    <div className="font-orbitron font-bold text-white mb-2">Round {round.round_number}</div>
+                    <ul className="space-y-1 text-xs font-jetbrains text-gray-300">
+                      {round.games.map((game, index) => (
+                        <li key={index}>
+                          <span className="text-gray-500">T{index + 1}</span> {game.first.name} vs {game.second.name}
+                        </li>
+                      ))}
+                      {round.bye && (
+                        <li className="text-yellow-400">Bye: {round.bye.name}</li>
+                      )}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Error Display */}
         {error && (
           <div className="max-w-6xl mx-auto w-full mb-8">
@@ -862,17 +1127,34 @@ const RoundManager: React.FC<RoundManagerProps> = ({ onBack, onNext, tournamentI
           </div>
         )}
         
-        {/* Warnings Display */}
-        {warnings.length > 0 && (
+        {/* Pairing Errors - block locking */}
+        {pairingReport && pairingReport.errors.length > 0 && (
+          <div className="max-w-6xl mx-auto w-full mb-8">
+            <div className="bg-red-900/30 border border-red-500/50 rounded-lg p-4 text-red-300 font-jetbrains text-sm">
+              <div className="flex items-center gap-2 mb-2">
+                <AlertTriangle size={16} />
+                <span className="font-bold">Errors — these pairings cannot be locked</span>
+              </div>
+              <ul className="space-y-1 ml-6 list-disc">
+                {pairingReport.errors.map((issue, index) => (
+                  <li key={index}>{issue.message}</li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+
+        {/* Warnings Display - most serious first */}
+        {pairingReport && pairingReport.warnings.length > 0 && (
           <div className="max-w-6xl mx-auto w-full mb-8">
             <div className="bg-yellow-900/30 border border-yellow-500/50 rounded-lg p-4 text-yellow-300 font-jetbrains text-sm">
               <div className="flex items-center gap-2 mb-2">
                 <AlertTriangle size={16} />
-                <span className="font-bold">Warnings</span>
+                <span className="font-bold">Warnings ({pairingReport.warnings.length})</span>
               </div>
               <ul className="space-y-1 ml-6 list-disc">
-                {warnings.map((warning, index) => (
-                  <li key={index}>{warning}</li>
+                {pairingReport.warnings.map((issue, index) => (
+                  <li key={index}>{issue.message}</li>
                 ))}
               </ul>
             </div>
@@ -944,27 +1226,31 @@ const RoundManager: React.FC<RoundManagerProps> = ({ onBack, onNext, tournamentI
                                 <span className="text-gray-500 font-bold">VS</span>
                               </td>
                               <td className="px-4 py-3 whitespace-nowrap">
-                                <div className="flex items-center gap-2">
-                                  {pairing.first_move_player_id === pairing.player2.id && (
-                                    <div className="w-3 h-3 bg-green-500 rounded-full"></div>
-                                  )}
-                                  {pairing.player2_gibsonized && (
-                                    <div className="relative group">
-                                      <Crown size={16} className="text-yellow-400" />
-                                      <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-1 px-2 py-1 bg-gray-800 text-white text-xs rounded opacity-0 group-hover:opacity-100 transition-opacity duration-200 whitespace-nowrap z-10 border border-gray-600">
-                                        Gibsonized
+                                {pairing.player2 ? (
+                                  <div className="flex items-center gap-2">
+                                    {pairing.first_move_player_id === pairing.player2.id && (
+                                      <div className="w-3 h-3 bg-green-500 rounded-full"></div>
+                                    )}
+                                    {pairing.player2_gibsonized && (
+                                      <div className="relative group">
+                                        <Crown size={16} className="text-yellow-400" />
+                                        <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-1 px-2 py-1 bg-gray-800 text-white text-xs rounded opacity-0 group-hover:opacity-100 transition-opacity duration-200 whitespace-nowrap z-10 border border-gray-600">
+                                          Gibsonized
+                                        </div>
+                                      </div>
+                                    )}
+                                    <div>
+                                      <div className="text-sm font-medium text-white">
+                                        {pairing.player2.name}
+                                      </div>
+                                      <div className="text-xs text-gray-400 font-jetbrains">
+                                        {pairing.player2.rating}
                                       </div>
-                                    </div>
-                                  )}
-                                  <div>
-                                    <div className="text-sm font-medium text-white">
-                                      {pairing.player2.name}
-                                    </div>
-                                    <div className="text-xs text-gray-400 font-jetbrains">
-                                      {pairing.player2.rating}
                                     </div>
                                   </div>
-                                </div>
+                                ) : (
+                                  <span className="text-sm text-gray-500 font-jetbrains">BYE</span>
+                                )}
                               </td>
                               <td className="px-4 py-3 whitespace-nowrap">
                                 <div className="flex items-center gap-2">
@@ -972,7 +1258,7 @@ const RoundManager: React.FC<RoundManagerProps> = ({ onBack, onNext, tournamentI
                                   <span className="text-sm text-green-400 font-jetbrains">
                                     {pairing.first_move_player_id === pairing.player1.id 
                                       ? pairing.player1.name 
-                                      : pairing.player2.name}
+                                      : pairing.player2?.name}
                                   </span>
                                 </div>
                               </td>
@@ -989,10 +1275,10 @@ const RoundManager: React.FC<RoundManagerProps> = ({ onBack, onNext, tournamentI
         )}
 
         {/* Pairings Table */}
-        {pairings.length > 0 && (
+        {(pairings.length > 0 || isEditingPairings) && (
           <div className="fade-up max-w-6xl mx-auto w-full mb-8">
             <div className="bg-gray-900/50 border border-gray-700 rounded-xl overflow-hidden backdrop-blur-sm">
-              <div className="p-6 border-b border-gray-700">
+              <div className="p-6 border-b border-gray-700 flex items-center justify-between gap-4">
                 <h2 className="text-xl font-bold text-white font-orbitron flex items-center gap-2">
                   <Users size={24} />
                   Round {currentRound} Pairings
@@ -1005,8 +1291,34 @@ const RoundManager: React.FC<RoundManagerProps> = ({ onBack, onNext, tournamentI
                     </div>
                   )}
                 </h2>
+                <button
+                  onClick={() => setIsEditingPairings(!isEditingPairings)}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-lg font-jetbrains text-sm font-medium transition-all duration-200 ${
+                    isEditingPairings
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-blue-600/20 border border-blue-500/50 text-blue-400 hover:bg-blue-600/30 hover:text-white'
+                  }`}
+                >
+                  <Edit3 size={16} />
+                  {isEditingPairings ? 'Done Editing' : 'Edit Pairings'}
+                </button>
               </div>
               
+              {isEditingPairings ? (
+                <div className="p-6">
+                  <ManualPairingBoard
+                    pairings={pairings}
+                    players={boardPlayers}
+                    issues={pairingReport ? [...pairingReport.errors, ...pairingReport.warnings] : []}
+                    firstMoveHistory={buildFirstMoveHistory(previousPairings)}
+                    onChange={(updated) => {
+                      setPairings(assignTables(updated, getTableAssignment(previousPairings, occupiedTables)));
+                      setPairingsEdited(true);
+                      setReplacementDiff(null);
+                    }}
+                  />
+                </div>
+              ) : (
               <div className="overflow-x-auto">
                 <table className="w-full">
                   <thead className="bg-gray-800/50">
@@ -1023,6 +1335,11 @@ const RoundManager: React.FC<RoundManagerProps> = ({ onBack, onNext, tournamentI
                       <tr key={pairing.table_number} className="bg-gray-900/30 hover:bg-gray-800/30 transition-colors duration-200">
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-white font-mono font-bold">
                           {pairing.table_number}
+                          {pairing.player2 && getTableName(tournament?.tournament_config, pairing.table_number) && (
+                            <div className="text-xs text-gray-400 font-jetbrains font-normal">
+                              {getTableName(tournament?.tournament_config, pairing.table_number)}
+                            </div>
+                          )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <div className="flex items-center gap-2">
@@ -1056,32 +1373,36 @@ const RoundManager: React.FC<RoundManagerProps> = ({ onBack, onNext, tournamentI
                           <span className="text-gray-500 font-bold">VS</span>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="flex items-center gap-2">
-                            {pairing.first_move_player_id === pairing.player2.id && (
-                              <div className="w-3 h-3 bg-green-500 rounded-full"></div>
-                            )}
-                            {pairing.player2_gibsonized && (
-                              <div className="relative group">
-                                <Crown size={16} className="text-yellow-400" />
-                                <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-1 px-2 py-1 bg-gray-800 text-white text-xs rounded opacity-0 group-hover:opacity-100 transition-opacity duration-200 whitespace-nowrap z-10 border border-gray-600">
-                                  Gibsonized
-                                </div>
-                              </div>
-                            )}
-                            <div>
-                              <div className="text-sm font-medium text-white">
-                                {pairing.player2.name}
-                                {pairing.player2_gibsonized && (
-                                  <span className="ml-2 px-2 py-1 bg-yellow-500/20 border border-yellow-500/50 text-yellow-400 text-xs rounded font-jetbrains">
+                          {pairing.player2 ? (
+                            <div className="flex items-center gap-2">
+                              {pairing.first_move_player_id === pairing.player2.id && (
+                                <div className="w-3 h-3 bg-green-500 rounded-full"></div>
+                              )}
+                              {pairing.player2_gibsonized && (
+                                <div className="relative group">
+                                  <Crown size={16} className="text-yellow-400" />
+                                  <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-1 px-2 py-1 bg-gray-800 text-white text-xs rounded opacity-0 group-hover:opacity-100 transition-opacity duration-200 whitespace-nowrap z-10 border border-gray-600">
                                     Gibsonized
-                                  </span>
-                                )}
-                              </div>
-                              <div className="text-xs text-gray-400 font-jetbrains">
-                                #{pairing.player2.rank} • {pairing.player2.rating} • {pairing.player2.points}pts ({pairing.player2.wins}-{pairing.player2.losses}-{pairing.player2.draws})
+                                  </div>
+                                </div>
+                              )}
+                              <div>
+                                <div className="text-sm font-medium text-white">
+                                  {pairing.player2.name}
+                                  {pairing.player2_gibsonized && (
+                                    <span className="ml-2 px-2 py-1 bg-yellow-500/20 border border-yellow-500/50 text-yellow-400 text-xs rounded font-jetbrains">
+                                      Gibsonized
+                                    </span>
+                                  )}
+                                </div>
+                                <div className="text-xs text-gray-400 font-jetbrains">
+                                  #{pairing.player2.rank} • {pairing.player2.rating} • {pairing.player2.points}pts ({pairing.player2.wins}-{pairing.player2.losses}-{pairing.player2.draws})
+                                </div>
                               </div>
                             </div>
-                          </div>
+                          ) : (
+                            <span className="text-sm text-gray-500 font-jetbrains">BYE</span>
+                          )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <div className="flex items-center gap-2">
@@ -1089,7 +1410,7 @@ const RoundManager: React.FC<RoundManagerProps> = ({ onBack, onNext, tournamentI
                             <span className="text-sm text-green-400 font-jetbrains">
                               {pairing.first_move_player_id === pairing.player1.id 
                                 ? pairing.player1.name 
-                                : pairing.player2.name}
+                                : pairing.player2?.name}
                             </span>
                           </div>
                         </td>
@@ -1098,20 +1419,82 @@ const RoundManager: React.FC<RoundManagerProps> = ({ onBack, onNext, tournamentI
                   </tbody>
                 </table>
               </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Replacement Confirmation */}
+        {replacementDiff && (
+          <div className="fade-up max-w-6xl mx-auto w-full mb-8">
+            <div className="bg-orange-900/30 border border-orange-500/50 rounded-xl p-6 font-jetbrains">
+              <div className="flex items-center gap-2 mb-2 text-orange-300">
+                <AlertTriangle size={20} />
+                <span className="font-orbitron font-bold">Round {currentRound} is already paired</span>
+              </div>
+              <p className="text-sm text-orange-200 mb-4">
+                {replacementDiff.kept} pairing{replacementDiff.kept === 1 ? '' : 's'} stay the same
+                {replacementDiff.moved > 0 && ` (${replacementDiff.moved} at a new table)`} and keep their results.
+                {replacementDiff.resultsDiscarded > 0 && (
+                  <span className="text-red-300 font-bold">
+                    {' '}{replacementDiff.resultsDiscarded} entered result{replacementDiff.resultsDiscarded === 1 ? '' : 's'} will be discarded.
+                  </span>
+                )}
+              </p>
+
+              <table className="w-full text-sm mb-4">
+                <thead>
+                  <tr className="text-left text-xs text-gray-400 uppercase tracking-wider">
+                    <th className="py-2 pr-4">Table</th>
+                    <th className="py-2 pr-4">Currently</th>
+                    <th className="py-2">Replaced With</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-700">
+                  {replacementDiff.changes.map(change => (
+                    <tr key={change.tableNumber}>
+                      <td className="py-2 pr-4 font-mono text-white">{change.tableNumber}</td>
+                      <td className="py-2 pr-4 text-gray-300">
+                        {change.before || '—'}
+                        {change.discardsResult && (
+                          <span className="ml-2 px-2 py-0.5 bg-red-600/20 text-red-300 rounded text-xs">result discarded</span>
+                        )}
+                      </td>
+                      <td className="py-2 text-white">{change.after || '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div className="flex flex-wrap gap-3">
+                <button
+                  onClick={() => handleLockPairings(true)}
+                  disabled={isSaving}
+                  className="px-4 py-2 bg-orange-600 hover:bg-orange-700 disabled:bg-gray-600 text-white rounded-lg font-medium transition-all duration-200"
+                >
+                  Replace Pairings
+                </button>
+                <button
+                  onClick={() => setReplacementDiff(null)}
+                  className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg font-medium transition-all duration-200"
+                >
+                  Cancel
+                </button>
+              </div>
             </div>
           </div>
         )}
 
         {/* Lock Pairings Button */}
-        {pairings.length > 0 && (
+        {pairings.length > 0 && !replacementDiff && (
           <div className="fade-up text-center mb-8">
             <Button
               icon={Lock}
               label={isSaving ? 'Saving Pairings...' : 'Lock Pairings & Proceed to Scoring'}
-              onClick={handleLockPairings}
+              onClick={() => handleLockPairings()}
               variant="green"
               className="max-w-md mx-auto"
-              disabled={isSaving}
+              disabled={isSaving || (pairingReport !== null && !pairingReport.canLock)}
             />
           </div>
         )}
@@ -1135,6 +1518,8 @@ const RoundManager: React.FC<RoundManagerProps> = ({ onBack, onNext, tournamentI
         onClose={() => setShowImpactVisualizer(false)}
         tournamentId={tournamentId}
         currentRound={currentRound}
+        divisionId={selectedDivisionId}
+        totalRounds={maxRounds || undefined}
       />
       
       {/* AI Insights Panel */}
@@ -1153,4 +1538,119 @@ const RoundManager: React.FC<RoundManagerProps> = ({ onBack, onNext, tournamentI
   );
 };
 
+/** A division's players with every pairing and result stored so far. */
+interface DivisionHistory {
+  players: Player[];
+  pairings: StandingsPairing[];
+  results: StandingsResult[];
+}
+
+/**
+ * A division's players with every pairing and result so far. Taken from
+ * a fresh snapshot before pairing, since results keep arriving while
+ * rounds are played.
+ */
+function getDivisionHistory(snapshot: OfflineData, divisionId: string | null): DivisionHistory {
+  const inDivision = (row: { division_id?: string | null }) => !divisionId || row.division_id === divisionId;
+  const pairingsData = snapshot.pairings.filter(inDivision);
+  const pairingIds = new Set(pairingsData.map(p => p.id));
+
+  return {
+    players: snapshot.players.filter(inDivision),
+    pairings: pairingsData,
+    results: snapshot.results.filter(result => pairingIds.has(result.pairing_id))
+  };
+}
+
+/** Earlier rounds' pairings in a division, for showing and editing past rounds. */
+function getPastRoundPairings(
+  snapshot: OfflineData,
+  currentRound: number,
+  divisionId: string | null
+): Record<number, PairingDisplay[]> {
+  const pastRounds: Record<number, PairingDisplay[]> = {};
+  
+  // Load pairings for past rounds
+  for (let round = 1; round < currentRound; round++) {
+    const pairingsData = getRoundPairings(snapshot, round, divisionId);
+    
+    // Convert to PairingDisplay format
+    const displayPairings: PairingDisplay[] = pairingsData.map(pairing => {
+      // Add missing fields to match PlayerWithRank
+      const player1WithRank = {
+        ...pairing.player1,
+        rank: 0,
+        previous_starts: 0,
+        wins: 0,
+        losses: 0,
+        draws: 0,
+        points: 0,
+        spread: 0,
+        is_gibsonized: pairing.player1_gibsonized || false
+      };
+      
+      const player2WithRank = pairing.player2 ? {
+        ...pairing.player2,
+        rank: 0,
+        previous_starts: 0,
+        wins: 0,
+        losses: 0,
+        draws: 0,
+        points: 0,
+        spread: 0,
+        is_gibsonized: pairing.player2_gibsonized || false
+      } : null;
+      
+      return {
+        table_number: pairing.table_number,
+        player1: player1WithRank,
+        player2: player2WithRank,
+        first_move_player_id: pairing.first_move_player_id,
+        player1_gibsonized: pairing.player1_gibsonized || false,
+        player2_gibsonized: pairing.player2_gibsonized || false,
+        is_bye: pairing.is_bye || false
+      };
+    });
+    
+    pastRounds[round] = displayPairings;
+  }
+
+  return pastRounds;
+}
+
+/**
+ * Players with their record for pairing. Standings, starts and replies all
+ * count results up to `throughRound` (all of them by default).
+ */
+function withStandings(
+  history: DivisionHistory,
+  config?: TournamentConfig,
+  throughRound?: number
+): PlayerWithRank[] {
+  const standings = new Map(
+    computeStandings(
+      history.players,
+      history.pairings,
+      history.results,
+      { ...getStandingsOptions(config), throughRound }
+    ).map(standing => [standing.id, standing])
+  );
+
+  return history.players.map(player => {
+    const standing = standings.get(player.id!)!;
+    return {
+      ...player,
+      rank: 0, // Will be set in pairing generation
+      previous_starts: standing.starts,
+      previous_replies: standing.replies,
+      wins: standing.wins,
+      losses: standing.losses,
+      draws: standing.draws,
+      points: standing.points,
+      spread: standing.spread,
+      is_gibsonized: false // Will be calculated in pairing generation
+    } as PlayerWithRank;
+  });
+}
+
 export default RoundManager;
\ No newline at end of file
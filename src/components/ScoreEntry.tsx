@@ -1,9 +1,13 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { ArrowLeft, Mic, Trophy, Save, MicOff, Edit3, AlertTriangle, History, X, Check, RefreshCw } from 'lucide-react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { ArrowLeft, Mic, Trophy, Save, MicOff, Edit3, AlertTriangle, History, X, Check, RefreshCw, Lock, Users } from 'lucide-react';
 import ParticleBackground from './ParticleBackground';
 import Button from './Button';
+import OfflineStatus from './OfflineStatus';
+import PlayerReportsModal from './PlayerReportsModal';
 import { supabase } from '../lib/supabase';
+import { loadTournamentSnapshot, refreshTournamentSnapshot, applyServerRow, getRoundPairings, writeChange, isDuplicateRow } from '../lib/offlineRepository';
 import { useAuditLog } from '../hooks/useAuditLog';
+import { useScoreEntryPresence } from '../hooks/useScoreEntryPresence';
 import { Tournament, PairingWithPlayers, Result } from '../types/database';
 
 interface ScoreEntryProps {
@@ -33,6 +37,19 @@ interface ScoreHistory {
   player2_name: string;
 }
 
+const SCOREKEEPER_NAME_KEY = 'direktor_scorekeeper_name';
+
+const DUPLICATE_RESULT_MESSAGE = 'Another scorekeeper saved this table first. Their score is now shown; check it and save again to correct it.';
+
+const scoreInputFor = (pairingId: string, result?: Result): ScoreInput => ({
+  pairingId,
+  player1Score: result ? result.player1_score : '',
+  player2Score: result ? result.player2_score : '',
+  winnerId: result?.winner_id || undefined,
+  hasChanges: false,
+  isEdited: false
+});
+
 const ScoreEntry: React.FC<ScoreEntryProps> = ({ 
   onBack, 
   onNext, 
@@ -55,10 +72,20 @@ const ScoreEntry: React.FC<ScoreEntryProps> = ({
   const [selectedPastRound, setSelectedPastRound] = useState<number | null>(null);
   const [pastRoundScores, setPastRoundScores] = useState<Record<string, ScoreInput>>({});
   const [isEditingPastRound, setIsEditingPastRound] = useState(false);
+  const [savedResults, setSavedResults] = useState<Record<string, Result>>({});
+  const [savingTable, setSavingTable] = useState<string | null>(null);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [scorekeeperName, setScorekeeperName] = useState(() => localStorage.getItem(SCOREKEEPER_NAME_KEY) || '');
+  const [disputedReportCount, setDisputedReportCount] = useState(0);
+  const [lockedPinCount, setLockedPinCount] = useState(0);
+  const [showPlayerReports, setShowPlayerReports] = useState(false);
   
   const { logAction } = useAuditLog();
   const scoreInputRefs = useRef<Record<string, HTMLInputElement>>({});
 
+  const displayedRound = selectedPastRound !== null ? selectedPastRound : currentRound;
+  const presence = useScoreEntryPresence(tournamentId, displayedRound, scorekeeperName);
+
   useEffect(() => {
     loadData();
     initializeSpeechRecognition();
@@ -71,6 +98,79 @@ const ScoreEntry: React.FC<ScoreEntryProps> = ({
     }
   }, [selectedPastRound]);
 
+  useEffect(() => {
+    loadScorekeeper();
+  }, []);
+
+  // Games whose players reported different scores, and players locked out
+  // after wrong PINs, waiting for the director
+  const loadDisputedReportCount = useCallback(async () => {
+    if (!navigator.onLine) return;
+
+    const [{ count, error: countError }, { count: lockedCount, error: lockedError }] = await Promise.all([
+      supabase
+        .from('result_submissions')
+        .select('id', { count: 'exact', head: true })
+        .eq('tournament_id', tournamentId)
+        .eq('status', 'disputed'),
+      supabase
+        .from('player_report_pins')
+        .select('player_id', { count: 'exact', head: true })
+        .eq('tournament_id', tournamentId)
+        .gt('locked_until', new Date().toISOString())
+    ]);
+
+    if (countError || lockedError) {
+      console.error('Error loading player reports:', countError || lockedError);
+      return;
+    }
+
+    // Both players' reports are disputed together
+    setDisputedReportCount(Math.ceil((count || 0) / 2));
+    setLockedPinCount(lockedCount || 0);
+  }, [tournamentId]);
+
+  useEffect(() => {
+    loadDisputedReportCount();
+  }, [loadDisputedReportCount]);
+
+  // Show results saved on other devices as they arrive
+  useEffect(() => {
+    const resultsSubscription = supabase
+      .channel(`score-entry-results:${tournamentId}`)
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'results', filter: `tournament_id=eq.${tournamentId}` },
+        payload => {
+          // Keep the offline snapshot current too, from the row in the event
+          applyServerRow(tournamentId, 'results', payload).catch(err => {
+            console.error('Error updating tournament snapshot:', err);
+          });
+
+          const result = payload.new as Result;
+          if (payload.eventType === 'DELETE' || result.round_number !== displayedRound) return;
+
+          setSavedResults(prev => ({ ...prev, [result.pairing_id]: result }));
+
+          // Rows this device is still editing keep its values
+          const applyRemote = (prev: Record<string, ScoreInput>) =>
+            prev[result.pairing_id] && !prev[result.pairing_id].hasChanges
+              ? { ...prev, [result.pairing_id]: scoreInputFor(result.pairing_id, result) }
+              : prev;
+          setScores(applyRemote);
+          setPastRoundScores(applyRemote);
+        }
+      )
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'result_submissions', filter: `tournament_id=eq.${tournamentId}` },
+        () => loadDisputedReportCount()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(resultsSubscription);
+    };
+  }, [tournamentId, displayedRound, loadDisputedReportCount]);
+
   const initializeSpeechRecognition = () => {
     if ('webkitSpeechRecognition' in window || 'SpeechRecognition' in window) {
       const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
@@ -124,58 +224,28 @@ const ScoreEntry: React.FC<ScoreEntryProps> = ({
     try {
       setIsLoading(true);
       
-      // Load tournament
-      const { data: tournamentData, error: tournamentError } = await supabase
-        .from('tournaments')
-        .select('*')
-        .eq('id', tournamentId)
-        .single();
-
-      if (tournamentError) throw tournamentError;
-      setTournament(tournamentData);
-
-      // Load pairings with player details
-      const { data: pairingsData, error: pairingsError } = await supabase
-        .from('pairings')
-        .select(`
-          *,
-          player1:players!pairings_player1_id_fkey(id, name, rating),
-          player2:players!pairings_player2_id_fkey(id, name, rating)
-        `)
-        .eq('tournament_id', tournamentId)
-        .eq('round_number', currentRound)
-        .order('table_number');
-
-      if (pairingsError) throw pairingsError;
+      // Load the tournament, from the offline snapshot if the server is unreachable
+      const snapshot = await loadTournamentSnapshot(tournamentId);
+      setTournament(snapshot.tournaments[0]);
 
-      setPairings(pairingsData as PairingWithPlayers[]);
+      // Byes are awarded automatically and take no score
+      const scoredPairings = getRoundPairings(snapshot, currentRound).filter(pairing => !pairing.is_bye);
+      setPairings(scoredPairings as PairingWithPlayers[]);
 
-      // Load existing results
-      const { data: resultsData, error: resultsError } = await supabase
-        .from('results')
-        .select('*')
-        .eq('tournament_id', tournamentId)
-        .eq('round_number', currentRound);
-        
-      if (resultsError && resultsError.code !== 'PGRST116') {
-        throw resultsError;
-      }
+      // Existing results
+      const resultsData = snapshot.results.filter(result => result.round_number === currentRound);
 
       // Initialize scores state
       const initialScores: Record<string, ScoreInput> = {};
-      pairingsData.forEach(pairing => {
-        const existingResult = resultsData?.find(r => r.pairing_id === pairing.id);
+      const initialResults: Record<string, Result> = {};
+      scoredPairings.forEach(pairing => {
+        const existingResult = resultsData.find(r => r.pairing_id === pairing.id);
         
-        initialScores[pairing.id] = {
-          pairingId: pairing.id,
-          player1Score: existingResult ? existingResult.player1_score : '',
-          player2Score: existingResult ? existingResult.player2_score : '',
-          winnerId: existingResult?.winner_id,
-          hasChanges: false,
-          isEdited: false
-        };
+        initialScores[pairing.id!] = scoreInputFor(pairing.id!, existingResult);
+        if (existingResult) initialResults[pairing.id!] = existingResult;
       });
       setScores(initialScores);
+      setSavedResults(initialResults);
       
       // Log access
       logAction({
@@ -183,7 +253,7 @@ const ScoreEntry: React.FC<ScoreEntryProps> = ({
         details: {
           tournament_id: tournamentId,
           round: currentRound,
-          pairing_count: pairingsData.length
+          pairing_count: scoredPairings.length
         }
       });
 
@@ -198,16 +268,10 @@ const ScoreEntry: React.FC<ScoreEntryProps> = ({
   const loadPastRounds = async () => {
     try {
       // Get all rounds with results
-      const { data: resultsData, error: resultsError } = await supabase
-        .from('results')
-        .select('round_number')
-        .eq('tournament_id', tournamentId)
-        .order('round_number');
-        
-      if (resultsError) throw resultsError;
+      const { results: resultsData } = await loadTournamentSnapshot(tournamentId);
       
       // Extract unique round numbers less than current round
-      const rounds = [...new Set(resultsData?.map(r => r.round_number) || [])]
+      const rounds = [...new Set<number>(resultsData.map(r => r.round_number))]
         .filter(round => round < currentRound)
         .sort((a, b) => b - a); // Sort descending
         
@@ -221,48 +285,24 @@ const ScoreEntry: React.FC<ScoreEntryProps> = ({
     try {
       setIsLoading(true);
       
-      // Load pairings for the selected round
-      const { data: pairingsData, error: pairingsError } = await supabase
-        .from('pairings')
-        .select(`
-          *,
-          player1:players!pairings_player1_id_fkey(id, name, rating),
-          player2:players!pairings_player2_id_fkey(id, name, rating)
-        `)
-        .eq('tournament_id', tournamentId)
-        .eq('round_number', round)
-        .order('table_number');
-
-      if (pairingsError) throw pairingsError;
-      
-      // Load results for the selected round
-      const { data: resultsData, error: resultsError } = await supabase
-        .from('results')
-        .select('*')
-        .eq('tournament_id', tournamentId)
-        .eq('round_number', round);
-        
-      if (resultsError && resultsError.code !== 'PGRST116') {
-        throw resultsError;
-      }
+      // Load pairings and results for the selected round
+      const snapshot = await loadTournamentSnapshot(tournamentId);
+      const scoredPairings = getRoundPairings(snapshot, round).filter(pairing => !pairing.is_bye);
+      const resultsData = snapshot.results.filter(result => result.round_number === round);
       
       // Initialize scores state for past round
       const pastScores: Record<string, ScoreInput> = {};
-      pairingsData.forEach(pairing => {
-        const existingResult = resultsData?.find(r => r.pairing_id === pairing.id);
+      const pastResults: Record<string, Result> = {};
+      scoredPairings.forEach(pairing => {
+        const existingResult = resultsData.find(r => r.pairing_id === pairing.id);
         
-        pastScores[pairing.id] = {
-          pairingId: pairing.id,
-          player1Score: existingResult ? existingResult.player1_score : '',
-          player2Score: existingResult ? existingResult.player2_score : '',
-          winnerId: existingResult?.winner_id,
-          hasChanges: false,
-          isEdited: false
-        };
+        pastScores[pairing.id!] = scoreInputFor(pairing.id!, existingResult);
+        if (existingResult) pastResults[pairing.id!] = existingResult;
       });
       
       setPastRoundScores(pastScores);
-      setPairings(pairingsData as PairingWithPlayers[]);
+      setSavedResults(pastResults);
+      setPairings(scoredPairings as PairingWithPlayers[]);
       
     } catch (err) {
       console.error('Error loading past round scores:', err);
@@ -272,6 +312,34 @@ const ScoreEntry: React.FC<ScoreEntryProps> = ({
     }
   };
   
+  // The signed-in account, and a default name for this device's scorekeeper
+  const loadScorekeeper = async () => {
+    try {
+      // The session is kept locally, so this works offline too
+      const { data: { session } } = await supabase.auth.getSession();
+      const user = session?.user;
+      if (!user) return;
+
+      setUserId(user.id);
+      if (localStorage.getItem(SCOREKEEPER_NAME_KEY)) return;
+
+      const { data: profile } = await supabase
+        .from('user_profiles')
+        .select('nickname, username')
+        .eq('id', user.id)
+        .maybeSingle();
+
+      setScorekeeperName(profile?.nickname || profile?.username || user.email?.split('@')[0] || '');
+    } catch (err) {
+      console.error('Error loading scorekeeper:', err);
+    }
+  };
+
+  const handleScorekeeperNameChange = (name: string) => {
+    setScorekeeperName(name);
+    localStorage.setItem(SCOREKEEPER_NAME_KEY, name);
+  };
+
   const loadScoreHistory = async (pairingId: string) => {
     try {
       setIsLoading(true);
@@ -324,6 +392,9 @@ const ScoreEntry: React.FC<ScoreEntryProps> = ({
   };
 
   const handleScoreChange = (pairingId: string, player: 'player1' | 'player2', value: number | string) => {
+    // Another scorekeeper is entering this table
+    if (!presence.claimTable(pairingId)) return;
+
     const numValue = value === '' ? '' : Number(value);
     
     setScores(prev => {
@@ -348,7 +419,7 @@ const ScoreEntry: React.FC<ScoreEntryProps> = ({
           if (score1 > score2) {
             updated[pairingId].winnerId = pairingData.player1_id;
           } else if (score2 > score1) {
-            updated[pairingId].winnerId = pairingData.player2_id;
+            updated[pairingId].winnerId = pairingData.player2_id || undefined;
           } else {
             updated[pairingId].winnerId = undefined; // Tie
           }
@@ -363,6 +434,8 @@ const ScoreEntry: React.FC<ScoreEntryProps> = ({
   };
   
   const handlePastRoundScoreChange = (pairingId: string, player: 'player1' | 'player2', value: number | string) => {
+    if (!presence.claimTable(pairingId)) return;
+
     const numValue = value === '' ? '' : Number(value);
     
     setPastRoundScores(prev => {
@@ -387,7 +460,7 @@ const ScoreEntry: React.FC<ScoreEntryProps> = ({
           if (score1 > score2) {
             updated[pairingId].winnerId = pairingData.player1_id;
           } else if (score2 > score1) {
-            updated[pairingId].winnerId = pairingData.player2_id;
+            updated[pairingId].winnerId = pairingData.player2_id || undefined;
           } else {
             updated[pairingId].winnerId = undefined; // Tie
           }
@@ -398,6 +471,23 @@ const ScoreEntry: React.FC<ScoreEntryProps> = ({
     });
   };
 
+  const handleScoreFocus = (e: React.FocusEvent<HTMLInputElement>, pairingId: string) => {
+    if (!presence.claimTable(pairingId)) {
+      e.currentTarget.blur();
+    }
+  };
+
+  // Free the table again if the scorekeeper moves on without changing it
+  const handleScoreBlur = (e: React.FocusEvent<HTMLInputElement>, pairingId: string) => {
+    const next = e.relatedTarget as HTMLElement | null;
+    if (next?.dataset.pairingId === pairingId) return;
+
+    const score = isEditingPastRound ? pastRoundScores[pairingId] : scores[pairingId];
+    if (!score?.hasChanges) {
+      presence.releaseTable(pairingId);
+    }
+  };
+
   const startVoiceInput = (pairingId: string, player: 'player1' | 'player2') => {
     if (!recognition) {
       alert('Voice recognition is not supported in your browser');
@@ -463,6 +553,148 @@ const ScoreEntry: React.FC<ScoreEntryProps> = ({
     return missingScores.length === 0;
   };
 
+  // Save one table: update its stored result, or add one. Returns whether
+  // the write is waiting for a connection.
+  const saveResult = async (round: number, score: ScoreInput): Promise<boolean> => {
+    const existingResult = savedResults[score.pairingId];
+    const entry = {
+      player1_score: Number(score.player1Score),
+      player2_score: Number(score.player2Score),
+      winner_id: score.winnerId || null,
+      submitted_by: userId,
+      entered_by: scorekeeperName.trim() || null
+    };
+
+    let queued: boolean;
+    let saved: Result;
+    if (existingResult) {
+      ({ queued } = await writeChange({
+        tournament_id: tournamentId,
+        table: 'results',
+        operation: 'update',
+        data: entry,
+        match: { id: existingResult.id! }
+      }));
+      saved = { ...existingResult, ...entry };
+    } else {
+      // Ids are set here so results saved offline can be updated before
+      // they reach the server
+      saved = {
+        id: crypto.randomUUID(),
+        pairing_id: score.pairingId,
+        tournament_id: tournamentId,
+        round_number: round,
+        ...entry
+      };
+      try {
+        ({ queued } = await writeChange({
+          tournament_id: tournamentId,
+          table: 'results',
+          operation: 'insert',
+          data: [saved]
+        }));
+      } catch (err) {
+        if (isDuplicateRow(err)) await showStoredResult(score.pairingId);
+        throw err;
+      }
+    }
+    setSavedResults(prev => ({ ...prev, [score.pairingId]: saved }));
+
+    // Log score in audit log
+    logAction({
+      action: existingResult ? 'score_updated' : 'score_added',
+      details: {
+        tournament_id: tournamentId,
+        round,
+        pairing_id: score.pairingId,
+        player1_score: entry.player1_score,
+        player2_score: entry.player2_score,
+        entered_by: entry.entered_by,
+        queued_offline: queued
+      }
+    });
+
+    return queued;
+  };
+
+  // Save each table on its own, so one that fails does not hold up the rest.
+  // A table another device saved first shows that device's score instead.
+  const saveTables = async (round: number, toSave: ScoreInput[]) => {
+    const saved: ScoreInput[] = [];
+    const duplicates: ScoreInput[] = [];
+    const failed: ScoreInput[] = [];
+    let savedOffline = false;
+
+    for (const score of toSave) {
+      try {
+        savedOffline = (await saveResult(round, score)) || savedOffline;
+        saved.push(score);
+      } catch (err) {
+        console.error('Error saving table:', err);
+        (isDuplicateRow(err) ? duplicates : failed).push(score);
+      }
+    }
+
+    return { saved, duplicates, failed, savedOffline };
+  };
+
+  // Clears the unsaved flag of the tables that saved
+  const markSaved = (saved: ScoreInput[]) => (prev: Record<string, ScoreInput>) => {
+    const updated = { ...prev };
+    saved.forEach(score => {
+      updated[score.pairingId] = { ...updated[score.pairingId], hasChanges: false, isEdited: false };
+    });
+    return updated;
+  };
+
+  const tableList = (tables: ScoreInput[]) => tables
+    .map(score => pairings.find(p => p.id === score.pairingId)?.table_number)
+    .join(', ');
+
+  // What went wrong with the tables that did not save
+  const saveProblems = (duplicates: ScoreInput[], failed: ScoreInput[]) => [
+    duplicates.length > 0 && `Table${duplicates.length === 1 ? '' : 's'} ${tableList(duplicates)}: ${DUPLICATE_RESULT_MESSAGE}`,
+    failed.length > 0 && `Table${failed.length === 1 ? '' : 's'} ${tableList(failed)} failed to save. Please try again.`
+  ].filter(Boolean).join(' ');
+
+  // Replace this device's entry with the result another device saved first
+  const showStoredResult = async (pairingId: string) => {
+    const { results } = await refreshTournamentSnapshot(tournamentId);
+    const stored = results.find(result => result.pairing_id === pairingId);
+    if (!stored) return;
+
+    setSavedResults(prev => ({ ...prev, [pairingId]: stored }));
+    const showStored = (prev: Record<string, ScoreInput>) =>
+      prev[pairingId] ? { ...prev, [pairingId]: scoreInputFor(pairingId, stored) } : prev;
+    setScores(showStored);
+    setPastRoundScores(showStored);
+  };
+
+  const handleSaveTable = async (pairingId: string) => {
+    const score = scores[pairingId];
+    if (!score || score.player1Score === '' || score.player2Score === '') {
+      setError('Enter both scores before saving the table');
+      return;
+    }
+
+    setSavingTable(pairingId);
+    setError(null);
+
+    try {
+      await saveResult(currentRound, score);
+      setScores(prev => ({
+        ...prev,
+        [pairingId]: { ...prev[pairingId], hasChanges: false, isEdited: false }
+      }));
+      presence.releaseTable(pairingId);
+    } catch (err) {
+      console.error('Error saving table:', err);
+      setError(isDuplicateRow(err) ? DUPLICATE_RESULT_MESSAGE : 'Failed to save the table. Please try again.');
+    } finally {
+      setSavingTable(null);
+    }
+  };
+
   const handleSubmitScores = async () => {
     if (!validateScores()) {
       if (!confirm('Some scores are missing or unusual. Continue anyway?')) {
@@ -470,50 +702,48 @@ const ScoreEntry: React.FC<ScoreEntryProps> = ({
       }
     }
 
+    // Only tables entered on this device are saved; the rest are already
+    // saved, or still being entered elsewhere
+    const toSave = Object.values(scores).filter(score =>
+      score.hasChanges && score.player1Score !== '' && score.player2Score !== ''
+    );
+    const lockedTables = toSave.filter(score => presence.lockedBy(score.pairingId));
+
     setIsSaving(true);
     setError(null);
 
     try {
-      // Prepare results data with tournament_id
-      const resultsToInsert: Omit<Result, 'id' | 'created_at'>[] = Object.values(scores).map(score => ({
-        pairing_id: score.pairingId,
-        tournament_id: tournamentId, // Include tournament_id for direct relationship
-        round_number: currentRound,
-        player1_score: Number(score.player1Score),
-        player2_score: Number(score.player2Score),
-        winner_id: score.winnerId || null,
-        submitted_by: null // Could be user ID if needed
-      }));
-
-      // Delete existing results for this round (in case of re-entry)
-      await supabase
-        .from('results')
-        .delete()
-        .eq('round_number', currentRound)
-        .eq('tournament_id', tournamentId);
-
-      // Insert new results
-      const { error: insertError } = await supabase
-        .from('results')
-        .insert(resultsToInsert);
+      const { saved, duplicates, failed, savedOffline } = await saveTables(
+        currentRound,
+        toSave.filter(score => !lockedTables.includes(score))
+      );
+      setScores(markSaved(saved));
+      saved.forEach(score => presence.releaseTable(score.pairingId));
 
-      if (insertError) throw insertError;
-      
       // Log scores submitted
       logAction({
         action: 'scores_submitted',
         details: {
           tournament_id: tournamentId,
           round: currentRound,
-          score_count: resultsToInsert.length
+          score_count: saved.length,
+          queued_offline: savedOffline
         }
       });
 
+      const problems = [
+        lockedTables.length > 0 && `Table${lockedTables.length === 1 ? '' : 's'} ${tableList(lockedTables)} ${lockedTables.length === 1 ? 'is' : 'are'} being entered by another scorekeeper and ${lockedTables.length === 1 ? 'was' : 'were'} not saved from this device.`,
+        saveProblems(duplicates, failed)
+      ].filter(Boolean).join(' ');
+      if (problems) {
+        setError(problems);
+        return;
+      }
+
+      presence.releaseAllTables();
+
       // Navigate to standings
       onNext();
-    } catch (err) {
-      console.error('Error saving scores:', err);
-      setError('Failed to save scores. Please try again.');
     } finally {
       setIsSaving(false);
     }
@@ -526,88 +756,30 @@ const ScoreEntry: React.FC<ScoreEntryProps> = ({
     setError(null);
 
     try {
-      // Prepare results data
-      const resultsToUpdate: Omit<Result, 'id' | 'created_at'>[] = Object.values(pastRoundScores)
-        .filter(score => score.hasChanges)
-        .map(score => ({
-          pairing_id: score.pairingId,
-          tournament_id: tournamentId,
-          round_number: selectedPastRound,
-          player1_score: Number(score.player1Score),
-          player2_score: Number(score.player2Score),
-          winner_id: score.winnerId || null,
-          submitted_by: null
-        }));
+      const scoresToSave = Object.values(pastRoundScores).filter(score => score.hasChanges);
         
-      if (resultsToUpdate.length === 0) {
+      if (scoresToSave.length === 0) {
         setError('No changes to save');
         setIsSaving(false);
         return;
       }
 
       // Update results
-      for (const result of resultsToUpdate) {
-        // Get existing result ID
-        const { data: existingResult } = await supabase
-          .from('results')
-          .select('id')
-          .eq('pairing_id', result.pairing_id)
-          .eq('round_number', selectedPastRound)
-          .single();
-          
-        if (existingResult) {
-          // Update existing result
-          const { error: updateError } = await supabase
-            .from('results')
-            .update({
-              player1_score: result.player1_score,
-              player2_score: result.player2_score,
-              winner_id: result.winner_id
-            })
-            .eq('id', existingResult.id);
-            
-          if (updateError) throw updateError;
-          
-          // Log score update in audit log
-          logAction({
-            action: 'score_updated',
-            details: {
-              tournament_id: tournamentId,
-              round: selectedPastRound,
-              pairing_id: result.pairing_id,
-              player1_score: result.player1_score,
-              player2_score: result.player2_score
-            }
-          });
-        } else {
-          // Insert new result
-          const { error: insertError } = await supabase
-            .from('results')
-            .insert([result]);
-            
-          if (insertError) throw insertError;
-          
-          // Log score added in audit log
-          logAction({
-            action: 'score_added',
-            details: {
-              tournament_id: tournamentId,
-              round: selectedPastRound,
-              pairing_id: result.pairing_id,
-              player1_score: result.player1_score,
-              player2_score: result.player2_score
-            }
-          });
-        }
+      const { saved, duplicates, failed, savedOffline } = await saveTables(selectedPastRound, scoresToSave);
+      setPastRoundScores(markSaved(saved));
+
+      if (duplicates.length > 0 || failed.length > 0) {
+        setError(saveProblems(duplicates, failed));
+        return;
       }
-      
+
       // Show success message
       const toast = document.createElement('div');
       toast.className = 'fixed top-4 right-4 z-50 bg-green-600 text-white px-6 py-3 rounded-lg shadow-lg font-jetbrains text-sm border border-green-500/50';
       toast.innerHTML = `
         <div class="flex items-center gap-2">
           <div class="w-2 h-2 bg-green-400 rounded-full animate-pulse"></div>
-          Past round scores updated successfully!
+          ${savedOffline ? 'Past round scores saved offline – they will sync when the connection returns' : 'Past round scores updated successfully!'}
         </div>
       `;
       document.body.appendChild(toast);
@@ -620,6 +792,7 @@ const ScoreEntry: React.FC<ScoreEntryProps> = ({
       
       // Reset editing state
       setIsEditingPastRound(false);
+      presence.releaseAllTables();
       
       // Reload current round data
       await loadData();
@@ -633,6 +806,7 @@ const ScoreEntry: React.FC<ScoreEntryProps> = ({
   };
   
   const handleCancelPastRoundEdit = () => {
+    presence.releaseAllTables();
     setIsEditingPastRound(false);
     setSelectedPastRound(null);
     loadData(); // Reload current round data
@@ -661,9 +835,23 @@ const ScoreEntry: React.FC<ScoreEntryProps> = ({
               <ArrowLeft size={20} />
               <span className="font-jetbrains">Back</span>
             </button>
-            <div className="flex items-center gap-2 text-purple-400">
-              <Trophy size={24} />
-              <span className="font-jetbrains text-sm">Score Entry</span>
+            <div className="flex items-center gap-4">
+              {(disputedReportCount > 0 || lockedPinCount > 0) && (
+                <button
+                  onClick={() => setShowPlayerReports(true)}
+                  className="px-4 py-2 bg-yellow-600/30 border border-yellow-500/50 text-yellow-200 rounded-lg font-jetbrains text-sm flex items-center gap-2 hover:bg-yellow-600/40 transition-colors duration-200"
+                >
+                  <AlertTriangle size={16} />
+                  {disputedReportCount > 0
+                    ? `${disputedReportCount} player report${disputedReportCount === 1 ? '' : 's'} to review`
+                    : `${lockedPinCount} locked PIN${lockedPinCount === 1 ? '' : 's'}`}
+                </button>
+              )}
+              <OfflineStatus />
+              <div className="flex items-center gap-2 text-purple-400">
+                <Trophy size={24} />
+                <span className="font-jetbrains text-sm">Score Entry</span>
+              </div>
             </div>
           </div>
 
@@ -752,6 +940,43 @@ const ScoreEntry: React.FC<ScoreEntryProps> = ({
           </div>
         )}
 
+        {/* Scorekeepers */}
+        <div className="max-w-6xl mx-auto w-full mb-8">
+          <div className="bg-gray-900/50 border border-gray-700 rounded-lg p-4 flex flex-col md:flex-row md:items-center gap-4">
+            <div className="flex items-center gap-2">
+              <span className="text-gray-400 font-jetbrains text-sm whitespace-nowrap">Entering as</span>
+              <input
+                type="text"
+                value={scorekeeperName}
+                onChange={(e) => handleScorekeeperNameChange(e.target.value)}
+                placeholder="Your name"
+                className="w-40 px-3 py-1.5 bg-gray-800 border border-gray-600 rounded-lg text-white font-jetbrains text-sm focus:border-purple-500 focus:outline-none transition-colors duration-300"
+              />
+            </div>
+
+            <div className="flex items-center gap-2 flex-wrap text-sm font-jetbrains">
+              <Users size={16} className="text-purple-400" />
+              {!presence.isConnected ? (
+                <span className="text-gray-500">Table locks need a connection – other scorekeepers can't see what you're entering</span>
+              ) : presence.scorekeepers.length === 0 ? (
+                <span className="text-gray-400">No other scorekeepers on this round</span>
+              ) : (
+                presence.scorekeepers.map(keeper => {
+                  const tables = pairings
+                    .filter(p => presence.lockedBy(p.id!)?.tab_id === keeper.tab_id)
+                    .map(p => p.table_number);
+                  return (
+                    <span key={keeper.tab_id} className="px-2 py-1 bg-purple-500/20 border border-purple-500/40 text-purple-200 rounded">
+                      {keeper.name || 'Scorekeeper'}
+                      {tables.length > 0 && <span className="text-purple-400"> · Table{tables.length === 1 ? '' : 's'} {tables.join(', ')}</span>}
+                    </span>
+                  );
+                })
+              )}
+            </div>
+          </div>
+        </div>
+
         {/* Score Entry Table */}
         <div className="fade-up fade-up-delay-4 max-w-6xl mx-auto w-full mb-8">
           <div className="bg-gray-900/50 border border-gray-700 rounded-xl overflow-hidden backdrop-blur-sm">
@@ -778,6 +1003,7 @@ const ScoreEntry: React.FC<ScoreEntryProps> = ({
                     <th className="px-6 py-4 text-center text-xs font-medium text-gray-300 uppercase tracking-wider font-jetbrains">Score</th>
                     <th className="px-6 py-4 text-left text-xs font-medium text-gray-300 uppercase tracking-wider font-jetbrains">Player 2</th>
                     <th className="px-6 py-4 text-center text-xs font-medium text-gray-300 uppercase tracking-wider font-jetbrains">Winner</th>
+                    <th className="px-6 py-4 text-left text-xs font-medium text-gray-300 uppercase tracking-wider font-jetbrains">Entered By</th>
                     <th className="px-6 py-4 text-center text-xs font-medium text-gray-300 uppercase tracking-wider font-jetbrains">Actions</th>
                   </tr>
                 </thead>
@@ -791,10 +1017,12 @@ const ScoreEntry: React.FC<ScoreEntryProps> = ({
                     
                     const isPlayer1Winner = score?.winnerId === pairing.player1_id;
                     const isPlayer2Winner = score?.winnerId === pairing.player2_id;
+                    const lockedBy = presence.lockedBy(pairing.id!);
+                    const savedResult = savedResults[pairing.id!];
                     
                     return (
                       <tr key={pairing.id} className={`bg-gray-900/30 hover:bg-gray-800/30 transition-colors duration-200 ${
-                        score?.isEdited ? 'bg-blue-900/20 border-y border-blue-500/30' : ''
+                        lockedBy ? 'opacity-60' : score?.isEdited ? 'bg-blue-900/20 border-y border-blue-500/30' : ''
                       }`}>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-white font-mono font-bold">
                           {pairing.table_number}
@@ -827,7 +1055,11 @@ const ScoreEntry: React.FC<ScoreEntryProps> = ({
                                 ? handlePastRoundScoreChange(pairing.id, 'player1', e.target.value)
                                 : handleScoreChange(pairing.id, 'player1', e.target.value)
                               }
-                              className="w-20 px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white text-center font-mono focus:border-purple-500 focus:outline-none transition-colors duration-300"
+                              onFocus={(e) => handleScoreFocus(e, pairing.id!)}
+                              onBlur={(e) => handleScoreBlur(e, pairing.id!)}
+                              disabled={!!lockedBy}
+                              data-pairing-id={pairing.id}
+                              className="w-20 px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white text-center font-mono focus:border-purple-500 focus:outline-none disabled:cursor-not-allowed transition-colors duration-300"
                               placeholder="0"
                               ref={el => {
                                 if (el) scoreInputRefs.current[`${pairing.id}-player1`] = el;
@@ -836,7 +1068,7 @@ const ScoreEntry: React.FC<ScoreEntryProps> = ({
                             {!isEditingPastRound && (
                               <button
                                 onClick={() => startVoiceInput(pairing.id, 'player1')}
-                                disabled={listeningFor === `${pairing.id}-player1`}
+                                disabled={!!lockedBy || listeningFor === `${pairing.id}-player1`}
                                 className={`p-2 rounded-lg transition-all duration-200 ${
                                   listeningFor === `${pairing.id}-player1`
                                     ? 'bg-red-600 text-white animate-pulse'
@@ -870,7 +1102,11 @@ const ScoreEntry: React.FC<ScoreEntryProps> = ({
                                 ? handlePastRoundScoreChange(pairing.id, 'player2', e.target.value)
                                 : handleScoreChange(pairing.id, 'player2', e.target.value)
                               }
-                              className="w-20 px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white text-center font-mono focus:border-purple-500 focus:outline-none transition-colors duration-300"
+                              onFocus={(e) => handleScoreFocus(e, pairing.id!)}
+                              onBlur={(e) => handleScoreBlur(e, pairing.id!)}
+                              disabled={!!lockedBy}
+                              data-pairing-id={pairing.id}
+                              className="w-20 px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white text-center font-mono focus:border-purple-500 focus:outline-none disabled:cursor-not-allowed transition-colors duration-300"
                               placeholder="0"
                               ref={el => {
                                 if (el) scoreInputRefs.current[`${pairing.id}-player2`] = el;
@@ -879,7 +1115,7 @@ const ScoreEntry: React.FC<ScoreEntryProps> = ({
                             {!isEditingPastRound && (
                               <button
                                 onClick={() => startVoiceInput(pairing.id, 'player2')}
-                                disabled={listeningFor === `${pairing.id}-player2`}
+                                disabled={!!lockedBy || listeningFor === `${pairing.id}-player2`}
                                 className={`p-2 rounded-lg transition-all duration-200 ${
                                   listeningFor === `${pairing.id}-player2`
                                     ? 'bg-red-600 text-white animate-pulse'
@@ -902,10 +1138,10 @@ const ScoreEntry: React.FC<ScoreEntryProps> = ({
                             {isPlayer2Winner && <Trophy className="w-4 h-4 text-yellow-400" />}
                             <div>
                               <div className="text-sm font-medium text-white">
-                                {pairing.player2.name}
+                                {pairing.player2?.name}
                               </div>
                               <div className="text-xs text-gray-400 font-jetbrains">
-                                #{pairing.player2_rank} • {pairing.player2.rating}
+                                #{pairing.player2_rank} • {pairing.player2?.rating}
                               </div>
                             </div>
                           </div>
@@ -925,10 +1161,41 @@ const ScoreEntry: React.FC<ScoreEntryProps> = ({
                             <span className="text-xs text-gray-400 font-jetbrains">TIE</span>
                           )}
                         </td>
+
+                        {/* Entered By */}
+                        <td className="px-6 py-4 whitespace-nowrap text-xs font-jetbrains">
+                          {lockedBy ? (
+                            <div className="flex items-center gap-1 text-yellow-400">
+                              <Lock size={12} />
+                              {lockedBy.name || 'Scorekeeper'} entering…
+                            </div>
+                          ) : savedResult ? (
+                            <div>
+                              <div className="text-gray-300">{savedResult.entered_by || '—'}</div>
+                              {(savedResult.updated_at || savedResult.created_at) && (
+                                <div className="text-gray-500">
+                                  {new Date(savedResult.updated_at || savedResult.created_at!).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                </div>
+                              )}
+                            </div>
+                          ) : (
+                            <span className="text-gray-600">Not entered</span>
+                          )}
+                        </td>
                         
                         {/* Actions */}
                         <td className="px-6 py-4 text-center">
                           <div className="flex items-center justify-center gap-2">
+                            {!isEditingPastRound && score?.hasChanges && !lockedBy && (
+                              <button
+                                onClick={() => handleSaveTable(pairing.id!)}
+                                disabled={savingTable === pairing.id}
+                                className="p-2 rounded-lg bg-green-600 text-white hover:bg-green-700 disabled:opacity-50 transition-all duration-200"
+                                title="Save this table"
+                              >
+                                <Save size={16} />
+                              </button>
+                            )}
                             {!isEditingPastRound && (
                               <button
                                 onClick={() => loadScoreHistory(pairing.id)}
@@ -1124,6 +1391,13 @@ const ScoreEntry: React.FC<ScoreEntryProps> = ({
         </div>
       )}
 
+      <PlayerReportsModal
+        isOpen={showPlayerReports}
+        onClose={() => setShowPlayerReports(false)}
+        tournamentId={tournamentId}
+        onResolved={loadDisputedReportCount}
+      />
+
       {/* Background Effects */}
       <div className="absolute inset-0 bg-gradient-to-t from-black/50 via-transparent to-black/30 pointer-events-none"></div>
       <div className="absolute top-0 left-0 w-32 h-32 bg-gradient-to-br from-purple-500/20 to-transparent rounded-br-full blur-xl"></div>
@@ -1,10 +1,16 @@
 import React, { useState, useEffect } from 'react';
-import { ArrowLeft, Trophy, Download, ArrowRight, Users, Medal } from 'lucide-react';
+import { ArrowLeft, Trophy, Download, ArrowRight, Users, Medal, Dices } from 'lucide-react';
 import ParticleBackground from './ParticleBackground';
 import Button from './Button';
 import PlayerDetailsModal from './PlayerDetailsModal';
-import { supabase } from '../lib/supabase';
-import { Tournament, Player, Result, Pairing } from '../types/database';
+import { loadTournamentSnapshot } from '../lib/offlineRepository';
+import { Tournament, Division } from '../types/database';
+import { getTiebreakChain, TIEBREAK_LABELS } from '../utils/tiebreaks';
+import { computeStandings, getStandingsOptions, PlayerStanding } from '../utils/standings';
+import { calculateRatingChanges, formatRatingChange, RatingChange } from '../utils/ratings';
+import { getGibsonConfig } from '../utils/gibsonization';
+import { formatOdds, SimulationInput } from '../utils/tournamentSimulator';
+import { useTournamentOdds } from '../hooks/useTournamentOdds';
 
 interface StandingsProps {
   onBack: () => void;
@@ -14,26 +20,6 @@ interface StandingsProps {
   maxRounds: number;
 }
 
-interface PlayerStanding {
-  id: string;
-  name: string;
-  rank: number;
-  rating: number;
-  wins: number;
-  losses: number;
-  draws: number;
-  points: number;
-  spread: number;
-  lastGame: {
-    result: 'won' | 'lost' | 'drew';
-    playerScore: number;
-    opponentScore: number;
-    opponentName: string;
-    opponentRank: number;
-  } | null;
-  starts: number;
-}
-
 const Standings: React.FC<StandingsProps> = ({ 
   onBack, 
   onNextRound, 
@@ -42,73 +28,66 @@ const Standings: React.FC<StandingsProps> = ({
   maxRounds 
 }) => {
   const [tournament, setTournament] = useState<Tournament | null>(null);
+  const [divisions, setDivisions] = useState<Division[]>([]);
+  const [selectedDivisionId, setSelectedDivisionId] = useState<string | null>(null);
   const [standings, setStandings] = useState<PlayerStanding[]>([]);
+  const [ratingChanges, setRatingChanges] = useState<Map<string, RatingChange>>(new Map());
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedPlayerId, setSelectedPlayerId] = useState<string | null>(null);
   const [showPlayerModal, setShowPlayerModal] = useState(false);
+  const [simulationInput, setSimulationInput] = useState<SimulationInput | null>(null);
+  const { odds, completedRuns, isSimulating } = useTournamentOdds(simulationInput);
 
   useEffect(() => {
     loadStandings();
-  }, [tournamentId, currentRound]);
+  }, [tournamentId, currentRound, selectedDivisionId]);
 
   const loadStandings = async () => {
     try {
       setIsLoading(true);
       setError(null);
 
-      // Load tournament
-      const { data: tournamentData, error: tournamentError } = await supabase
-        .from('tournaments')
-        .select('*')
-        .eq('id', tournamentId)
-        .single();
-
-      if (tournamentError) throw tournamentError;
+      // Load the tournament, from the offline snapshot if the server is unreachable
+      const snapshot = await loadTournamentSnapshot(tournamentId);
+      const tournamentData = snapshot.tournaments[0];
       setTournament(tournamentData);
 
-      // Load all players
-      const { data: playersData, error: playersError } = await supabase
-        .from('players')
-        .select('*')
-        .eq('tournament_id', tournamentId)
-        .order('rating', { ascending: false });
-
-      if (playersError) throw playersError;
-
-      // Load all results for this tournament
-      const { data: resultsData, error: resultsError } = await supabase
-        .from('results')
-        .select(`
-          *,
-          pairing:pairings!results_pairing_id_fkey(
-            player1_id,
-            player2_id,
-            player1_rank,
-            player2_rank,
-            round_number
-          )
-        `)
-        .eq('pairing.tournament_id', tournamentId);
-
-      if (resultsError) throw resultsError;
-
-      // Load all pairings to calculate starts
-      const { data: pairingsData, error: pairingsError } = await supabase
-        .from('pairings')
-        .select('first_move_player_id, player1_id, player2_id, player1_rank, player2_rank, round_number')
-        .eq('tournament_id', tournamentId);
-
-      if (pairingsError) throw pairingsError;
+      // Standings are ranked within a division
+      const divisionsData = snapshot.divisions;
+      setDivisions(divisionsData);
+
+      const divisionId = selectedDivisionId || divisionsData[0]?.id || null;
+      if (divisionId !== selectedDivisionId) {
+        setSelectedDivisionId(divisionId);
+        return;
+      }
+
+      // Players, pairings and results in the selected division
+      const inDivision = (row: { division_id?: string | null }) => !divisionId || row.division_id === divisionId;
+      const playersData = snapshot.players.filter(inDivision);
+      const pairingsData = snapshot.pairings.filter(inDivision);
+      const pairingIds = new Set(pairingsData.map(p => p.id));
+      const resultsData = snapshot.results.filter(r => pairingIds.has(r.pairing_id));
 
       // Calculate standings
-      const playerStandings = await calculateStandings(
-        playersData, 
-        resultsData, 
-        pairingsData
+      const playerStandings = computeStandings(
+        playersData,
+        pairingsData,
+        resultsData,
+        getStandingsOptions(tournamentData.tournament_config)
       );
 
       setStandings(playerStandings);
+      setSimulationInput({
+        players: playersData,
+        pairings: pairingsData,
+        results: resultsData,
+        config: tournamentData.tournament_config,
+        totalRounds: tournamentData.rounds || maxRounds,
+        fallbackSystem: tournamentData.pairing_system
+      });
+      setRatingChanges(calculateRatingChanges(playersData, pairingsData, resultsData));
     } catch (err) {
       console.error('Error loading standings:', err);
       setError('Failed to load standings');
@@ -117,113 +96,20 @@ const Standings: React.FC<StandingsProps> = ({
     }
   };
 
-  const calculateStandings = async (
-    players: Player[], 
-    results: any[], 
-    pairings: any[]
-  ): Promise<PlayerStanding[]> => {
-    const standings: PlayerStanding[] = [];
-
-    for (const player of players) {
-      let wins = 0;
-      let losses = 0;
-      let draws = 0;
-      let pointsFor = 0;
-      let pointsAgainst = 0;
-      let lastGame = null;
-      let lastRound = 0;
-
-      // Count starts
-      const starts = pairings.filter(p => p.first_move_player_id === player.id).length;
-
-      // Process each result
-      for (const result of results) {
-        const pairing = result.pairing;
-        if (!pairing) continue;
-
-        const isPlayer1 = pairing.player1_id === player.id;
-        const isPlayer2 = pairing.player2_id === player.id;
-
-        if (!isPlayer1 && !isPlayer2) continue;
-
-        const playerScore = isPlayer1 ? result.player1_score : result.player2_score;
-        const opponentScore = isPlayer1 ? result.player2_score : result.player1_score;
-        const opponentId = isPlayer1 ? pairing.player2_id : pairing.player1_id;
-        const opponentRank = isPlayer1 ? pairing.player2_rank : pairing.player1_rank;
-
-        pointsFor += playerScore;
-        pointsAgainst += opponentScore;
-
-        // Determine result
-        let gameResult: 'won' | 'lost' | 'drew';
-        if (playerScore > opponentScore) {
-          wins++;
-          gameResult = 'won';
-        } else if (playerScore < opponentScore) {
-          losses++;
-          gameResult = 'lost';
-        } else {
-          draws++;
-          gameResult = 'drew';
-        }
-
-        // Track most recent game
-        if (pairing.round_number > lastRound) {
-          lastRound = pairing.round_number;
-          
-          // Get opponent name
-          const opponent = players.find(p => p.id === opponentId);
-          
-          lastGame = {
-            result: gameResult,
-            playerScore,
-            opponentScore,
-            opponentName: opponent?.name || 'Unknown',
-            opponentRank
-          };
-        }
-      }
-
-      const points = wins + (draws * 0.5);
-      const spread = pointsFor - pointsAgainst;
-
-      standings.push({
-        id: player.id!,
-        name: player.name,
-        rank: 0, // Will be calculated after sorting
-        rating: player.rating,
-        wins,
-        losses,
-        draws,
-        points,
-        spread,
-        lastGame,
-        starts
-      });
-    }
-
-    // Sort by points (desc), then spread (desc), then rating (desc)
-    standings.sort((a, b) => {
-      if (a.points !== b.points) return b.points - a.points;
-      if (a.spread !== b.spread) return b.spread - a.spread;
-      return b.rating - a.rating;
-    });
-
-    // Assign ranks
-    standings.forEach((standing, index) => {
-      standing.rank = index + 1;
-    });
-
-    return standings;
-  };
-
   const handlePlayerClick = (playerId: string) => {
     setSelectedPlayerId(playerId);
     setShowPlayerModal(true);
   };
 
+  // Rating changes are only final once every round has been played
+  const showRatings = tournament?.status === 'completed';
+  const showOdds = odds.size > 0;
+  const prizePlaces = getGibsonConfig(tournament?.tournament_config).prizePlaces;
+
   const exportToCSV = () => {
-    const headers = ['Rank', 'Name', 'ID', 'W-L-D', 'Points', 'Spread', 'Last Game', 'Starts'];
+    const headers = ['Rank', 'Name', 'ID', 'W-L-D', 'Points', 'Spread', 'Last Game', 'Starts', 'Replies'];
+    if (showRatings) headers.push('Old Rating', 'New Rating', 'Change');
+    if (showOdds) headers.push('Win %', 'In the Money %', 'Gibsonized %');
     const rows = standings.map(s => [
       s.rank,
       s.name,
@@ -234,7 +120,18 @@ const Standings: React.FC<StandingsProps> = ({
       s.lastGame ? 
         `${s.lastGame.result === 'won' ? 'Won' : s.lastGame.result === 'lost' ? 'Lost' : 'Drew'} (${s.lastGame.playerScore}-${s.lastGame.opponentScore}) vs ${s.lastGame.opponentName}` :
         'No games',
-      s.starts
+      s.starts,
+      s.replies,
+      ...(showRatings ? [
+        s.rating,
+        ratingChanges.get(s.id)?.newRating ?? s.rating,
+        formatRatingChange(ratingChanges.get(s.id)?.change ?? 0)
+      ] : []),
+      ...(showOdds ? [
+        Math.round((odds.get(s.id)?.first ?? 0) * 100),
+        Math.round((odds.get(s.id)?.inTheMoney ?? 0) * 100),
+        Math.round((odds.get(s.id)?.gibsonized ?? 0) * 100)
+      ] : [])
     ]);
 
     const csvContent = [headers, ...rows]
@@ -245,7 +142,8 @@ const Standings: React.FC<StandingsProps> = ({
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `${tournament?.name || 'Tournament'}_Round_${currentRound}_Standings.csv`;
+    const divisionName = divisions.length > 1 ? divisions.find(d => d.id === selectedDivisionId)?.name : undefined;
+    a.download = `${tournament?.name || 'Tournament'}${divisionName ? `_${divisionName}` : ''}_Round_${currentRound}_Standings.csv`;
     a.click();
     URL.revokeObjectURL(url);
   };
@@ -311,12 +209,41 @@ const Standings: React.FC<StandingsProps> = ({
           <p className="fade-up fade-up-delay-1 text-xl md:text-2xl text-yellow-400 mb-4 font-medium">
             Round {currentRound} Standings
           </p>
+
+          <p className="fade-up fade-up-delay-2 text-sm text-gray-400 mb-4 font-jetbrains">
+            Ranked by points, then {getTiebreakChain(tournament?.tournament_config).map(rule => TIEBREAK_LABELS[rule]).join(', ')}
+          </p>
+
+          {showOdds && (
+            <p className="fade-up fade-up-delay-2 text-xs text-gray-500 mb-4 font-jetbrains flex items-center justify-center gap-2">
+              <Dices size={14} />
+              Chances from {completedRuns.toLocaleString()} simulated finishes by rating{isSimulating ? '…' : ''}
+              {prizePlaces > 1 && ` • Top ${prizePlaces} are in the money`}
+            </p>
+          )}
           
           <div className="fade-up fade-up-delay-3 w-24 h-1 bg-gradient-to-r from-yellow-500 to-orange-500 mx-auto rounded-full"></div>
         </div>
 
         {/* Export Button */}
-        <div className="fade-up fade-up-delay-4 max-w-6xl mx-auto w-full mb-8 text-right">
+        <div className="fade-up fade-up-delay-4 max-w-6xl mx-auto w-full mb-8 flex flex-wrap items-center justify-between gap-4">
+          {divisions.length > 1 ? (
+            <div className="flex flex-wrap gap-2">
+              {divisions.map(division => (
+                <button
+                  key={division.id}
+                  onClick={() => setSelectedDivisionId(division.id!)}
+                  className={`px-4 py-2 rounded-lg font-jetbrains text-sm font-medium transition-all duration-200 ${
+                    selectedDivisionId === division.id
+                      ? 'bg-yellow-600 text-white border border-yellow-500'
+                      : 'bg-gray-800/80 text-gray-300 border border-gray-700/50 hover:text-white hover:border-gray-600/50'
+                  }`}
+                >
+                  {division.name}
+                </button>
+              ))}
+            </div>
+          ) : <div />}
           <button
             onClick={exportToCSV}
             className="inline-flex items-center gap-2 px-4 py-2 bg-gray-800/80 backdrop-blur-lg text-gray-300 hover:text-white rounded-lg border border-gray-700/50 hover:border-gray-600/50 transition-all duration-200"
@@ -354,6 +281,17 @@ const Standings: React.FC<StandingsProps> = ({
                     <th className="px-6 py-4 text-center text-xs font-medium text-gray-300 uppercase tracking-wider font-jetbrains">Spread</th>
                     <th className="px-6 py-4 text-left text-xs font-medium text-gray-300 uppercase tracking-wider font-jetbrains">Player</th>
                     <th className="px-6 py-4 text-left text-xs font-medium text-gray-300 uppercase tracking-wider font-jetbrains">Last Game</th>
+                    <th className="px-6 py-4 text-center text-xs font-medium text-gray-300 uppercase tracking-wider font-jetbrains" title="Games moving first – games moving second">Starts</th>
+                    {showRatings && (
+                      <th className="px-6 py-4 text-center text-xs font-medium text-gray-300 uppercase tracking-wider font-jetbrains">New Rating</th>
+                    )}
+                    {showOdds && (
+                      <>
+                        <th className="px-6 py-4 text-center text-xs font-medium text-gray-300 uppercase tracking-wider font-jetbrains" title="Chance of finishing first">Win</th>
+                        <th className="px-6 py-4 text-center text-xs font-medium text-gray-300 uppercase tracking-wider font-jetbrains" title={`Chance of finishing in the top ${prizePlaces}`}>Money</th>
+                        <th className="px-6 py-4 text-center text-xs font-medium text-gray-300 uppercase tracking-wider font-jetbrains" title="Chance of clinching a prize with rounds still to play">Gibson</th>
+                      </>
+                    )}
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-700">
@@ -408,6 +346,53 @@ const Standings: React.FC<StandingsProps> = ({
                           {formatLastGame(standing.lastGame)}
                         </div>
                       </td>
+
+                      {/* Starts-Replies */}
+                      <td className="px-6 py-4 text-center whitespace-nowrap">
+                        <span className={`font-mono text-sm ${
+                          Math.abs(standing.starts - standing.replies) > 1 ? 'text-yellow-400' : 'text-gray-300'
+                        }`}>
+                          {standing.starts}–{standing.replies}
+                        </span>
+                      </td>
+
+                      {/* New Rating */}
+                      {showRatings && (
+                        <td className="px-6 py-4 text-center whitespace-nowrap">
+                          {(() => {
+                            const ratingChange = ratingChanges.get(standing.id);
+                            if (!ratingChange) return <span className="text-gray-500">—</span>;
+                            return (
+                              <div className="font-mono text-sm">
+                                <span className="text-white">{ratingChange.newRating}</span>
+                                {!ratingChange.unrated && (
+                                  <span className={`ml-2 ${
+                                    ratingChange.change > 0 ? 'text-green-400' :
+                                    ratingChange.change < 0 ? 'text-red-400' : 'text-gray-400'
+                                  }`}>
+                                    {formatRatingChange(ratingChange.change)}
+                                  </span>
+                                )}
+                              </div>
+                            );
+                          })()}
+                        </td>
+                      )}
+
+                      {/* Simulated Chances */}
+                      {showOdds && (
+                        <>
+                          <td className="px-6 py-4 text-center whitespace-nowrap font-mono text-sm text-yellow-400">
+                            {formatOdds(odds.get(standing.id)?.first ?? 0)}
+                          </td>
+                          <td className="px-6 py-4 text-center whitespace-nowrap font-mono text-sm text-green-400">
+                            {formatOdds(odds.get(standing.id)?.inTheMoney ?? 0)}
+                          </td>
+                          <td className="px-6 py-4 text-center whitespace-nowrap font-mono text-sm text-gray-300">
+                            {formatOdds(odds.get(standing.id)?.gibsonized ?? 0)}
+                          </td>
+                        </>
+                      )}
                     </tr>
                   ))}
                 </tbody>
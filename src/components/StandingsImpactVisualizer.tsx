@@ -1,7 +1,21 @@
-import React, { useState, useEffect, Suspense } from 'react';
-import { X, TrendingUp, TrendingDown, Target, AlertTriangle, RotateCcw, Save, Eye } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { X, TrendingUp, TrendingDown, Target, AlertTriangle, RotateCcw, Save, Eye, Plus, Shuffle, Trash2, Columns, Crosshair } from 'lucide-react';
 import { supabase } from '../lib/supabase';
-import { PairingWithPlayers, Result, Player } from '../types/database';
+import { loadTournamentSnapshot, getRoundPairings } from '../lib/offlineRepository';
+import { PairingWithPlayers, ScenarioGame, StandingsScenario } from '../types/database';
+import { computeStandings, getStandingsOptions, PlayerStanding } from '../utils/standings';
+import { getGibsonConfig } from '../utils/gibsonization';
+import { SimulationInput } from '../utils/tournamentSimulator';
+import {
+  addScenarioRound,
+  compareStandings,
+  describeClinchRequirement,
+  describeScenarioRounds,
+  getScenarioLastRound,
+  scenarioStandings,
+  solveClinch,
+  DEFAULT_SCENARIO_SCORES
+} from '../utils/scenarioPlanner';
 import { useLogicBlock } from '../hooks/useLogicBlocks';
 
 interface StandingsImpactVisualizerProps {
@@ -9,6 +23,10 @@ interface StandingsImpactVisualizerProps {
   onClose: () => void;
   tournamentId: string;
   currentRound: number;
+  /** Scopes the players and pairings to one division */
+  divisionId?: string | null;
+  /** Falls back to the tournament's configured rounds */
+  totalRounds?: number;
 }
 
 interface MockResult {
@@ -18,92 +36,106 @@ interface MockResult {
   winnerId?: string;
 }
 
-interface PlayerStanding {
-  id: string;
-  name: string;
-  rank: number;
-  rating: number;
-  wins: number;
-  losses: number;
-  draws: number;
-  points: number;
-  spread: number;
-  gamesPlayed: number;
+interface ImpactStanding extends PlayerStanding {
   rankChange?: number;
   impactTags?: string[];
 }
 
-interface SimulationScenario {
-  name: string;
-  description: string;
-  mockResults: Record<string, MockResult>;
-}
+type ResultsPanel = 'projected' | 'compare' | 'clinch';
+
+// Compare choices: the scenario being edited, or a saved scenario's id
+const CURRENT_SCENARIO = 'current';
 
 const StandingsImpactVisualizer: React.FC<StandingsImpactVisualizerProps> = ({
   isOpen,
   onClose,
   tournamentId,
-  currentRound
+  currentRound,
+  divisionId,
+  totalRounds: totalRoundsProp
 }) => {
   const [pairings, setPairings] = useState<PairingWithPlayers[]>([]);
-  const [currentStandings, setCurrentStandings] = useState<PlayerStanding[]>([]);
-  const [simulatedStandings, setSimulatedStandings] = useState<PlayerStanding[]>([]);
+  const [currentStandings, setCurrentStandings] = useState<ImpactStanding[]>([]);
+  const [simulatedStandings, setSimulatedStandings] = useState<ImpactStanding[]>([]);
+  const [baseInput, setBaseInput] = useState<SimulationInput | null>(null);
   const [mockResults, setMockResults] = useState<Record<string, MockResult>>({});
+  const [futureGames, setFutureGames] = useState<ScenarioGame[]>([]);
+  const [activeRound, setActiveRound] = useState(currentRound);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showTopOnly, setShowTopOnly] = useState(false);
-  const [savedScenarios, setSavedScenarios] = useState<SimulationScenario[]>([]);
+  const [savedScenarios, setSavedScenarios] = useState<StandingsScenario[]>([]);
   const [scenarioName, setScenarioName] = useState('');
+  const [scenarioError, setScenarioError] = useState<string | null>(null);
+  const [resultsPanel, setResultsPanel] = useState<ResultsPanel>('projected');
+  const [compareWith, setCompareWith] = useState<[string, string]>([CURRENT_SCENARIO, CURRENT_SCENARIO]);
+  const [clinchPlayerId, setClinchPlayerId] = useState('');
+  const [clinchPlace, setClinchPlace] = useState(1);
+  const [clinchAfterScenario, setClinchAfterScenario] = useState(false);
   
   // Fetch the impact analysis logic from Supabase
   const { logicCode, isLoading: isLogicLoading, error: logicError } = useLogicBlock('standings_impact');
 
+  const totalRounds = totalRoundsProp || baseInput?.totalRounds || currentRound;
+  const lastPlannedRound = getScenarioLastRound(futureGames, currentRound);
+  const playersById = new Map((baseInput?.players || []).map(player => [player.id!, player]));
+
   useEffect(() => {
     if (isOpen) {
       loadData();
     }
-  }, [isOpen, tournamentId, currentRound]);
+  }, [isOpen, tournamentId, currentRound, divisionId]);
 
   useEffect(() => {
     if (pairings.length > 0 && currentStandings.length > 0) {
       simulateStandings();
     }
-  }, [mockResults, pairings, currentStandings, logicCode]);
+  }, [mockResults, futureGames, pairings, currentStandings, logicCode]);
 
   const loadData = async () => {
     try {
       setIsLoading(true);
       setError(null);
 
+      // Rounds, pairing system and tiebreaks, from the offline snapshot if the server is unreachable
+      const snapshot = await loadTournamentSnapshot(tournamentId);
+      const tournamentData = snapshot.tournaments[0];
+      const inDivision = (row: { division_id?: string | null }) => !divisionId || row.division_id === divisionId;
+
+      // Load players
+      const playersData = snapshot.players.filter(inDivision).sort((a, b) => b.rating - a.rating);
+
       // Load current round pairings
-      const { data: pairingsData, error: pairingsError } = await supabase
-        .from('pairings')
-        .select(`
-          *,
-          player1:players!pairings_player1_id_fkey(id, name, rating),
-          player2:players!pairings_player2_id_fkey(id, name, rating)
-        `)
-        .eq('tournament_id', tournamentId)
-        .eq('round_number', currentRound)
-        .order('table_number');
-
-      if (pairingsError) throw pairingsError;
-      setPairings(pairingsData as PairingWithPlayers[]);
-
-      // Initialize mock results
-      const initialMockResults: Record<string, MockResult> = {};
-      pairingsData.forEach(pairing => {
-        initialMockResults[pairing.id] = {
-          pairingId: pairing.id,
-          player1Score: 400,
-          player2Score: 350,
-          winnerId: pairing.player1_id
-        };
+      const pairingsData = getRoundPairings(snapshot, currentRound, divisionId);
+      setPairings(pairingsData);
+      setMockResults(defaultMockResults(pairingsData));
+      setFutureGames([]);
+      setActiveRound(currentRound);
+
+      // Earlier rounds are real results; the scenario starts from them
+      const pastPairings = snapshot.pairings.filter(p => inDivision(p) && p.round_number < currentRound);
+      const pastPairingIds = new Set(pastPairings.map(p => p.id));
+      const resultsData = snapshot.results.filter(r => pastPairingIds.has(r.pairing_id));
+
+      const input: SimulationInput = {
+        players: playersData,
+        pairings: pastPairings,
+        results: resultsData,
+        config: tournamentData.tournament_config,
+        // Without a set length there is nothing after this round to plan
+        totalRounds: totalRoundsProp || tournamentData.rounds || currentRound,
+        fallbackSystem: tournamentData.pairing_system
+      };
+      setBaseInput(input);
+
+      const standings = computeStandings(input.players, input.pairings, input.results, {
+        ...getStandingsOptions(input.config),
+        throughRound: currentRound - 1
       });
-      setMockResults(initialMockResults);
+      setCurrentStandings(standings);
+      setClinchPlayerId(standings[0]?.id || '');
 
-      // Calculate current standings
-      await calculateCurrentStandings();
+      await loadScenarios();
 
     } catch (err) {
       console.error('Error loading data:', err);
@@ -113,116 +145,45 @@ const StandingsImpactVisualizer: React.FC<StandingsImpactVisualizerProps> = ({
     }
   };
 
-  const calculateCurrentStandings = async () => {
-    try {
-      // Load all players
-      const { data: playersData, error: playersError } = await supabase
-        .from('players')
-        .select('*')
-        .eq('tournament_id', tournamentId)
-        .order('rating', { ascending: false });
-
-      if (playersError) throw playersError;
-
-      // Load all results up to current round - 1
-      const { data: resultsData, error: resultsError } = await supabase
-        .from('results')
-        .select(`
-          *,
-          pairing:pairings!results_pairing_id_fkey(
-            player1_id,
-            player2_id,
-            round_number
-          )
-        `)
-        .eq('pairing.tournament_id', tournamentId)
-        .lt('round_number', currentRound);
-
-      if (resultsError && resultsError.code !== 'PGRST116') {
-        throw resultsError;
-      }
-
-      const standings = calculateStandingsFromData(playersData, resultsData || []);
-      setCurrentStandings(standings);
+  const loadScenarios = async () => {
+    let scenariosQuery = supabase
+      .from('standings_scenarios')
+      .select('*')
+      .eq('tournament_id', tournamentId)
+      .eq('from_round', currentRound);
 
-    } catch (err) {
-      console.error('Error calculating current standings:', err);
-      setError('Failed to calculate current standings');
+    if (divisionId) {
+      scenariosQuery = scenariosQuery.eq('division_id', divisionId);
     }
-  };
-
-  const calculateStandingsFromData = (players: Player[], results: any[]): PlayerStanding[] => {
-    const standings: PlayerStanding[] = [];
-
-    for (const player of players) {
-      let wins = 0;
-      let losses = 0;
-      let draws = 0;
-      let pointsFor = 0;
-      let pointsAgainst = 0;
-      let gamesPlayed = 0;
-
-      // Process each result
-      for (const result of results) {
-        const pairing = result.pairing;
-        if (!pairing) continue;
-
-        const isPlayer1 = pairing.player1_id === player.id;
-        const isPlayer2 = pairing.player2_id === player.id;
 
-        if (!isPlayer1 && !isPlayer2) continue;
+    const { data, error: scenariosError } = await scenariosQuery.order('created_at');
 
-        const playerScore = isPlayer1 ? result.player1_score : result.player2_score;
-        const opponentScore = isPlayer1 ? result.player2_score : result.player1_score;
-
-        pointsFor += playerScore;
-        pointsAgainst += opponentScore;
-        gamesPlayed++;
-
-        if (playerScore > opponentScore) {
-          wins++;
-        } else if (playerScore < opponentScore) {
-          losses++;
-        } else {
-          draws++;
-        }
-      }
-
-      const points = wins + (draws * 0.5);
-      const spread = pointsFor - pointsAgainst;
-
-      standings.push({
-        id: player.id!,
-        name: player.name,
-        rank: 0,
-        rating: player.rating,
-        wins,
-        losses,
-        draws,
-        points,
-        spread,
-        gamesPlayed
-      });
+    if (scenariosError) {
+      console.error('Error loading scenarios:', scenariosError);
+      setScenarioError('Failed to load saved scenarios');
+      return;
     }
-
-    // Sort and assign ranks
-    standings.sort((a, b) => {
-      if (a.points !== b.points) return b.points - a.points;
-      if (a.spread !== b.spread) return b.spread - a.spread;
-      return b.rating - a.rating;
-    });
-
-    standings.forEach((standing, index) => {
-      standing.rank = index + 1;
-    });
-
-    return standings;
+    setSavedScenarios(data || []);
+    setCompareWith([CURRENT_SCENARIO, data?.[0]?.id || CURRENT_SCENARIO]);
   };
 
+  // This round's games as scenario games, byes included
+  const currentRoundGames = (): ScenarioGame[] => pairings.map(pairing => {
+    const mockResult = mockResults[pairing.id!];
+    return {
+      round: currentRound,
+      pairing_id: pairing.id,
+      player1_id: pairing.player1_id,
+      player2_id: pairing.player2_id,
+      player1_score: mockResult?.player1Score ?? 0,
+      player2_score: mockResult?.player2Score ?? 0
+    };
+  });
+
   const simulateStandings = () => {
     try {
-      // If we have the dynamic logic code from Supabase, use it
-      if (logicCode && !isLogicLoading && !logicError) {
+      // If we have the dynamic logic code from Supabase, use it; it only covers this round
+      if (logicCode && !isLogicLoading && !logicError && futureGames.length === 0) {
         try {
           // Create a safe function from the logic code
           const simulateFunction = new Function(
@@ -243,63 +204,16 @@ const StandingsImpactVisualizer: React.FC<StandingsImpactVisualizerProps> = ({
       }
       
       // Fallback to static implementation
-      // Clone current standings
-      const simulatedData = currentStandings.map(standing => ({ ...standing }));
-
-      // Apply mock results
-      Object.values(mockResults).forEach(mockResult => {
-        const pairing = pairings.find(p => p.id === mockResult.pairingId);
-        if (!pairing) return;
-
-        // Update player1
-        const player1Standing = simulatedData.find(s => s.id === pairing.player1_id);
-        if (player1Standing) {
-          player1Standing.pointsFor = (player1Standing.pointsFor || 0) + mockResult.player1Score;
-          player1Standing.pointsAgainst = (player1Standing.pointsAgainst || 0) + mockResult.player2Score;
-          player1Standing.gamesPlayed++;
-
-          if (mockResult.player1Score > mockResult.player2Score) {
-            player1Standing.wins++;
-          } else if (mockResult.player1Score < mockResult.player2Score) {
-            player1Standing.losses++;
-          } else {
-            player1Standing.draws++;
-          }
-
-          player1Standing.points = player1Standing.wins + (player1Standing.draws * 0.5);
-          player1Standing.spread = (player1Standing.pointsFor || 0) - (player1Standing.pointsAgainst || 0);
-        }
+      if (!baseInput) return;
 
-        // Update player2
-        const player2Standing = simulatedData.find(s => s.id === pairing.player2_id);
-        if (player2Standing) {
-          player2Standing.pointsFor = (player2Standing.pointsFor || 0) + mockResult.player2Score;
-          player2Standing.pointsAgainst = (player2Standing.pointsAgainst || 0) + mockResult.player1Score;
-          player2Standing.gamesPlayed++;
-
-          if (mockResult.player2Score > mockResult.player1Score) {
-            player2Standing.wins++;
-          } else if (mockResult.player2Score < mockResult.player1Score) {
-            player2Standing.losses++;
-          } else {
-            player2Standing.draws++;
-          }
-
-          player2Standing.points = player2Standing.wins + (player2Standing.draws * 0.5);
-          player2Standing.spread = (player2Standing.pointsFor || 0) - (player2Standing.pointsAgainst || 0);
-        }
-      });
+      // Recompute standings with this round's mock results and any planned rounds
+      const simulatedData: ImpactStanding[] = scenarioStandings(baseInput, [...currentRoundGames(), ...futureGames]);
 
-      // Re-sort and assign new ranks
-      simulatedData.sort((a, b) => {
-        if (a.points !== b.points) return b.points - a.points;
-        if (a.spread !== b.spread) return b.spread - a.spread;
-        return b.rating - a.rating;
-      });
+      const previousRanks = new Map(currentStandings.map(standing => [standing.id, standing.rank]));
+      const remainingRounds = Math.max(0, totalRounds - lastPlannedRound);
 
-      simulatedData.forEach((standing, index) => {
-        const oldRank = standing.rank;
-        standing.rank = index + 1;
+      simulatedData.forEach(standing => {
+        const oldRank = previousRanks.get(standing.id) || standing.rank;
         standing.rankChange = oldRank - standing.rank; // Positive = moved up, negative = moved down
 
         // Generate impact tags
@@ -326,7 +240,6 @@ const StandingsImpactVisualizer: React.FC<StandingsImpactVisualizerProps> = ({
         }
 
         // Check for mathematical elimination or clinching
-        const remainingRounds = 7 - currentRound; // Assuming 7 rounds max
         const maxPossiblePoints = standing.points + remainingRounds;
         const currentLeaderPoints = simulatedData[0].points;
         
@@ -334,7 +247,7 @@ const StandingsImpactVisualizer: React.FC<StandingsImpactVisualizerProps> = ({
           standing.impactTags.push('Eliminated from Contention');
         }
         
-        if (standing.rank === 1 && standing.points > simulatedData[1].points + remainingRounds) {
+        if (standing.rank === 1 && simulatedData.length > 1 && standing.points > simulatedData[1].points + remainingRounds) {
           standing.impactTags.push('Clinches Tournament');
         }
       });
@@ -363,7 +276,7 @@ const StandingsImpactVisualizer: React.FC<StandingsImpactVisualizerProps> = ({
         if (result.player1Score > result.player2Score) {
           result.winnerId = pairing.player1_id;
         } else if (result.player2Score > result.player1Score) {
-          result.winnerId = pairing.player2_id;
+          result.winnerId = pairing.player2_id || undefined;
         } else {
           result.winnerId = undefined;
         }
@@ -373,36 +286,116 @@ const StandingsImpactVisualizer: React.FC<StandingsImpactVisualizerProps> = ({
     });
   };
 
+  const handleFutureScoreChange = (game: ScenarioGame, field: 'player1_score' | 'player2_score', value: number) => {
+    setFutureGames(prev => prev.map(other => other === game ? { ...other, [field]: value } : other));
+  };
+
+  // Pairs a round from the scenario so far; later planned rounds are dropped
+  const pairScenarioRound = (round: number) => {
+    if (!baseInput || round <= currentRound || round > totalRounds) return;
+    try {
+      const games = addScenarioRound(baseInput, [...currentRoundGames(), ...futureGames], round);
+      setFutureGames(games.filter(game => game.round > currentRound));
+      setActiveRound(round);
+    } catch (err) {
+      console.error('Error pairing scenario round:', err);
+      setError(`Failed to pair round ${round} for this scenario`);
+    }
+  };
+
+  const removeScenarioRound = (round: number) => {
+    setFutureGames(prev => prev.filter(game => game.round < round));
+    setActiveRound(round - 1);
+  };
+
   const resetSimulation = () => {
-    const resetResults: Record<string, MockResult> = {};
-    pairings.forEach(pairing => {
-      resetResults[pairing.id] = {
-        pairingId: pairing.id,
-        player1Score: 400,
-        player2Score: 350,
-        winnerId: pairing.player1_id
-      };
-    });
-    setMockResults(resetResults);
+    setMockResults(defaultMockResults(pairings));
+    setFutureGames([]);
+    setActiveRound(currentRound);
   };
 
-  const saveScenario = () => {
+  const saveScenario = async () => {
     if (!scenarioName.trim()) return;
+    setScenarioError(null);
+
+    const games = [...currentRoundGames(), ...futureGames];
+    const { data, error: saveError } = await supabase
+      .from('standings_scenarios')
+      .insert([{
+        tournament_id: tournamentId,
+        division_id: divisionId || null,
+        name: scenarioName.trim(),
+        description: `Simulation for ${describeScenarioRounds(games, currentRound)}`,
+        from_round: currentRound,
+        games
+      }])
+      .select()
+      .single();
+
+    if (saveError) {
+      console.error('Error saving scenario:', saveError);
+      setScenarioError('Failed to save scenario');
+      return;
+    }
 
-    const scenario: SimulationScenario = {
-      name: scenarioName.trim(),
-      description: `Simulation for Round ${currentRound}`,
-      mockResults: { ...mockResults }
-    };
-
-    setSavedScenarios(prev => [...prev, scenario]);
+    setSavedScenarios(prev => [...prev, data]);
     setScenarioName('');
   };
 
-  const loadScenario = (scenario: SimulationScenario) => {
-    setMockResults(scenario.mockResults);
+  const loadScenario = (scenario: StandingsScenario) => {
+    const loaded = defaultMockResults(pairings);
+    scenario.games
+      .filter(game => game.round === currentRound && game.pairing_id && loaded[game.pairing_id])
+      .forEach(game => {
+        const pairing = pairings.find(p => p.id === game.pairing_id)!;
+        loaded[game.pairing_id!] = {
+          pairingId: game.pairing_id!,
+          player1Score: game.player1_score,
+          player2Score: game.player2_score,
+          winnerId: game.player1_score > game.player2_score ? pairing.player1_id :
+            game.player2_score > game.player1_score ? pairing.player2_id || undefined : undefined
+        };
+      });
+
+    setMockResults(loaded);
+    setFutureGames(scenario.games.filter(game => game.round > currentRound));
+    setActiveRound(currentRound);
   };
 
+  const deleteScenario = async (scenario: StandingsScenario) => {
+    setScenarioError(null);
+    const { error: deleteError } = await supabase
+      .from('standings_scenarios')
+      .delete()
+      .eq('id', scenario.id);
+
+    if (deleteError) {
+      console.error('Error deleting scenario:', deleteError);
+      setScenarioError('Failed to delete scenario');
+      return;
+    }
+
+    setSavedScenarios(prev => prev.filter(other => other.id !== scenario.id));
+    setCompareWith(prev => prev.map(choice => choice === scenario.id ? CURRENT_SCENARIO : choice) as [string, string]);
+  };
+
+  // Final standings of the scenario being edited or of a saved one
+  const standingsFor = (choice: string): PlayerStanding[] => {
+    if (choice === CURRENT_SCENARIO) return simulatedStandings;
+    const scenario = savedScenarios.find(saved => saved.id === choice);
+    return scenario && baseInput ? scenarioStandings(baseInput, scenario.games) : [];
+  };
+
+  const scenarioLabel = (choice: string) => choice === CURRENT_SCENARIO
+    ? 'Current edits'
+    : savedScenarios.find(saved => saved.id === choice)?.name || 'Scenario';
+
+  const clinchStandings = clinchAfterScenario ? simulatedStandings : currentStandings;
+  const clinchRemainingRounds = Math.max(0, totalRounds - (clinchAfterScenario ? lastPlannedRound : currentRound - 1));
+  const clinchRequirement = clinchPlayerId && clinchStandings.length > 0
+    ? solveClinch(clinchStandings, clinchPlayerId, clinchRemainingRounds, clinchPlace, getGibsonConfig(baseInput?.config))
+    : null;
+
   const getRankChangeIcon = (change?: number) => {
     if (!change || change === 0) return null;
     if (change > 0) return <TrendingUp className="w-4 h-4 text-green-400" />;
@@ -440,7 +433,7 @@ const StandingsImpactVisualizer: React.FC<StandingsImpactVisualizerProps> = ({
                 Standings Impact Visualizer
               </h2>
               <p className="text-cyan-300 font-jetbrains">
-                Simulate Round {currentRound} outcomes and see ranking changes
+                Plan Rounds {currentRound}–{totalRounds} and see ranking changes
               </p>
             </div>
           </div>
@@ -495,21 +488,63 @@ const StandingsImpactVisualizer: React.FC<StandingsImpactVisualizerProps> = ({
                 </button>
               </div>
 
+              {scenarioError && (
+                <div className="mb-3 text-xs text-red-400 font-jetbrains">{scenarioError}</div>
+              )}
+
               {savedScenarios.length > 0 && (
                 <div className="space-y-1">
-                  {savedScenarios.map((scenario, index) => (
-                    <button
-                      key={index}
-                      onClick={() => loadScenario(scenario)}
-                      className="w-full text-left px-3 py-2 bg-gray-700/50 hover:bg-gray-600/50 text-gray-300 rounded text-sm font-jetbrains transition-all duration-200"
-                    >
-                      {scenario.name}
-                    </button>
+                  {savedScenarios.map((scenario) => (
+                    <div key={scenario.id} className="flex items-center gap-1">
+                      <button
+                        onClick={() => loadScenario(scenario)}
+                        className="flex-1 text-left px-3 py-2 bg-gray-700/50 hover:bg-gray-600/50 text-gray-300 rounded text-sm font-jetbrains transition-all duration-200"
+                      >
+                        {scenario.name}
+                        <span className="ml-2 text-xs text-gray-500">
+                          {describeScenarioRounds(scenario.games, scenario.from_round)}
+                        </span>
+                      </button>
+                      <button
+                        onClick={() => deleteScenario(scenario)}
+                        title="Delete scenario"
+                        className="p-2 text-gray-500 hover:text-red-400 transition-colors duration-200"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
                   ))}
                 </div>
               )}
             </div>
 
+            {/* Rounds in this scenario */}
+            <div className="flex flex-wrap items-center gap-2 mb-4">
+              {Array.from({ length: lastPlannedRound - currentRound + 1 }, (_, i) => currentRound + i).map(round => (
+                <button
+                  key={round}
+                  onClick={() => setActiveRound(round)}
+                  className={`px-3 py-2 rounded-lg font-jetbrains text-sm transition-all duration-200 ${
+                    activeRound === round
+                      ? 'bg-cyan-600 text-white'
+                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }`}
+                >
+                  Round {round}
+                </button>
+              ))}
+              {lastPlannedRound < totalRounds && (
+                <button
+                  onClick={() => pairScenarioRound(lastPlannedRound + 1)}
+                  disabled={!baseInput}
+                  className="flex items-center gap-1 px-3 py-2 border border-dashed border-gray-600 hover:border-cyan-500 text-gray-400 hover:text-cyan-300 rounded-lg font-jetbrains text-sm transition-all duration-200"
+                >
+                  <Plus size={14} />
+                  Round {lastPlannedRound + 1}
+                </button>
+              )}
+            </div>
+
             {/* Mock Results Table */}
             {isLoading ? (
               <div className="text-center py-8">
@@ -519,10 +554,73 @@ const StandingsImpactVisualizer: React.FC<StandingsImpactVisualizerProps> = ({
               <div className="text-center py-8 text-red-400 font-jetbrains">
                 {error}
               </div>
+            ) : activeRound > currentRound ? (
+              <div className="space-y-4">
+                <div className="flex items-center justify-between text-xs text-gray-400 font-jetbrains">
+                  <span>Paired from this scenario's standings</span>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => pairScenarioRound(activeRound)}
+                      title="Pair this round again from the scores above; later rounds are removed"
+                      className="flex items-center gap-1 px-2 py-1 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded transition-all duration-200"
+                    >
+                      <Shuffle size={12} />
+                      Re-pair
+                    </button>
+                    <button
+                      onClick={() => removeScenarioRound(activeRound)}
+                      title="Remove this round and later rounds"
+                      className="flex items-center gap-1 px-2 py-1 bg-gray-700 hover:bg-red-700/50 text-gray-300 rounded transition-all duration-200"
+                    >
+                      <Trash2 size={12} />
+                      Remove
+                    </button>
+                  </div>
+                </div>
+
+                {futureGames.filter(game => game.round === activeRound).map((game, index) => (
+                  <div key={index} className="bg-gray-800/50 border border-gray-600 rounded-lg p-4">
+                    <div className="flex items-center justify-between mb-3">
+                      <span className="text-white font-mono font-bold">
+                        Table {index + 1}
+                      </span>
+                      <span className="text-xs text-gray-400 font-jetbrains">
+                        {!game.player2_id ? 'Bye' :
+                         game.player1_score > game.player2_score ? 'P1 Wins' :
+                         game.player2_score > game.player1_score ? 'P2 Wins' : 'Tie'}
+                      </span>
+                    </div>
+
+                    {game.player2_id ? (
+                      <div className="grid grid-cols-2 gap-4">
+                        {(['player1', 'player2'] as const).map(side => (
+                          <div key={side}>
+                            <div className="text-sm text-white font-medium mb-1">
+                              {playersById.get(game[`${side}_id`]!)?.name}
+                            </div>
+                            <input
+                              type="number"
+                              min="0"
+                              max="9999"
+                              value={game[`${side}_score`]}
+                              onChange={(e) => handleFutureScoreChange(game, `${side}_score`, parseInt(e.target.value) || 0)}
+                              className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white text-center font-mono focus:border-cyan-500 focus:outline-none"
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <div className="text-sm text-white font-medium">
+                        {playersById.get(game.player1_id)?.name}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
             ) : (
               <div className="space-y-4">
                 {pairings.map((pairing) => {
-                  const mockResult = mockResults[pairing.id];
+                  const mockResult = mockResults[pairing.id!];
                   if (!mockResult) return null;
 
                   return (
@@ -547,21 +645,21 @@ const StandingsImpactVisualizer: React.FC<StandingsImpactVisualizerProps> = ({
                             min="0"
                             max="9999"
                             value={mockResult.player1Score}
-                            onChange={(e) => handleScoreChange(pairing.id, 'player1Score', parseInt(e.target.value) || 0)}
+                            onChange={(e) => handleScoreChange(pairing.id!, 'player1Score', parseInt(e.target.value) || 0)}
                             className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white text-center font-mono focus:border-cyan-500 focus:outline-none"
                           />
                         </div>
 
                         <div>
                           <div className="text-sm text-white font-medium mb-1">
-                            {pairing.player2.name}
+                            {pairing.player2?.name}
                           </div>
                           <input
                             type="number"
                             min="0"
                             max="9999"
                             value={mockResult.player2Score}
-                            onChange={(e) => handleScoreChange(pairing.id, 'player2Score', parseInt(e.target.value) || 0)}
+                            onChange={(e) => handleScoreChange(pairing.id!, 'player2Score', parseInt(e.target.value) || 0)}
                             className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white text-center font-mono focus:border-cyan-500 focus:outline-none"
                           />
                         </div>
@@ -575,90 +673,231 @@ const StandingsImpactVisualizer: React.FC<StandingsImpactVisualizerProps> = ({
 
           {/* Right Panel: Simulated Standings */}
           <div className="w-1/2 p-6 overflow-y-auto">
-            <div className="flex items-center justify-between mb-6">
-              <h3 className="text-xl font-bold text-white font-orbitron">
-                Projected Standings
-              </h3>
-              
-              <div className="flex items-center gap-2">
+            <div className="flex gap-2 mb-4">
+              {([
+                ['projected', 'Projected', Eye],
+                ['compare', 'Compare', Columns],
+                ['clinch', 'Clinch', Crosshair]
+              ] as const).map(([panel, label, Icon]) => (
                 <button
-                  onClick={() => setShowTopOnly(!showTopOnly)}
+                  key={panel}
+                  onClick={() => setResultsPanel(panel)}
                   className={`flex items-center gap-2 px-3 py-2 rounded-lg font-jetbrains text-sm transition-all duration-200 ${
-                    showTopOnly
+                    resultsPanel === panel
                       ? 'bg-cyan-600 text-white'
-                      : 'bg-gray-600 text-gray-300 hover:bg-gray-700'
+                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
                   }`}
                 >
-                  <Eye size={14} />
-                  {showTopOnly ? 'Show All' : 'Top 10 Only'}
+                  <Icon size={14} />
+                  {label}
                 </button>
-              </div>
+              ))}
             </div>
 
-            <div className="space-y-2">
-              {displayedStandings.map((standing) => (
-                <div
-                  key={standing.id}
-                  className={`p-4 rounded-lg border transition-all duration-200 ${
-                    standing.rankChange && standing.rankChange !== 0
-                      ? 'bg-cyan-900/20 border-cyan-500/30'
-                      : 'bg-gray-800/50 border-gray-600'
-                  }`}
-                >
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-3">
-                      <div className="flex items-center gap-2">
-                        <span className="text-lg font-bold text-white font-orbitron min-w-[40px]">
-                          #{standing.rank}
-                        </span>
-                        {getRankChangeIcon(standing.rankChange)}
-                        {standing.rankChange && standing.rankChange !== 0 && (
-                          <span className={`text-sm font-jetbrains ${getRankChangeColor(standing.rankChange)}`}>
-                            ({standing.rankChange > 0 ? '+' : ''}{standing.rankChange})
-                          </span>
-                        )}
-                      </div>
+            {resultsPanel === 'projected' && (
+              <>
+                <div className="flex items-center justify-between mb-6">
+                  <h3 className="text-xl font-bold text-white font-orbitron">
+                    Projected Standings after Round {lastPlannedRound}
+                  </h3>
+              
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => setShowTopOnly(!showTopOnly)}
+                      className={`flex items-center gap-2 px-3 py-2 rounded-lg font-jetbrains text-sm transition-all duration-200 ${
+                        showTopOnly
+                          ? 'bg-cyan-600 text-white'
+                          : 'bg-gray-600 text-gray-300 hover:bg-gray-700'
+                      }`}
+                    >
+                      <Eye size={14} />
+                      {showTopOnly ? 'Show All' : 'Top 10 Only'}
+                    </button>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  {displayedStandings.map((standing) => (
+                    <div
+                      key={standing.id}
+                      className={`p-4 rounded-lg border transition-all duration-200 ${
+                        standing.rankChange && standing.rankChange !== 0
+                          ? 'bg-cyan-900/20 border-cyan-500/30'
+                          : 'bg-gray-800/50 border-gray-600'
+                      }`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-3">
+                          <div className="flex items-center gap-2">
+                            <span className="text-lg font-bold text-white font-orbitron min-w-[40px]">
+                              #{standing.rank}
+                            </span>
+                            {getRankChangeIcon(standing.rankChange)}
+                            {standing.rankChange && standing.rankChange !== 0 && (
+                              <span className={`text-sm font-jetbrains ${getRankChangeColor(standing.rankChange)}`}>
+                                ({standing.rankChange > 0 ? '+' : ''}{standing.rankChange})
+                              </span>
+                            )}
+                          </div>
                       
-                      <div>
-                        <div className="text-white font-medium">
-                          {standing.name}
+                          <div>
+                            <div className="text-white font-medium">
+                              {standing.name}
+                            </div>
+                            <div className="text-xs text-gray-400 font-jetbrains">
+                              {standing.wins}-{standing.losses}-{standing.draws} • {standing.points} pts • {standing.spread > 0 ? '+' : ''}{standing.spread}
+                            </div>
+                          </div>
                         </div>
-                        <div className="text-xs text-gray-400 font-jetbrains">
-                          {standing.wins}-{standing.losses}-{standing.draws} • {standing.points} pts • {standing.spread > 0 ? '+' : ''}{standing.spread}
+
+                        <div className="text-right">
+                          {standing.impactTags && standing.impactTags.length > 0 && (
+                            <div className="flex flex-wrap gap-1 justify-end mb-1">
+                              {standing.impactTags.map((tag, index) => (
+                                <span
+                                  key={index}
+                                  className={`px-2 py-1 rounded text-xs font-jetbrains ${
+                                    tag.includes('Clinches') || tag.includes('Takes Lead') || tag.includes('Podium') && tag.includes('Moves')
+                                      ? 'bg-green-500/20 border border-green-500/50 text-green-400'
+                                      : tag.includes('Eliminated') || tag.includes('Falls') || tag.includes('Loses')
+                                      ? 'bg-red-500/20 border border-red-500/50 text-red-400'
+                                      : tag.includes('Big')
+                                      ? 'bg-yellow-500/20 border border-yellow-500/50 text-yellow-400'
+                                      : 'bg-blue-500/20 border border-blue-500/50 text-blue-400'
+                                  }`}
+                                >
+                                  {tag}
+                                </span>
+                              ))}
+                            </div>
+                          )}
                         </div>
                       </div>
                     </div>
+                  ))}
+                </div>
 
-                    <div className="text-right">
-                      {standing.impactTags && standing.impactTags.length > 0 && (
-                        <div className="flex flex-wrap gap-1 justify-end mb-1">
-                          {standing.impactTags.map((tag, index) => (
-                            <span
-                              key={index}
-                              className={`px-2 py-1 rounded text-xs font-jetbrains ${
-                                tag.includes('Clinches') || tag.includes('Takes Lead') || tag.includes('Podium') && tag.includes('Moves')
-                                  ? 'bg-green-500/20 border border-green-500/50 text-green-400'
-                                  : tag.includes('Eliminated') || tag.includes('Falls') || tag.includes('Loses')
-                                  ? 'bg-red-500/20 border border-red-500/50 text-red-400'
-                                  : tag.includes('Big')
-                                  ? 'bg-yellow-500/20 border border-yellow-500/50 text-yellow-400'
-                                  : 'bg-blue-500/20 border border-blue-500/50 text-blue-400'
-                              }`}
-                            >
-                              {tag}
-                            </span>
-                          ))}
-                        </div>
-                      )}
-                    </div>
+                {simulatedStandings.length === 0 && !isLoading && (
+                  <div className="text-center py-12 text-gray-400 font-jetbrains">
+                    Adjust the scores above to see projected standings changes
                   </div>
+                )}
+              </>
+            )}
+
+            {/* Compare two scenarios */}
+            {resultsPanel === 'compare' && (
+              <div>
+                <div className="grid grid-cols-2 gap-4 mb-4">
+                  {compareWith.map((choice, side) => (
+                    <select
+                      key={side}
+                      value={choice}
+                      onChange={(e) => setCompareWith(prev => (side === 0 ? [e.target.value, prev[1]] : [prev[0], e.target.value]))}
+                      className="px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white text-sm font-jetbrains focus:border-cyan-500 focus:outline-none"
+                    >
+                      <option value={CURRENT_SCENARIO}>Current edits</option>
+                      {savedScenarios.map(scenario => (
+                        <option key={scenario.id} value={scenario.id}>{scenario.name}</option>
+                      ))}
+                    </select>
+                  ))}
                 </div>
-              ))}
-            </div>
 
-            {simulatedStandings.length === 0 && !isLoading && (
-              <div className="text-center py-12 text-gray-400 font-jetbrains">
-                Adjust the scores above to see projected standings changes
+                {savedScenarios.length === 0 && (
+                  <div className="mb-4 text-xs text-gray-400 font-jetbrains">
+                    Save a scenario to compare it with your current edits.
+                  </div>
+                )}
+
+                <table className="w-full text-sm font-jetbrains">
+                  <thead>
+                    <tr className="text-xs text-gray-400 uppercase">
+                      <th className="py-2 text-left">Player</th>
+                      <th className="py-2 text-center">{scenarioLabel(compareWith[0])}</th>
+                      <th className="py-2 text-center">{scenarioLabel(compareWith[1])}</th>
+                      <th className="py-2 text-center">Difference</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-700">
+                    {compareStandings(standingsFor(compareWith[0]), standingsFor(compareWith[1])).map(row => {
+                      const difference = row.first && row.second ? row.first.rank - row.second.rank : 0;
+                      return (
+                        <tr key={row.id} className={difference !== 0 ? 'bg-cyan-900/20' : ''}>
+                          <td className="py-2 text-white">{row.name}</td>
+                          {[row.first, row.second].map((standing, side) => (
+                            <td key={side} className="py-2 text-center text-gray-300">
+                              {standing
+                                ? `#${standing.rank} • ${standing.points} pts • ${standing.spread > 0 ? '+' : ''}${standing.spread}`
+                                : '—'}
+                            </td>
+                          ))}
+                          <td className={`py-2 text-center ${getRankChangeColor(difference)}`}>
+                            {difference === 0 ? '—' : `${difference > 0 ? '+' : ''}${difference}`}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {/* What a player needs to clinch */}
+            {resultsPanel === 'clinch' && (
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <select
+                    value={clinchPlayerId}
+                    onChange={(e) => setClinchPlayerId(e.target.value)}
+                    className="px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white text-sm font-jetbrains focus:border-cyan-500 focus:outline-none"
+                  >
+                    {clinchStandings.map(standing => (
+                      <option key={standing.id} value={standing.id}>
+                        #{standing.rank} {standing.name}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={clinchPlace}
+                    onChange={(e) => setClinchPlace(parseInt(e.target.value))}
+                    className="px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white text-sm font-jetbrains focus:border-cyan-500 focus:outline-none"
+                  >
+                    {Array.from({ length: Math.min(10, Math.max(1, clinchStandings.length - 1)) }, (_, i) => i + 1).map(place => (
+                      <option key={place} value={place}>
+                        {place === 1 ? 'First place' : `Top ${place}`}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <label className="flex items-center gap-2 text-sm text-gray-300 font-jetbrains">
+                  <input
+                    type="checkbox"
+                    checked={clinchAfterScenario}
+                    onChange={(e) => setClinchAfterScenario(e.target.checked)}
+                    className="rounded border-gray-600 bg-gray-700"
+                  />
+                  Start from this scenario's standings after Round {lastPlannedRound}
+                </label>
+
+                {clinchRequirement && (
+                  <div className={`p-4 rounded-lg border ${
+                    clinchRequirement.status === 'clinched' || clinchRequirement.status === 'needs'
+                      ? 'bg-green-900/20 border-green-500/30 text-green-300'
+                      : 'bg-yellow-900/20 border-yellow-500/30 text-yellow-300'
+                  }`}>
+                    <div className="text-lg font-bold font-jetbrains">
+                      {describeClinchRequirement(clinchRequirement, clinchRemainingRounds)}
+                    </div>
+                    <div className="mt-1 text-xs text-gray-400 font-jetbrains">
+                      {clinchRemainingRounds} round{clinchRemainingRounds === 1 ? '' : 's'} left. Assumes every rival wins
+                      all their games{getGibsonConfig(baseInput?.config).spreadPerGame !== null
+                        ? ` by up to ${getGibsonConfig(baseInput?.config).spreadPerGame} each`
+                        : ''}, as Gibsonization does.
+                    </div>
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -673,7 +912,7 @@ const StandingsImpactVisualizer: React.FC<StandingsImpactVisualizerProps> = ({
             </div>
             
             <div className="text-sm text-cyan-400 font-jetbrains">
-              Round {currentRound} Impact Analysis
+              {describeScenarioRounds(futureGames, currentRound)} Impact Analysis
             </div>
           </div>
         </div>
@@ -682,4 +921,18 @@ const StandingsImpactVisualizer: React.FC<StandingsImpactVisualizerProps> = ({
   );
 };
 
-export default StandingsImpactVisualizer;
\ No newline at end of file
+function defaultMockResults(pairings: PairingWithPlayers[]): Record<string, MockResult> {
+  // Byes are awarded automatically
+  const results: Record<string, MockResult> = {};
+  pairings.filter(pairing => !pairing.is_bye && pairing.player2_id).forEach(pairing => {
+    results[pairing.id!] = {
+      pairingId: pairing.id!,
+      player1Score: DEFAULT_SCENARIO_SCORES.winner,
+      player2Score: DEFAULT_SCENARIO_SCORES.loser,
+      winnerId: pairing.player1_id
+    };
+  });
+  return results;
+}
+
+export default StandingsImpactVisualizer;
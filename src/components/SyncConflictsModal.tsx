@@ -0,0 +1,250 @@
+import React, { useState, useEffect } from 'react';
+import { X, AlertTriangle, Smartphone, Server, RotateCcw, Trash2 } from 'lucide-react';
+import { getCachedTournamentData, OfflineData } from '../lib/offlineRepository';
+import { PendingChange, SyncRow, needsAttention, localRows } from '../lib/offlineQueue';
+
+interface SyncConflictsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  changes: PendingChange[];
+  onResolve: (change: PendingChange, resolution: 'keep_local' | 'keep_server' | 'retry') => Promise<void>;
+}
+
+interface RowLine {
+  label: string;
+  value: string;
+}
+
+/**
+ * Changes made offline that the sync could not send on its own: ones that
+ * clash with an edit made on another device, shown side by side with the
+ * server's values, and ones that kept failing.
+ */
+const SyncConflictsModal: React.FC<SyncConflictsModalProps> = ({
+  isOpen,
+  onClose,
+  changes,
+  onResolve
+}) => {
+  const [snapshots, setSnapshots] = useState<Record<string, OfflineData | null>>({});
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const heldChanges = changes.filter(needsAttention);
+
+  // Cached tournament data supplies player names and table numbers
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const loadSnapshots = async () => {
+      const tournamentIds = Array.from(new Set(changes.filter(needsAttention).map(change => change.tournament_id)));
+      const loaded: Record<string, OfflineData | null> = {};
+      for (const tournamentId of tournamentIds) {
+        loaded[tournamentId] = await getCachedTournamentData(tournamentId);
+      }
+      setSnapshots(loaded);
+    };
+
+    loadSnapshots();
+  }, [isOpen, changes]);
+
+  const handleResolve = async (change: PendingChange, resolution: 'keep_local' | 'keep_server' | 'retry') => {
+    setResolvingId(change.id);
+    try {
+      await onResolve(change, resolution);
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const describeRow = (change: PendingChange, row: SyncRow): RowLine => {
+    const snapshot = snapshots[change.tournament_id];
+    const playerName = (id: unknown) =>
+      id ? snapshot?.players.find(player => player.id === id)?.name || 'Unknown' : 'BYE';
+
+    if (change.table === 'results') {
+      const pairing = snapshot?.pairings.find(p => p.id === row.pairing_id);
+      return {
+        label: pairing
+          ? `Round ${pairing.round_number}, Table ${pairing.table_number}: ${playerName(pairing.player1_id)} vs ${playerName(pairing.player2_id)}`
+          : `Round ${row.round_number ?? '?'} result`,
+        value: `${row.player1_score ?? '–'}–${row.player2_score ?? '–'}${row.is_forfeit ? ' (forfeit)' : ''}`
+      };
+    }
+
+    if (change.table === 'pairings' || change.table === 'replace_round_pairings') {
+      return {
+        label: `Round ${row.round_number ?? '?'}, Table ${row.table_number ?? '?'}`,
+        value: `${playerName(row.player1_id)} vs ${playerName(row.player2_id)}`
+      };
+    }
+
+    return { label: String(row.id ?? change.table), value: JSON.stringify(row) };
+  };
+
+  const changeTitle = (change: PendingChange): string => {
+    if (change.table === 'replace_round_pairings') {
+      return `Round ${(change.data as { p_round_number: number }).p_round_number} pairings`;
+    }
+    const what = change.table === 'results' ? 'Result' : change.table;
+    const how = { insert: 'entered', update: 'corrected', delete: 'removed', rpc: 'changed' }[change.operation];
+    return `${what} ${how}`;
+  };
+
+  const renderLines = (change: PendingChange, rows: SyncRow[], empty: string) => (
+    rows.length === 0 ? (
+      <p className="text-gray-500 font-jetbrains text-sm italic">{empty}</p>
+    ) : (
+      <div className="space-y-1">
+        {rows
+          .map(row => describeRow(change, row))
+          .sort((a, b) => a.label.localeCompare(b.label, undefined, { numeric: true }))
+          .map((line, index) => (
+            <div key={index} className="flex items-center justify-between gap-3 text-sm font-jetbrains">
+              <span className="text-gray-400 truncate">{line.label}</span>
+              <span className="text-white whitespace-nowrap">{line.value}</span>
+            </div>
+          ))}
+      </div>
+    )
+  );
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/80 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="relative w-full max-w-4xl max-h-[90vh] flex flex-col bg-gray-900/95 backdrop-blur-lg border-2 border-red-500/50 rounded-2xl shadow-2xl overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b-2 border-red-500/30 bg-gradient-to-r from-red-900/30 to-orange-900/30">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 bg-gradient-to-r from-red-500 to-orange-500 rounded-lg flex items-center justify-center">
+              <AlertTriangle className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-white font-orbitron">
+                Changes Waiting for You
+              </h2>
+              <p className="text-red-300 font-jetbrains">
+                Offline changes the sync could not send on its own
+              </p>
+            </div>
+          </div>
+
+          <button
+            onClick={onClose}
+            className="w-10 h-10 flex items-center justify-center rounded-lg text-gray-400 hover:text-white hover:bg-gray-800 transition-all duration-200"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 overflow-y-auto space-y-6">
+          {heldChanges.length === 0 ? (
+            <p className="text-center text-gray-400 font-jetbrains py-8">
+              Nothing needs your attention.
+            </p>
+          ) : heldChanges.map(change => {
+            const isResolving = resolvingId === change.id;
+
+            return (
+              <div key={change.id} className="bg-gray-800/50 border border-gray-600 rounded-xl p-5">
+                <div className="flex items-center justify-between mb-4">
+                  <div>
+                    <h3 className="text-lg font-bold text-white font-orbitron">{changeTitle(change)}</h3>
+                    <p className="text-xs text-gray-400 font-jetbrains">
+                      Made on this device {new Date(change.timestamp).toLocaleString()}
+                    </p>
+                  </div>
+                  <span className={`px-3 py-1 rounded-full text-xs font-jetbrains border ${
+                    change.status === 'conflict'
+                      ? 'bg-orange-600/20 border-orange-500/50 text-orange-300'
+                      : 'bg-red-600/20 border-red-500/50 text-red-300'
+                  }`}>
+                    {change.status === 'conflict' ? 'Edited elsewhere' : `Failed ${change.attempts} times`}
+                  </span>
+                </div>
+
+                {change.status === 'conflict' ? (
+                  <>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                      <div className="bg-gray-900/60 border border-gray-700 rounded-lg p-4">
+                        <div className="flex items-center gap-2 text-blue-300 font-jetbrains text-sm mb-3">
+                          <Server size={16} />
+                          On the server now
+                        </div>
+                        {renderLines(change, change.server_rows || [], 'Nothing')}
+                      </div>
+                      <div className="bg-gray-900/60 border border-gray-700 rounded-lg p-4">
+                        <div className="flex items-center gap-2 text-green-300 font-jetbrains text-sm mb-3">
+                          <Smartphone size={16} />
+                          From this device
+                        </div>
+                        {renderLines(change, localRows(change), 'Removed')}
+                      </div>
+                    </div>
+
+                    <div className="flex justify-end gap-3">
+                      <button
+                        onClick={() => handleResolve(change, 'keep_server')}
+                        disabled={isResolving}
+                        className="px-4 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white rounded-lg font-jetbrains text-sm transition-colors duration-200"
+                      >
+                        Keep Server's
+                      </button>
+                      <button
+                        onClick={() => handleResolve(change, 'keep_local')}
+                        disabled={isResolving}
+                        className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white rounded-lg font-jetbrains text-sm transition-colors duration-200"
+                      >
+                        Keep This Device's
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    {change.last_error && (
+                      <div className="mb-4 p-3 bg-red-900/30 border border-red-500/50 rounded-lg text-red-300 font-jetbrains text-sm">
+                        {change.last_error}
+                      </div>
+                    )}
+                    <div className="mb-4">
+                      {renderLines(change, localRows(change), 'Removed')}
+                    </div>
+
+                    <div className="flex justify-end gap-3">
+                      <button
+                        onClick={() => handleResolve(change, 'keep_server')}
+                        disabled={isResolving}
+                        className="flex items-center gap-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white rounded-lg font-jetbrains text-sm transition-colors duration-200"
+                      >
+                        <Trash2 size={16} />
+                        Discard
+                      </button>
+                      <button
+                        onClick={() => handleResolve(change, 'retry')}
+                        disabled={isResolving}
+                        className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-lg font-jetbrains text-sm transition-colors duration-200"
+                      >
+                        <RotateCcw size={16} />
+                        Retry
+                      </button>
+                    </div>
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SyncConflictsModal;
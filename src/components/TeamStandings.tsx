@@ -3,6 +3,7 @@ import { Trophy, Users, Target, TrendingUp, Medal, Download } from 'lucide-react
 import { supabase } from '../lib/supabase';
 import { Player, Result, Pairing, TeamStanding, Team } from '../types/database';
 import { calculateTeamStandings } from '../utils/teamPairingAlgorithms';
+import { computeStandings, getStandingsOptions, StandingsOptions } from '../utils/standings';
 import TeamLogo from './TeamLogo';
 
 interface TeamStandingsProps {
@@ -98,12 +99,20 @@ const TeamStandings: React.FC<TeamStandingsProps> = ({
 
       setTeamStandings(enhancedTeamStandings);
 
+      // Rank individuals with the tournament's tiebreak chain
+      const { data: tournamentData } = await supabase
+        .from('tournaments')
+        .select('tournament_config')
+        .eq('id', tournamentId)
+        .single();
+
       // Calculate individual standings within teams
       const individualStandingsData = calculateIndividualStandings(
         playersData || [],
         resultsData || [],
         pairingsData || [],
-        teamsData || []
+        teamsData || [],
+        getStandingsOptions(tournamentData?.tournament_config)
       );
 
       setIndividualStandings(individualStandingsData);
@@ -120,71 +129,14 @@ const TeamStandings: React.FC<TeamStandingsProps> = ({
     players: Player[],
     results: any[],
     pairings: any[],
-    teams: Team[]
+    teams: Team[],
+    options: StandingsOptions
   ) => {
-    const standings = players.map(player => {
-      let wins = 0;
-      let losses = 0;
-      let draws = 0;
-      let pointsFor = 0;
-      let pointsAgainst = 0;
-
-      results.forEach(result => {
-        const pairing = pairings.find(p => p.id === result.pairing_id);
-        if (!pairing) return;
-
-        const isPlayer1 = pairing.player1_id === player.id;
-        const isPlayer2 = pairing.player2_id === player.id;
-
-        if (!isPlayer1 && !isPlayer2) return;
-
-        const playerScore = isPlayer1 ? result.player1_score : result.player2_score;
-        const opponentScore = isPlayer1 ? result.player2_score : result.player1_score;
-
-        pointsFor += playerScore;
-        pointsAgainst += opponentScore;
-
-        if (playerScore > opponentScore) {
-          wins++;
-        } else if (playerScore < opponentScore) {
-          losses++;
-        } else {
-          draws++;
-        }
-      });
-
-      const points = wins + (draws * 0.5);
-      const spread = pointsFor - pointsAgainst;
-      const teamInfo = teams.find(team => team.name === player.team_name);
-
-      return {
-        id: player.id!,
-        name: player.name,
-        team_name: player.team_name || '',
-        rating: player.rating,
-        wins,
-        losses,
-        draws,
-        points,
-        spread,
-        rank: 0,
-        team_info: teamInfo
-      };
-    });
-
-    // Sort by points, then spread, then rating
-    standings.sort((a, b) => {
-      if (a.points !== b.points) return b.points - a.points;
-      if (a.spread !== b.spread) return b.spread - a.spread;
-      return b.rating - a.rating;
-    });
-
-    // Assign ranks
-    standings.forEach((standing, index) => {
-      standing.rank = index + 1;
-    });
-
-    return standings;
+    return computeStandings(players, pairings, results, options).map(standing => ({
+      ...standing,
+      team_name: standing.team_name || '',
+      team_info: teams.find(team => team.name === standing.team_name)
+    }));
   };
 
   const exportTeamStandings = () => {
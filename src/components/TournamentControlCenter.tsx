@@ -10,9 +10,10 @@ import Standings from './Standings';
 import AdminPanel from './AdminPanel';
 import AIInsightsPanel from './AIInsightsPanel';
 import QRCodeModal from './QRCodeModal';
-import { supabase } from '../lib/supabase';
+import OfflineStatus from './OfflineStatus';
 import { useAuditLog } from '../hooks/useAuditLog';
 import { useOfflineMode } from '../hooks/useOfflineMode';
+import { loadTournamentSnapshot } from '../lib/offlineRepository';
 import { useTournamentProgress } from '../hooks/useTournamentProgress';
 import { Tournament, Player, Division } from '../types/database';
 
@@ -34,12 +35,7 @@ const TournamentControlCenter: React.FC = () => {
   
   const { setTournamentStatus, setTournamentRound } = useTournamentProgress();
   const { logAction } = useAuditLog();
-  const { 
-    isOnline, 
-    isOfflineMode,
-    cacheTournamentData,
-    getCachedTournamentData
-  } = useOfflineMode();
+  const { isOnline, cacheTournamentData } = useOfflineMode();
 
   useEffect(() => {
     if (tournamentId) {
@@ -59,53 +55,11 @@ const TournamentControlCenter: React.FC = () => {
       setIsLoading(true);
       setError(null);
       
-      let tournamentData;
-      let playersData;
-      let divisionsData;
-      
-      if (isOnline) {
-        // Online mode - fetch from Supabase
-        const { data: tData, error: tournamentError } = await supabase
-          .from('tournaments')
-          .select('*')
-          .eq('id', tournamentId)
-          .single();
-
-        if (tournamentError) throw tournamentError;
-        tournamentData = tData;
-        
-        // Load players
-        const { data: pData, error: playersError } = await supabase
-          .from('players')
-          .select('*')
-          .eq('tournament_id', tournamentId)
-          .order('rating', { ascending: false });
-
-        if (playersError) throw playersError;
-        playersData = pData;
-        
-        // Load divisions
-        const { data: dData, error: divisionsError } = await supabase
-          .from('divisions')
-          .select('*')
-          .eq('tournament_id', tournamentId)
-          .order('division_number');
-
-        if (divisionsError && divisionsError.code !== 'PGRST116') {
-          throw divisionsError;
-        }
-        divisionsData = dData;
-      } else {
-        // Offline mode - get from cache
-        const cachedData = await getCachedTournamentData(tournamentId!);
-        if (!cachedData) {
-          throw new Error('No cached data available for offline use');
-        }
-        
-        tournamentData = cachedData.tournaments[0];
-        playersData = cachedData.players;
-        divisionsData = []; // Divisions not cached yet
-      }
+      // Served from the offline snapshot when the server is unreachable
+      const snapshot = await loadTournamentSnapshot(tournamentId!);
+      const tournamentData = snapshot.tournaments[0];
+      const playersData = snapshot.players;
+      const divisionsData = snapshot.divisions;
 
       setTournament(tournamentData);
       setCurrentRound(tournamentData.current_round || 1);
@@ -399,12 +353,7 @@ const TournamentControlCenter: React.FC = () => {
                 <span className="font-jetbrains">← Back to Dashboard</span>
               </button>
               
-              {isOfflineMode && (
-                <div className="px-4 py-2 bg-yellow-600/80 text-yellow-200 rounded-lg font-jetbrains text-sm flex items-center gap-2">
-                  <div className="w-2 h-2 bg-yellow-400 rounded-full animate-pulse"></div>
-                  Offline Mode
-                </div>
-              )}
+              <OfflineStatus />
             </div>
 
             <h1 className="glitch-text fade-up text-4xl md:text-6xl font-bold mb-4 text-white font-orbitron tracking-wider"
@@ -0,0 +1,350 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Download, Upload, FileText, AlertTriangle, CheckCircle } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { Tournament, Division } from '../types/database';
+import { useAuditLog } from '../hooks/useAuditLog';
+import {
+  exportToTou,
+  exportToTsh,
+  parseTshFile,
+  buildTshGames,
+  buildTshImportRows,
+  tournamentFileName,
+  TournamentFileData,
+  TshPlayer
+} from '../utils/tournamentFiles';
+
+interface TournamentFilesPanelProps {
+  tournamentId: string;
+  /** Called after an import so the parent can reload players and rounds */
+  onImported?: () => void;
+}
+
+const TournamentFilesPanel: React.FC<TournamentFilesPanelProps> = ({ tournamentId, onImported }) => {
+  const [tournament, setTournament] = useState<Tournament | null>(null);
+  const [divisions, setDivisions] = useState<Division[]>([]);
+  const [importDivisionId, setImportDivisionId] = useState('');
+  const [importFileName, setImportFileName] = useState('');
+  const [importPlayers, setImportPlayers] = useState<TshPlayer[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const { logAction } = useAuditLog();
+
+  const loadDivisions = useCallback(async () => {
+    try {
+      const { data: tournamentData, error: tournamentError } = await supabase
+        .from('tournaments')
+        .select('*')
+        .eq('id', tournamentId)
+        .single();
+
+      if (tournamentError) throw tournamentError;
+      setTournament(tournamentData);
+
+      const { data: divisionsData, error: divisionsError } = await supabase
+        .from('divisions')
+        .select('*')
+        .eq('tournament_id', tournamentId)
+        .order('division_number');
+
+      if (divisionsError && divisionsError.code !== 'PGRST116') {
+        throw divisionsError;
+      }
+
+      setDivisions(divisionsData || []);
+      setImportDivisionId(prev => prev || divisionsData?.[0]?.id || '');
+    } catch (err) {
+      console.error('Error loading divisions:', err);
+      setError('Failed to load tournament divisions');
+    }
+  }, [tournamentId]);
+
+  useEffect(() => {
+    loadDivisions();
+  }, [loadDivisions]);
+
+  const loadFileData = async (): Promise<TournamentFileData> => {
+    const { data: playersData, error: playersError } = await supabase
+      .from('players')
+      .select('*')
+      .eq('tournament_id', tournamentId);
+
+    if (playersError) throw playersError;
+
+    const { data: pairingsData, error: pairingsError } = await supabase
+      .from('pairings')
+      .select('*')
+      .eq('tournament_id', tournamentId)
+      .order('round_number')
+      .order('table_number');
+
+    if (pairingsError) throw pairingsError;
+
+    const { data: resultsData, error: resultsError } = await supabase
+      .from('results')
+      .select('*')
+      .eq('tournament_id', tournamentId);
+
+    if (resultsError && resultsError.code !== 'PGRST116') {
+      throw resultsError;
+    }
+
+    return {
+      tournament: tournament!,
+      divisions,
+      players: playersData || [],
+      pairings: pairingsData || [],
+      results: resultsData || []
+    };
+  };
+
+  const downloadFile = (content: string, fileName: string) => {
+    const blob = new Blob([content], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleExportTou = async () => {
+    if (!tournament) return;
+
+    setIsWorking(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const data = await loadFileData();
+      downloadFile(exportToTou(data), tournamentFileName(tournament, 'tou'));
+
+      logAction({
+        action: 'tou_exported',
+        details: { tournament_id: tournamentId }
+      });
+    } catch (err) {
+      console.error('Error exporting TOU file:', err);
+      setError('Failed to export TOU file');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleExportTsh = async (division: Division | null) => {
+    if (!tournament) return;
+
+    setIsWorking(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const data = await loadFileData();
+      downloadFile(exportToTsh(data, division?.id), tournamentFileName(tournament, 't', division));
+
+      logAction({
+        action: 'tsh_exported',
+        details: { tournament_id: tournamentId, division_id: division?.id || null }
+      });
+    } catch (err) {
+      console.error('Error exporting tsh file:', err);
+      setError('Failed to export tsh file');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleFileSelected = async (file: File | undefined) => {
+    setError(null);
+    setSuccess(null);
+    setImportPlayers([]);
+    setImportFileName('');
+    if (!file) return;
+
+    try {
+      const parsed = parseTshFile(await file.text());
+      buildTshGames(parsed); // Surfaces inconsistent pairings before anything is saved
+      setImportPlayers(parsed);
+      setImportFileName(file.name);
+    } catch (err) {
+      console.error('Error reading tsh file:', err);
+      setError(err instanceof Error ? err.message : 'Failed to read tsh file');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!tournament || importPlayers.length === 0) return;
+
+    setIsWorking(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const divisionId = importDivisionId || null;
+      const rows = buildTshImportRows(importPlayers, tournamentId, divisionId);
+
+      // Resuming an event starts from an empty division so player numbers line up.
+      // Everything is saved in one transaction, so a failed import can be retried.
+      const { error: importError } = await supabase.rpc('import_division', {
+        p_tournament_id: tournamentId,
+        p_division_id: divisionId,
+        p_players: rows.players,
+        p_pairings: rows.pairings,
+        p_results: rows.results,
+        // Resume from the round after the last one in the file
+        p_current_round: rows.lastRound + 1
+      });
+
+      if (importError) {
+        if (importError.hint === 'division_not_empty') {
+          setError('This division already has players. Import into an empty division.');
+          return;
+        }
+        throw importError;
+      }
+
+      const roundsPlayed = rows.lastRound;
+
+      logAction({
+        action: 'tsh_imported',
+        details: {
+          tournament_id: tournamentId,
+          division_id: divisionId,
+          file_name: importFileName,
+          players: importPlayers.length,
+          rounds: roundsPlayed
+        }
+      });
+
+      setSuccess(`Imported ${importPlayers.length} players and ${roundsPlayed} rounds from ${importFileName}`);
+      setImportPlayers([]);
+      setImportFileName('');
+      await loadDivisions();
+      onImported?.();
+    } catch (err) {
+      console.error('Error importing tsh file:', err);
+      setError('Failed to import tsh file');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const importRounds = Math.max(0, ...importPlayers.map(player => player.opponents.length));
+
+  return (
+    <div className="bg-gray-900/50 border border-gray-700 rounded-xl p-6 backdrop-blur-sm">
+      <h2 className="text-xl font-bold text-white font-orbitron mb-6 flex items-center gap-2">
+        <FileText size={24} />
+        Tournament Files
+      </h2>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-900/30 border border-red-500/50 rounded-lg text-red-300 font-jetbrains text-sm flex items-center gap-2">
+          <AlertTriangle size={16} />
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-6 p-4 bg-green-900/30 border border-green-500/50 rounded-lg text-green-300 font-jetbrains text-sm flex items-center gap-2">
+          <CheckCircle size={16} />
+          {success}
+        </div>
+      )}
+
+      {/* Export */}
+      <div className="mb-8 bg-gray-800/50 border border-gray-600 rounded-lg p-6">
+        <h3 className="text-lg font-medium text-white mb-2 font-jetbrains">Export</h3>
+        <p className="text-gray-400 font-jetbrains text-sm mb-4">
+          The .tou file covers every division and is what the ratings body accepts. tsh uses one .t file per division.
+        </p>
+
+        <div className="flex flex-wrap gap-3">
+          <button
+            onClick={handleExportTou}
+            disabled={isWorking || !tournament}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:text-gray-500 text-white rounded-lg font-jetbrains text-sm transition-all duration-200"
+          >
+            <Download size={16} />
+            Ratings file (.tou)
+          </button>
+
+          {(divisions.length > 0 ? divisions : [null]).map(division => (
+            <button
+              key={division?.id || 'all'}
+              onClick={() => handleExportTsh(division)}
+              disabled={isWorking || !tournament}
+              className="flex items-center gap-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-500 text-white rounded-lg font-jetbrains text-sm transition-all duration-200"
+            >
+              <Download size={16} />
+              tsh file{division && divisions.length > 1 ? ` – ${division.name}` : ''} (.t)
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Import */}
+      <div className="bg-gray-800/50 border border-gray-600 rounded-lg p-6">
+        <h3 className="text-lg font-medium text-white mb-2 font-jetbrains">Resume a tsh Event</h3>
+        <p className="text-gray-400 font-jetbrains text-sm mb-4">
+          Players, pairings and scores from a .t file are added to an empty division, and the tournament continues from the next round.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+          {divisions.length > 1 && (
+            <div>
+              <label className="block text-gray-300 text-sm font-medium mb-2 font-jetbrains">
+                Division
+              </label>
+              <select
+                value={importDivisionId}
+                onChange={(e) => setImportDivisionId(e.target.value)}
+                className="w-full bg-gray-800 border border-gray-600 rounded-lg px-4 py-3 text-white font-jetbrains focus:border-blue-500 focus:outline-none"
+              >
+                {divisions.map(division => (
+                  <option key={division.id} value={division.id}>
+                    {division.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-gray-300 text-sm font-medium mb-2 font-jetbrains">
+              tsh File
+            </label>
+            <input
+              type="file"
+              accept=".t,.txt"
+              onChange={(e) => handleFileSelected(e.target.files?.[0])}
+              className="w-full text-sm text-gray-300 font-jetbrains file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-gray-700 file:text-white hover:file:bg-gray-600"
+            />
+          </div>
+        </div>
+
+        {importPlayers.length > 0 && (
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-gray-300 font-jetbrains text-sm">
+              {importPlayers.length} players, {importRounds} rounds
+              {importPlayers.some(player => player.withdrawn) &&
+                ` (${importPlayers.filter(player => player.withdrawn).length} withdrawn)`}
+            </p>
+            <button
+              onClick={handleImport}
+              disabled={isWorking}
+              className="flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-700 disabled:text-gray-500 text-white rounded-lg font-jetbrains text-sm transition-all duration-200"
+            >
+              <Upload size={16} />
+              {isWorking ? 'Importing...' : 'Import'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TournamentFilesPanel;
@@ -1,10 +1,14 @@
 import React, { useState } from 'react';
-import { X, Calendar, MapPin, Users, Trophy, Zap, Brain, Target, Save, UserCheck, ArrowRight, Lock, Eye, EyeOff, Share2 } from 'lucide-react';
+import { X, Calendar, MapPin, Users, Trophy, Zap, Brain, Target, Save, UserCheck, ArrowRight, Lock, Eye, EyeOff, Share2, Crown, ChevronUp, ChevronDown, Plus, ListOrdered, CalendarClock, LayoutGrid } from 'lucide-react';
 import { supabase } from '../lib/supabase';
-import { WizardResponses, TournamentConfig, PairingFormat } from '../types/database';
+import { createTournament, isNetworkError } from '../lib/offlineRepository';
+import { Tournament, Division, WizardResponses, TournamentConfig, PairingFormat, PairingScheduleEntry, TiebreakRule } from '../types/database';
 import { recommendPairingSystem } from '../utils/pairingStrategyIntelligence';
 import { useAuditLog } from '../hooks/useAuditLog';
 import { generateTournamentSlug } from '../utils/slugify';
+import { DEFAULT_TIEBREAK_CHAIN, TIEBREAK_LABELS, TIEBREAK_DESCRIPTIONS } from '../utils/tiebreaks';
+import { getDefaultRoundPlan, getPairingSchedule, setScheduleEntry, PAIRING_FORMAT_LABELS } from '../utils/pairingSchedule';
+import { parseVenueTables } from '../utils/tableAssignment';
 
 interface TournamentSetupModalProps {
   isOpen: boolean;
@@ -19,6 +23,15 @@ interface FormData {
   rounds: number;
   divisions: number;
   divisionNames: string[];
+  prizePlaces: number;
+  gibsonSpread: number | null;
+  byeResult: 'win' | 'draw' | 'loss';
+  byeSpread: number;
+  forfeitSpread: number;
+  lateEntryPoints: number;
+  tiebreakChain: TiebreakRule[];
+  venueTables: string;
+  topBoards: number;
   teamMode: boolean;
   isPasswordProtected: boolean;
   password: string;
@@ -179,6 +192,15 @@ const TournamentSetupModal: React.FC<TournamentSetupModalProps> = ({
     rounds: 7,
     divisions: 1,
     divisionNames: ['Main Division'],
+    prizePlaces: 1,
+    gibsonSpread: 250,
+    byeResult: 'win',
+    byeSpread: 50,
+    forfeitSpread: 50,
+    lateEntryPoints: 0,
+    tiebreakChain: DEFAULT_TIEBREAK_CHAIN,
+    venueTables: '',
+    topBoards: 0,
     teamMode: false,
     isPasswordProtected: false,
     password: '',
@@ -191,6 +213,7 @@ const TournamentSetupModal: React.FC<TournamentSetupModalProps> = ({
   const [selectedPairingFormat, setSelectedPairingFormat] = useState<PairingFormat>('swiss');
   const [recommendedSystem, setRecommendedSystem] = useState<PairingFormat>('swiss');
   const [recommendationReasoning, setRecommendationReasoning] = useState<string>('');
+  const [pairingSchedule, setPairingSchedule] = useState<PairingScheduleEntry[]>([]);
 
   const { logAction } = useAuditLog();
 
@@ -218,6 +241,43 @@ const TournamentSetupModal: React.FC<TournamentSetupModalProps> = ({
     }));
   };
 
+  const moveTiebreak = (index: number, offset: number) => {
+    setFormData(prev => {
+      const chain = [...prev.tiebreakChain];
+      const target = index + offset;
+      if (target < 0 || target >= chain.length) return prev;
+      [chain[index], chain[target]] = [chain[target], chain[index]];
+      return { ...prev, tiebreakChain: chain };
+    });
+  };
+
+  const removeTiebreak = (rule: TiebreakRule) => {
+    setFormData(prev => ({
+      ...prev,
+      tiebreakChain: prev.tiebreakChain.filter(r => r !== rule)
+    }));
+  };
+
+  const addTiebreak = (rule: TiebreakRule) => {
+    setFormData(prev => ({
+      ...prev,
+      tiebreakChain: [...prev.tiebreakChain, rule]
+    }));
+  };
+
+  const updateScheduleEntry = (plan: PairingScheduleEntry, changes: Partial<PairingScheduleEntry>) => {
+    const defaults = { pairing_system: selectedPairingFormat };
+    setPairingSchedule(prev => setScheduleEntry(
+      prev,
+      { ...plan, ...changes },
+      getDefaultRoundPlan(defaults, plan.round)
+    ));
+  };
+
+  const resetScheduleEntry = (round: number) => {
+    setPairingSchedule(prev => prev.filter(entry => entry.round !== round));
+  };
+
   const validateBasicForm = (): boolean => {
     if (!formData.name.trim()) {
       setError('Tournament name is required');
@@ -235,6 +295,18 @@ const TournamentSetupModal: React.FC<TournamentSetupModalProps> = ({
       setError('Number of divisions must be between 1 and 10');
       return false;
     }
+    if (formData.prizePlaces < 1) {
+      setError('Number of prize places must be at least 1');
+      return false;
+    }
+    if (formData.gibsonSpread !== null && formData.gibsonSpread < 0) {
+      setError('Gibson spread per game cannot be negative');
+      return false;
+    }
+    if (formData.forfeitSpread < 0) {
+      setError('Forfeit spread cannot be negative');
+      return false;
+    }
     for (let i = 0; i < formData.divisions; i++) {
       if (!formData.divisionNames[i]?.trim()) {
         setError(`Division ${i + 1} name is required`);
@@ -385,12 +457,16 @@ const TournamentSetupModal: React.FC<TournamentSetupModalProps> = ({
     setError(null);
 
     try {
-      // Get current user
-      const { data: { user } } = await supabase.auth.getUser();
+      // Get current user from the stored session, which works offline
+      const { data: { session } } = await supabase.auth.getSession();
+      const user = session?.user;
       if (!user) {
         throw new Error('You must be logged in to create a tournament');
       }
 
+      // The id is set here so the tournament can be created offline
+      const tournamentId = crypto.randomUUID();
+
       // Generate slug from tournament name
       const baseSlug = generateTournamentSlug(formData.name);
       
@@ -401,26 +477,26 @@ const TournamentSetupModal: React.FC<TournamentSetupModalProps> = ({
         .eq('slug', baseSlug)
         .maybeSingle();
         
-      if (slugCheckError) throw slugCheckError;
+      if (slugCheckError && !isNetworkError(slugCheckError)) throw slugCheckError;
       
-      // If slug exists, generate a unique one with ID
-      let slug = baseSlug;
-      if (existingTournament) {
-        // We'll append a unique ID after creation
-        slug = '';
-      }
+      // If slug exists, or can't be checked offline, make it unique with the ID
+      const slug = existingTournament || slugCheckError
+        ? generateTournamentSlug(formData.name, tournamentId)
+        : baseSlug;
 
       // Prepare tournament data
-      const tournamentData = {
+      const tournamentData: Tournament = {
+        id: tournamentId,
+        created_at: new Date().toISOString(),
         name: formData.name.trim(),
         date: formData.date,
-        venue: formData.venue.trim() || null,
+        venue: formData.venue.trim() || undefined,
         rounds: formData.rounds,
         divisions: formData.divisions,
         director_id: user.id,
         status: 'registration' as const,
         team_mode: formData.teamMode,
-        slug, // Will be updated if needed after creation
+        slug,
         password: formData.isPasswordProtected ? formData.password : null,
         public_sharing_enabled: formData.publicSharingEnabled,
         wizard_responses: {
@@ -438,74 +514,51 @@ const TournamentSetupModal: React.FC<TournamentSetupModalProps> = ({
           avoid_rematches: wizardResponses.avoidRematches === 'yes',
           wizard_completed: true,
           recommended_system: recommendedSystem,
-          recommendation_reasoning: recommendationReasoning
+          recommendation_reasoning: recommendationReasoning,
+          gibson_prize_places: formData.prizePlaces,
+          gibson_spread_per_game: formData.gibsonSpread,
+          bye_result: formData.byeResult,
+          bye_spread: formData.byeSpread,
+          forfeit_spread: formData.forfeitSpread,
+          late_entry_points: formData.lateEntryPoints,
+          tiebreak_chain: formData.tiebreakChain,
+          pairing_schedule: pairingSchedule.filter(entry => entry.round <= formData.rounds),
+          venue_tables: parseVenueTables(formData.venueTables),
+          top_boards: formData.topBoards
         } as TournamentConfig
       };
 
-      // Create tournament
-      const { data: tournament, error: tournamentError } = await supabase
-        .from('tournaments')
-        .insert([tournamentData])
-        .select()
-        .single();
+      // Divisions are created with the tournament
+      const divisionNames = formData.divisions > 1
+        ? formData.divisionNames.map(name => name.trim())
+        : [formData.divisionNames[0] || 'Main Division'];
+      const divisions: Division[] = divisionNames.map((name, index) => ({
+        id: crypto.randomUUID(),
+        tournament_id: tournamentId,
+        name,
+        division_number: index + 1
+      }));
 
-      if (tournamentError) throw tournamentError;
-      
-      // If we need to update the slug with a unique ID
-      if (!slug) {
-        const uniqueSlug = generateTournamentSlug(formData.name, tournament.id);
-        
-        const { error: slugUpdateError } = await supabase
-          .from('tournaments')
-          .update({ slug: uniqueSlug })
-          .eq('id', tournament.id);
-          
-        if (slugUpdateError) throw slugUpdateError;
-      }
-
-      // Create divisions if multiple
-      if (formData.divisions > 1) {
-        const divisionsToInsert = formData.divisionNames.map((name, index) => ({
-          tournament_id: tournament.id,
-          name: name.trim(),
-          division_number: index + 1
-        }));
-
-        const { error: divisionsError } = await supabase
-          .from('divisions')
-          .insert(divisionsToInsert);
-
-        if (divisionsError) throw divisionsError;
-      } else {
-        // Create single default division
-        const { error: divisionError } = await supabase
-          .from('divisions')
-          .insert([{
-            tournament_id: tournament.id,
-            name: formData.divisionNames[0] || 'Main Division',
-            division_number: 1
-          }]);
-
-        if (divisionError) throw divisionError;
-      }
+      // Create tournament, or queue it until the connection is back
+      await createTournament(tournamentData, divisions);
 
       // Log tournament creation
       logAction({
         action: 'tournament_created',
         details: {
-          tournament_id: tournament.id,
-          tournament_name: tournament.name,
+          tournament_id: tournamentId,
+          tournament_name: tournamentData.name,
           team_mode: formData.teamMode,
           pairing_system: selectedPairingFormat,
           divisions: formData.divisions,
           rounds: formData.rounds,
           password_protected: formData.isPasswordProtected,
-          slug: slug || uniqueSlug
+          slug
         }
       });
 
       // Success! Call the success callback with tournament ID
-      onSuccess(tournament.id);
+      onSuccess(tournamentId);
 
     } catch (err: any) {
       console.error('Error creating tournament:', err);
@@ -525,6 +578,15 @@ const TournamentSetupModal: React.FC<TournamentSetupModalProps> = ({
       rounds: 7,
       divisions: 1,
       divisionNames: ['Main Division'],
+      prizePlaces: 1,
+      gibsonSpread: 250,
+      byeResult: 'win',
+      byeSpread: 50,
+      forfeitSpread: 50,
+      lateEntryPoints: 0,
+      tiebreakChain: DEFAULT_TIEBREAK_CHAIN,
+      venueTables: '',
+      topBoards: 0,
       teamMode: false,
       isPasswordProtected: false,
       password: '',
@@ -533,6 +595,7 @@ const TournamentSetupModal: React.FC<TournamentSetupModalProps> = ({
     });
     setWizardResponses({});
     setSelectedPairingFormat('swiss');
+    setPairingSchedule([]);
     setError(null);
     onClose();
   };
@@ -663,6 +726,235 @@ const TournamentSetupModal: React.FC<TournamentSetupModalProps> = ({
                     className="w-full px-4 py-3 bg-gray-800/50 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 font-jetbrains"
                   />
                 </div>
+
+                {/* Prize Places */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2 font-jetbrains">
+                    <Crown className="w-4 h-4 inline mr-2" />
+                    Paid Places
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={formData.prizePlaces}
+                    onChange={(e) => handleInputChange('prizePlaces', parseInt(e.target.value) || 1)}
+                    className="w-full px-4 py-3 bg-gray-800/50 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 font-jetbrains"
+                  />
+                  <p className="text-xs text-gray-500 mt-1 font-jetbrains">
+                    Players who clinch one of these places are Gibsonized
+                  </p>
+                </div>
+
+                {/* Gibson Spread Assumption */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2 font-jetbrains">
+                    <Crown className="w-4 h-4 inline mr-2" />
+                    Gibson Spread per Game
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={formData.gibsonSpread ?? ''}
+                    onChange={(e) => setFormData(prev => ({
+                      ...prev,
+                      gibsonSpread: e.target.value === '' ? null : Math.max(0, parseInt(e.target.value) || 0)
+                    }))}
+                    className="w-full px-4 py-3 bg-gray-800/50 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 font-jetbrains"
+                    placeholder="Leave blank to ignore spread"
+                  />
+                  <p className="text-xs text-gray-500 mt-1 font-jetbrains">
+                    Largest spread swing assumed possible in each remaining game
+                  </p>
+                </div>
+
+                {/* Bye Award */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2 font-jetbrains">
+                    <Users className="w-4 h-4 inline mr-2" />
+                    Bye Result
+                  </label>
+                  <select
+                    value={formData.byeResult}
+                    onChange={(e) => handleInputChange('byeResult', e.target.value)}
+                    className="w-full px-4 py-3 bg-gray-800/50 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 font-jetbrains"
+                  >
+                    <option value="win">Win</option>
+                    <option value="draw">Draw</option>
+                    <option value="loss">Loss</option>
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1 font-jetbrains">
+                    Counted for a player who sits out a round
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2 font-jetbrains">
+                    <Users className="w-4 h-4 inline mr-2" />
+                    Bye Spread
+                  </label>
+                  <input
+                    type="number"
+                    value={formData.byeSpread}
+                    onChange={(e) => handleInputChange('byeSpread', parseInt(e.target.value) || 0)}
+                    className="w-full px-4 py-3 bg-gray-800/50 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 font-jetbrains"
+                  />
+                  <p className="text-xs text-gray-500 mt-1 font-jetbrains">
+                    Spread added to the player's total for each bye
+                  </p>
+                </div>
+
+                {/* Forfeits and Late Entries */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2 font-jetbrains">
+                    <UserCheck className="w-4 h-4 inline mr-2" />
+                    Forfeit Spread
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={formData.forfeitSpread}
+                    onChange={(e) => handleInputChange('forfeitSpread', Math.max(0, parseInt(e.target.value) || 0))}
+                    className="w-full px-4 py-3 bg-gray-800/50 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 font-jetbrains"
+                  />
+                  <p className="text-xs text-gray-500 mt-1 font-jetbrains">
+                    Won by the player who shows up, lost by the one who does not
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2 font-jetbrains">
+                    <UserCheck className="w-4 h-4 inline mr-2" />
+                    Late Entry Points per Missed Round
+                  </label>
+                  <select
+                    value={formData.lateEntryPoints}
+                    onChange={(e) => handleInputChange('lateEntryPoints', parseFloat(e.target.value))}
+                    className="w-full px-4 py-3 bg-gray-800/50 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 font-jetbrains"
+                  >
+                    <option value={0}>0 (loss)</option>
+                    <option value={0.5}>0.5 (draw)</option>
+                    <option value={1}>1 (win)</option>
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1 font-jetbrains">
+                    Provisional points for rounds played before a late entrant arrived
+                  </p>
+                </div>
+              </div>
+
+              {/* Tiebreaks */}
+              <div className="bg-gray-800/50 border border-gray-600 rounded-xl p-6">
+                <div className="flex items-center gap-3 mb-4">
+                  <ListOrdered className="w-6 h-6 text-green-400" />
+                  <div>
+                    <h3 className="text-lg font-bold text-white font-orbitron">Tiebreaks</h3>
+                    <p className="text-gray-400 font-jetbrains text-sm">Players level on points are separated in this order</p>
+                  </div>
+                </div>
+
+                <div className="space-y-2 mb-4">
+                  {formData.tiebreakChain.map((rule, index) => (
+                    <div
+                      key={rule}
+                      className="flex items-center justify-between gap-3 px-4 py-2 bg-gray-900/50 border border-gray-700 rounded-lg"
+                    >
+                      <div className="min-w-0">
+                        <div className="text-white font-jetbrains text-sm">
+                          {index + 1}. {TIEBREAK_LABELS[rule]}
+                        </div>
+                        <div className="text-gray-500 font-jetbrains text-xs truncate">
+                          {TIEBREAK_DESCRIPTIONS[rule]}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <button
+                          onClick={() => moveTiebreak(index, -1)}
+                          disabled={index === 0}
+                          className="p-1 text-gray-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed"
+                          title="Move up"
+                        >
+                          <ChevronUp className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => moveTiebreak(index, 1)}
+                          disabled={index === formData.tiebreakChain.length - 1}
+                          className="p-1 text-gray-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed"
+                          title="Move down"
+                        >
+                          <ChevronDown className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => removeTiebreak(rule)}
+                          className="p-1 text-gray-400 hover:text-red-400"
+                          title="Remove"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                  {formData.tiebreakChain.length === 0 && (
+                    <p className="text-gray-500 font-jetbrains text-sm">
+                      No tiebreaks selected - spread then rating will be used
+                    </p>
+                  )}
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  {(Object.keys(TIEBREAK_LABELS) as TiebreakRule[])
+                    .filter(rule => !formData.tiebreakChain.includes(rule))
+                    .map(rule => (
+                      <button
+                        key={rule}
+                        onClick={() => addTiebreak(rule)}
+                        className="inline-flex items-center gap-1 px-3 py-1 bg-gray-700/50 border border-gray-600 rounded-lg text-gray-300 hover:text-white hover:border-green-500/50 font-jetbrains text-xs transition-all duration-200"
+                        title={TIEBREAK_DESCRIPTIONS[rule]}
+                      >
+                        <Plus className="w-3 h-3" />
+                        {TIEBREAK_LABELS[rule]}
+                      </button>
+                    ))}
+                </div>
+              </div>
+
+              {/* Venue Tables */}
+              <div className="bg-gray-800/50 border border-gray-600 rounded-xl p-6">
+                <div className="flex items-center gap-3 mb-4">
+                  <LayoutGrid className="w-6 h-6 text-purple-400" />
+                  <div>
+                    <h3 className="text-lg font-bold text-white font-orbitron">Venue Tables</h3>
+                    <p className="text-gray-400 font-jetbrains text-sm">Tables are filled in this order, best boards first</p>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                  <div className="md:col-span-2">
+                    <textarea
+                      value={formData.venueTables}
+                      onChange={(e) => handleInputChange('venueTables', e.target.value)}
+                      rows={4}
+                      placeholder={'1 Feature Board\n2 Stage\n3-20'}
+                      className="w-full px-4 py-3 bg-gray-800/50 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 font-jetbrains text-sm"
+                    />
+                    <p className="text-xs text-gray-500 mt-1 font-jetbrains">
+                      One table per line with an optional name, or a range such as 3-20. Leave empty to number tables 1, 2, 3...
+                    </p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-2 font-jetbrains">
+                      Top Boards for Leaders
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={formData.topBoards}
+                      onChange={(e) => handleInputChange('topBoards', Math.max(0, parseInt(e.target.value) || 0))}
+                      className="w-full px-4 py-3 bg-gray-800/50 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 font-jetbrains"
+                    />
+                    <p className="text-xs text-gray-500 mt-1 font-jetbrains">
+                      The leading games always play at the first tables; the rest of the field avoids repeating a table
+                    </p>
+                  </div>
+                </div>
               </div>
 
               {/* Team Mode Toggle */}
@@ -1072,6 +1364,84 @@ const TournamentSetupModal: React.FC<TournamentSetupModalProps> = ({
                 </div>
               </div>
 
+              {/* Pairing Schedule */}
+              {!formData.teamMode && (
+                <div className="bg-gray-800/50 border border-gray-600 rounded-lg p-6">
+                  <h4 className="text-lg font-bold text-white font-orbitron mb-1 flex items-center gap-2">
+                    <CalendarClock size={20} className="text-cyan-400" />
+                    Pairing Schedule
+                  </h4>
+                  <p className="text-gray-400 font-jetbrains text-sm mb-4">
+                    Pair individual rounds differently, e.g. the last round King of the Hill based on the round before it
+                  </p>
+
+                  <div className="space-y-2">
+                    {getPairingSchedule({ pairing_system: selectedPairingFormat, pairing_schedule: pairingSchedule }, formData.rounds).map(plan => {
+                      const isScheduled = pairingSchedule.some(entry => entry.round === plan.round);
+                      return (
+                        <div
+                          key={plan.round}
+                          className={`grid grid-cols-12 items-center gap-2 px-3 py-2 bg-gray-900/50 border rounded-lg ${
+                            isScheduled ? 'border-cyan-500/50' : 'border-gray-700'
+                          }`}
+                        >
+                          <span className="col-span-2 text-white font-jetbrains text-sm">Round {plan.round}</span>
+                          <select
+                            value={plan.pairing_system}
+                            onChange={(e) => updateScheduleEntry(plan, { pairing_system: e.target.value as PairingFormat })}
+                            className="col-span-3 bg-gray-800 border border-gray-600 rounded-lg px-2 py-1 text-white font-jetbrains text-xs focus:border-cyan-500 focus:outline-none"
+                          >
+                            {(Object.keys(PAIRING_FORMAT_LABELS) as PairingFormat[])
+                              .filter(format => format !== 'team-round-robin')
+                              .map(format => (
+                                <option key={format} value={format}>{PAIRING_FORMAT_LABELS[format]}</option>
+                              ))}
+                          </select>
+                          <select
+                            value={plan.based_on_round}
+                            onChange={(e) => updateScheduleEntry(plan, { based_on_round: parseInt(e.target.value) })}
+                            className="col-span-3 bg-gray-800 border border-gray-600 rounded-lg px-2 py-1 text-white font-jetbrains text-xs focus:border-cyan-500 focus:outline-none"
+                            title="Results used to rank players for this round"
+                          >
+                            <option value={0}>By rating</option>
+                            {Array.from({ length: plan.round - 1 }, (_, i) => (
+                              <option key={i + 1} value={i + 1}>Based on round {i + 1}</option>
+                            ))}
+                          </select>
+                          <select
+                            value={plan.avoid_rematches ? plan.rematch_tolerance : -1}
+                            onChange={(e) => {
+                              const tolerance = parseInt(e.target.value);
+                              updateScheduleEntry(plan, {
+                                avoid_rematches: tolerance >= 0,
+                                rematch_tolerance: Math.max(0, tolerance)
+                              });
+                            }}
+                            className="col-span-3 bg-gray-800 border border-gray-600 rounded-lg px-2 py-1 text-white font-jetbrains text-xs focus:border-cyan-500 focus:outline-none"
+                          >
+                            <option value={0}>Avoid any rematch</option>
+                            <option value={1}>Meet at most twice</option>
+                            <option value={2}>Meet at most three times</option>
+                            <option value={-1}>Rematches allowed</option>
+                          </select>
+                          <div className="col-span-1 flex justify-end">
+                            {isScheduled && (
+                              <button
+                                onClick={() => resetScheduleEntry(plan.round)}
+                                className="p-1 text-gray-400 hover:text-red-400"
+                                title="Use the default for this round"
+                              >
+                                <X className="w-4 h-4" />
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
               {/* URL Preview */}
               <div className="bg-green-900/20 border border-green-500/30 rounded-lg p-6">
                 <h4 className="text-lg font-bold text-green-300 font-orbitron mb-4 flex items-center gap-2">
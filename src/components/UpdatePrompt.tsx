@@ -0,0 +1,48 @@
+import React, { useState, useEffect } from 'react';
+import { Download, X } from 'lucide-react';
+import { subscribeToServiceWorkerUpdate, applyServiceWorkerUpdate } from '../lib/serviceWorker';
+
+/**
+ * Offers a new version of the app once it has downloaded. Nothing reloads
+ * until the director chooses to; changes waiting to sync are kept either way.
+ */
+const UpdatePrompt: React.FC = () => {
+  const [updateReady, setUpdateReady] = useState(false);
+  const [dismissed, setDismissed] = useState(false);
+
+  useEffect(() => {
+    return subscribeToServiceWorkerUpdate(waiting => {
+      setUpdateReady(!!waiting);
+      setDismissed(false);
+    });
+  }, []);
+
+  if (!updateReady || dismissed) return null;
+
+  return (
+    <div className="fixed bottom-4 left-1/2 transform -translate-x-1/2 z-50 w-[calc(100%-2rem)] max-w-lg bg-gray-900/95 backdrop-blur-lg border-2 border-blue-500/50 rounded-xl shadow-2xl p-4 flex items-center gap-4">
+      <div className="w-10 h-10 flex-shrink-0 bg-gradient-to-r from-blue-500 to-purple-500 rounded-lg flex items-center justify-center">
+        <Download className="w-5 h-5 text-white" />
+      </div>
+      <div className="flex-1">
+        <p className="text-white font-jetbrains text-sm font-medium">A new version of Direktor is ready</p>
+        <p className="text-gray-400 font-jetbrains text-xs">Reload when there's a break in play – unsynced changes are kept.</p>
+      </div>
+      <button
+        onClick={applyServiceWorkerUpdate}
+        className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-jetbrains text-sm transition-colors duration-200"
+      >
+        Reload
+      </button>
+      <button
+        onClick={() => setDismissed(true)}
+        title="Remind me later"
+        className="text-gray-400 hover:text-white transition-colors duration-200"
+      >
+        <X size={18} />
+      </button>
+    </div>
+  );
+};
+
+export default UpdatePrompt;
@@ -1,52 +1,64 @@
-import { useState, useEffect, useCallback } from 'react';
-import { supabase } from '../lib/supabase';
-import { set, get, del } from 'idb-keyval';
+import { useState, useEffect, useRef } from 'react';
+import {
+  OfflineData,
+  queueChange,
+  syncPendingChanges as syncQueuedChanges,
+  keepLocalChange,
+  retryChange,
+  discardChange,
+  refreshTournamentSnapshot,
+  getCachedTournamentData as getCachedSnapshot,
+  clearCachedTournamentData as clearCachedSnapshot
+} from '../lib/offlineRepository';
+import {
+  PendingChange,
+  NewChange,
+  getPendingChanges,
+  subscribeToPendingChanges,
+  needsAttention,
+  nextRetryAt
+} from '../lib/offlineQueue';
 import { useAuditLog } from './useAuditLog';
 
-interface OfflineData {
-  tournaments: any[];
-  players: any[];
-  pairings: any[];
-  results: any[];
-  lastSync: string;
-}
-
-interface PendingChange {
-  id: string;
-  table: string;
-  operation: 'insert' | 'update' | 'delete';
-  data: any;
-  timestamp: string;
-}
-
+/**
+ * Connection state and the offline queue for a screen. Data itself is read
+ * and written through `lib/offlineRepository`; this hook reports whether
+ * the device is online and what is waiting to sync, syncs on reconnect and
+ * when a retry is due, and resolves changes held for the director.
+ */
 export function useOfflineMode() {
   const [isOnline, setIsOnline] = useState(navigator.onLine);
-  const [isOfflineMode, setIsOfflineMode] = useState(false);
+  const [isOfflineMode, setIsOfflineMode] = useState(!navigator.onLine);
   const [pendingChanges, setPendingChanges] = useState<PendingChange[]>([]);
   const [isSyncing, setIsSyncing] = useState(false);
-  
+  const retryTimer = useRef<ReturnType<typeof setTimeout>>();
+  // Listeners and timers outlive a render, so they call the latest sync
+  const syncLatest = useRef<() => Promise<void>>(async () => {});
+
   const { logAction } = useAuditLog();
+  const attentionCount = pendingChanges.filter(needsAttention).length;
 
   // Initialize offline mode detection
   useEffect(() => {
-    const handleOnline = () => {
+    const handleOnline = async () => {
       setIsOnline(true);
-      syncPendingChanges();
-      
+
       // Log reconnection
       logAction({
         action: 'connection_restored',
         details: {
-          pending_changes: pendingChanges.length
+          pending_changes: (await getPendingChanges()).length
         }
       });
+
+      syncLatest.current();
     };
 
     const handleOffline = () => {
       setIsOnline(false);
       setIsOfflineMode(true);
       showOfflineToast();
-      
+
       // Log disconnection
       logAction({
         action: 'connection_lost',
@@ -58,6 +70,21 @@ export function useOfflineMode() {
 
     window.addEventListener('online', handleOnline);
     window.addEventListener('offline', handleOffline);
+    const unsubscribe = subscribeToPendingChanges(setPendingChanges);
+
+    // Load pending changes from IndexedDB
+    const loadPendingChanges = async () => {
+      try {
+        const changes = await getPendingChanges();
+        setPendingChanges(changes);
+
+        if (changes.length > 0 && navigator.onLine) {
+          syncLatest.current();
+        }
+      } catch (err) {
+        console.error('Error loading pending changes:', err);
+      }
+    };
 
     // Check for pending changes on load
     loadPendingChanges();
@@ -65,54 +92,27 @@ export function useOfflineMode() {
     return () => {
       window.removeEventListener('online', handleOnline);
       window.removeEventListener('offline', handleOffline);
+      unsubscribe();
+      clearTimeout(retryTimer.current);
     };
-  }, []);
-
-  // Load pending changes from IndexedDB
-  const loadPendingChanges = async () => {
-    try {
-      const changes = await get('pendingChanges') || [];
-      setPendingChanges(changes);
-      
-      if (changes.length > 0 && navigator.onLine) {
-        syncPendingChanges();
-      }
-    } catch (err) {
-      console.error('Error loading pending changes:', err);
-    }
-  };
-
-  // Save pending changes to IndexedDB
-  const savePendingChanges = async (changes: PendingChange[]) => {
-    try {
-      await set('pendingChanges', changes);
-      setPendingChanges(changes);
-    } catch (err) {
-      console.error('Error saving pending changes:', err);
-    }
-  };
+  }, [logAction]);
 
   // Add a pending change
-  const addPendingChange = async (change: Omit<PendingChange, 'timestamp'>) => {
+  const addPendingChange = async (change: NewChange) => {
     try {
-      const newChange = {
-        ...change,
-        timestamp: new Date().toISOString()
-      };
-      
-      const updatedChanges = [...pendingChanges, newChange];
-      await savePendingChanges(updatedChanges);
-      
+      const pending = await queueChange(change);
+
       // Log offline change
       logAction({
         action: 'offline_change_recorded',
         details: {
+          tournament_id: change.tournament_id,
           table: change.table,
           operation: change.operation,
-          id: change.id
+          id: pending.id
         }
       });
-      
+
       return true;
     } catch (err) {
       console.error('Error adding pending change:', err);
@@ -122,105 +122,67 @@ export function useOfflineMode() {
 
   // Sync pending changes with Supabase
   const syncPendingChanges = async () => {
-    if (pendingChanges.length === 0 || !navigator.onLine || isSyncing) {
+    if (!navigator.onLine) {
       return;
     }
 
     setIsSyncing(true);
-    
+
     try {
-      const successfulChanges: string[] = [];
-      
-      // Process changes in order (oldest first)
-      const sortedChanges = [...pendingChanges].sort(
-        (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-      );
-      
-      for (const change of sortedChanges) {
-        let success = false;
-        
-        try {
-          switch (change.operation) {
-            case 'insert':
-              const { error: insertError } = await supabase
-                .from(change.table)
-                .insert([change.data]);
-              
-              success = !insertError;
-              break;
-              
-            case 'update':
-              const { error: updateError } = await supabase
-                .from(change.table)
-                .update(change.data)
-                .eq('id', change.id);
-              
-              success = !updateError;
-              break;
-              
-            case 'delete':
-              const { error: deleteError } = await supabase
-                .from(change.table)
-                .delete()
-                .eq('id', change.id);
-              
-              success = !deleteError;
-              break;
+      const { synced, conflicts, remaining, error } = await syncQueuedChanges();
+
+      synced.forEach(change => {
+        // Log successful sync
+        logAction({
+          action: 'offline_change_synced',
+          details: {
+            tournament_id: change.tournament_id,
+            table: change.table,
+            operation: change.operation,
+            id: change.id
           }
-          
-          if (success) {
-            successfulChanges.push(change.id);
-            
-            // Log successful sync
-            logAction({
-              action: 'offline_change_synced',
-              details: {
-                table: change.table,
-                operation: change.operation,
-                id: change.id
-              }
-            });
+        });
+      });
+
+      conflicts.forEach(change => {
+        // Log conflict held for the director
+        logAction({
+          action: 'offline_sync_conflict',
+          details: {
+            tournament_id: change.tournament_id,
+            table: change.table,
+            operation: change.operation,
+            id: change.id
           }
-        } catch (err) {
-          console.error(`Error syncing change ${change.id}:`, err);
-          
-          // Log sync error
-          logAction({
-            action: 'offline_sync_error',
-            details: {
-              table: change.table,
-              operation: change.operation,
-              id: change.id,
-              error: String(err)
-            }
-          });
-        }
-      }
-      
-      // Remove successful changes
-      if (successfulChanges.length > 0) {
-        const remainingChanges = pendingChanges.filter(
-          change => !successfulChanges.includes(change.id)
-        );
-        
-        await savePendingChanges(remainingChanges);
-        
-        // Show success toast if all changes synced
-        if (remainingChanges.length === 0) {
-          showSyncSuccessToast();
-          
-          // Log all changes synced
-          logAction({
-            action: 'all_offline_changes_synced',
-            details: {
-              count: successfulChanges.length
-            }
-          });
-        }
+        });
+      });
+
+      if (error) {
+        console.error('Error syncing pending changes:', error);
+
+        // Log sync error
+        logAction({
+          action: 'offline_sync_error',
+          details: {
+            error: String((error as { message?: string }).message || error),
+            pending_count: remaining.length
+          }
+        });
+      } else if (synced.length > 0 && remaining.length === 0) {
+        showSyncSuccessToast();
+        setIsOfflineMode(false);
+
+        // Log all changes synced
+        logAction({
+          action: 'all_offline_changes_synced',
+          details: {
+            count: synced.length
+          }
+        });
       }
     } catch (err) {
       console.error('Error syncing pending changes:', err);
-      
+
       // Log sync failure
       logAction({
         action: 'offline_sync_failed',
@@ -231,63 +193,73 @@ export function useOfflineMode() {
       });
     } finally {
       setIsSyncing(false);
+      scheduleRetry();
+    }
+  };
+
+  useEffect(() => {
+    syncLatest.current = syncPendingChanges;
+  });
+
+  // Sync again when the earliest backed-off change is due
+  const scheduleRetry = async () => {
+    clearTimeout(retryTimer.current);
+    const retryAt = nextRetryAt(await getPendingChanges());
+    if (retryAt !== null && navigator.onLine) {
+      retryTimer.current = setTimeout(() => syncLatest.current(), Math.max(0, retryAt - Date.now()));
+    }
+  };
+
+  // Resolve a change held for the director, then sync what it was holding up
+  const resolvePendingChange = async (change: PendingChange, resolution: 'keep_local' | 'keep_server' | 'retry') => {
+    try {
+      if (resolution === 'keep_local') {
+        await keepLocalChange(change.id);
+      } else if (resolution === 'retry') {
+        await retryChange(change.id);
+      } else {
+        await discardChange(change.id);
+      }
+
+      // Log resolution
+      logAction({
+        action: 'offline_change_resolved',
+        details: {
+          tournament_id: change.tournament_id,
+          table: change.table,
+          operation: change.operation,
+          id: change.id,
+          status: change.status,
+          resolution
+        }
+      });
+
+      await syncPendingChanges();
+    } catch (err) {
+      console.error('Error resolving pending change:', err);
     }
   };
 
   // Cache tournament data for offline use
   const cacheTournamentData = async (tournamentId: string) => {
     if (!navigator.onLine) return;
-    
+
     try {
-      // Fetch tournament data
-      const { data: tournament } = await supabase
-        .from('tournaments')
-        .select('*')
-        .eq('id', tournamentId)
-        .single();
-      
-      // Fetch players
-      const { data: players } = await supabase
-        .from('players')
-        .select('*')
-        .eq('tournament_id', tournamentId);
-      
-      // Fetch pairings
-      const { data: pairings } = await supabase
-        .from('pairings')
-        .select('*')
-        .eq('tournament_id', tournamentId);
-      
-      // Fetch results
-      const { data: results } = await supabase
-        .from('results')
-        .select('*')
-        .eq('tournament_id', tournamentId);
-      
-      // Save to IndexedDB
-      const offlineData: OfflineData = {
-        tournaments: tournament ? [tournament] : [],
-        players: players || [],
-        pairings: pairings || [],
-        results: results || [],
-        lastSync: new Date().toISOString()
-      };
-      
-      await set(`tournament_${tournamentId}`, offlineData);
-      
+      const snapshot = await refreshTournamentSnapshot(tournamentId);
+
       // Log cache operation
       logAction({
         action: 'tournament_data_cached',
         details: {
           tournament_id: tournamentId,
-          players_count: players?.length || 0,
-          pairings_count: pairings?.length || 0,
-          results_count: results?.length || 0
+          players_count: snapshot.players.length,
+          pairings_count: snapshot.pairings.length,
+          results_count: snapshot.results.length
         }
       });
     } catch (err) {
       console.error('Error caching tournament data:', err);
-      
+
       // Log cache error
       logAction({
         action: 'tournament_cache_error',
@@ -302,8 +274,7 @@ export function useOfflineMode() {
   // Get cached tournament data
   const getCachedTournamentData = async (tournamentId: string): Promise<OfflineData | null> => {
     try {
-      const data = await get(`tournament_${tournamentId}`);
-      return data || null;
+      return await getCachedSnapshot(tournamentId);
     } catch (err) {
       console.error('Error getting cached tournament data:', err);
       return null;
@@ -313,8 +284,8 @@ export function useOfflineMode() {
   // Clear cached tournament data
   const clearCachedTournamentData = async (tournamentId: string) => {
     try {
-      await del(`tournament_${tournamentId}`);
-      
+      await clearCachedSnapshot(tournamentId);
+
       // Log cache cleared
       logAction({
         action: 'tournament_cache_cleared',
@@ -338,7 +309,7 @@ export function useOfflineMode() {
       </div>
     `;
     document.body.appendChild(toast);
-    
+
     // Keep toast visible while offline
     const checkOnline = setInterval(() => {
       if (navigator.onLine) {
@@ -361,7 +332,7 @@ export function useOfflineMode() {
       </div>
     `;
     document.body.appendChild(toast);
-    
+
     setTimeout(() => {
       if (document.body.contains(toast)) {
         document.body.removeChild(toast);
@@ -373,11 +344,13 @@ export function useOfflineMode() {
     isOnline,
     isOfflineMode,
     pendingChanges,
+    attentionCount,
     isSyncing,
     addPendingChange,
     syncPendingChanges,
+    resolvePendingChange,
     cacheTournamentData,
     getCachedTournamentData,
     clearCachedTournamentData
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,142 @@
+import { useState, useEffect, useRef } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+
+export interface Scorekeeper {
+  /** Identifies one open score entry screen; two tabs are two scorekeepers */
+  tab_id: string;
+  name: string;
+  /** Pairing ids the tab is entering, with the logical time it claimed each */
+  claims: Record<string, number>;
+}
+
+/**
+ * Scorekeepers entering one round, shared over a Supabase presence channel,
+ * and the tables each has claimed. A table belongs to whoever claimed it
+ * first; claims disappear with the tab, so a table is never left locked
+ * by a scorekeeper who has gone. Offline there is no one to share with and
+ * every table is open.
+ *
+ * Claims are ordered by a logical clock rather than device clocks: a claim
+ * is numbered after every claim the tab has seen, so a table claimed after
+ * seeing another's claim always loses to it, whatever the wall clocks say.
+ * Claims made at the same moment tie, and go to the lower tab id.
+ */
+export function useScoreEntryPresence(tournamentId: string, round: number, name: string) {
+  const tabId = useRef(crypto.randomUUID()).current;
+  const [scorekeepers, setScorekeepers] = useState<Scorekeeper[]>([]);
+  const [claims, setClaims] = useState<Record<string, number>>({});
+  const [isConnected, setIsConnected] = useState(false);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const clockRef = useRef(0);
+
+  useEffect(() => {
+    setClaims({});
+
+    const channel = supabase.channel(`score-entry:${tournamentId}:${round}`, {
+      config: { presence: { key: tabId } }
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<Scorekeeper>();
+        const others = Object.values(state)
+          .map(entries => entries[entries.length - 1])
+          .filter(keeper => keeper.tab_id !== tabId);
+        others.forEach(keeper => Object.values(keeper.claims || {}).forEach(time => {
+          clockRef.current = Math.max(clockRef.current, time);
+        }));
+        setScorekeepers(others);
+      })
+      .subscribe(status => {
+        const connected = status === 'SUBSCRIBED';
+        setIsConnected(connected);
+        if (!connected) setScorekeepers([]);
+      });
+
+    channelRef.current = channel;
+
+    return () => {
+      supabase.removeChannel(channel);
+      channelRef.current = null;
+      setIsConnected(false);
+      setScorekeepers([]);
+    };
+  }, [tournamentId, round, tabId]);
+
+  // Publish this tab's name and claims
+  useEffect(() => {
+    if (isConnected) {
+      channelRef.current?.track({ tab_id: tabId, name, claims });
+    }
+  }, [isConnected, name, claims, tabId]);
+
+  const holderOf = (pairingId: string): Scorekeeper | null =>
+    tableHolder([{ tab_id: tabId, name, claims }, ...scorekeepers], pairingId);
+
+  // Give up claims another tab won at the same moment
+  useEffect(() => {
+    setClaims(prev => {
+      const lost = Object.keys(prev).filter(pairingId =>
+        tableHolder([{ tab_id: tabId, name: '', claims: prev }, ...scorekeepers], pairingId)?.tab_id !== tabId
+      );
+      if (lost.length === 0) return prev;
+      const next = { ...prev };
+      lost.forEach(pairingId => delete next[pairingId]);
+      return next;
+    });
+  }, [scorekeepers, tabId]);
+
+  /**
+   * The other scorekeeper entering a table, or null if it is free or ours.
+   */
+  const lockedBy = (pairingId: string): Scorekeeper | null => {
+    const holder = holderOf(pairingId);
+    return holder && holder.tab_id !== tabId ? holder : null;
+  };
+
+  /**
+   * Claims a table for this tab. Returns false if another scorekeeper has it.
+   */
+  const claimTable = (pairingId: string): boolean => {
+    if (lockedBy(pairingId)) return false;
+    if (!claims[pairingId]) {
+      clockRef.current++;
+      const time = clockRef.current;
+      setClaims(prev => ({ ...prev, [pairingId]: time }));
+    }
+    return true;
+  };
+
+  const releaseTable = (pairingId: string) => {
+    setClaims(prev => {
+      if (!prev[pairingId]) return prev;
+      const next = { ...prev };
+      delete next[pairingId];
+      return next;
+    });
+  };
+
+  const releaseAllTables = () => {
+    setClaims({});
+  };
+
+  return {
+    tabId,
+    scorekeepers,
+    isConnected,
+    lockedBy,
+    claimTable,
+    releaseTable,
+    releaseAllTables
+  };
+}
+
+// The scorekeeper holding a table: earliest claim, ties to the lower tab id
+function tableHolder(claimants: Scorekeeper[], pairingId: string): Scorekeeper | null {
+  const holders = claimants.filter(keeper => keeper.claims?.[pairingId]);
+  holders.sort((a, b) =>
+    a.claims[pairingId] - b.claims[pairingId] || a.tab_id.localeCompare(b.tab_id)
+  );
+  return holders[0] || null;
+}
@@ -0,0 +1,73 @@
+import { useState, useEffect, useRef } from 'react';
+import {
+  getPlayerOdds,
+  hasGamesToPlay,
+  PlayerOdds,
+  SimulationInput,
+  DEFAULT_SIMULATION_RUNS
+} from '../utils/tournamentSimulator';
+import type { OddsMessage, OddsRequest } from '../workers/tournamentOdds.worker';
+
+/**
+ * Simulates the rest of the tournament in a Web Worker and returns each
+ * player's odds, refined as runs complete. Pass null while data is loading.
+ * Reloading the same data keeps the current simulation; a new simulation
+ * starts only when players, pairings or results change.
+ */
+export function useTournamentOdds(input: SimulationInput | null, runs: number = DEFAULT_SIMULATION_RUNS) {
+  const [odds, setOdds] = useState<Map<string, PlayerOdds>>(new Map());
+  const [completedRuns, setCompletedRuns] = useState(0);
+  const [isSimulating, setIsSimulating] = useState(false);
+  const key = input ? simulationKey(input) : null;
+  // The simulation restarts only when the key changes, and reads the input that key came from
+  const inputRef = useRef(input);
+  inputRef.current = input;
+
+  useEffect(() => {
+    const input = inputRef.current;
+    setOdds(new Map());
+    setCompletedRuns(0);
+    if (!input || input.players.length < 2 || !hasGamesToPlay(input)) {
+      setIsSimulating(false);
+      return;
+    }
+
+    setIsSimulating(true);
+    const worker = new Worker(new URL('../workers/tournamentOdds.worker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<OddsMessage>) => {
+      const message = event.data;
+      if (message.type === 'error') {
+        console.error('Error simulating tournament:', message.message);
+        setIsSimulating(false);
+        return;
+      }
+
+      setOdds(getPlayerOdds(message.tally));
+      setCompletedRuns(message.tally.runs);
+      if (message.done) setIsSimulating(false);
+    };
+    worker.onerror = event => {
+      console.error('Error simulating tournament:', event.message);
+      setIsSimulating(false);
+    };
+
+    const request: OddsRequest = { input, runs };
+    worker.postMessage(request);
+
+    return () => worker.terminate();
+  }, [key, runs]);
+
+  return { odds, completedRuns, totalRuns: runs, isSimulating };
+}
+
+// Everything that changes the outcome of a simulation
+function simulationKey(input: SimulationInput): string {
+  return [
+    input.totalRounds,
+    JSON.stringify(input.config || null),
+    input.players.map(player => `${player.id}:${player.rating}:${player.status || ''}`).join(','),
+    input.pairings.map(pairing => `${pairing.id}:${pairing.player1_gibsonized ? 'g' : ''}:${pairing.player2_gibsonized ? 'g' : ''}`).join(','),
+    input.results.map(result => `${result.pairing_id}:${result.player1_score}:${result.player2_score}`).join(',')
+  ].join('|');
+}
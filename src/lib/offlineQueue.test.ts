@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { dependsOn, nextReadyChange, NewChange, PendingChange } from './offlineQueue';
+
+const resultInsert = (id: string, pairingId: string, round: number): NewChange => ({
+  tournament_id: 't1',
+  table: 'results',
+  operation: 'insert',
+  data: [{ id, pairing_id: pairingId, tournament_id: 't1', round_number: round, player1_score: 400, player2_score: 350 }]
+});
+
+const resultUpdate = (id: string, pairingId: string, round: number): NewChange => ({
+  tournament_id: 't1',
+  table: 'results',
+  operation: 'update',
+  data: { player1_score: 410 },
+  match: { id },
+  base: [{ id, pairing_id: pairingId, round_number: round, updated_at: '2025-01-01T00:00:00Z' }]
+});
+
+const replacePairings = (round: number, pairingIds: string[]): NewChange => ({
+  tournament_id: 't1',
+  table: 'replace_round_pairings',
+  operation: 'rpc',
+  data: {
+    p_tournament_id: 't1',
+    p_division_id: null,
+    p_round_number: round,
+    p_pairings: pairingIds.map((id, index) => ({ id, round_number: round, table_number: index + 1 }))
+  }
+});
+
+const queued = (change: NewChange, id: string, extra: Partial<PendingChange> = {}): PendingChange => ({
+  ...change,
+  id,
+  timestamp: '2025-01-01T00:00:00Z',
+  ...extra
+});
+
+describe('dependsOn', () => {
+  it('makes a result wait for its round\'s pairings', () => {
+    expect(dependsOn(resultInsert('r1', 'p1', 3), replacePairings(3, ['p1', 'p2']))).toBe(true);
+  });
+
+  it('does not make results in the same round wait for each other', () => {
+    expect(dependsOn(resultInsert('r2', 'p2', 3), resultInsert('r1', 'p1', 3))).toBe(false);
+    expect(dependsOn(resultUpdate('r2', 'p2', 3), resultUpdate('r1', 'p1', 3))).toBe(false);
+  });
+
+  it('orders changes to the same result', () => {
+    expect(dependsOn(resultUpdate('r1', 'p1', 3), resultInsert('r1', 'p1', 3))).toBe(true);
+  });
+
+  it('makes re-pairing a round wait for results already entered in it', () => {
+    expect(dependsOn(replacePairings(3, ['p3']), resultInsert('r1', 'p1', 3))).toBe(true);
+    expect(dependsOn(replacePairings(4, ['p3']), resultInsert('r1', 'p1', 3))).toBe(false);
+  });
+
+  it('makes everything in a tournament created offline wait for it', () => {
+    const created: NewChange = { tournament_id: 't1', table: 'tournaments', operation: 'insert', data: [{ id: 't1', name: 'Club Open' }] };
+    const players: NewChange = { tournament_id: 't1', table: 'players', operation: 'insert', data: [{ id: 'a', tournament_id: 't1' }] };
+
+    expect(dependsOn(players, created)).toBe(true);
+    expect(dependsOn(replacePairings(1, ['p1']), created)).toBe(true);
+    expect(dependsOn({ ...players, tournament_id: 't2' }, created)).toBe(false);
+  });
+});
+
+describe('nextReadyChange', () => {
+  it('sends other results in a round while one waits for the director', () => {
+    const changes = [
+      queued(resultUpdate('r1', 'p1', 3), 'c1', { status: 'conflict' }),
+      queued(resultInsert('r2', 'p2', 3), 'c2')
+    ];
+    expect(nextReadyChange(changes, Date.now())?.id).toBe('c2');
+  });
+
+  it('holds a result back while its round\'s pairings are still queued', () => {
+    const changes = [
+      queued(replacePairings(3, ['p1']), 'c1', { status: 'failed' }),
+      queued(resultInsert('r1', 'p1', 3), 'c2')
+    ];
+    expect(nextReadyChange(changes, Date.now())).toBeNull();
+  });
+
+  it('waits for a change that is backing off before a retry', () => {
+    const later = new Date(Date.now() + 60_000).toISOString();
+    const changes = [queued(resultInsert('r1', 'p1', 3), 'c1', { next_attempt_at: later })];
+    expect(nextReadyChange(changes, Date.now())).toBeNull();
+  });
+});
@@ -0,0 +1,265 @@
+import { get, set } from 'idb-keyval';
+
+/**
+ * The queue of changes made offline, kept in IndexedDB until they reach the
+ * server, and the rules for replaying it: which changes wait for which,
+ * when a change clashes with an edit made on another device, and how long
+ * to wait before retrying one that failed. Only the queue itself touches
+ * storage; `offlineRepository` does the sending.
+ */
+
+export type SyncRow = Record<string, unknown>;
+
+export type ChangeStatus = 'pending' | 'conflict' | 'failed';
+
+export interface PendingChange {
+  /** Identifies the change in the queue */
+  id: string;
+  tournament_id: string;
+  /** Table written, or the database function called for `rpc` */
+  table: string;
+  operation: 'insert' | 'update' | 'delete' | 'rpc';
+  /** Rows to insert, columns to update, or the function's arguments */
+  data?: unknown;
+  /** Column values selecting the rows an update or delete applies to */
+  match?: Record<string, string | number | boolean | null>;
+  timestamp: string;
+  /** Rows in the change's scope as this device last saw them */
+  base?: SyncRow[];
+  /** Send without the conflict check, because the director chose this device's values */
+  force?: boolean;
+  status?: ChangeStatus;
+  attempts?: number;
+  next_attempt_at?: string;
+  last_error?: string;
+  /** The server's rows in the change's scope when the conflict was found */
+  server_rows?: SyncRow[];
+}
+
+export type NewChange = Pick<PendingChange, 'tournament_id' | 'table' | 'operation' | 'data' | 'match' | 'base'>;
+
+/** The rows a change is based on, e.g. one round's pairings. */
+export interface ChangeScope {
+  table: string;
+  match: Record<string, string | number | boolean | null>;
+  /** Further limits the scope to rows whose `column` is one of `values` */
+  within?: { column: string; values: string[] };
+}
+
+/** Failed attempts, other than lost connections, before a change needs the director. */
+export const MAX_ATTEMPTS = 5;
+
+const PENDING_CHANGES_KEY = 'pendingChanges';
+const FIRST_RETRY_DELAY = 2000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+
+const listeners = new Set<(changes: PendingChange[]) => void>();
+let queueTail: Promise<unknown> = Promise.resolve();
+
+export async function getPendingChanges(): Promise<PendingChange[]> {
+  return (await get(PENDING_CHANGES_KEY)) || [];
+}
+
+/**
+ * Calls `listener` with the whole queue whenever it changes.
+ */
+export function subscribeToPendingChanges(listener: (changes: PendingChange[]) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Rewrites the queue. Updates run one at a time so none is lost to
+ * another's read.
+ */
+export function updateQueue(update: (changes: PendingChange[]) => PendingChange[]): Promise<void> {
+  const run = queueTail.then(async () => {
+    const changes = update(await getPendingChanges());
+    await set(PENDING_CHANGES_KEY, changes);
+    listeners.forEach(listener => listener(changes));
+  });
+  queueTail = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Changes the director has to look at: conflicts and changes that keep failing.
+ */
+export function needsAttention(change: PendingChange): boolean {
+  return change.status === 'conflict' || change.status === 'failed';
+}
+
+/**
+ * The rows a change is based on, or null for changes that are not checked
+ * for conflicts. A result is compared with any other result for the same
+ * pairing, and a round's pairings with the round as stored.
+ */
+export function changeScope(change: NewChange): ChangeScope | null {
+  if (change.operation === 'rpc') {
+    if (change.table !== 'replace_round_pairings') return null;
+    const params = change.data as { p_tournament_id: string; p_division_id: string | null; p_round_number: number };
+    return {
+      table: 'pairings',
+      match: {
+        tournament_id: params.p_tournament_id,
+        division_id: params.p_division_id ?? null,
+        round_number: params.p_round_number
+      }
+    };
+  }
+
+  if (change.operation === 'insert') {
+    const column = change.table === 'results' ? 'pairing_id' : 'id';
+    const values = rowsOf(change.data).map(row => row[column]).filter((value): value is string => typeof value === 'string');
+    return values.length > 0 ? { table: change.table, match: {}, within: { column, values } } : null;
+  }
+
+  return change.match ? { table: change.table, match: change.match } : null;
+}
+
+export function rowInScope(row: SyncRow, scope: ChangeScope): boolean {
+  return Object.entries(scope.match).every(([column, value]) => (row[column] ?? null) === value)
+    && (!scope.within || scope.within.values.includes(row[scope.within.column] as string));
+}
+
+/**
+ * The rows a change will leave on the server: inserted rows, updated rows
+ * with their new values, or a round's new pairings. Deletes leave none.
+ */
+export function localRows(change: NewChange): SyncRow[] {
+  switch (change.operation) {
+    case 'insert':
+      return rowsOf(change.data);
+    case 'update':
+      return (change.base && change.base.length > 0 ? change.base : [change.match || {}])
+        .map(row => ({ ...row, ...(change.data as SyncRow) }));
+    case 'delete':
+      return [];
+    case 'rpc':
+      return change.table === 'replace_round_pairings'
+        ? rowsOf((change.data as { p_pairings: SyncRow[] }).p_pairings)
+        : [];
+  }
+}
+
+/**
+ * Whether `later` must wait for `earlier`: they write the same row, or
+ * `later` builds on what `earlier` writes. A result waits for its pairing and
+ * its round's pairings, and re-pairing a round waits for the round's results,
+ * but results never wait for each other, so one stuck result holds up no other.
+ */
+export function dependsOn(later: NewChange, earlier: NewChange): boolean {
+  const written = new Set(changeKeys(earlier).writes);
+  return changeKeys(later).needs.some(key => written.has(key));
+}
+
+/**
+ * Whether the server's rows have moved on since the change was made: a row
+ * the device saw has a different version or is gone, or another device has
+ * added one. Rows the device made itself have no version yet and are not
+ * compared.
+ */
+export function hasConflict(change: PendingChange, serverRows: SyncRow[]): boolean {
+  const base = new Map((change.base || []).map(row => [row.id, row]));
+  const own = new Set(localRows(change).map(row => row.id));
+  const serverIds = new Set(serverRows.map(row => row.id));
+
+  const changedElsewhere = serverRows.some(row => {
+    const seen = base.get(row.id);
+    if (!seen) return !own.has(row.id);
+    return !!seen.updated_at && seen.updated_at !== row.updated_at;
+  });
+  const removedElsewhere = change.operation !== 'delete'
+    && (change.base || []).some(row => !!row.updated_at && !serverIds.has(row.id));
+
+  return changedElsewhere || removedElsewhere;
+}
+
+/**
+ * Brings a queued change's view of rows up to date after an earlier change
+ * from this device has written them, so that write is not taken for an
+ * edit made elsewhere.
+ */
+export function refreshBase(change: PendingChange, written: SyncRow[]): PendingChange {
+  if (!change.base || change.base.length === 0) return change;
+  const fresh = new Map(written.map(row => [row.id, row]));
+  return { ...change, base: change.base.map(row => fresh.get(row.id) || row) };
+}
+
+/**
+ * The first change that can be sent now: not held for the director, not
+ * waiting to retry, and not waiting for an earlier change.
+ */
+export function nextReadyChange(changes: PendingChange[], now: number): PendingChange | null {
+  return changes.find((change, index) =>
+    !needsAttention(change)
+    && (!change.next_attempt_at || new Date(change.next_attempt_at).getTime() <= now)
+    && !changes.slice(0, index).some(earlier => dependsOn(change, earlier))
+  ) || null;
+}
+
+/**
+ * When the next retry is due, or null if nothing is waiting to retry.
+ */
+export function nextRetryAt(changes: PendingChange[]): number | null {
+  const times = changes
+    .filter(change => !needsAttention(change) && change.next_attempt_at)
+    .map(change => new Date(change.next_attempt_at!).getTime());
+  return times.length > 0 ? Math.min(...times) : null;
+}
+
+/**
+ * Exponential backoff: 2s after the first failure, doubling up to 5 minutes.
+ */
+export function retryDelay(attempts: number): number {
+  return Math.min(FIRST_RETRY_DELAY * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY);
+}
+
+// What a change writes and what it builds on. A result for pairing p in round 3
+// writes "t1:results:<id>" and "t1:round-results:3", and needs its own row,
+// "t1:pairings:<p>" and the round's pairings, "t1:round:3". Everything needs
+// the tournament itself, "t1:created", which creating it writes.
+function changeKeys(change: NewChange): { writes: string[]; needs: string[] } {
+  const table = change.operation === 'rpc' && change.table === 'replace_round_pairings' ? 'pairings' : change.table;
+  const writes = new Set<string>();
+  const needs = new Set<string>();
+  const write = (key: string) => writes.add(`${change.tournament_id}:${key}`);
+  const need = (key: string) => needs.add(`${change.tournament_id}:${key}`);
+  const touch = (key: string) => {
+    write(key);
+    need(key);
+  };
+
+  const addRound = (round: number) => {
+    if (table === 'results') {
+      write(`round-results:${round}`);
+      need(`round:${round}`);
+    } else {
+      touch(`round:${round}`);
+      if (table === 'pairings') need(`round-results:${round}`);
+    }
+  };
+
+  [...localRows(change), ...(change.base || [])].forEach(row => {
+    if (row.id) touch(`${table}:${row.id}`);
+    if (typeof row.round_number === 'number') addRound(row.round_number);
+    if (table === 'results' && typeof row.pairing_id === 'string') need(`pairings:${row.pairing_id}`);
+  });
+  if (change.match?.id) touch(`${table}:${change.match.id}`);
+  if (typeof change.match?.round_number === 'number') addRound(change.match.round_number);
+  if (change.operation === 'rpc' && table === 'pairings') {
+    addRound((change.data as { p_round_number: number }).p_round_number);
+  }
+  if (writes.size === 0) touch(`table:${table}`);
+  if (table === 'tournaments' && change.operation === 'insert') write('created');
+  else need('created');
+
+  return { writes: Array.from(writes), needs: Array.from(needs) };
+}
+
+function rowsOf(data: unknown): SyncRow[] {
+  if (!data) return [];
+  return (Array.isArray(data) ? data : [data]) as SyncRow[];
+}
@@ -0,0 +1,595 @@
+import { get, set, del } from 'idb-keyval';
+import { supabase } from './supabase';
+import {
+  PendingChange,
+  NewChange,
+  SyncRow,
+  ChangeScope,
+  MAX_ATTEMPTS,
+  getPendingChanges,
+  updateQueue,
+  changeScope,
+  rowInScope,
+  dependsOn,
+  hasConflict,
+  refreshBase,
+  nextReadyChange,
+  retryDelay
+} from './offlineQueue';
+import {
+  Tournament,
+  Division,
+  Player,
+  Pairing,
+  PairingWithPlayers,
+  Result,
+  RoundPairingOptions,
+  PairingFormat,
+  PairingOptions
+} from '../types/database';
+
+/**
+ * Offline-first access to a tournament's data for the director screens.
+ * Reads come from a snapshot of the whole tournament kept in IndexedDB,
+ * refreshed from Supabase whenever it can be reached. Writes go straight to
+ * Supabase when online and are queued when not; either way they are applied
+ * to the snapshot, and queued writes are applied again on top of every
+ * refresh until they have synced, so a screen always sees its own changes.
+ * Queued writes are checked against the server before they are sent; see
+ * `offlineQueue` for the rules.
+ */
+
+export interface OfflineData {
+  tournaments: Tournament[];
+  divisions: Division[];
+  players: Player[];
+  pairings: Pairing[];
+  results: Result[];
+  round_pairing_options: RoundPairingOptions[];
+  lastSync: string;
+}
+
+export type SnapshotTable = Exclude<keyof OfflineData, 'lastSync'>;
+
+export interface WriteOutcome<T = unknown> {
+  /** True if the write is waiting for a connection */
+  queued: boolean;
+  /** The server's response; null while queued */
+  data: T | null;
+}
+
+/** What `replace_round_pairings` reports about the rows it kept and replaced. */
+export interface ReplaceRoundPairingsSummary {
+  kept: number;
+  inserted: number;
+  deleted: number;
+  results_discarded: number;
+}
+
+export interface SyncSummary {
+  synced: PendingChange[];
+  /** Changes found to clash with edits made elsewhere */
+  conflicts: PendingChange[];
+  remaining: PendingChange[];
+  /** The last error a change failed with, if any */
+  error: unknown;
+}
+
+/** A row change pushed by Supabase Realtime. */
+export interface ServerRowChange {
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  new: SyncRow;
+  /** For a delete, at least the row's id */
+  old: SyncRow;
+}
+
+export interface ReplaceRoundPairingsParams {
+  p_tournament_id: string;
+  p_division_id: string | null;
+  p_round_number: number;
+  p_pairings: Omit<Pairing, 'created_at'>[];
+  p_discard_results: boolean;
+  p_pairing_system: PairingFormat;
+  p_options: PairingOptions;
+}
+
+const SNAPSHOT_TABLES: SnapshotTable[] = ['tournaments', 'divisions', 'players', 'pairings', 'results', 'round_pairing_options'];
+
+const refreshes = new Map<string, Promise<OfflineData>>();
+const snapshotTails = new Map<string, Promise<unknown>>();
+let currentSync: Promise<SyncSummary> | null = null;
+
+/**
+ * Whether an error means Supabase could not be reached, rather than that it
+ * refused the request.
+ */
+export function isNetworkError(err: unknown): boolean {
+  if (!navigator.onLine) return true;
+  const message = err instanceof Error ? err.message : (err as { message?: string } | null)?.message;
+  return /failed to fetch|networkerror|network request failed|load failed/i.test(message || '');
+}
+
+/**
+ * Whether Supabase refused a write because the row already exists, such as
+ * a second result for the same game.
+ */
+export function isDuplicateRow(err: unknown): boolean {
+  return (err as { code?: string } | null)?.code === '23505';
+}
+
+/**
+ * The tournament's data, fresh from Supabase if it can be reached and from
+ * the snapshot otherwise. Fails if offline with nothing cached.
+ */
+export async function loadTournamentSnapshot(tournamentId: string): Promise<OfflineData> {
+  if (navigator.onLine) {
+    try {
+      return await refreshTournamentSnapshot(tournamentId);
+    } catch (err) {
+      if (!isNetworkError(err)) throw err;
+    }
+  }
+
+  const cached = await getCachedTournamentData(tournamentId);
+  if (!cached) {
+    throw new Error('No cached data available for offline use');
+  }
+  return cached;
+}
+
+/**
+ * Fetches the whole tournament, applies the changes still waiting to sync
+ * and stores the result as the snapshot. Concurrent refreshes of the same
+ * tournament share one fetch.
+ */
+export function refreshTournamentSnapshot(tournamentId: string): Promise<OfflineData> {
+  const inFlight = refreshes.get(tournamentId);
+  if (inFlight) return inFlight;
+
+  const refresh = (async () => {
+    const fetched = await fetchTournamentData(tournamentId);
+    return writeSnapshot(tournamentId, async () => {
+      const pending = (await getPendingChanges()).filter(change => change.tournament_id === tournamentId);
+      return pending.reduce(applyChange, fetched);
+    });
+  })().finally(() => refreshes.delete(tournamentId));
+
+  refreshes.set(tournamentId, refresh);
+  return refresh;
+}
+
+/**
+ * Applies a row change pushed by the server to the snapshot, without
+ * fetching the tournament again. Changes still waiting to sync are applied
+ * on top, as after a refresh.
+ */
+export async function applyServerRow(tournamentId: string, table: SnapshotTable, change: ServerRowChange): Promise<void> {
+  await updateSnapshot(tournamentId, async snapshot => {
+    const pending = (await getPendingChanges()).filter(queued => queued.tournament_id === tournamentId);
+    const rows = snapshot[table] as unknown as SyncRow[];
+    const id = change.eventType === 'DELETE' ? change.old.id : change.new.id;
+    const others = rows.filter(row => row.id !== id);
+    const patched = {
+      ...snapshot,
+      [table]: change.eventType === 'DELETE' ? others : [...others, change.new]
+    } as OfflineData;
+    return pending.reduce(applyChange, patched);
+  });
+}
+
+export async function getCachedTournamentData(tournamentId: string): Promise<OfflineData | null> {
+  const data = await get(snapshotKey(tournamentId));
+  return data || null;
+}
+
+export async function clearCachedTournamentData(tournamentId: string): Promise<void> {
+  await del(snapshotKey(tournamentId));
+}
+
+/**
+ * Writes to Supabase, or queues the write if Supabase cannot be reached.
+ * A write touching the same rows or round as a queued one is queued behind
+ * it, so the server receives related writes in the order they were made.
+ */
+export async function writeChange(change: NewChange): Promise<WriteOutcome> {
+  const waiting = (await getPendingChanges()).some(pending => dependsOn(change, pending));
+  if (navigator.onLine && !waiting) {
+    const { data, error } = await executeChange(change);
+    if (!error) {
+      await updateSnapshot(change.tournament_id, snapshot => applyChange(snapshot, change));
+      return { queued: false, data };
+    }
+    if (!isNetworkError(error)) throw error;
+  }
+
+  await queueChange(change);
+  return { queued: true, data: null };
+}
+
+/**
+ * Saves a round's pairings with `replace_round_pairings`. Each pairing gets
+ * its id here, keeping the id of a stored pairing between the same players
+ * as the function does, so results can be entered against the round before
+ * it has reached the server.
+ */
+export async function replaceRoundPairings(
+  params: ReplaceRoundPairingsParams
+): Promise<WriteOutcome<ReplaceRoundPairingsSummary>> {
+  const snapshot = await getCachedTournamentData(params.p_tournament_id);
+  const stored = snapshot
+    ? snapshot.pairings.filter(row => inRound(row, params.p_round_number, params.p_division_id))
+    : [];
+  const matched = new Set<string>();
+
+  const pairings = params.p_pairings.map(pairing => {
+    const existing = stored.find(row => !matched.has(row.id!) && samePlayers(row, pairing));
+    if (existing) matched.add(existing.id!);
+    return { ...pairing, id: existing?.id || crypto.randomUUID() };
+  });
+
+  const outcome = await writeChange({
+    tournament_id: params.p_tournament_id,
+    table: 'replace_round_pairings',
+    operation: 'rpc',
+    data: { ...params, p_pairings: pairings }
+  });
+  return { ...outcome, data: outcome.data as ReplaceRoundPairingsSummary | null };
+}
+
+/**
+ * Creates a tournament with its divisions. Its snapshot starts empty, so
+ * the director can go on to register players before it reaches the server.
+ */
+export async function createTournament(tournament: Tournament, divisions: Division[]): Promise<WriteOutcome> {
+  await writeSnapshot(tournament.id, () => ({
+    ...Object.fromEntries(SNAPSHOT_TABLES.map(table => [table, []])),
+    lastSync: new Date().toISOString()
+  } as OfflineData));
+
+  const outcome = await writeChange({
+    tournament_id: tournament.id,
+    table: 'tournaments',
+    operation: 'insert',
+    data: [tournament]
+  });
+  await writeChange({
+    tournament_id: tournament.id,
+    table: 'divisions',
+    operation: 'insert',
+    data: divisions
+  });
+  return outcome;
+}
+
+/**
+ * Adds a change to the queue and applies it to the tournament's snapshot.
+ * The rows it is based on are taken from the snapshot first, to be compared
+ * with the server's when it is sent.
+ */
+export async function queueChange(change: NewChange): Promise<PendingChange> {
+  const snapshot = await getCachedTournamentData(change.tournament_id);
+  const scope = changeScope(change);
+  const pending: PendingChange = {
+    ...change,
+    id: crypto.randomUUID(),
+    timestamp: new Date().toISOString(),
+    base: change.base || (snapshot && scope ? rowsInScope(snapshot, scope) : []),
+    status: 'pending',
+    attempts: 0
+  };
+
+  await updateQueue(changes => [...changes, pending]);
+  await updateSnapshot(change.tournament_id, snapshot => applyChange(snapshot, pending));
+  return pending;
+}
+
+/**
+ * Sends queued changes to Supabase, oldest first, skipping any that must
+ * wait for an earlier one. A change whose rows were edited elsewhere since
+ * it was made is held as a conflict; one that fails is retried with
+ * backoff, and after repeated failures is held for the director. Stops when
+ * the connection is lost. Concurrent calls share one sync.
+ */
+export function syncPendingChanges(): Promise<SyncSummary> {
+  if (!currentSync) {
+    currentSync = replayPendingChanges().finally(() => {
+      currentSync = null;
+    });
+  }
+  return currentSync;
+}
+
+/**
+ * Sends a conflicting change anyway, replacing the server's values with
+ * this device's.
+ */
+export async function keepLocalChange(changeId: string): Promise<void> {
+  await updateQueue(changes => changes.map(change => change.id === changeId
+    ? { ...change, force: true, status: 'pending', attempts: 0, next_attempt_at: undefined, server_rows: undefined }
+    : change));
+}
+
+/**
+ * Tries a change that kept failing again, from a fresh count of attempts.
+ */
+export async function retryChange(changeId: string): Promise<void> {
+  await updateQueue(changes => changes.map(change => change.id === changeId
+    ? { ...change, status: 'pending', attempts: 0, next_attempt_at: undefined, last_error: undefined }
+    : change));
+}
+
+/**
+ * Drops a change, keeping the server's values, and reloads the snapshot
+ * without it.
+ */
+export async function discardChange(changeId: string): Promise<void> {
+  const discarded = (await getPendingChanges()).find(change => change.id === changeId);
+  await updateQueue(changes => changes.filter(change => change.id !== changeId));
+  if (discarded && navigator.onLine) {
+    await refreshTournamentSnapshot(discarded.tournament_id).catch(err => {
+      console.error('Error reloading tournament after discarding a change:', err);
+    });
+  }
+}
+
+async function replayPendingChanges(): Promise<SyncSummary> {
+  const synced: PendingChange[] = [];
+  const conflicts: PendingChange[] = [];
+  let lastError: unknown = null;
+
+  // Changes queued while syncing are picked up too
+  while (navigator.onLine) {
+    const change = nextReadyChange(await getPendingChanges(), Date.now());
+    if (!change) break;
+
+    const scope = changeScope(change);
+    let error: unknown = null;
+    try {
+      // Hold back changes to rows edited elsewhere since this device saw them
+      if (scope && !change.force) {
+        const { data: serverRows, error: scopeError } = await fetchScope(scope);
+        if (scopeError) throw scopeError;
+        if (hasConflict(change, serverRows || [])) {
+          await updateQueue(changes => changes.map(queued => queued.id === change.id
+            ? { ...queued, status: 'conflict', server_rows: serverRows || [] }
+            : queued));
+          conflicts.push(change);
+          continue;
+        }
+      }
+
+      error = (await executeChange(change)).error;
+    } catch (err) {
+      error = err;
+    }
+
+    if (error) {
+      lastError = error;
+      const offline = isNetworkError(error);
+      const attempts = (change.attempts || 0) + 1;
+      await updateQueue(changes => changes.map(queued => queued.id === change.id
+        ? {
+            ...queued,
+            attempts,
+            status: !offline && attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+            next_attempt_at: new Date(Date.now() + retryDelay(attempts)).toISOString(),
+            last_error: String((error as { message?: string }).message || error)
+          }
+        : queued));
+      if (offline) break;
+      continue;
+    }
+
+    synced.push(change);
+
+    // Later changes based on the rows just written now see the server's versions
+    const { data: written } = scope ? await fetchScope(scope) : { data: null };
+    await updateQueue(changes => changes
+      .filter(queued => queued.id !== change.id)
+      .map(queued => written ? refreshBase(queued, written) : queued));
+  }
+
+  return { synced, conflicts, remaining: await getPendingChanges(), error: lastError };
+}
+
+/**
+ * Pairings of a round with their players attached, as the screens' joined
+ * queries return them, ordered by division and table. All divisions unless
+ * `divisionId` is given.
+ */
+export function getRoundPairings(snapshot: OfflineData, round: number, divisionId?: string | null): PairingWithPlayers[] {
+  const players = new Map(snapshot.players.map(player => [player.id, player]));
+  return snapshot.pairings
+    .filter(pairing => pairing.round_number === round && (!divisionId || pairing.division_id === divisionId))
+    .map(pairing => ({
+      ...pairing,
+      player1: players.get(pairing.player1_id)!,
+      player2: pairing.player2_id ? players.get(pairing.player2_id) || null : null
+    }))
+    .sort((a, b) =>
+      (a.division_id || '').localeCompare(b.division_id || '') || a.table_number - b.table_number
+    );
+}
+
+async function fetchTournamentData(tournamentId: string): Promise<OfflineData> {
+  const [tournaments, divisions, players, pairings, results, roundOptions] = await Promise.all([
+    supabase.from('tournaments').select('*').eq('id', tournamentId),
+    supabase.from('divisions').select('*').eq('tournament_id', tournamentId).order('division_number'),
+    supabase.from('players').select('*').eq('tournament_id', tournamentId).order('rating', { ascending: false }),
+    supabase.from('pairings').select('*').eq('tournament_id', tournamentId).order('round_number').order('table_number'),
+    supabase.from('results').select('*').eq('tournament_id', tournamentId),
+    supabase.from('round_pairing_options').select('*').eq('tournament_id', tournamentId)
+  ]);
+
+  const failed = [tournaments, divisions, players, pairings, results, roundOptions].find(response => response.error);
+  if (failed) throw failed.error;
+  if (!tournaments.data || tournaments.data.length === 0) {
+    throw new Error('Tournament not found');
+  }
+
+  return {
+    tournaments: tournaments.data,
+    divisions: divisions.data || [],
+    players: players.data || [],
+    pairings: pairings.data || [],
+    results: results.data || [],
+    round_pairing_options: roundOptions.data || [],
+    lastSync: new Date().toISOString()
+  };
+}
+
+async function fetchScope(scope: ChangeScope): Promise<{ data: SyncRow[] | null; error: unknown }> {
+  let query = supabase.from(scope.table).select('*');
+  Object.entries(scope.match).forEach(([column, value]) => {
+    query = value === null ? query.is(column, null) : query.eq(column, value);
+  });
+  if (scope.within) {
+    query = query.in(scope.within.column, scope.within.values);
+  }
+  return await query;
+}
+
+async function executeChange(change: NewChange & { force?: boolean }): Promise<{ data: unknown; error: unknown }> {
+  switch (change.operation) {
+    case 'insert':
+      // Keeping this device's result replaces the one another device saved
+      if (change.force && change.table === 'results') {
+        return await supabase.from(change.table).upsert(change.data as SyncRow | SyncRow[], { onConflict: 'pairing_id' });
+      }
+      return await supabase.from(change.table).insert(change.data as SyncRow | SyncRow[]);
+    case 'update':
+      return await supabase.from(change.table).update(change.data as SyncRow).match(change.match || {});
+    case 'delete':
+      return await supabase.from(change.table).delete().match(change.match || {});
+    case 'rpc':
+      return await supabase.rpc(change.table, change.data as SyncRow);
+  }
+}
+
+/**
+ * A change as it will look once it reaches the server.
+ */
+function applyChange(snapshot: OfflineData, change: NewChange): OfflineData {
+  if (change.operation === 'rpc') {
+    return change.table === 'replace_round_pairings'
+      ? replaceRoundPairingsLocally(snapshot, change.data as ReplaceRoundPairingsParams)
+      : snapshot;
+  }
+
+  const table = change.table as SnapshotTable;
+  if (!SNAPSHOT_TABLES.includes(table)) return snapshot;
+
+  const rows = snapshot[table] as unknown as SyncRow[];
+  const matches = (row: SyncRow) => Object.entries(change.match || {})
+    .every(([column, value]) => (row[column] ?? null) === value);
+  const withRows = (updated: SyncRow[]) => ({ ...snapshot, [table]: updated }) as OfflineData;
+
+  switch (change.operation) {
+    case 'insert': {
+      const inserted = (Array.isArray(change.data) ? change.data : [change.data]) as SyncRow[];
+      const ids = new Set(inserted.map(row => row.id).filter(Boolean));
+      // A game has one result, so a result replaces any other for its pairing
+      const pairingIds = new Set(table === 'results' ? inserted.map(row => row.pairing_id) : []);
+      return withRows([...rows.filter(row => !ids.has(row.id) && !pairingIds.has(row.pairing_id)), ...inserted]);
+    }
+    case 'update':
+      return withRows(rows.map(row => matches(row) ? { ...row, ...(change.data as SyncRow) } : row));
+    case 'delete':
+      return withRows(rows.filter(row => !matches(row)));
+  }
+}
+
+// Mirrors replace_round_pairings: pairings already stored keep their row and
+// player order, the rest are replaced, and results of removed pairings go
+function replaceRoundPairingsLocally(snapshot: OfflineData, params: ReplaceRoundPairingsParams): OfflineData {
+  const { p_round_number: round, p_division_id: divisionId } = params;
+  const stored = new Map(
+    snapshot.pairings.filter(row => inRound(row, round, divisionId)).map(row => [row.id, row])
+  );
+
+  const pairings: Pairing[] = params.p_pairings.map(pairing => {
+    const existing = stored.get(pairing.id);
+    if (!existing) return { ...pairing };
+
+    const swapped = existing.player1_id !== pairing.player1_id;
+    return {
+      ...existing,
+      table_number: pairing.table_number,
+      first_move_player_id: pairing.first_move_player_id,
+      player1_rank: swapped ? pairing.player2_rank ?? 0 : pairing.player1_rank,
+      player2_rank: swapped ? pairing.player1_rank : pairing.player2_rank,
+      player1_gibsonized: (swapped ? pairing.player2_gibsonized : pairing.player1_gibsonized) || false,
+      player2_gibsonized: (swapped ? pairing.player1_gibsonized : pairing.player2_gibsonized) || false
+    };
+  });
+
+  const kept = new Set(pairings.map(pairing => pairing.id));
+  const removed = new Set(Array.from(stored.keys()).filter(id => !kept.has(id)));
+
+  return {
+    ...snapshot,
+    pairings: [...snapshot.pairings.filter(row => !inRound(row, round, divisionId)), ...pairings],
+    results: snapshot.results.filter(result => !removed.has(result.pairing_id)),
+    round_pairing_options: params.p_options
+      ? [
+          ...snapshot.round_pairing_options.filter(row => !inRound(row, round, divisionId)),
+          {
+            tournament_id: params.p_tournament_id,
+            division_id: divisionId,
+            round_number: round,
+            pairing_system: params.p_pairing_system,
+            options: params.p_options
+          }
+        ]
+      : snapshot.round_pairing_options
+  };
+}
+
+function inRound(
+  row: { round_number: number; division_id?: string | null },
+  round: number,
+  divisionId: string | null
+): boolean {
+  return row.round_number === round && (row.division_id ?? null) === (divisionId ?? null);
+}
+
+function samePlayers(row: Pairing, pairing: Omit<Pairing, 'created_at'>): boolean {
+  return (row.player1_id === pairing.player1_id && (row.player2_id ?? null) === (pairing.player2_id ?? null))
+    || (!!pairing.player2_id && row.player1_id === pairing.player2_id && row.player2_id === pairing.player1_id);
+}
+
+function rowsInScope(snapshot: OfflineData, scope: ChangeScope): SyncRow[] {
+  const table = scope.table as SnapshotTable;
+  if (!SNAPSHOT_TABLES.includes(table)) return [];
+  return (snapshot[table] as unknown as SyncRow[]).filter(row => rowInScope(row, scope));
+}
+
+async function updateSnapshot(
+  tournamentId: string,
+  update: (snapshot: OfflineData) => OfflineData | Promise<OfflineData>
+): Promise<void> {
+  await writeSnapshot(tournamentId, async () => {
+    const snapshot = await getCachedTournamentData(tournamentId);
+    return snapshot ? update(snapshot) : null;
+  });
+}
+
+/**
+ * Stores the snapshot `write` returns, if any. Writes to the same
+ * tournament run one at a time so none is lost to another's read.
+ */
+function writeSnapshot<T extends OfflineData | null>(tournamentId: string, write: () => Promise<T> | T): Promise<T> {
+  const run = (snapshotTails.get(tournamentId) || Promise.resolve()).then(async () => {
+    const snapshot = await write();
+    if (snapshot) {
+      await set(snapshotKey(tournamentId), snapshot);
+    }
+    return snapshot;
+  });
+  snapshotTails.set(tournamentId, run.catch(() => undefined));
+  return run;
+}
+
+function snapshotKey(tournamentId: string): string {
+  return `tournament_${tournamentId}`;
+}
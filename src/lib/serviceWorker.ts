@@ -0,0 +1,74 @@
+/**
+ * Registers the service worker (public/sw.js) in production builds and
+ * tracks new versions. A new version waits until the page applies it, so a
+ * director mid-event is never reloaded without asking.
+ */
+
+const listeners = new Set<(waiting: ServiceWorker | null) => void>();
+let waitingWorker: ServiceWorker | null = null;
+let reloadOnTakeover = false;
+
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', async () => {
+    try {
+      const registration = await navigator.serviceWorker.register('/sw.js');
+
+      if (registration.waiting && navigator.serviceWorker.controller) {
+        setWaitingWorker(registration.waiting);
+      }
+
+      registration.addEventListener('updatefound', () => {
+        const installing = registration.installing;
+        installing?.addEventListener('statechange', () => {
+          // With no controller this is the first install, not an update
+          if (installing.state === 'installed' && navigator.serviceWorker.controller) {
+            setWaitingWorker(installing);
+          }
+        });
+      });
+
+      // Look for a new version whenever the app comes back into view
+      document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'visible') {
+          registration.update().catch(() => undefined);
+        }
+      });
+    } catch (err) {
+      console.error('Error registering service worker:', err);
+    }
+  });
+
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    if (reloadOnTakeover) {
+      window.location.reload();
+    }
+  });
+}
+
+/**
+ * Calls `listener` with the new version waiting to take over, if any, now
+ * and whenever that changes.
+ */
+export function subscribeToServiceWorkerUpdate(listener: (waiting: ServiceWorker | null) => void): () => void {
+  listeners.add(listener);
+  listener(waitingWorker);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Switches to the waiting version and reloads once it has taken over.
+ */
+export function applyServiceWorkerUpdate(): void {
+  if (!waitingWorker) return;
+  reloadOnTakeover = true;
+  waitingWorker.postMessage({ type: 'SKIP_WAITING' });
+}
+
+function setWaitingWorker(worker: ServiceWorker | null) {
+  waitingWorker = worker;
+  listeners.forEach(listener => listener(worker));
+}
@@ -4,12 +4,21 @@ export interface Player {
   rating: number;
   tournament_id: string;
   team_name?: string; // Added for team mode
+  division_id?: string | null; // Division the player competes in
+  status?: PlayerStatus; // Defaults to active
+  suspended_round?: number | null; // Round a suspended player sits out
+  late_entry_round?: number | null; // First round a late entrant is paired in
+  career_games?: number | null; // Rated games played before this tournament; sets the K-factor
+  fixed_table?: number | null; // Table the player always plays at, e.g. for mobility needs
   created_at?: string;
 }
 
+export type PlayerStatus = 'active' | 'withdrawn' | 'suspended';
+
 export interface Tournament {
   id: string;
   name: string;
+  slug?: string | null; // Readable public URL, e.g. /tournaments/spring-open
   date?: string;
   venue?: string;
   rounds?: number;
@@ -20,6 +29,8 @@ export interface Tournament {
   last_activity?: string;
   created_at: string;
   team_mode?: boolean; // Added for team mode
+  password?: string | null; // Viewers must enter it on the public page
+  public_sharing_enabled?: boolean;
   // Tournament configuration
   pairing_system?: PairingFormat;
   wizard_responses?: WizardResponses;
@@ -66,20 +77,25 @@ export interface Pairing {
   id?: string;
   round_number: number;
   tournament_id: string;
+  division_id?: string | null;
   table_number: number;
   player1_id: string;
-  player2_id: string;
+  player2_id: string | null; // Null for a bye
   player1_rank: number;
-  player2_rank: number;
+  player2_rank: number | null;
   first_move_player_id: string;
   player1_gibsonized?: boolean;
   player2_gibsonized?: boolean;
+  is_bye?: boolean; // Player 1 sits out and receives the bye award
   created_at?: string;
+  updated_at?: string; // Set by the database on every change
 }
 
 export interface PlayerWithRank extends Player {
   rank: number;
   previous_starts: number;
+  /** Games in which the opponent moved first, from the same rounds as `previous_starts` */
+  previous_replies?: number;
   wins: number;
   losses: number;
   draws: number;
@@ -91,15 +107,16 @@ export interface PlayerWithRank extends Player {
 export interface PairingDisplay {
   table_number: number;
   player1: PlayerWithRank;
-  player2: PlayerWithRank;
+  player2: PlayerWithRank | null; // Null for a bye
   first_move_player_id: string;
   player1_gibsonized?: boolean;
   player2_gibsonized?: boolean;
+  is_bye?: boolean;
 }
 
 export interface PairingWithPlayers extends Pairing {
   player1: Player;
-  player2: Player;
+  player2: Player | null;
 }
 
 export interface Result {
@@ -109,8 +126,33 @@ export interface Result {
   round_number: number;
   player1_score: number;
   player2_score: number;
-  winner_id: string | null;
+  winner_id: string | null; // On a forfeit, the player who showed up; null if both forfeited
   submitted_by: string | null;
+  entered_by?: string | null; // Scorekeeper name of the device that saved it
+  is_forfeit?: boolean;
+  created_at?: string;
+  updated_at?: string; // Set by the database on every change
+}
+
+// A player's report of their game's score, in the pairing's player order
+export interface ResultSubmission {
+  id: string;
+  tournament_id: string;
+  pairing_id: string;
+  player_id: string;
+  player1_score: number;
+  player2_score: number;
+  status: 'pending' | 'confirmed' | 'disputed' | 'resolved';
+  created_at: string;
+  updated_at?: string;
+}
+
+export interface PlayerReportPin {
+  player_id: string;
+  tournament_id: string;
+  pin: string;
+  failed_attempts: number;
+  locked_until?: string | null;
   created_at?: string;
 }
 
@@ -197,8 +239,83 @@ export interface TournamentConfig {
   wizard_completed: boolean;
   recommended_system: PairingFormat;
   recommendation_reasoning: string;
+  gibson_prize_places?: number; // Paid places a player can clinch to be Gibsonized
+  gibson_spread_per_game?: number | null; // Assumed max spread per remaining game; null ignores spread
+  tiebreak_chain?: TiebreakRule[]; // Applied in order after points
+  bye_result?: 'win' | 'draw' | 'loss'; // Result awarded for a bye
+  bye_spread?: number; // Spread awarded for a bye
+  forfeit_spread?: number; // Spread won and lost on a forfeit
+  late_entry_points?: number; // Provisional points per round a late entrant missed
+  pairing_schedule?: PairingScheduleEntry[]; // Rounds paired differently from the defaults above
+  venue_tables?: VenueTable[]; // Tables in the venue, best boards first; defaults to 1, 2, 3...
+  top_boards?: number; // Leading games that always get the first venue tables
+}
+
+export interface VenueTable {
+  number: number;
+  name?: string; // e.g. "Feature Board" or "Stage"
+}
+
+// How one round is paired, e.g. "pair round 7 King of the Hill based on round 5"
+export interface PairingScheduleEntry {
+  round: number;
+  pairing_system: PairingFormat;
+  based_on_round: number; // Last round whose results rank the players; normally the previous round
+  avoid_rematches: boolean;
+  rematch_tolerance: number; // Earlier meetings ignored before a rematch is avoided
 }
 
+// Per-round pairing choices, saved with the locked round so it can be reproduced
+export interface PairingOptions {
+  avoid_rematches: boolean;
+  rematch_tolerance: number; // Earlier meetings ignored before a rematch is avoided
+  gibsonization: boolean;
+  fixed_pairs: [string, string][]; // Player id pairs the director has set
+  forced_byes: string[]; // Player ids given a bye this round
+  sit_outs: string[]; // Player ids left out of this round entirely
+  based_on_round?: number | null; // Last round whose results rank the players; null uses every result
+}
+
+export interface RoundPairingOptions {
+  id?: string;
+  tournament_id: string;
+  division_id?: string | null;
+  round_number: number;
+  pairing_system: PairingFormat;
+  options: PairingOptions;
+  created_at?: string;
+}
+
+// A director's what-if plan for the rest of a tournament, saved by name
+export interface StandingsScenario {
+  id?: string;
+  tournament_id: string;
+  division_id?: string | null;
+  name: string;
+  description?: string;
+  from_round: number; // Round the scenario starts from; earlier rounds are real results
+  games: ScenarioGame[];
+  created_at?: string;
+}
+
+export interface ScenarioGame {
+  round: number;
+  pairing_id?: string | null; // The real pairing, for rounds already paired
+  player1_id: string;
+  player2_id: string | null; // Null for a bye
+  player1_score: number;
+  player2_score: number;
+}
+
+export type TiebreakRule =
+  | 'spread'
+  | 'cumulative_spread'
+  | 'head_to_head'
+  | 'buchholz'
+  | 'median_buchholz'
+  | 'opponent_rating'
+  | 'rating';
+
 // Add global types for Speech Recognition
 declare global {
   interface Window {
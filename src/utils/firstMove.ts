@@ -0,0 +1,124 @@
+import { PairingDisplay } from '../types/database';
+
+/**
+ * Who moves first, decided the same way by every pairing system:
+ *  1. nobody starts (or replies) three games in a row if the other player can take the turn
+ *  2. the player with fewer starts than replies starts
+ *  3. players meeting again swap who started last time
+ *  4. otherwise player 1 starts on odd tables and player 2 on even ones
+ */
+
+/** A game whose first move counts, as stored on a pairing. */
+export interface FirstMoveGame {
+  round_number?: number;
+  player1_id: string;
+  player2_id: string | null;
+  first_move_player_id?: string | null;
+  is_bye?: boolean;
+}
+
+export interface FirstMoveRecord {
+  starts: number;
+  replies: number;
+  /** Consecutive starts (positive) or replies (negative) ending with the latest game */
+  streak: number;
+}
+
+export interface FirstMoveHistory {
+  records: Map<string, FirstMoveRecord>;
+  /** Who started the latest meeting of each pair of players */
+  lastStarters: Map<string, string>;
+}
+
+/** Longest run of starts or replies the policy allows. */
+export const MAX_CONSECUTIVE_FIRST_MOVES = 2;
+
+const EMPTY_RECORD: FirstMoveRecord = { starts: 0, replies: 0, streak: 0 };
+
+/**
+ * Collects starts, replies and streaks from earlier games. Byes and games
+ * without a recorded first move are skipped.
+ */
+export function buildFirstMoveHistory(games: FirstMoveGame[]): FirstMoveHistory {
+  const records = new Map<string, FirstMoveRecord>();
+  const lastStarters = new Map<string, string>();
+
+  const record = (playerId: string, started: boolean) => {
+    const current = records.get(playerId) || EMPTY_RECORD;
+    records.set(playerId, {
+      starts: current.starts + (started ? 1 : 0),
+      replies: current.replies + (started ? 0 : 1),
+      streak: started
+        ? Math.max(current.streak, 0) + 1
+        : Math.min(current.streak, 0) - 1
+    });
+  };
+
+  [...games]
+    .sort((a, b) => (a.round_number ?? 0) - (b.round_number ?? 0))
+    .forEach(game => {
+      if (game.is_bye || !game.player2_id || !game.first_move_player_id) return;
+      const starter = game.first_move_player_id;
+      if (starter !== game.player1_id && starter !== game.player2_id) return;
+
+      record(game.player1_id, starter === game.player1_id);
+      record(game.player2_id, starter === game.player2_id);
+      lastStarters.set(pairKey(game.player1_id, game.player2_id), starter);
+    });
+
+  return { records, lastStarters };
+}
+
+export function getFirstMoveRecord(history: FirstMoveHistory, playerId: string): FirstMoveRecord {
+  return history.records.get(playerId) || EMPTY_RECORD;
+}
+
+/**
+ * Picks who moves first at one table.
+ * @returns The id of the player who starts
+ */
+export function chooseFirstMove(
+  player1Id: string,
+  player2Id: string,
+  history: FirstMoveHistory,
+  tableNumber: number
+): string {
+  const first = getFirstMoveRecord(history, player1Id);
+  const second = getFirstMoveRecord(history, player2Id);
+
+  // Avoid a third start or reply in a row, unless both players are on one
+  const firstShouldStart = first.streak <= -MAX_CONSECUTIVE_FIRST_MOVES || second.streak >= MAX_CONSECUTIVE_FIRST_MOVES;
+  const secondShouldStart = second.streak <= -MAX_CONSECUTIVE_FIRST_MOVES || first.streak >= MAX_CONSECUTIVE_FIRST_MOVES;
+  if (firstShouldStart !== secondShouldStart) {
+    return firstShouldStart ? player1Id : player2Id;
+  }
+
+  const firstBalance = first.starts - first.replies;
+  const secondBalance = second.starts - second.replies;
+  if (firstBalance !== secondBalance) {
+    return firstBalance < secondBalance ? player1Id : player2Id;
+  }
+
+  const lastStarter = history.lastStarters.get(pairKey(player1Id, player2Id));
+  if (lastStarter) {
+    return lastStarter === player1Id ? player2Id : player1Id;
+  }
+
+  return tableNumber % 2 === 1 ? player1Id : player2Id;
+}
+
+/**
+ * Sets the first move at every table of a round. Byes keep their player.
+ */
+export function assignFirstMoves(pairings: PairingDisplay[], history: FirstMoveHistory): PairingDisplay[] {
+  return pairings.map(pairing => ({
+    ...pairing,
+    first_move_player_id: pairing.player2
+      ? chooseFirstMove(pairing.player1.id!, pairing.player2.id!, history, pairing.table_number)
+      : pairing.player1.id!
+  }));
+}
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
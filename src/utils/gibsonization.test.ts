@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { PlayerWithRank } from '../types/database';
+import { calculateGibsonStatus, getGibsonConfig } from './gibsonization';
+
+const player = (id: string, points: number, spread = 0, extra: Partial<PlayerWithRank> = {}): PlayerWithRank => ({
+  id,
+  name: id.toUpperCase(),
+  rating: 1500,
+  tournament_id: 't1',
+  rank: 0,
+  previous_starts: 0,
+  wins: points,
+  losses: 0,
+  draws: 0,
+  points,
+  spread,
+  is_gibsonized: false,
+  ...extra
+});
+
+describe('calculateGibsonStatus', () => {
+  it('Gibsonizes a leader nobody can catch', () => {
+    const statuses = calculateGibsonStatus([player('a', 7), player('b', 4), player('c', 3)], 2);
+
+    expect(statuses.get('a')).toMatchObject({ best_place: 1, worst_place: 1, is_gibsonized: true });
+    expect(statuses.get('b')).toMatchObject({ best_place: 2, worst_place: 3, is_contender: false });
+  });
+
+  it('lets spread hold off a rival who can only tie on points', () => {
+    const players = [player('a', 6, 600), player('b', 4)];
+
+    expect(calculateGibsonStatus(players, 2, { prizePlaces: 1, spreadPerGame: 100 }).get('a')!.is_gibsonized).toBe(true);
+    // Without a spread assumption a tie on points is catchable
+    expect(calculateGibsonStatus(players, 2, { prizePlaces: 1, spreadPerGame: null }).get('a')!.is_gibsonized).toBe(false);
+  });
+
+  it('only Gibsonizes places that are paid', () => {
+    const players = [player('a', 10), player('b', 7), player('c', 3), player('d', 2)];
+
+    expect(calculateGibsonStatus(players, 2, { prizePlaces: 1, spreadPerGame: 250 }).get('b')).toMatchObject({
+      best_place: 2,
+      worst_place: 2,
+      is_gibsonized: false
+    });
+    expect(calculateGibsonStatus(players, 2, { prizePlaces: 2, spreadPerGame: 250 }).get('b')!.is_gibsonized).toBe(true);
+  });
+
+  it('Gibsonizes nobody once there are no games left', () => {
+    const statuses = calculateGibsonStatus([player('a', 7), player('b', 0)], 0);
+
+    expect(statuses.get('a')).toMatchObject({ best_place: 1, worst_place: 1, is_gibsonized: false });
+  });
+
+  it('holds a withdrawn player to the points they have', () => {
+    const players = [player('a', 6, 0, { status: 'withdrawn' }), player('b', 5), player('c', 0)];
+    const statuses = calculateGibsonStatus(players, 2);
+
+    expect(statuses.get('a')).toMatchObject({ best_place: 1, worst_place: 2, is_gibsonized: false });
+    expect(statuses.get('b')).toMatchObject({ best_place: 1, worst_place: 2, is_contender: true });
+  });
+});
+
+describe('getGibsonConfig', () => {
+  it('falls back to one paid place and 250 spread per game, but keeps an explicit null', () => {
+    expect(getGibsonConfig(null)).toEqual({ prizePlaces: 1, spreadPerGame: 250 });
+    expect(getGibsonConfig({ gibson_prize_places: 3, gibson_spread_per_game: null })).toEqual({
+      prizePlaces: 3,
+      spreadPerGame: null
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { PlayerWithRank, TournamentConfig } from '../types/database';
+import { PairingHistoryEntry } from './swissPairingEngine';
+
+/**
+ * Gibsonization per NASPA rules: once a player has mathematically clinched a
+ * prize place, they are paired against the highest-ranked player who can no
+ * longer win a prize, so their remaining games do not decide other prizes.
+ */
+
+export interface GibsonConfig {
+  /** Number of paid places; only clinches within these places Gibsonize a player */
+  prizePlaces: number;
+  /** Assumed maximum spread swing per remaining game, or null to ignore spread */
+  spreadPerGame: number | null;
+}
+
+export const DEFAULT_GIBSON_CONFIG: GibsonConfig = {
+  prizePlaces: 1,
+  spreadPerGame: 250
+};
+
+export interface GibsonStatus {
+  player_id: string;
+  /** Best final place still mathematically possible */
+  best_place: number;
+  /** Worst final place still mathematically possible */
+  worst_place: number;
+  /** Final place is fixed and within the paid places */
+  is_gibsonized: boolean;
+  /** Can still finish within the paid places */
+  is_contender: boolean;
+}
+
+// Points are compared before spread; this keeps any realistic spread below one half-point
+const POINTS_SCALE = 10_000_000;
+
+/**
+ * Reads Gibson settings from tournament configuration, falling back to defaults.
+ */
+export function getGibsonConfig(config?: Partial<TournamentConfig> | null): GibsonConfig {
+  return {
+    prizePlaces: Math.max(1, config?.gibson_prize_places ?? DEFAULT_GIBSON_CONFIG.prizePlaces),
+    spreadPerGame: config?.gibson_spread_per_game === undefined
+      ? DEFAULT_GIBSON_CONFIG.spreadPerGame
+      : config.gibson_spread_per_game
+  };
+}
+
+/**
+ * Determines the range of places each player can still finish in.
+ * Withdrawn players play no more games, so their points are final but
+ * they still hold their place against everyone else.
+ * Runs in O(n log n): each player's worst and best outcomes are compared
+ * against the sorted best and worst outcomes of the whole field.
+ */
+export function calculateGibsonStatus(
+  players: PlayerWithRank[],
+  remainingRounds: number,
+  config: GibsonConfig = DEFAULT_GIBSON_CONFIG
+): Map<string, GibsonStatus> {
+  const statuses = new Map<string, GibsonStatus>();
+  const gamesLeft = (player: PlayerWithRank) => player.status === 'withdrawn' ? 0 : remainingRounds;
+  const spreadSwing = (player: PlayerWithRank) =>
+    config.spreadPerGame === null ? 0 : config.spreadPerGame * gamesLeft(player);
+
+  // Without a spread assumption, equal points must be treated as catchable
+  const outcome = (points: number, spread: number) =>
+    config.spreadPerGame === null ? points * POINTS_SCALE : points * POINTS_SCALE + spread;
+
+  const floors = players.map(p => outcome(p.points, p.spread - spreadSwing(p)));
+  const ceilings = players.map(p => outcome(p.points + gamesLeft(p), p.spread + spreadSwing(p)));
+  const sortedFloors = [...floors].sort((a, b) => a - b);
+  const sortedCeilings = [...ceilings].sort((a, b) => a - b);
+
+  players.forEach((player, index) => {
+    // Everyone whose best case reaches this player's worst case can finish ahead
+    const canPass = players.length - lowerBound(sortedCeilings, floors[index]) - 1;
+    // Everyone whose worst case beats this player's best case will finish ahead
+    const certainlyAhead = players.length - upperBound(sortedFloors, ceilings[index]);
+
+    const bestPlace = certainlyAhead + 1;
+    const worstPlace = canPass + 1;
+
+    statuses.set(player.id!, {
+      player_id: player.id!,
+      best_place: bestPlace,
+      worst_place: worstPlace,
+      is_gibsonized: gamesLeft(player) > 0 && worstPlace <= config.prizePlaces && bestPlace === worstPlace,
+      is_contender: bestPlace <= config.prizePlaces
+    });
+  });
+
+  return statuses;
+}
+
+/**
+ * Pairs Gibsonized players before the rest of the field is paired. Gibsonized
+ * players meet each other first; a lone Gibsonized player meets the
+ * highest-ranked non-contender (or the lowest-ranked player if everyone is
+ * still in contention).
+ * @param players Players sorted by standings
+ * @returns The Gibson pairs and the players left for the regular pairing system
+ */
+export function pairGibsonizedPlayers(
+  players: PlayerWithRank[],
+  statuses: Map<string, GibsonStatus>,
+  avoidRematches: boolean,
+  previousPairings: PairingHistoryEntry[]
+): { pairs: Array<[PlayerWithRank, PlayerWithRank]>; remaining: PlayerWithRank[] } {
+  const gibsonized = players.filter(p => p.is_gibsonized);
+  const remaining = players.filter(p => !p.is_gibsonized);
+  const pairs: Array<[PlayerWithRank, PlayerWithRank]> = [];
+
+  const hasMet = (a: PlayerWithRank, b: PlayerWithRank) =>
+    previousPairings.some(pairing =>
+      (pairing.player1_id === a.id && pairing.player2_id === b.id) ||
+      (pairing.player1_id === b.id && pairing.player2_id === a.id)
+    );
+
+  while (gibsonized.length >= 2) {
+    const player1 = gibsonized.shift()!;
+    let opponentIndex = avoidRematches ? gibsonized.findIndex(p => !hasMet(player1, p)) : 0;
+    if (opponentIndex === -1) opponentIndex = 0;
+    pairs.push([player1, gibsonized.splice(opponentIndex, 1)[0]]);
+  }
+
+  if (gibsonized.length === 1 && remaining.length > 0) {
+    const player = gibsonized[0];
+    const nonContenders = remaining.filter(p => !statuses.get(p.id!)?.is_contender);
+    const candidates = nonContenders.length > 0 ? nonContenders : [remaining[remaining.length - 1]];
+
+    let opponent = avoidRematches ? candidates.find(p => !hasMet(player, p)) : undefined;
+    if (!opponent) opponent = candidates[0];
+
+    remaining.splice(remaining.indexOf(opponent), 1);
+    pairs.push([player, opponent]);
+  } else if (gibsonized.length === 1) {
+    remaining.push(gibsonized[0]);
+  }
+
+  return { pairs, remaining };
+}
+
+// First index whose value is >= target
+function lowerBound(sorted: number[], target: number): number {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (sorted[mid] < target) low = mid + 1; else high = mid;
+  }
+  return low;
+}
+
+// First index whose value is > target
+function upperBound(sorted: number[], target: number): number {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (sorted[mid] <= target) low = mid + 1; else high = mid;
+  }
+  return low;
+}
@@ -0,0 +1,125 @@
+import { PairingDisplay, PlayerWithRank } from '../types/database';
+import { buildFirstMoveHistory, chooseFirstMove, FirstMoveHistory } from './firstMove';
+
+/**
+ * Edits behind the manual pairing board. Each operation returns a new list
+ * of pairings in the same board order, renumbered from table 1 (venue tables
+ * are assigned again afterwards); a table left with one player becomes
+ * that player's bye and a table left empty is removed. Tables whose players
+ * change get a fresh first move from the shared policy, using `history`.
+ */
+
+/** A seat at a table; `'new'` is a table that does not exist yet. */
+export type SeatTarget = { tableNumber: number; side: 1 | 2 } | 'new';
+
+interface Table {
+  seats: [PlayerWithRank | null, PlayerWithRank | null];
+  firstMovePlayerId: string | null;
+}
+
+/**
+ * Seats a player at a table. If the seat is taken, its occupant moves to
+ * the seat the player came from (or back to the unpaired list).
+ */
+export function seatPlayer(
+  pairings: PairingDisplay[],
+  player: PlayerWithRank,
+  target: SeatTarget,
+  history: FirstMoveHistory = buildFirstMoveHistory([])
+): PairingDisplay[] {
+  const tables = toTables(pairings);
+  const source = findSeat(tables, player.id!);
+
+  if (target === 'new') {
+    if (source) tables[source.table].seats[source.side] = null;
+    tables.push({ seats: [player, null], firstMovePlayerId: null });
+    return fromTables(tables, history);
+  }
+
+  const tableIndex = pairings.findIndex(pairing => pairing.table_number === target.tableNumber);
+  const side = target.side - 1;
+  if (!tables[tableIndex]) return pairings;
+
+  const occupant = tables[tableIndex].seats[side];
+  if (source) tables[source.table].seats[source.side] = occupant;
+  tables[tableIndex].seats[side] = player;
+
+  // A new opponent means a fresh first-move decision
+  tables[tableIndex].firstMovePlayerId = null;
+  if (source) tables[source.table].firstMovePlayerId = null;
+
+  return fromTables(tables, history);
+}
+
+/**
+ * Takes a player off the board and back to the unpaired list.
+ */
+export function unseatPlayer(
+  pairings: PairingDisplay[],
+  playerId: string,
+  history: FirstMoveHistory = buildFirstMoveHistory([])
+): PairingDisplay[] {
+  const tables = toTables(pairings);
+  const seat = findSeat(tables, playerId);
+  if (!seat) return pairings;
+
+  tables[seat.table].seats[seat.side] = null;
+  tables[seat.table].firstMovePlayerId = null;
+  return fromTables(tables, history);
+}
+
+/**
+ * Gives the first move at a table to the other player.
+ */
+export function toggleFirstMove(pairings: PairingDisplay[], tableNumber: number): PairingDisplay[] {
+  return pairings.map(pairing => {
+    if (pairing.table_number !== tableNumber || !pairing.player2) return pairing;
+    return {
+      ...pairing,
+      first_move_player_id: pairing.first_move_player_id === pairing.player1.id
+        ? pairing.player2.id!
+        : pairing.player1.id!
+    };
+  });
+}
+
+/**
+ * Available players who are not seated at any table.
+ */
+export function unpairedPlayers(pairings: PairingDisplay[], players: PlayerWithRank[]): PlayerWithRank[] {
+  const seated = new Set(pairings.flatMap(pairing => [pairing.player1.id, pairing.player2?.id]));
+  return players.filter(player => !seated.has(player.id));
+}
+
+function toTables(pairings: PairingDisplay[]): Table[] {
+  return pairings.map(pairing => ({
+    seats: [pairing.player1, pairing.player2],
+    firstMovePlayerId: pairing.first_move_player_id
+  }));
+}
+
+function findSeat(tables: Table[], playerId: string): { table: number; side: 0 | 1 } | null {
+  for (let table = 0; table < tables.length; table++) {
+    if (tables[table].seats[0]?.id === playerId) return { table, side: 0 };
+    if (tables[table].seats[1]?.id === playerId) return { table, side: 1 };
+  }
+  return null;
+}
+
+function fromTables(tables: Table[], history: FirstMoveHistory): PairingDisplay[] {
+  return tables
+    .map(table => table.seats.filter((player): player is PlayerWithRank => player !== null))
+    .map((seated, index) => ({ seated, firstMovePlayerId: tables[index].firstMovePlayerId }))
+    .filter(({ seated }) => seated.length > 0)
+    .map(({ seated: [player1, player2 = null], firstMovePlayerId }, index) => ({
+      table_number: index + 1,
+      player1,
+      player2,
+      first_move_player_id: firstMovePlayerId && [player1.id, player2?.id].includes(firstMovePlayerId)
+        ? firstMovePlayerId
+        : player2 ? chooseFirstMove(player1.id!, player2.id!, history, index + 1) : player1.id!,
+      player1_gibsonized: player1.is_gibsonized,
+      player2_gibsonized: player2?.is_gibsonized || false,
+      is_bye: !player2
+    }));
+}
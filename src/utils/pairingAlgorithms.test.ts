@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { PlayerWithRank } from '../types/database';
+import { generatePairings } from './pairingAlgorithms';
+
+const player = (id: string, points: number, spread: number): PlayerWithRank => ({
+  id,
+  name: id.toUpperCase(),
+  rating: 1500,
+  tournament_id: 't1',
+  rank: 0,
+  previous_starts: 0,
+  wins: points,
+  losses: 4 - points,
+  draws: 0,
+  points,
+  spread,
+  is_gibsonized: false
+});
+
+// After four rounds the leader is two wins clear of the field
+const field = [player('a', 4, 400), player('b', 2, 100), player('c', 2, 0), player('d', 0, -500)];
+
+const gibsonizedIds = (totalRounds: number) =>
+  generatePairings(field.map(p => ({ ...p })), 'swiss', [], 5, totalRounds).flatMap(pairing => [
+    ...(pairing.player1_gibsonized ? [pairing.player1.id] : []),
+    ...(pairing.player2_gibsonized ? [pairing.player2?.id] : [])
+  ]);
+
+describe('generatePairings Gibsonization', () => {
+  it('Gibsonizes a leader who has clinched with the rounds left in the event', () => {
+    // One round left in a 5-round event: nobody can catch two wins
+    expect(gibsonizedIds(5)).toEqual(['a']);
+  });
+
+  it('counts the remaining rounds from the event length, not a fixed 7', () => {
+    // Three rounds left in a 7-round event: the leader can still be caught
+    expect(gibsonizedIds(7)).toEqual([]);
+  });
+
+  it('keeps a withdrawn player ahead on points as a rival whose points are final', () => {
+    // Seven rounds played, two left: the withdrawn player's 6 wins can still
+    // finish above the leader's 5, so first place is not settled
+    const withWithdrawn = [
+      { ...player('w', 6, 600), status: 'withdrawn' as const },
+      player('a', 5, 400), player('b', 2, 100), player('c', 2, 0), player('d', 0, -500)
+    ];
+    const pairings = generatePairings(withWithdrawn, 'swiss', [], 8, 9);
+
+    expect(pairings.some(pairing => pairing.player1_gibsonized || pairing.player2_gibsonized)).toBe(false);
+  });
+});
@@ -1,212 +1,276 @@
-import { PlayerWithRank, PairingDisplay, PairingFormat } from '../types/database';
-
+import { Player, PlayerWithRank, PairingDisplay, PairingFormat, PairingOptions, TiebreakRule } from '../types/database';
+import { pairSwissByMatching, PairingHistoryEntry } from './swissPairingEngine';
+import { buildRoundRobinSchedule, cyclesForRounds, RoundRobinRound } from './roundRobinScheduler';
+import {
+  calculateGibsonStatus,
+  pairGibsonizedPlayers,
+  GibsonConfig,
+  GibsonStatus,
+  DEFAULT_GIBSON_CONFIG
+} from './gibsonization';
+import { rankByTiebreaks, DEFAULT_TIEBREAK_CHAIN } from './tiebreaks';
+import { isAvailableForRound } from './playerStatus';
+import { assignFirstMoves, buildFirstMoveHistory } from './firstMove';
+
+export const DEFAULT_PAIRING_OPTIONS: PairingOptions = {
+  avoid_rematches: true,
+  rematch_tolerance: 0,
+  gibsonization: true,
+  fixed_pairs: [],
+  forced_byes: [],
+  sit_outs: []
+};
+
+/**
+ * Pairs one round. `options` holds the director's overrides for this round:
+ * fixed pairs take the top tables, forced byes and sit-outs are removed from
+ * the field before the chosen system pairs everyone else. Round robin
+ * schedules are fixed in advance, so the overrides do not apply to them.
+ * Players' points and spread must be their standings as of
+ * `options.based_on_round`, which defaults to the previous round. Who moves
+ * first follows the shared policy in `firstMove`, except in round robins,
+ * whose schedule already alternates starts.
+ * `totalRounds` is the event's length; Gibsonization counts the rounds left
+ * from it, so it has no default.
+ */
 export function generatePairings(
   players: PlayerWithRank[],
   format: PairingFormat,
-  avoidRematches: boolean,
-  previousPairings: Array<{ player1_id: string; player2_id: string }> = [],
-  currentRound: number = 1,
-  totalRounds: number = 7
+  previousPairings: PairingHistoryEntry[],
+  currentRound: number,
+  totalRounds: number,
+  options: Partial<PairingOptions> = {},
+  gibsonConfig: GibsonConfig = DEFAULT_GIBSON_CONFIG,
+  tiebreakChain: TiebreakRule[] = DEFAULT_TIEBREAK_CHAIN
 ): PairingDisplay[] {
-  // Calculate current standings and Gibsonization status
-  const playersWithGibsonization = calculateGibsonization(players, currentRound, totalRounds);
-  
-  // Sort players by current standings (points, then spread, then rating)
-  const sortedPlayers = [...playersWithGibsonization].sort((a, b) => {
-    if (a.points !== b.points) return b.points - a.points;
-    if (a.spread !== b.spread) return b.spread - a.spread;
-    return b.rating - a.rating;
-  });
+  const {
+    avoid_rematches: avoidRematches,
+    rematch_tolerance: rematchTolerance,
+    gibsonization,
+    fixed_pairs: fixedPairs,
+    forced_byes: forcedByes,
+    sit_outs: sitOuts,
+    based_on_round: basedOnRound
+  } = { ...DEFAULT_PAIRING_OPTIONS, ...options };
+
+  // Rounds after the based-on round may still be in play; they count for
+  // rematches and byes but not for the standings the field is ranked on
+  const standingsRound = basedOnRound ?? currentRound - 1;
+  const rankedGames = previousPairings.filter(pairing => (pairing.round_number ?? 0) <= standingsRound);
+
+  // Sort players by standings (points, then the tournament's tiebreak chain)
+  const sortedPlayers = rankByTiebreaks(
+    players.map(player => ({ ...player, id: player.id! })),
+    rankedGames,
+    tiebreakChain
+  );
   
   // Assign current ranks based on standings
   sortedPlayers.forEach((player, index) => {
     player.rank = index + 1;
   });
 
-  switch (format) {
-    case 'swiss':
-      return generateSwissPairings(sortedPlayers, avoidRematches, previousPairings);
-    case 'fonte-swiss':
-      return generateFonteSwissPairings(sortedPlayers, avoidRematches, previousPairings);
-    case 'king-of-hill':
-      return generateKingOfHillPairings(sortedPlayers, avoidRematches, previousPairings);
-    case 'round-robin':
-      return generateRoundRobinPairings(sortedPlayers, avoidRematches, previousPairings);
-    case 'quartile':
-      return generateQuartilePairings(sortedPlayers, avoidRematches, previousPairings);
-    case 'manual':
-      return generateManualPairings(sortedPlayers);
-    default:
-      return generateSwissPairings(sortedPlayers, avoidRematches, previousPairings);
+  // Round robin pairings are fixed in advance
+  if (format === 'round-robin') {
+    return generateRoundRobinPairings(sortedPlayers, currentRound, totalRounds);
   }
-}
 
-function calculateGibsonization(
-  players: PlayerWithRank[],
-  currentRound: number,
-  totalRounds: number
-): PlayerWithRank[] {
-  const remainingRounds = totalRounds - currentRound + 1;
-  const totalPlayers = players.length;
-  
-  // Calculate prize thresholds (top quarter for first place, top half for podium)
-  const firstPlaceThreshold = Math.ceil(totalPlayers * 0.25);
-  const podiumThreshold = Math.ceil(totalPlayers * 0.5);
-  
-  return players.map(player => {
-    let isGibsonized = false;
-    
-    // Sort all players by current standings to determine position
-    const sortedByStandings = [...players].sort((a, b) => {
-      if (a.points !== b.points) return b.points - a.points;
-      if (a.spread !== b.spread) return b.spread - a.spread;
-      return b.rating - a.rating;
+  // Withdrawn, suspended and not-yet-arrived players keep their rank but are not paired
+  const availablePlayers = sortedPlayers.filter(player =>
+    isAvailableForRound(player, currentRound) && !sitOuts.includes(player.id!)
+  );
+  const playersById = new Map(availablePlayers.map(player => [player.id!, player]));
+
+  // The director's fixed pairs and byes come first; unknown or repeated players are skipped
+  const placed = new Set<string>();
+  const fixedPairings: PairingDisplay[] = [];
+  fixedPairs.forEach(([player1Id, player2Id]) => {
+    const player1 = playersById.get(player1Id);
+    const player2 = playersById.get(player2Id);
+    if (!player1 || !player2 || player1 === player2 || placed.has(player1Id) || placed.has(player2Id)) return;
+    placed.add(player1Id);
+    placed.add(player2Id);
+    const tableNumber = fixedPairings.length + 1;
+    fixedPairings.push({
+      table_number: tableNumber,
+      player1,
+      player2,
+      first_move_player_id: player1.id!,
+      player1_gibsonized: false,
+      player2_gibsonized: false
     });
-    
-    const currentPosition = sortedByStandings.findIndex(p => p.id === player.id) + 1;
-    const maxPossiblePoints = player.points + remainingRounds;
-    
-    // Check if player is guaranteed first place
-    if (currentPosition <= firstPlaceThreshold) {
-      // Find the highest points of players outside first place threshold
-      const competitorPoints = sortedByStandings
-        .slice(firstPlaceThreshold)
-        .map(p => p.points + remainingRounds);
-      
-      const maxCompetitorPoints = Math.max(...competitorPoints, 0);
-      
-      // If player's minimum possible points exceed max competitor points, they're Gibsonized
-      if (player.points > maxCompetitorPoints) {
-        isGibsonized = true;
-      }
-    }
-    
-    // Check if player is guaranteed podium (alternative Gibsonization)
-    if (!isGibsonized && currentPosition <= podiumThreshold) {
-      const competitorPoints = sortedByStandings
-        .slice(podiumThreshold)
-        .map(p => p.points + remainingRounds);
-      
-      const maxCompetitorPoints = Math.max(...competitorPoints, 0);
-      
-      if (player.points > maxCompetitorPoints) {
-        isGibsonized = true;
-      }
-    }
-    
-    return {
-      ...player,
-      is_gibsonized: isGibsonized
-    };
   });
-}
+  const forcedByePlayers = forcedByes.flatMap(playerId => {
+    const player = playersById.get(playerId);
+    return player && !placed.has(playerId) ? [player] : [];
+  });
+  forcedByePlayers.forEach(player => placed.add(player.id!));
 
-function generateSwissPairings(
-  players: PlayerWithRank[],
-  avoidRematches: boolean,
-  previousPairings: Array<{ player1_id: string; player2_id: string }>
-): PairingDisplay[] {
-  const pairings: PairingDisplay[] = [];
-  const availablePlayers = [...players];
-  let tableNumber = 1;
+  const unplaced = availablePlayers.filter(player => !placed.has(player.id!));
+  const firstMoveHistory = buildFirstMoveHistory(previousPairings);
+  if (format === 'manual') {
+    return assignFirstMoves(appendByes(fixedPairings, forcedByePlayers), firstMoveHistory);
+  }
 
-  // Handle Gibsonized players first
-  const gibsonizedPlayers = availablePlayers.filter(p => p.is_gibsonized);
-  const nonGibsonizedPlayers = availablePlayers.filter(p => !p.is_gibsonized);
+  // Meetings within the tolerance do not count as rematches to avoid
+  const rematchPairings = ignoreToleratedMeetings(previousPairings, rematchTolerance);
+
+  // Players who have clinched a paid place are paired before the rest of the field.
+  // Withdrawn players stay in as rivals whose points are final.
+  const remainingRounds = Math.max(0, totalRounds - standingsRound);
+  const gibsonStatus = gibsonization
+    ? calculateGibsonStatus(sortedPlayers, remainingRounds, gibsonConfig)
+    : new Map<string, GibsonStatus>();
+  sortedPlayers.forEach(player => {
+    player.is_gibsonized = gibsonStatus.get(player.id!)?.is_gibsonized || false;
+  });
 
-  // Pair Gibsonized players together (KOTH style)
-  while (gibsonizedPlayers.length >= 2) {
-    const player1 = gibsonizedPlayers.shift()!;
-    let player2Index = 0;
+  // An odd field sits one player out before anyone is paired
+  const byePlayer = unplaced.length % 2 === 1 ? selectByePlayer(unplaced, previousPairings) : null;
+  const field = byePlayer ? unplaced.filter(player => player !== byePlayer) : unplaced;
 
-    if (avoidRematches) {
-      player2Index = gibsonizedPlayers.findIndex(p => 
-        !hasPlayedBefore(player1.id!, p.id!, previousPairings)
-      );
-      if (player2Index === -1) player2Index = 0;
-    }
+  const { pairs: gibsonPairs, remaining } = pairGibsonizedPlayers(
+    field,
+    gibsonStatus,
+    avoidRematches,
+    rematchPairings
+  );
 
-    const player2 = gibsonizedPlayers.splice(player2Index, 1)[0];
-    const firstMovePlayerId = determineFirstMove(player1, player2, tableNumber);
-    
-    pairings.push({
+  const gibsonPairings: PairingDisplay[] = gibsonPairs.map(([player1, player2], index) => {
+    const tableNumber = index + 1;
+    return {
       table_number: tableNumber,
       player1,
       player2,
-      first_move_player_id: firstMovePlayerId,
-      player1_gibsonized: true,
-      player2_gibsonized: true
-    });
-    
-    tableNumber++;
+      first_move_player_id: player1.id!,
+      player1_gibsonized: player1.is_gibsonized,
+      player2_gibsonized: player2.is_gibsonized
+    };
+  });
+
+  let fieldPairings: PairingDisplay[];
+  switch (format) {
+    case 'fonte-swiss':
+      fieldPairings = generateFonteSwissPairings(remaining, avoidRematches, rematchPairings);
+      break;
+    case 'king-of-hill':
+      fieldPairings = generateKingOfHillPairings(remaining, avoidRematches, rematchPairings);
+      break;
+    case 'quartile':
+      fieldPairings = generateQuartilePairings(remaining, avoidRematches, rematchPairings);
+      break;
+    case 'swiss':
+    default:
+      fieldPairings = generateSwissPairings(remaining, avoidRematches, rematchPairings, currentRound);
   }
 
-  // If odd Gibsonized player, pair with lowest non-contender
-  if (gibsonizedPlayers.length === 1) {
-    const gibsonizedPlayer = gibsonizedPlayers[0];
-    const lowestRankedAvailable = nonGibsonizedPlayers
-      .slice()
-      .reverse()
-      .find(p => !avoidRematches || !hasPlayedBefore(gibsonizedPlayer.id!, p.id!, previousPairings));
-
-    if (lowestRankedAvailable) {
-      const player2Index = nonGibsonizedPlayers.findIndex(p => p.id === lowestRankedAvailable.id);
-      const player2 = nonGibsonizedPlayers.splice(player2Index, 1)[0];
-      const firstMovePlayerId = determineFirstMove(gibsonizedPlayer, player2, tableNumber);
-      
-      pairings.push({
-        table_number: tableNumber,
-        player1: gibsonizedPlayer,
-        player2,
-        first_move_player_id: firstMovePlayerId,
-        player1_gibsonized: true,
-        player2_gibsonized: false
-      });
-      
-      tableNumber++;
+  // Fixed pairs take the top tables, then Gibson games, the rest of the field and the byes
+  const pairings = [...fixedPairings, ...gibsonPairings, ...fieldPairings]
+    .map((pairing, index) => ({ ...pairing, table_number: index + 1 }));
+
+  // First moves depend on the final table numbers, so they are decided last
+  return assignFirstMoves(
+    appendByes(pairings, byePlayer ? [...forcedByePlayers, byePlayer] : forcedByePlayers),
+    firstMoveHistory
+  );
+}
+
+/**
+ * Chooses who sits out when the field is odd: the lowest-ranked player who
+ * has not had a bye yet, or failing that the one with the fewest byes.
+ * Gibsonized players only receive the bye when nobody else can.
+ * @param players Players sorted by standings
+ */
+export function selectByePlayer(
+  players: PlayerWithRank[],
+  previousPairings: PairingHistoryEntry[]
+): PlayerWithRank | null {
+  if (players.length === 0) return null;
+
+  const byeCounts = new Map<string, number>();
+  previousPairings
+    .filter(pairing => pairing.is_bye)
+    .forEach(pairing => {
+      byeCounts.set(pairing.player1_id, (byeCounts.get(pairing.player1_id) || 0) + 1);
+    });
+
+  const nonGibsonized = players.filter(player => !player.is_gibsonized);
+  const candidates = nonGibsonized.length > 0 ? nonGibsonized : players;
+
+  let byePlayer = candidates[candidates.length - 1];
+  for (let i = candidates.length - 1; i >= 0; i--) {
+    const byes = byeCounts.get(candidates[i].id!) || 0;
+    if (byes < (byeCounts.get(byePlayer.id!) || 0)) {
+      byePlayer = candidates[i];
     }
   }
+  return byePlayer;
+}
 
-  // Pair remaining non-Gibsonized players using standard Swiss
-  while (nonGibsonizedPlayers.length >= 2) {
-    const player1 = nonGibsonizedPlayers.shift()!;
-    let player2Index = 0;
+function appendByes(pairings: PairingDisplay[], byePlayers: PlayerWithRank[]): PairingDisplay[] {
+  return [
+    ...pairings,
+    ...byePlayers.map((player, index) => createByePairing(player, pairings.length + index + 1))
+  ];
+}
 
-    if (avoidRematches) {
-      player2Index = nonGibsonizedPlayers.findIndex(p => 
-        !hasPlayedBefore(player1.id!, p.id!, previousPairings)
-      );
-      if (player2Index === -1) player2Index = 0;
-    }
+/**
+ * Drops the first `tolerance` meetings between each pair of players, so a
+ * pair only counts as a rematch once they have met more often than that.
+ */
+function ignoreToleratedMeetings(
+  previousPairings: PairingHistoryEntry[],
+  tolerance: number
+): PairingHistoryEntry[] {
+  if (tolerance <= 0) return previousPairings;
+
+  const seen = new Map<string, number>();
+  return [...previousPairings]
+    .sort((a, b) => (a.round_number || 0) - (b.round_number || 0))
+    .filter(pairing => {
+      if (!pairing.player2_id) return true;
+      const key = [pairing.player1_id, pairing.player2_id].sort().join(':');
+      const count = (seen.get(key) || 0) + 1;
+      seen.set(key, count);
+      return count > tolerance;
+    });
+}
 
-    const player2 = nonGibsonizedPlayers.splice(player2Index, 1)[0];
-    const firstMovePlayerId = determineFirstMove(player1, player2, tableNumber);
-    
-    pairings.push({
+function createByePairing(player: PlayerWithRank, tableNumber: number): PairingDisplay {
+  return {
+    table_number: tableNumber,
+    player1: player,
+    player2: null,
+    first_move_player_id: player.id!,
+    player1_gibsonized: player.is_gibsonized,
+    player2_gibsonized: false,
+    is_bye: true
+  };
+}
+
+function generateSwissPairings(
+  players: PlayerWithRank[],
+  avoidRematches: boolean,
+  previousPairings: PairingHistoryEntry[],
+  currentRound: number
+): PairingDisplay[] {
+  // Solve the whole round at once so late rounds never fall back to an avoidable rematch
+  const { pairs } = pairSwissByMatching(players, previousPairings, {
+    avoidRematches,
+    currentRound
+  });
+
+  const pairings: PairingDisplay[] = pairs.map(([player1, player2], index) => {
+    const tableNumber = index + 1;
+    return {
       table_number: tableNumber,
       player1,
       player2,
-      first_move_player_id: firstMovePlayerId,
-      player1_gibsonized: false,
-      player2_gibsonized: false
-    });
-    
-    tableNumber++;
-  }
-
-  // Handle bye if odd number of players
-  const remainingPlayers = [...gibsonizedPlayers, ...nonGibsonizedPlayers];
-  if (remainingPlayers.length === 1) {
-    const byePlayer = remainingPlayers[0];
-    pairings.push({
-      table_number: tableNumber,
-      player1: byePlayer,
-      player2: { ...byePlayer, name: 'BYE', id: 'bye' } as PlayerWithRank,
-      first_move_player_id: byePlayer.id!,
-      player1_gibsonized: byePlayer.is_gibsonized,
-      player2_gibsonized: false
-    });
-  }
+      first_move_player_id: player1.id!,
+      player1_gibsonized: player1.is_gibsonized,
+      player2_gibsonized: player2.is_gibsonized
+    };
+  });
 
   return pairings;
 }
@@ -214,7 +278,7 @@ function generateSwissPairings(
 function generateFonteSwissPairings(
   players: PlayerWithRank[],
   avoidRematches: boolean,
-  previousPairings: Array<{ player1_id: string; player2_id: string }>
+  previousPairings: PairingHistoryEntry[]
 ): PairingDisplay[] {
   const pairings: PairingDisplay[] = [];
   let tableNumber = 1;
@@ -233,57 +297,25 @@ function generateFonteSwissPairings(
   // Sort score groups from highest to lowest
   const sortedScores = Array.from(scoreGroups.keys()).sort((a, b) => b - a);
 
+  // A player left over from a higher group floats down to the top of the next
+  let floaters: PlayerWithRank[] = [];
+
   // Process each score group
   for (const score of sortedScores) {
-    const group = scoreGroups.get(score)!;
-    
     // Sort within group by spread, then rating
-    group.sort((a, b) => {
+    const group = [...floaters, ...scoreGroups.get(score)!.sort((a, b) => {
       if (a.spread !== b.spread) return b.spread - a.spread;
       return b.rating - a.rating;
-    });
+    })];
 
     // Split group in half and pair top half vs bottom half
     const halfSize = Math.ceil(group.length / 2);
     const topHalf = group.slice(0, halfSize);
     const bottomHalf = group.slice(halfSize);
 
-    // Handle Gibsonized players within the group
-    const gibsonizedTop = topHalf.filter(p => p.is_gibsonized);
-    const nonGibsonizedTop = topHalf.filter(p => !p.is_gibsonized);
-    const gibsonizedBottom = bottomHalf.filter(p => p.is_gibsonized);
-    const nonGibsonizedBottom = bottomHalf.filter(p => !p.is_gibsonized);
-
-    // Pair Gibsonized players together first
-    while (gibsonizedTop.length > 0 && gibsonizedBottom.length > 0) {
-      const player1 = gibsonizedTop.shift()!;
-      let player2Index = 0;
-
-      if (avoidRematches) {
-        player2Index = gibsonizedBottom.findIndex(p => 
-          !hasPlayedBefore(player1.id!, p.id!, previousPairings)
-        );
-        if (player2Index === -1) player2Index = 0;
-      }
-
-      const player2 = gibsonizedBottom.splice(player2Index, 1)[0];
-      const firstMovePlayerId = determineFirstMove(player1, player2, tableNumber);
-      
-      pairings.push({
-        table_number: tableNumber,
-        player1,
-        player2,
-        first_move_player_id: firstMovePlayerId,
-        player1_gibsonized: true,
-        player2_gibsonized: true
-      });
-      
-      tableNumber++;
-    }
-
-    // Pair remaining players (top half vs bottom half)
-    const remainingTop = [...gibsonizedTop, ...nonGibsonizedTop];
-    const remainingBottom = [...gibsonizedBottom, ...nonGibsonizedBottom];
+    // Pair top half vs bottom half
+    const remainingTop = [...topHalf];
+    const remainingBottom = [...bottomHalf];
 
     while (remainingTop.length > 0 && remainingBottom.length > 0) {
       const player1 = remainingTop.shift()!;
@@ -297,13 +329,12 @@ function generateFonteSwissPairings(
       }
 
       const player2 = remainingBottom.splice(player2Index, 1)[0];
-      const firstMovePlayerId = determineFirstMove(player1, player2, tableNumber);
-      
+
       pairings.push({
         table_number: tableNumber,
         player1,
         player2,
-        first_move_player_id: firstMovePlayerId,
+        first_move_player_id: player1.id!,
         player1_gibsonized: player1.is_gibsonized,
         player2_gibsonized: player2.is_gibsonized
       });
@@ -316,19 +347,19 @@ function generateFonteSwissPairings(
     while (unpaired.length >= 2) {
       const player1 = unpaired.shift()!;
       const player2 = unpaired.shift()!;
-      const firstMovePlayerId = determineFirstMove(player1, player2, tableNumber);
-      
+
       pairings.push({
         table_number: tableNumber,
         player1,
         player2,
-        first_move_player_id: firstMovePlayerId,
+        first_move_player_id: player1.id!,
         player1_gibsonized: player1.is_gibsonized,
         player2_gibsonized: player2.is_gibsonized
       });
       
       tableNumber++;
     }
+    floaters = unpaired;
   }
 
   return pairings;
@@ -337,45 +368,14 @@ function generateFonteSwissPairings(
 function generateKingOfHillPairings(
   players: PlayerWithRank[],
   avoidRematches: boolean,
-  previousPairings: Array<{ player1_id: string; player2_id: string }>
+  previousPairings: PairingHistoryEntry[]
 ): PairingDisplay[] {
   const pairings: PairingDisplay[] = [];
   let tableNumber = 1;
 
-  // Separate Gibsonized and non-Gibsonized players
-  const gibsonizedPlayers = players.filter(p => p.is_gibsonized);
-  const nonGibsonizedPlayers = players.filter(p => !p.is_gibsonized);
-
-  // Pair Gibsonized players together first (KOTH style)
-  while (gibsonizedPlayers.length >= 2) {
-    const player1 = gibsonizedPlayers.shift()!;
-    let player2Index = 0;
-
-    if (avoidRematches) {
-      player2Index = gibsonizedPlayers.findIndex(p => 
-        !hasPlayedBefore(player1.id!, p.id!, previousPairings)
-      );
-      if (player2Index === -1) player2Index = 0;
-    }
-
-    const player2 = gibsonizedPlayers.splice(player2Index, 1)[0];
-    const firstMovePlayerId = determineFirstMove(player1, player2, tableNumber);
-    
-    pairings.push({
-      table_number: tableNumber,
-      player1,
-      player2,
-      first_move_player_id: firstMovePlayerId,
-      player1_gibsonized: true,
-      player2_gibsonized: true
-    });
-    
-    tableNumber++;
-  }
-
-  // Apply KOTH to non-Gibsonized players: pair highest with lowest
-  const firstHalf = nonGibsonizedPlayers.slice(0, Math.ceil(nonGibsonizedPlayers.length / 2));
-  const secondHalf = nonGibsonizedPlayers.slice(Math.ceil(nonGibsonizedPlayers.length / 2)).reverse();
+  // Pair highest with lowest
+  const firstHalf = players.slice(0, Math.ceil(players.length / 2));
+  const secondHalf = players.slice(Math.ceil(players.length / 2)).reverse();
 
   for (let i = 0; i < firstHalf.length; i++) {
     const player1 = firstHalf[i];
@@ -396,13 +396,12 @@ function generateKingOfHillPairings(
       }
 
       const finalPlayer2 = secondHalf[i];
-      const firstMovePlayerId = determineFirstMove(player1, finalPlayer2, tableNumber);
-      
+
       pairings.push({
         table_number: tableNumber,
         player1,
         player2: finalPlayer2,
-        first_move_player_id: firstMovePlayerId,
+        first_move_player_id: player1.id!,
         player1_gibsonized: false,
         player2_gibsonized: false
       });
@@ -411,35 +410,86 @@ function generateKingOfHillPairings(
     }
   }
 
-  // Handle any remaining Gibsonized player
-  if (gibsonizedPlayers.length === 1) {
-    const gibsonizedPlayer = gibsonizedPlayers[0];
-    pairings.push({
-      table_number: tableNumber,
-      player1: gibsonizedPlayer,
-      player2: { ...gibsonizedPlayer, name: 'BYE', id: 'bye' } as PlayerWithRank,
-      first_move_player_id: gibsonizedPlayer.id!,
-      player1_gibsonized: true,
-      player2_gibsonized: false
-    });
-  }
-
   return pairings;
 }
 
+/**
+ * Full round-robin schedule for the given players, seeded by rating so the
+ * same field always produces the same schedule regardless of current standings.
+ * Late entrants would reshuffle rounds already played, so they are not scheduled.
+ */
+export function generateRoundRobinSchedule(
+  players: PlayerWithRank[],
+  totalRounds: number
+): RoundRobinRound<PlayerWithRank>[] {
+  const seeded = players.filter(isScheduledForRoundRobin).sort((a, b) => {
+    if (a.rating !== b.rating) return b.rating - a.rating;
+    if (a.name !== b.name) return a.name.localeCompare(b.name);
+    return (a.id || '').localeCompare(b.id || '');
+  });
+
+  return buildRoundRobinSchedule(seeded, cyclesForRounds(seeded.length, totalRounds));
+}
+
+/**
+ * Players a round-robin schedule leaves out: the late entrants. They are not
+ * missing from a round robin's rounds, just as a sit-out is not.
+ */
+export function getRoundRobinSitOuts(players: Player[]): string[] {
+  return players.filter(player => !isScheduledForRoundRobin(player)).map(player => player.id!);
+}
+
+function isScheduledForRoundRobin(player: Player): boolean {
+  return (player.late_entry_round || 1) <= 1;
+}
+
+/**
+ * The scheduled round-robin games for one round. Anyone scheduled against a
+ * withdrawn or suspended opponent gets a bye instead.
+ */
 function generateRoundRobinPairings(
   players: PlayerWithRank[],
-  avoidRematches: boolean,
-  previousPairings: Array<{ player1_id: string; player2_id: string }>
+  currentRound: number,
+  totalRounds: number
 ): PairingDisplay[] {
-  // For round robin, use Swiss with strict rematch avoidance
-  return generateSwissPairings(players, true, previousPairings);
+  const schedule = generateRoundRobinSchedule(players, totalRounds);
+  const round = schedule[currentRound - 1];
+
+  if (!round) {
+    throw new Error(`Round ${currentRound} exceeds maximum rounds (${schedule.length})`);
+  }
+
+  const isAvailable = (player: PlayerWithRank) => isAvailableForRound(player, currentRound);
+  const byes: PlayerWithRank[] = round.bye && isAvailable(round.bye) ? [round.bye] : [];
+
+  // Round robin pairings are fixed in advance, so Gibsonization does not apply
+  const pairings: PairingDisplay[] = [];
+  round.games.forEach(game => {
+    if (!isAvailable(game.first) || !isAvailable(game.second)) {
+      byes.push(...[game.first, game.second].filter(isAvailable));
+      return;
+    }
+    pairings.push({
+      table_number: pairings.length + 1,
+      player1: game.first,
+      player2: game.second,
+      first_move_player_id: game.first.id!,
+      player1_gibsonized: false,
+      player2_gibsonized: false
+    });
+  });
+
+  byes.forEach(player => {
+    pairings.push(createByePairing(player, pairings.length + 1));
+  });
+
+  return pairings;
 }
 
 function generateQuartilePairings(
   players: PlayerWithRank[],
   avoidRematches: boolean,
-  previousPairings: Array<{ player1_id: string; player2_id: string }>
+  previousPairings: PairingHistoryEntry[]
 ): PairingDisplay[] {
   const pairings: PairingDisplay[] = [];
   let tableNumber = 1;
@@ -453,49 +503,6 @@ function generateQuartilePairings(
     players.slice(quartileSize * 3)                    // 4th quartile (bottom players)
   ];
 
-  // Handle Gibsonized players first - pair them together regardless of quartile
-  const allGibsonized = players.filter(p => p.is_gibsonized);
-  const gibsonizedPairs: Array<[PlayerWithRank, PlayerWithRank]> = [];
-  
-  while (allGibsonized.length >= 2) {
-    const player1 = allGibsonized.shift()!;
-    let player2Index = 0;
-
-    if (avoidRematches) {
-      player2Index = allGibsonized.findIndex(p => 
-        !hasPlayedBefore(player1.id!, p.id!, previousPairings)
-      );
-      if (player2Index === -1) player2Index = 0;
-    }
-
-    const player2 = allGibsonized.splice(player2Index, 1)[0];
-    gibsonizedPairs.push([player1, player2]);
-    
-    // Remove from quartiles
-    quartiles.forEach(quartile => {
-      const index1 = quartile.findIndex(p => p.id === player1.id);
-      const index2 = quartile.findIndex(p => p.id === player2.id);
-      if (index1 !== -1) quartile.splice(index1, 1);
-      if (index2 !== -1) quartile.splice(index2, 1);
-    });
-  }
-
-  // Add Gibsonized pairings
-  gibsonizedPairs.forEach(([player1, player2]) => {
-    const firstMovePlayerId = determineFirstMove(player1, player2, tableNumber);
-    
-    pairings.push({
-      table_number: tableNumber,
-      player1,
-      player2,
-      first_move_player_id: firstMovePlayerId,
-      player1_gibsonized: true,
-      player2_gibsonized: true
-    });
-    
-    tableNumber++;
-  });
-
   // Pair 1st quartile vs 2nd quartile
   const firstQuartile = quartiles[0];
   const secondQuartile = quartiles[1];
@@ -512,13 +519,12 @@ function generateQuartilePairings(
     }
 
     const player2 = secondQuartile.splice(player2Index, 1)[0];
-    const firstMovePlayerId = determineFirstMove(player1, player2, tableNumber);
-    
+
     pairings.push({
       table_number: tableNumber,
       player1,
       player2,
-      first_move_player_id: firstMovePlayerId,
+      first_move_player_id: player1.id!,
       player1_gibsonized: player1.is_gibsonized,
       player2_gibsonized: player2.is_gibsonized
     });
@@ -542,13 +548,12 @@ function generateQuartilePairings(
     }
 
     const player2 = fourthQuartile.splice(player2Index, 1)[0];
-    const firstMovePlayerId = determineFirstMove(player1, player2, tableNumber);
-    
+
     pairings.push({
       table_number: tableNumber,
       player1,
       player2,
-      first_move_player_id: firstMovePlayerId,
+      first_move_player_id: player1.id!,
       player1_gibsonized: player1.is_gibsonized,
       player2_gibsonized: player2.is_gibsonized
     });
@@ -558,7 +563,6 @@ function generateQuartilePairings(
 
   // Handle any remaining unpaired players
   const remainingPlayers = [
-    ...allGibsonized,
     ...firstQuartile,
     ...secondQuartile,
     ...thirdQuartile,
@@ -568,13 +572,12 @@ function generateQuartilePairings(
   while (remainingPlayers.length >= 2) {
     const player1 = remainingPlayers.shift()!;
     const player2 = remainingPlayers.shift()!;
-    const firstMovePlayerId = determineFirstMove(player1, player2, tableNumber);
-    
+
     pairings.push({
       table_number: tableNumber,
       player1,
       player2,
-      first_move_player_id: firstMovePlayerId,
+      first_move_player_id: player1.id!,
       player1_gibsonized: player1.is_gibsonized,
       player2_gibsonized: player2.is_gibsonized
     });
@@ -582,50 +585,16 @@ function generateQuartilePairings(
     tableNumber++;
   }
 
-  // Handle bye if odd number of players
-  if (remainingPlayers.length === 1) {
-    const byePlayer = remainingPlayers[0];
-    pairings.push({
-      table_number: tableNumber,
-      player1: byePlayer,
-      player2: { ...byePlayer, name: 'BYE', id: 'bye' } as PlayerWithRank,
-      first_move_player_id: byePlayer.id!,
-      player1_gibsonized: byePlayer.is_gibsonized,
-      player2_gibsonized: false
-    });
-  }
-
   return pairings;
 }
 
-function generateManualPairings(players: PlayerWithRank[]): PairingDisplay[] {
-  // For manual pairing, return empty array - user will set up manually
-  return [];
-}
-
 function hasPlayedBefore(
   player1Id: string,
   player2Id: string,
-  previousPairings: Array<{ player1_id: string; player2_id: string }>
+  previousPairings: PairingHistoryEntry[]
 ): boolean {
   return previousPairings.some(pairing =>
     (pairing.player1_id === player1Id && pairing.player2_id === player2Id) ||
     (pairing.player1_id === player2Id && pairing.player2_id === player1Id)
   );
 }
-
-function determineFirstMove(
-  player1: PlayerWithRank,
-  player2: PlayerWithRank,
-  tableNumber: number
-): string {
-  // Player with fewer previous starts goes first
-  if (player1.previous_starts < player2.previous_starts) {
-    return player1.id!;
-  } else if (player2.previous_starts < player1.previous_starts) {
-    return player2.id!;
-  } else {
-    // If equal starts, alternate by table number
-    return tableNumber % 2 === 1 ? player1.id! : player2.id!;
-  }
-}
\ No newline at end of file
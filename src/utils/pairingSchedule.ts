@@ -0,0 +1,99 @@
+import { PairingFormat, PairingScheduleEntry, TournamentConfig } from '../types/database';
+import { DEFAULT_PAIRING_OPTIONS } from './pairingAlgorithms';
+
+/**
+ * The tournament's pairing plan, round by round. Rounds without a schedule
+ * entry use the tournament's pairing system, rank players on every result so
+ * far and avoid rematches outright.
+ */
+
+export const PAIRING_FORMAT_LABELS: Record<PairingFormat, string> = {
+  swiss: 'Swiss',
+  'fonte-swiss': 'Fonte-Swiss',
+  'king-of-hill': 'King of the Hill',
+  'round-robin': 'Round Robin',
+  quartile: 'Quartile',
+  manual: 'Manual',
+  'team-round-robin': 'Team Round Robin'
+};
+
+/**
+ * How a round is paired when the schedule says nothing about it.
+ */
+export function getDefaultRoundPlan(
+  config: Partial<TournamentConfig> | null | undefined,
+  round: number,
+  fallbackSystem: PairingFormat = 'swiss'
+): PairingScheduleEntry {
+  return {
+    round,
+    pairing_system: config?.pairing_system || fallbackSystem,
+    based_on_round: Math.max(0, round - 1),
+    avoid_rematches: DEFAULT_PAIRING_OPTIONS.avoid_rematches,
+    rematch_tolerance: DEFAULT_PAIRING_OPTIONS.rematch_tolerance
+  };
+}
+
+/**
+ * How a round is paired. A scheduled `based_on_round` is kept between 0
+ * (pair on ratings alone) and the previous round.
+ */
+export function getRoundPlan(
+  config: Partial<TournamentConfig> | null | undefined,
+  round: number,
+  fallbackSystem: PairingFormat = 'swiss'
+): PairingScheduleEntry {
+  const plan = getDefaultRoundPlan(config, round, fallbackSystem);
+  const entry = config?.pairing_schedule?.find(scheduled => scheduled.round === round);
+  if (!entry) return plan;
+
+  return {
+    ...plan,
+    ...entry,
+    based_on_round: Math.min(Math.max(0, entry.based_on_round ?? plan.based_on_round), plan.based_on_round),
+    rematch_tolerance: Math.max(0, entry.rematch_tolerance ?? plan.rematch_tolerance)
+  };
+}
+
+/**
+ * The plan for every round of the tournament.
+ */
+export function getPairingSchedule(
+  config: Partial<TournamentConfig> | null | undefined,
+  totalRounds: number,
+  fallbackSystem: PairingFormat = 'swiss'
+): PairingScheduleEntry[] {
+  return Array.from({ length: totalRounds }, (_, i) => getRoundPlan(config, i + 1, fallbackSystem));
+}
+
+/**
+ * Replaces one round's entry in a schedule. An entry that matches the
+ * round's default plan is dropped, so only real exceptions are stored.
+ */
+export function setScheduleEntry(
+  schedule: PairingScheduleEntry[],
+  entry: PairingScheduleEntry,
+  defaultPlan: PairingScheduleEntry
+): PairingScheduleEntry[] {
+  const others = schedule.filter(scheduled => scheduled.round !== entry.round);
+  const isDefault = entry.pairing_system === defaultPlan.pairing_system &&
+    entry.based_on_round === defaultPlan.based_on_round &&
+    entry.avoid_rematches === defaultPlan.avoid_rematches &&
+    entry.rematch_tolerance === defaultPlan.rematch_tolerance;
+
+  return (isDefault ? others : [...others, entry]).sort((a, b) => a.round - b.round);
+}
+
+/**
+ * A one-line summary, e.g. "King of the Hill, based on round 5".
+ */
+export function describeRoundPlan(plan: PairingScheduleEntry): string {
+  const basis = plan.based_on_round === 0
+    ? 'by rating'
+    : plan.based_on_round === plan.round - 1 ? null : `based on round ${plan.based_on_round}`;
+  const rematches = !plan.avoid_rematches
+    ? 'rematches allowed'
+    : plan.rematch_tolerance > 0 ? `players may meet ${plan.rematch_tolerance + 1} times` : null;
+
+  return [PAIRING_FORMAT_LABELS[plan.pairing_system], basis, rematches].filter(Boolean).join(', ');
+}
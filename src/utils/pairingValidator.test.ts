@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { PairingDisplay, PlayerWithRank } from '../types/database';
+import { PairingHistoryEntry } from './swissPairingEngine';
+import { generatePairings, getRoundRobinSitOuts } from './pairingAlgorithms';
+import { validatePairings } from './pairingValidator';
+
+const player = (id: string, extra: Partial<PlayerWithRank> = {}): PlayerWithRank => ({
+  id,
+  name: id.toUpperCase(),
+  rating: 1500,
+  tournament_id: 't1',
+  rank: 0,
+  previous_starts: 0,
+  wins: 0,
+  losses: 0,
+  draws: 0,
+  points: 0,
+  spread: 0,
+  is_gibsonized: false,
+  ...extra
+});
+
+const table = (
+  tableNumber: number,
+  player1: PlayerWithRank,
+  player2: PlayerWithRank | null,
+  extra: Partial<PairingDisplay> = {}
+): PairingDisplay => ({
+  table_number: tableNumber,
+  player1,
+  player2,
+  first_move_player_id: extra.first_move_player_id ?? '',
+  ...extra
+});
+
+describe('validatePairings', () => {
+  it('expects the late entrants a round robin leaves out', () => {
+    const players = [player('a'), player('b'), player('c'), player('d'), player('late', { late_entry_round: 2 })];
+    const pairings = generatePairings(players, 'round-robin', [], 3, 3);
+
+    const withoutSitOuts = validatePairings(pairings, players, { round: 3, previousPairings: [] });
+    expect(withoutSitOuts.errors.map(issue => issue.type)).toEqual(['missing_player']);
+
+    const report = validatePairings(pairings, players, {
+      round: 3,
+      previousPairings: [],
+      sitOuts: getRoundRobinSitOuts(players)
+    });
+    expect(report.canLock).toBe(true);
+  });
+
+  it('blocks players paired twice, with themselves, while unavailable or not at all', () => {
+    const [a, b, c, d, e] = ['a', 'b', 'c', 'd', 'e'].map(id => player(id));
+    const withdrawn = player('w', { status: 'withdrawn' });
+    const pairings = [table(1, a, b), table(2, a, c), table(3, d, d), table(4, withdrawn, null)];
+
+    const report = validatePairings(pairings, [a, b, c, d, e, withdrawn], { round: 1, previousPairings: [] });
+
+    expect(report.errors.map(issue => [issue.type, issue.playerIds])).toEqual([
+      ['duplicate_player', ['a']],
+      ['duplicate_player', ['d']],
+      ['self_pairing', ['d']],
+      ['missing_player', ['e']],
+      ['unavailable_player', ['w']]
+    ]);
+    expect(report.canLock).toBe(false);
+  });
+
+  it('warns about rematches, repeat byes, teammates, score gaps and first moves, most serious first', () => {
+    const [a, b, c] = ['a', 'b', 'c'].map(id => player(id));
+    const d = player('d', { points: 3, team_name: 'North', late_entry_round: 2 });
+    const e = player('e', { points: 1, team_name: 'North', late_entry_round: 2 });
+    const previousPairings: PairingHistoryEntry[] = [
+      { round_number: 1, player1_id: 'a', player2_id: 'b', first_move_player_id: 'a' },
+      { round_number: 1, player1_id: 'c', player2_id: null, is_bye: true },
+      { round_number: 2, player1_id: 'a', player2_id: 'd', first_move_player_id: 'a' },
+      { round_number: 2, player1_id: 'b', player2_id: 'e', first_move_player_id: 'b' }
+    ];
+    const pairings = [
+      table(1, a, b, { first_move_player_id: 'a' }),
+      table(2, d, e),
+      table(3, c, null)
+    ];
+
+    const report = validatePairings(pairings, [a, b, c, d, e], {
+      round: 3,
+      previousPairings,
+      teamMode: true,
+      checkScoreGroups: true
+    });
+
+    expect(report.errors).toEqual([]);
+    expect(report.warnings.map(issue => [issue.type, issue.playerIds])).toEqual([
+      ['rematch', ['a', 'b']],
+      ['repeat_bye', ['c']],
+      ['same_team', ['d', 'e']],
+      ['first_move_streak', ['a']],
+      ['score_group_drift', ['d', 'e']],
+      ['first_move_imbalance', ['a']]
+    ]);
+    expect(report.canLock).toBe(true);
+  });
+
+  it('does not count a Gibsonized pairing as drifting from its score group', () => {
+    const leader = player('a', { points: 6 });
+    const trailer = player('b', { points: 1 });
+
+    const report = validatePairings([table(1, leader, trailer, { player1_gibsonized: true })], [leader, trailer], {
+      round: 4,
+      previousPairings: [],
+      checkScoreGroups: true
+    });
+
+    expect(report.warnings).toEqual([]);
+  });
+});
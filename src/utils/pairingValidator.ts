@@ -0,0 +1,251 @@
+import { PairingDisplay, PlayerWithRank } from '../types/database';
+import { PairingHistoryEntry } from './swissPairingEngine';
+import { isAvailableForRound } from './playerStatus';
+import { buildFirstMoveHistory, getFirstMoveRecord, MAX_CONSECUTIVE_FIRST_MOVES } from './firstMove';
+
+/**
+ * Audit of a proposed round before it is locked. Errors make the round
+ * unplayable (someone paired twice, an available player left out) and block
+ * locking; warnings are pairings a director may accept, ranked most serious first.
+ */
+
+export type PairingIssueSeverity = 'error' | 'warning';
+
+export type PairingIssueType =
+  | 'duplicate_player'
+  | 'self_pairing'
+  | 'unavailable_player'
+  | 'missing_player'
+  | 'rematch'
+  | 'repeat_bye'
+  | 'first_move_imbalance'
+  | 'first_move_streak'
+  | 'score_group_drift'
+  | 'same_team';
+
+export interface PairingIssue {
+  type: PairingIssueType;
+  severity: PairingIssueSeverity;
+  message: string;
+  playerIds: string[];
+  tableNumber?: number;
+  /** Higher is more serious; warnings are sorted by this */
+  weight: number;
+}
+
+export interface PairingValidationOptions {
+  round: number;
+  /** Pairings of earlier rounds in the same division */
+  previousPairings: PairingHistoryEntry[];
+  teamMode?: boolean;
+  /** Warn about pairings between players further apart than this many points */
+  maxScoreGroupDrift?: number;
+  /** Whether pairing across score groups is unexpected for this format */
+  checkScoreGroups?: boolean;
+  /** Warn when a player's firsts and seconds differ by more than this after the round */
+  maxFirstMoveImbalance?: number;
+  /** Players the director has left out of this round */
+  sitOuts?: string[];
+}
+
+export interface PairingValidationReport {
+  errors: PairingIssue[];
+  warnings: PairingIssue[];
+  /** False while there are errors */
+  canLock: boolean;
+}
+
+const DEFAULT_MAX_SCORE_GROUP_DRIFT = 1;
+const DEFAULT_MAX_FIRST_MOVE_IMBALANCE = 1;
+
+/**
+ * Checks a proposed round against the player list and the rounds already played.
+ */
+export function validatePairings(
+  pairings: PairingDisplay[],
+  players: PlayerWithRank[],
+  options: PairingValidationOptions
+): PairingValidationReport {
+  const issues: PairingIssue[] = [];
+  const playersById = new Map(players.map(player => [player.id!, player]));
+  const nameOf = (id: string) => playersById.get(id)?.name || id;
+  const previous = options.previousPairings.filter(p => (p.round_number ?? 0) < options.round);
+
+  // Where each player appears this round
+  const tablesByPlayer = new Map<string, number[]>();
+  pairings.forEach(pairing => {
+    [pairing.player1, pairing.player2].forEach(player => {
+      if (!player) return;
+      tablesByPlayer.set(player.id!, [...(tablesByPlayer.get(player.id!) || []), pairing.table_number]);
+    });
+  });
+
+  tablesByPlayer.forEach((tables, playerId) => {
+    if (tables.length > 1) {
+      issues.push({
+        type: 'duplicate_player',
+        severity: 'error',
+        message: `${nameOf(playerId)} is paired ${tables.length} times (tables ${tables.join(', ')})`,
+        playerIds: [playerId],
+        weight: 100
+      });
+    }
+  });
+
+  pairings.forEach(pairing => {
+    if (pairing.player2 && pairing.player1.id === pairing.player2.id) {
+      issues.push({
+        type: 'self_pairing',
+        severity: 'error',
+        message: `Table ${pairing.table_number}: ${pairing.player1.name} is paired with themselves`,
+        playerIds: [pairing.player1.id!],
+        tableNumber: pairing.table_number,
+        weight: 100
+      });
+    }
+  });
+
+  players.forEach(player => {
+    const paired = tablesByPlayer.has(player.id!);
+    const available = isAvailableForRound(player, options.round) && !options.sitOuts?.includes(player.id!);
+    if (paired && !available) {
+      issues.push({
+        type: 'unavailable_player',
+        severity: 'error',
+        message: `${player.name} is not playing round ${options.round} but is paired`,
+        playerIds: [player.id!],
+        tableNumber: tablesByPlayer.get(player.id!)![0],
+        weight: 90
+      });
+    } else if (!paired && available) {
+      issues.push({
+        type: 'missing_player',
+        severity: 'error',
+        message: `${player.name} is missing from round ${options.round}`,
+        playerIds: [player.id!],
+        weight: 90
+      });
+    }
+  });
+
+  // Earlier meetings, byes and first moves
+  const meetings = new Map<string, number[]>();
+  const byeRounds = new Map<string, number[]>();
+  const firstMoves = buildFirstMoveHistory(previous);
+
+  previous.forEach(pairing => {
+    const round = pairing.round_number ?? 0;
+    if (pairing.is_bye || !pairing.player2_id) {
+      byeRounds.set(pairing.player1_id, [...(byeRounds.get(pairing.player1_id) || []), round]);
+      return;
+    }
+    const key = pairKey(pairing.player1_id, pairing.player2_id);
+    meetings.set(key, [...(meetings.get(key) || []), round]);
+  });
+
+  const maxDrift = options.maxScoreGroupDrift ?? DEFAULT_MAX_SCORE_GROUP_DRIFT;
+  const maxImbalance = options.maxFirstMoveImbalance ?? DEFAULT_MAX_FIRST_MOVE_IMBALANCE;
+
+  pairings.forEach(pairing => {
+    const { player1, player2, table_number: tableNumber } = pairing;
+
+    if (!player2) {
+      const rounds = byeRounds.get(player1.id!) || [];
+      if (rounds.length > 0) {
+        issues.push({
+          type: 'repeat_bye',
+          severity: 'warning',
+          message: `Table ${tableNumber}: ${player1.name} already had a bye in round ${rounds.join(', ')}`,
+          playerIds: [player1.id!],
+          tableNumber,
+          weight: 40 + rounds.length * 10
+        });
+      }
+      return;
+    }
+
+    const rounds = meetings.get(pairKey(player1.id!, player2.id!)) || [];
+    if (rounds.length > 0) {
+      issues.push({
+        type: 'rematch',
+        severity: 'warning',
+        message: `Table ${tableNumber}: ${player1.name} vs ${player2.name} would be meeting #${rounds.length + 1} (played in round ${rounds.join(', ')})`,
+        playerIds: [player1.id!, player2.id!],
+        tableNumber,
+        weight: 50 + rounds.length * 10
+      });
+    }
+
+    if (options.teamMode && player1.team_name && player1.team_name === player2.team_name) {
+      issues.push({
+        type: 'same_team',
+        severity: 'warning',
+        message: `Table ${tableNumber}: ${player1.name} and ${player2.name} are both on ${player1.team_name}`,
+        playerIds: [player1.id!, player2.id!],
+        tableNumber,
+        weight: 45
+      });
+    }
+
+    // Gibsonized players are deliberately paired out of their score group
+    const gibsonized = pairing.player1_gibsonized || pairing.player2_gibsonized;
+    const drift = Math.abs(player1.points - player2.points);
+    if (options.checkScoreGroups && !gibsonized && drift > maxDrift) {
+      issues.push({
+        type: 'score_group_drift',
+        severity: 'warning',
+        message: `Table ${tableNumber}: ${player1.name} (${player1.points}) and ${player2.name} (${player2.points}) are ${drift} points apart`,
+        playerIds: [player1.id!, player2.id!],
+        tableNumber,
+        weight: 20 + drift * 5
+      });
+    }
+
+    if (pairing.first_move_player_id) {
+      const first = pairing.first_move_player_id === player1.id ? player1 : player2;
+      const second = first === player1 ? player2 : player1;
+      const sides: [PlayerWithRank, number][] = [[first, 1], [second, -1]];
+      sides.forEach(([player, delta]) => {
+        const record = getFirstMoveRecord(firstMoves, player.id!);
+        const streak = delta > 0 ? Math.max(record.streak, 0) + 1 : Math.min(record.streak, 0) - 1;
+        if (Math.abs(streak) > MAX_CONSECUTIVE_FIRST_MOVES) {
+          issues.push({
+            type: 'first_move_streak',
+            severity: 'warning',
+            message: `Table ${tableNumber}: ${player.name} would move ${delta > 0 ? 'first' : 'second'} for the ${ordinal(Math.abs(streak))} game in a row`,
+            playerIds: [player.id!],
+            tableNumber,
+            weight: 15 + Math.abs(streak) * 5
+          });
+        }
+
+        const balance = record.starts - record.replies + delta;
+        if (Math.abs(balance) <= maxImbalance) return;
+        issues.push({
+          type: 'first_move_imbalance',
+          severity: 'warning',
+          message: `Table ${tableNumber}: ${player.name} moves ${delta > 0 ? 'first' : 'second'} and would have ${Math.abs(balance)} more ${balance > 0 ? 'firsts than seconds' : 'seconds than firsts'}`,
+          playerIds: [player.id!],
+          tableNumber,
+          weight: 10 + Math.abs(balance) * 5
+        });
+      });
+    }
+  });
+
+  const errors = issues.filter(issue => issue.severity === 'error');
+  const warnings = issues
+    .filter(issue => issue.severity === 'warning')
+    .sort((a, b) => b.weight - a.weight || (a.tableNumber ?? 0) - (b.tableNumber ?? 0));
+
+  return { errors, warnings, canLock: errors.length === 0 };
+}
+
+function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] || 'th';
+  return `${n}${suffix}`;
+}
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
@@ -0,0 +1,41 @@
+import { Player, PlayerStatus } from '../types/database';
+
+/**
+ * Who can be paired in a given round. Withdrawn players and late entrants keep
+ * their rows (and their history), they are simply left out of pairings for
+ * the rounds they are not playing.
+ */
+
+export const PLAYER_STATUS_LABELS: Record<PlayerStatus, string> = {
+  active: 'Active',
+  withdrawn: 'Withdrawn',
+  suspended: 'Suspended'
+};
+
+/**
+ * Whether a player should be paired in the given round.
+ */
+export function isAvailableForRound(player: Player, round: number): boolean {
+  if (player.status === 'withdrawn') return false;
+  if (player.status === 'suspended' && player.suspended_round === round) return false;
+  return (player.late_entry_round || 1) <= round;
+}
+
+/**
+ * Rounds a late entrant missed, up to and including `throughRound`.
+ */
+export function missedRounds(player: Player, throughRound: number): number {
+  if (!player.late_entry_round) return 0;
+  return Math.max(0, Math.min(player.late_entry_round - 1, throughRound));
+}
+
+/**
+ * Short description of a player's status for tables, e.g. "Suspended R4".
+ */
+export function describePlayerStatus(player: Player): string {
+  const status = player.status || 'active';
+  if (status === 'suspended' && player.suspended_round) {
+    return `${PLAYER_STATUS_LABELS[status]} R${player.suspended_round}`;
+  }
+  return PLAYER_STATUS_LABELS[status];
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { Player } from '../types/database';
+import { StandingsPairing, StandingsResult } from './standings';
+import { calculateRatingChanges, expectedScore, formatRatingChange, getKFactor } from './ratings';
+
+const player = (id: string, rating: number, careerGames = 100): Player => ({
+  id,
+  name: id.toUpperCase(),
+  rating,
+  tournament_id: 't1',
+  career_games: careerGames
+});
+
+const game = (id: string, round: number, player1Id: string, player2Id: string | null): StandingsPairing => ({
+  id,
+  round_number: round,
+  player1_id: player1Id,
+  player2_id: player2Id,
+  is_bye: player2Id === null
+});
+
+describe('expectedScore', () => {
+  it('is even between equal ratings and symmetric otherwise', () => {
+    expect(expectedScore(1500, 1500)).toBeCloseTo(0.5);
+    expect(expectedScore(1700, 1500) + expectedScore(1500, 1700)).toBeCloseTo(1);
+    // 200 points is half a standard deviation of the difference between two players
+    expect(expectedScore(1700, 1500)).toBeCloseTo(0.76, 2);
+  });
+});
+
+describe('getKFactor', () => {
+  it('is provisional for players with few career games, then goes by rating band', () => {
+    expect(getKFactor(1900, 10)).toBe(30);
+    expect(getKFactor(2100, 100)).toBe(15);
+    expect(getKFactor(1900, 100)).toBe(20);
+    expect(getKFactor(1500, 100)).toBe(25);
+    // Unknown experience counts as established
+    expect(getKFactor(1900, null)).toBe(20);
+  });
+});
+
+describe('calculateRatingChanges', () => {
+  it('moves ratings by K times the difference from the expected score', () => {
+    const changes = calculateRatingChanges(
+      [player('a', 1500), player('b', 1700)],
+      [game('g1', 1, 'a', 'b')],
+      [{ pairing_id: 'g1', player1_score: 420, player2_score: 380 }]
+    );
+
+    // The upset is worth about 0.76 of a win to each side
+    expect(changes.get('a')).toMatchObject({ newRating: 1519, change: 19, actualWins: 1, kFactor: 25 });
+    expect(changes.get('b')).toMatchObject({ newRating: 1681, change: -19, actualWins: 0, kFactor: 25 });
+    expect(changes.get('a')!.expectedWins).toBeCloseTo(0.24, 2);
+  });
+
+  it('gives an unrated player their performance rating and leaves their opponents unchanged', () => {
+    const players = [player('u', 0, 0), player('b', 1500), player('c', 1700)];
+    const pairings = [game('g1', 1, 'u', 'b'), game('g2', 2, 'c', 'u')];
+    const results: StandingsResult[] = [
+      { pairing_id: 'g1', player1_score: 400, player2_score: 350 },
+      { pairing_id: 'g2', player1_score: 450, player2_score: 300 }
+    ];
+
+    const changes = calculateRatingChanges(players, pairings, results);
+
+    // One win and one loss against an average of 1600
+    expect(changes.get('u')).toMatchObject({ unrated: true, newRating: 1600 });
+    expect(changes.get('b')).toMatchObject({ newRating: 1500, games: [] });
+    expect(changes.get('c')).toMatchObject({ newRating: 1700, games: [] });
+  });
+
+  it('does not rate byes or forfeits', () => {
+    const changes = calculateRatingChanges(
+      [player('a', 1500), player('b', 1500), player('c', 1500)],
+      [game('g1', 1, 'a', 'b'), game('g2', 2, 'c', null)],
+      [
+        { pairing_id: 'g1', player1_score: 100, player2_score: 0, is_forfeit: true },
+        { pairing_id: 'g2', player1_score: 50, player2_score: 0 }
+      ]
+    );
+
+    expect(Array.from(changes.values()).map(change => change.change)).toEqual([0, 0, 0]);
+  });
+});
+
+describe('formatRatingChange', () => {
+  it('signs gains and losses', () => {
+    expect(formatRatingChange(12)).toBe('+12');
+    expect(formatRatingChange(-7)).toBe('-7');
+    expect(formatRatingChange(0)).toBe('±0');
+  });
+});
@@ -0,0 +1,185 @@
+import { Player } from '../types/database';
+import { StandingsPairing, StandingsResult } from './standings';
+
+/**
+ * Post-tournament rating updates in the NASPA/ABSP style: each game's expected
+ * score comes from the rating difference, and the player's rating moves by the
+ * K-factor times the difference between actual and expected wins.
+ * Pure: callers load the players, pairings and results.
+ */
+
+/** K-factor bands; the first band a player falls into applies. */
+export interface KFactorRules {
+  /** Players with fewer career games than this are provisional */
+  provisionalGames: number;
+  provisionalK: number;
+  /** Established players, highest `minRating` first */
+  bands: { minRating: number; k: number }[];
+}
+
+export const DEFAULT_K_FACTOR_RULES: KFactorRules = {
+  provisionalGames: 50,
+  provisionalK: 30,
+  bands: [
+    { minRating: 2000, k: 15 },
+    { minRating: 1800, k: 20 },
+    { minRating: 0, k: 25 }
+  ]
+};
+
+/** Standard deviation of a single player's performance, in rating points. */
+const PERFORMANCE_DEVIATION = 200;
+
+export interface RatedGame {
+  round: number;
+  opponentId: string;
+  opponentName: string;
+  opponentRating: number;
+  /** 1 for a win, 0.5 for a draw, 0 for a loss */
+  score: number;
+  /** Win probability before the game */
+  expected: number;
+}
+
+export interface RatingChange {
+  playerId: string;
+  name: string;
+  oldRating: number;
+  newRating: number;
+  change: number;
+  kFactor: number;
+  provisional: boolean;
+  /** Entered without a rating; the new rating is their performance rating */
+  unrated: boolean;
+  actualWins: number;
+  expectedWins: number;
+  games: RatedGame[];
+}
+
+/**
+ * Probability that a player rated `rating` beats one rated `opponentRating`.
+ */
+export function expectedScore(rating: number, opponentRating: number): number {
+  const difference = (rating - opponentRating) / (PERFORMANCE_DEVIATION * Math.SQRT2);
+  return normalCdf(difference);
+}
+
+/**
+ * K-factor for a player: provisional while they have few career games
+ * (unknown experience counts as established), then by rating band.
+ */
+export function getKFactor(
+  rating: number,
+  careerGames: number | null | undefined,
+  rules: KFactorRules = DEFAULT_K_FACTOR_RULES
+): number {
+  if (careerGames != null && careerGames < rules.provisionalGames) return rules.provisionalK;
+  const band = rules.bands.find(b => rating >= b.minRating);
+  return band ? band.k : rules.provisionalK;
+}
+
+/**
+ * Rating changes for every player from the games they played. Byes and
+ * forfeits are not rated. Rated players gain or lose nothing from games
+ * against unrated players; an unrated player's new rating is their
+ * performance rating against the rated opponents they met.
+ */
+export function calculateRatingChanges(
+  players: Player[],
+  pairings: StandingsPairing[],
+  results: StandingsResult[],
+  rules: KFactorRules = DEFAULT_K_FACTOR_RULES
+): Map<string, RatingChange> {
+  const playersById = new Map(players.map(player => [player.id!, player]));
+  const pairingsById = new Map(pairings.filter(p => p.id).map(p => [p.id!, p]));
+  const gamesById = new Map<string, RatedGame[]>(players.map(player => [player.id!, []]));
+  const isRated = (player: Player) => player.rating > 0;
+
+  results.forEach(result => {
+    if (result.is_forfeit) return;
+    const pairing = pairingsById.get(result.pairing_id);
+    if (!pairing || pairing.is_bye || !pairing.player2_id) return;
+
+    const player1 = playersById.get(pairing.player1_id);
+    const player2 = playersById.get(pairing.player2_id);
+    if (!player1 || !player2) return;
+
+    const margin = result.player1_score - result.player2_score;
+    const player1Score = margin > 0 ? 1 : margin < 0 ? 0 : 0.5;
+
+    const sides: [Player, Player, number][] = [
+      [player1, player2, player1Score],
+      [player2, player1, 1 - player1Score]
+    ];
+    sides.forEach(([player, opponent, score]) => {
+      // Only rated opponents carry information about a player's strength
+      if (!isRated(opponent)) return;
+      gamesById.get(player.id!)!.push({
+        round: pairing.round_number,
+        opponentId: opponent.id!,
+        opponentName: opponent.name,
+        opponentRating: opponent.rating,
+        score,
+        expected: isRated(player) ? expectedScore(player.rating, opponent.rating) : 0
+      });
+    });
+  });
+
+  const changes = new Map<string, RatingChange>();
+  players.forEach(player => {
+    const games = gamesById.get(player.id!)!.sort((a, b) => a.round - b.round);
+    const actualWins = games.reduce((sum, game) => sum + game.score, 0);
+    const expectedWins = games.reduce((sum, game) => sum + game.expected, 0);
+    const kFactor = getKFactor(player.rating, player.career_games, rules);
+
+    let newRating = player.rating;
+    if (!isRated(player)) {
+      newRating = games.length > 0 ? performanceRating(games, actualWins) : 0;
+    } else if (games.length > 0) {
+      newRating = Math.max(0, Math.round(player.rating + kFactor * (actualWins - expectedWins)));
+    }
+
+    changes.set(player.id!, {
+      playerId: player.id!,
+      name: player.name,
+      oldRating: player.rating,
+      newRating,
+      change: newRating - player.rating,
+      kFactor,
+      provisional: kFactor === rules.provisionalK,
+      unrated: !isRated(player),
+      actualWins,
+      expectedWins,
+      games
+    });
+  });
+
+  return changes;
+}
+
+/**
+ * Formats a rating change for tables, e.g. "+12", "-7" or "±0".
+ */
+export function formatRatingChange(change: number): string {
+  if (change === 0) return '±0';
+  return change > 0 ? `+${change}` : `${change}`;
+}
+
+/**
+ * Average opponent rating plus 400 points per net win per game.
+ */
+function performanceRating(games: RatedGame[], wins: number): number {
+  const averageOpponent = games.reduce((sum, game) => sum + game.opponentRating, 0) / games.length;
+  const losses = games.length - wins;
+  return Math.max(0, Math.round(averageOpponent + 400 * (wins - losses) / games.length));
+}
+
+/**
+ * Standard normal cumulative distribution (Abramowitz and Stegun 7.1.26).
+ */
+function normalCdf(x: number): number {
+  const z = Math.abs(x) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * z);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-z * z);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
@@ -0,0 +1,94 @@
+import { PairingDisplay } from '../types/database';
+
+/**
+ * What re-locking a round would change. Mirrors the matching done by the
+ * `replace_round_pairings` database function: a proposed pairing between the
+ * same two players (in either order) keeps the stored pairing and its result.
+ */
+
+/** A stored pairing of the round being replaced. */
+export interface StoredRoundPairing {
+  id: string;
+  table_number: number;
+  player1_id: string;
+  player2_id: string | null;
+  has_result: boolean;
+}
+
+export interface TableChange {
+  tableNumber: number;
+  /** Who played at this table before, e.g. "Ann vs Bob"; null if the table is new */
+  before: string | null;
+  /** Who is proposed for this table; null if the table is no longer used */
+  after: string | null;
+  /** The stored pairing at this table has a result that would be discarded */
+  discardsResult: boolean;
+}
+
+export interface RoundReplacementDiff {
+  /** Stored pairings that are proposed again, possibly at another table */
+  kept: number;
+  /** Kept pairings whose table number changes */
+  moved: number;
+  changes: TableChange[];
+  resultsDiscarded: number;
+  /** Nothing would be deleted or added */
+  identical: boolean;
+}
+
+/**
+ * Compares the stored pairings of a round with a proposed replacement.
+ */
+export function diffRoundPairings(
+  stored: StoredRoundPairing[],
+  proposed: PairingDisplay[],
+  nameOf: (playerId: string) => string
+): RoundReplacementDiff {
+  const describe = (player1Id: string, player2Id: string | null) =>
+    player2Id ? `${nameOf(player1Id)} vs ${nameOf(player2Id)}` : `${nameOf(player1Id)} (bye)`;
+
+  const unmatched = [...stored];
+  const added: PairingDisplay[] = [];
+  let moved = 0;
+
+  proposed.forEach(pairing => {
+    const player1Id = pairing.player1.id!;
+    const player2Id = pairing.player2?.id || null;
+    const index = unmatched.findIndex(existing =>
+      (existing.player1_id === player1Id && existing.player2_id === player2Id) ||
+      (player2Id !== null && existing.player1_id === player2Id && existing.player2_id === player1Id)
+    );
+
+    if (index === -1) {
+      added.push(pairing);
+      return;
+    }
+    if (unmatched[index].table_number !== pairing.table_number) moved++;
+    unmatched.splice(index, 1);
+  });
+
+  const changes = new Map<number, TableChange>();
+  const tableChange = (tableNumber: number) => {
+    if (!changes.has(tableNumber)) {
+      changes.set(tableNumber, { tableNumber, before: null, after: null, discardsResult: false });
+    }
+    return changes.get(tableNumber)!;
+  };
+
+  unmatched.forEach(existing => {
+    const change = tableChange(existing.table_number);
+    change.before = describe(existing.player1_id, existing.player2_id);
+    change.discardsResult = existing.has_result;
+  });
+  added.forEach(pairing => {
+    tableChange(pairing.table_number).after = describe(pairing.player1.id!, pairing.player2?.id || null);
+  });
+
+  return {
+    kept: stored.length - unmatched.length,
+    moved,
+    changes: Array.from(changes.values()).sort((a, b) => a.tableNumber - b.tableNumber),
+    resultsDiscarded: unmatched.filter(existing => existing.has_result).length,
+    identical: unmatched.length === 0 && added.length === 0
+  };
+}
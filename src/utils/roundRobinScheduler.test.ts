@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { buildRoundRobinSchedule, cyclesForRounds, roundsPerCycle } from './roundRobinScheduler';
+
+const entrants = (count: number) => Array.from({ length: count }, (_, i) => `p${i + 1}`);
+
+// Each entrant's games in order, as S (started) and R (replied)
+const firstMoveSequences = (count: number, cycles: number) => {
+  const sequences = new Map(entrants(count).map(entrant => [entrant, '']));
+  buildRoundRobinSchedule(entrants(count), cycles).forEach(round => {
+    round.games.forEach(game => {
+      sequences.set(game.first, sequences.get(game.first) + 'S');
+      sequences.set(game.second, sequences.get(game.second) + 'R');
+    });
+  });
+  return sequences;
+};
+
+describe('buildRoundRobinSchedule', () => {
+  it('pairs every entrant with every other entrant once per cycle', () => {
+    for (let count = 2; count <= 12; count++) {
+      const schedule = buildRoundRobinSchedule(entrants(count), 2);
+      const meetings = new Map<string, number>();
+      schedule.forEach(round => round.games.forEach(game => {
+        const key = [game.first, game.second].sort().join('-');
+        meetings.set(key, (meetings.get(key) || 0) + 1);
+      }));
+
+      expect(schedule).toHaveLength(2 * roundsPerCycle(count));
+      expect(meetings.size).toBe(count * (count - 1) / 2);
+      expect([...meetings.values()].every(times => times === 2)).toBe(true);
+    }
+  });
+
+  it('gives each entrant of an odd field one bye per cycle', () => {
+    const byes = buildRoundRobinSchedule(entrants(5), 2).map(round => round.bye);
+    entrants(5).forEach(entrant => {
+      expect(byes.filter(bye => bye === entrant)).toHaveLength(2);
+    });
+  });
+
+  it('never has anyone start or reply three games in a row, across cycles too', () => {
+    for (let count = 3; count <= 16; count++) {
+      for (const cycles of [1, 2, 3, 4]) {
+        firstMoveSequences(count, cycles).forEach(sequence => {
+          expect(sequence).not.toMatch(/SSS|RRR/);
+        });
+      }
+    }
+  });
+
+  it('keeps every entrant within one start of even', () => {
+    for (let count = 3; count <= 16; count++) {
+      firstMoveSequences(count, 2).forEach(sequence => {
+        const starts = sequence.split('').filter(side => side === 'S').length;
+        expect(Math.abs(2 * starts - sequence.length)).toBeLessThanOrEqual(1);
+      });
+    }
+  });
+
+  it('swaps who starts when two entrants meet again in the next cycle', () => {
+    const starters = new Map<string, string[]>();
+    buildRoundRobinSchedule(entrants(8), 2).forEach(round => round.games.forEach(game => {
+      const key = [game.first, game.second].sort().join('-');
+      starters.set(key, [...(starters.get(key) || []), game.first]);
+    }));
+    starters.forEach(([first, second]) => expect(first).not.toBe(second));
+  });
+
+  it('does not repeat a pairing in consecutive rounds', () => {
+    for (let count = 3; count <= 12; count++) {
+      const schedule = buildRoundRobinSchedule(entrants(count), 3);
+      const pairKeys = schedule.map(round => new Set(round.games.map(game => [game.first, game.second].sort().join('-'))));
+      pairKeys.slice(1).forEach((keys, index) => {
+        keys.forEach(key => expect(pairKeys[index].has(key)).toBe(false));
+      });
+    }
+  });
+});
+
+describe('cyclesForRounds', () => {
+  it('covers the requested rounds with whole cycles', () => {
+    expect(cyclesForRounds(8, 7)).toBe(1);
+    expect(cyclesForRounds(8, 14)).toBe(2);
+    expect(cyclesForRounds(8, 10)).toBe(2);
+    expect(cyclesForRounds(5, 5)).toBe(1);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Round-robin scheduling using Berger tables (the circle method). The whole
+ * schedule is computed up front from a fixed seed order, so any round can be
+ * reproduced deterministically and previewed before play begins.
+ */
+
+export interface RoundRobinGame<T> {
+  /** Entrant listed first; they make the first move */
+  first: T;
+  second: T;
+}
+
+export interface RoundRobinRound<T> {
+  round_number: number;
+  games: RoundRobinGame<T>[];
+  /** Entrant sitting out this round when the field is odd */
+  bye: T | null;
+}
+
+/**
+ * Number of rounds one full cycle takes for a field of the given size.
+ */
+export function roundsPerCycle(entrantCount: number): number {
+  if (entrantCount < 2) return 0;
+  return entrantCount % 2 === 0 ? entrantCount - 1 : entrantCount;
+}
+
+/**
+ * Builds a round-robin schedule in which every entrant meets every other
+ * entrant once per cycle.
+ * @param entrants Entrants in seed order (top seed first)
+ * @param cycles 1 for a single round robin, 2 for a double round robin, etc.
+ * @returns Rounds in playing order; every other cycle is played in reverse
+ *   with first and second swapped
+ */
+export function buildRoundRobinSchedule<T>(entrants: T[], cycles: number = 1): RoundRobinRound<T>[] {
+  const schedule: RoundRobinRound<T>[] = [];
+  if (entrants.length < 2) return schedule;
+
+  // An odd field gets a phantom entrant; whoever meets it has the bye
+  const slots: (T | null)[] = entrants.length % 2 === 0 ? [...entrants] : [...entrants, null];
+  const fixed = slots.length - 1;
+  const roundCount = fixed;
+
+  // Circle method: in table round c the fixed slot meets seed c, and seeds
+  // c + k and c - k (mod n - 1) meet each other. Sides alternate with k and c,
+  // so every entrant is within one start of even and never starts three games
+  // in a row.
+  const tableRounds = Array.from({ length: roundCount }, (_, c): Array<[number, number]> => {
+    const pairs: Array<[number, number]> = [c % 2 === 1 ? [fixed, c] : [c, fixed]];
+    for (let k = 1; k < slots.length / 2; k++) {
+      const a = (c + k) % roundCount;
+      const b = (c - k + roundCount) % roundCount;
+      pairs.push(k % 2 === 1 ? [a, b] : [b, a]);
+    }
+    return pairs;
+  });
+
+  for (let cycle = 0; cycle < cycles; cycle++) {
+    // Cycles alternate between playing the table forwards from round 2 and
+    // backwards with sides swapped. Either way every entrant's starts keep
+    // alternating across the change of cycle, and no pairing is repeated in
+    // consecutive rounds.
+    const cycleRounds = cycle % 2 === 0
+      ? tableRounds.map((_, index) => tableRounds[(index + 2) % roundCount])
+      : [...tableRounds].reverse();
+
+    cycleRounds.forEach((pairs, index) => {
+      const games: RoundRobinGame<T>[] = [];
+      let bye: T | null = null;
+
+      // Top boards go to the games with the highest seeds
+      const ordered = [...pairs].sort((a, b) => Math.min(...a) - Math.min(...b));
+      for (const [a, b] of ordered) {
+        const entrantA = slots[a];
+        const entrantB = slots[b];
+        if (entrantA === null) {
+          bye = entrantB;
+          continue;
+        }
+        if (entrantB === null) {
+          bye = entrantA;
+          continue;
+        }
+        games.push(cycle % 2 === 0
+          ? { first: entrantA, second: entrantB }
+          : { first: entrantB, second: entrantA });
+      }
+
+      schedule.push({
+        round_number: cycle * roundCount + index + 1,
+        games,
+        bye
+      });
+    });
+  }
+
+  return schedule;
+}
+
+/**
+ * Number of cycles needed to cover the given number of rounds.
+ */
+export function cyclesForRounds(entrantCount: number, totalRounds: number): number {
+  const perCycle = roundsPerCycle(entrantCount);
+  if (perCycle === 0) return 0;
+  return Math.max(1, Math.ceil(totalRounds / perCycle));
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { PlayerStanding } from './standings';
+import { describeClinchRequirement, solveClinch } from './scenarioPlanner';
+
+const standing = (id: string, points: number, spread = 0): PlayerStanding => ({
+  id,
+  name: id.toUpperCase(),
+  rank: 0,
+  rating: 1500,
+  wins: points,
+  losses: 0,
+  draws: 0,
+  points,
+  spread,
+  pointsFor: 0,
+  pointsAgainst: 0,
+  gamesPlayed: points,
+  byes: 0,
+  forfeits: 0,
+  provisionalPoints: 0,
+  starts: 0,
+  replies: 0,
+  lastGame: null
+});
+
+const spread250 = { prizePlaces: 1, spreadPerGame: 250 };
+
+describe('solveClinch', () => {
+  const standings = [standing('a', 6, 300), standing('b', 4, 100), standing('c', 3), standing('d', 2)];
+
+  it('knows when a place is already decided either way', () => {
+    expect(solveClinch([standing('a', 8), ...standings.slice(1)], 'a', 2, 1, spread250)).toEqual({ status: 'clinched' });
+    expect(solveClinch(standings, 'd', 2, 1, spread250)).toEqual({ status: 'eliminated' });
+  });
+
+  it('needs the wins that put the player out of reach on points', () => {
+    // b can tie on 6 and outrun 300 spread in two games, so one win is needed
+    expect(solveClinch(standings, 'a', 2, 1, spread250)).toEqual({ status: 'needs', wins: 1, minimumSpread: null });
+  });
+
+  it('asks for spread when it is enough to hold off a tie', () => {
+    // At 50 per game b finishes on at most 6 points and +200 spread
+    const requirement = solveClinch(standings, 'a', 2, 1, { prizePlaces: 1, spreadPerGame: 50 });
+
+    expect(requirement).toEqual({ status: 'needs', wins: 0, minimumSpread: -99 });
+    expect(describeClinchRequirement(requirement, 2)).toBe('Clinches even losing every game without losing more than 99 spread');
+  });
+
+  it('depends on others when a rival can always tie and spread is not counted', () => {
+    const tied = [standing('a', 6), standing('b', 6), standing('c', 0)];
+
+    expect(solveClinch(tied, 'a', 1, 1, { prizePlaces: 1, spreadPerGame: null })).toEqual({ status: 'depends_on_others' });
+  });
+});
@@ -0,0 +1,221 @@
+import { ScenarioGame } from '../types/database';
+import { computeStandings, getStandingsOptions, PlayerStanding, StandingsPairing, StandingsResult } from './standings';
+import { calculateGibsonStatus, GibsonConfig } from './gibsonization';
+import { pairFutureRound, SimulationInput } from './tournamentSimulator';
+
+/**
+ * What-if planning for the rest of a tournament. A scenario is a list of
+ * imagined games on top of the real results: the current round's pairings
+ * with made-up scores, then later rounds paired from the scenario's own
+ * standings. Pure: the visualizer loads the real data and stores scenarios.
+ */
+
+/** Scores a new imagined game starts with; player 1 (the higher board) wins. */
+export const DEFAULT_SCENARIO_SCORES = { winner: 400, loser: 350 };
+
+/** What a player needs from their own remaining games to be sure of a place. */
+export type ClinchRequirement =
+  | { status: 'clinched' }
+  | { status: 'needs'; wins: number; minimumSpread: number | null }
+  | { status: 'depends_on_others' }
+  | { status: 'eliminated' };
+
+export interface ScenarioComparisonRow {
+  id: string;
+  name: string;
+  first: PlayerStanding | null;
+  second: PlayerStanding | null;
+}
+
+/**
+ * An imagined game with the default scores.
+ */
+export function defaultScenarioGame(
+  round: number,
+  player1Id: string,
+  player2Id: string | null,
+  pairingId: string | null = null
+): ScenarioGame {
+  return {
+    round,
+    pairing_id: pairingId,
+    player1_id: player1Id,
+    player2_id: player2Id,
+    player1_score: player2Id ? DEFAULT_SCENARIO_SCORES.winner : 0,
+    player2_score: player2Id ? DEFAULT_SCENARIO_SCORES.loser : 0
+  };
+}
+
+/**
+ * Imagined games as pairings and results, ready for `computeStandings`.
+ * Real pairings keep their id; the others get one made from round and order.
+ */
+export function toStandingsGames(games: ScenarioGame[]): { pairings: StandingsPairing[]; results: StandingsResult[] } {
+  const pairings: StandingsPairing[] = [];
+  const results: StandingsResult[] = [];
+  games.forEach((game, index) => {
+    const id = game.pairing_id || `scenario-${game.round}-${index}`;
+    pairings.push({
+      id,
+      round_number: game.round,
+      player1_id: game.player1_id,
+      player2_id: game.player2_id,
+      is_bye: !game.player2_id
+    });
+    if (game.player2_id) {
+      results.push({ pairing_id: id, player1_score: game.player1_score, player2_score: game.player2_score });
+    }
+  });
+  return { pairings, results };
+}
+
+/**
+ * Standings after the real results plus a scenario's games.
+ */
+export function scenarioStandings(base: SimulationInput, games: ScenarioGame[]): PlayerStanding[] {
+  const scenario = toStandingsGames(games);
+  return computeStandings(
+    base.players,
+    [...base.pairings, ...scenario.pairings],
+    [...base.results, ...scenario.results],
+    getStandingsOptions(base.config)
+  );
+}
+
+/**
+ * Adds a round to a scenario, paired from the scenario's standings so far
+ * with the tournament's pairing schedule. Games in this round or later are
+ * replaced, since they were paired on different standings.
+ */
+export function addScenarioRound(base: SimulationInput, games: ScenarioGame[], round: number): ScenarioGame[] {
+  const earlier = games.filter(game => game.round < round);
+  const scenario = toStandingsGames(earlier);
+  const pairings = pairFutureRound(
+    base,
+    [...base.pairings, ...scenario.pairings],
+    [...base.results, ...scenario.results],
+    round
+  );
+
+  return [
+    ...earlier,
+    ...pairings.map(pairing => defaultScenarioGame(round, pairing.player1.id!, pairing.player2?.id || null))
+  ];
+}
+
+/**
+ * The last round a scenario imagines, or `fallback` if it has no games.
+ */
+export function getScenarioLastRound(games: ScenarioGame[], fallback: number): number {
+  return games.reduce((last, game) => Math.max(last, game.round), fallback);
+}
+
+/**
+ * A short description of the rounds a scenario covers, e.g. "Rounds 5–7".
+ */
+export function describeScenarioRounds(games: ScenarioGame[], fromRound: number): string {
+  const lastRound = getScenarioLastRound(games, fromRound);
+  return lastRound > fromRound ? `Rounds ${fromRound}–${lastRound}` : `Round ${fromRound}`;
+}
+
+/**
+ * Two sets of standings side by side, in the first set's order.
+ */
+export function compareStandings(first: PlayerStanding[], second: PlayerStanding[]): ScenarioComparisonRow[] {
+  const secondById = new Map(second.map(standing => [standing.id, standing]));
+  const rows: ScenarioComparisonRow[] = first.map(standing => ({
+    id: standing.id,
+    name: standing.name,
+    first: standing,
+    second: secondById.get(standing.id) || null
+  }));
+  const listed = new Set(rows.map(row => row.id));
+  second.filter(standing => !listed.has(standing.id)).forEach(standing => {
+    rows.push({ id: standing.id, name: standing.name, first: null, second: standing });
+  });
+  return rows;
+}
+
+/**
+ * The fewest wins, and then the least spread, a player needs from their
+ * remaining games to be certain of finishing in `targetPlace` or better,
+ * whatever happens elsewhere. Uses the same assumptions as Gibsonization:
+ * every rival may win all their games, by up to `spreadPerGame` each, and a
+ * player's losses cost at least 1 spread each.
+ */
+export function solveClinch(
+  standings: PlayerStanding[],
+  playerId: string,
+  remainingRounds: number,
+  targetPlace: number,
+  gibsonConfig: GibsonConfig
+): ClinchRequirement {
+  const player = standings.find(standing => standing.id === playerId);
+  if (!player) return { status: 'eliminated' };
+
+  const status = calculateGibsonStatus(
+    standings.map(standing => ({
+      ...standing,
+      previous_starts: standing.starts,
+      previous_replies: standing.replies,
+      tournament_id: '',
+      is_gibsonized: false
+    })),
+    remainingRounds,
+    { ...gibsonConfig, prizePlaces: targetPlace }
+  ).get(playerId);
+  if (status && status.worst_place <= targetPlace) return { status: 'clinched' };
+  if (status && status.best_place > targetPlace) return { status: 'eliminated' };
+
+  const spreadSwing = gibsonConfig.spreadPerGame === null ? null : gibsonConfig.spreadPerGame * remainingRounds;
+  const rivals = standings.filter(standing => standing.id !== playerId);
+  // Places the player can give away and still make the target
+  const allowedAhead = targetPlace - 1;
+
+  for (let wins = 0; wins <= remainingRounds; wins++) {
+    const points = player.points + wins;
+    const losses = remainingRounds - wins;
+
+    // Rivals who can finish on more points will always be able to pass
+    const passing = rivals.filter(rival => rival.points + remainingRounds > points).length;
+    if (passing > allowedAhead) continue;
+
+    // Rivals who can tie on points are held off with spread, if spread counts
+    const tying = rivals
+      .filter(rival => rival.points + remainingRounds === points)
+      .map(rival => rival.spread + (spreadSwing ?? 0))
+      .sort((a, b) => b - a);
+    const mustBeat = tying.slice(allowedAhead - passing);
+    if (mustBeat.length === 0) return { status: 'needs', wins, minimumSpread: null };
+    if (spreadSwing === null) continue;
+
+    const minimumSpread = mustBeat[0] + 1 - player.spread;
+    const bestSpread = wins * gibsonConfig.spreadPerGame! - losses;
+    if (minimumSpread <= bestSpread) return { status: 'needs', wins, minimumSpread };
+  }
+
+  return { status: 'depends_on_others' };
+}
+
+/**
+ * A clinch requirement in words, e.g. "Needs 3 wins from 4 and +120 spread".
+ */
+export function describeClinchRequirement(requirement: ClinchRequirement, remainingRounds: number): string {
+  switch (requirement.status) {
+    case 'clinched':
+      return 'Already clinched';
+    case 'eliminated':
+      return 'Can no longer reach this place';
+    case 'depends_on_others':
+      return 'Cannot clinch on their own results; depends on other games';
+    case 'needs': {
+      const wins = requirement.wins === 0
+        ? 'Clinches even losing every game'
+        : `Needs ${requirement.wins} win${requirement.wins === 1 ? '' : 's'} from ${remainingRounds}`;
+      if (requirement.minimumSpread === null) return wins;
+      return requirement.minimumSpread > 0
+        ? `${wins} and +${requirement.minimumSpread} spread`
+        : `${wins} without losing more than ${-requirement.minimumSpread} spread`;
+    }
+  }
+}
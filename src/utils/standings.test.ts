@@ -0,0 +1,190 @@
+import { describe, it, expect } from 'vitest';
+import { Player } from '../types/database';
+import { computeStandings, getLastCompleteRound, StandingsPairing, StandingsResult } from './standings';
+
+const player = (id: string, rating = 1500, extra: Partial<Player> = {}): Player => ({
+  id,
+  name: id.toUpperCase(),
+  rating,
+  tournament_id: 't1',
+  ...extra
+});
+
+const game = (
+  id: string,
+  round: number,
+  player1: string,
+  player2: string,
+  player1Score: number,
+  player2Score: number
+): { pairing: StandingsPairing; result: StandingsResult } => ({
+  pairing: { id, round_number: round, player1_id: player1, player2_id: player2 },
+  result: { pairing_id: id, player1_score: player1Score, player2_score: player2Score }
+});
+
+const byId = <T extends { id: string }>(standings: T[]) =>
+  new Map(standings.map(standing => [standing.id, standing]));
+
+describe('computeStandings', () => {
+  it('counts wins, losses, draws and spread from played games', () => {
+    const games = [
+      game('g1', 1, 'a', 'b', 400, 350),
+      game('g2', 2, 'a', 'b', 380, 380)
+    ];
+    const standings = byId(computeStandings(
+      [player('a'), player('b')],
+      games.map(g => g.pairing),
+      games.map(g => g.result)
+    ));
+
+    expect(standings.get('a')).toMatchObject({ wins: 1, losses: 0, draws: 1, points: 1.5, spread: 50, gamesPlayed: 2, rank: 1 });
+    expect(standings.get('b')).toMatchObject({ wins: 0, losses: 1, draws: 1, points: 0.5, spread: -50, gamesPlayed: 2, rank: 2 });
+  });
+
+  it('awards a bye without a result, as a win worth +50 by default', () => {
+    const pairings: StandingsPairing[] = [
+      { id: 'bye', round_number: 1, player1_id: 'a', player2_id: null, is_bye: true }
+    ];
+    const [standing] = computeStandings([player('a')], pairings, []);
+
+    expect(standing).toMatchObject({ wins: 1, byes: 1, points: 1, spread: 50, gamesPlayed: 0 });
+  });
+
+  it('uses the configured bye award', () => {
+    const pairings: StandingsPairing[] = [
+      { id: 'bye', round_number: 1, player1_id: 'a', player2_id: null, is_bye: true }
+    ];
+    const [standing] = computeStandings([player('a')], pairings, [], {
+      byeAward: { result: 'draw', spread: 0 }
+    });
+
+    expect(standing).toMatchObject({ draws: 1, wins: 0, points: 0.5, spread: 0 });
+  });
+
+  it('ignores a result recorded against a bye', () => {
+    const pairings: StandingsPairing[] = [
+      { id: 'bye', round_number: 1, player1_id: 'a', player2_id: null, is_bye: true }
+    ];
+    const results: StandingsResult[] = [{ pairing_id: 'bye', player1_score: 500, player2_score: 0 }];
+    const [standing] = computeStandings([player('a')], pairings, results);
+
+    expect(standing).toMatchObject({ wins: 1, byes: 1, spread: 50, pointsFor: 0 });
+  });
+
+  it('scores a forfeit for whoever showed up without counting it as a game', () => {
+    const pairings: StandingsPairing[] = [{ id: 'f', round_number: 1, player1_id: 'a', player2_id: 'b' }];
+    const results: StandingsResult[] = [
+      { pairing_id: 'f', player1_score: 0, player2_score: 0, winner_id: 'b', is_forfeit: true }
+    ];
+    const standings = byId(computeStandings([player('a'), player('b')], pairings, results, { forfeitSpread: 100 }));
+
+    expect(standings.get('b')).toMatchObject({ wins: 1, spread: 100, gamesPlayed: 0, forfeits: 0 });
+    expect(standings.get('a')).toMatchObject({ losses: 1, spread: -100, gamesPlayed: 0, forfeits: 1 });
+  });
+
+  it('counts a double forfeit as a loss for both players', () => {
+    const pairings: StandingsPairing[] = [{ id: 'f', round_number: 1, player1_id: 'a', player2_id: 'b' }];
+    const results: StandingsResult[] = [
+      { pairing_id: 'f', player1_score: 0, player2_score: 0, winner_id: null, is_forfeit: true }
+    ];
+    const standings = computeStandings([player('a'), player('b')], pairings, results);
+
+    standings.forEach(standing => {
+      expect(standing).toMatchObject({ wins: 0, losses: 1, forfeits: 1, spread: -50 });
+    });
+  });
+
+  it('scores a forfeit recorded on a bye instead of the bye award', () => {
+    const pairings: StandingsPairing[] = [
+      { id: 'f', round_number: 1, player1_id: 'a', player2_id: null, is_bye: true }
+    ];
+    const results: StandingsResult[] = [
+      { pairing_id: 'f', player1_score: 0, player2_score: 0, winner_id: null, is_forfeit: true }
+    ];
+    const [standing] = computeStandings([player('a')], pairings, results, { forfeitSpread: 100 });
+
+    expect(standing).toMatchObject({ wins: 0, losses: 1, byes: 0, forfeits: 1, spread: -100, gamesPlayed: 0 });
+  });
+
+  it('keeps the results a withdrawn player played', () => {
+    const games = [
+      game('g1', 1, 'a', 'w', 300, 450),
+      game('g2', 2, 'a', 'b', 400, 300)
+    ];
+    const standings = byId(computeStandings(
+      [player('a'), player('b'), player('w', 1500, { status: 'withdrawn' })],
+      games.map(g => g.pairing),
+      games.map(g => g.result)
+    ));
+
+    expect(standings.get('w')).toMatchObject({ wins: 1, gamesPlayed: 1, spread: 150 });
+    expect(standings.get('a')).toMatchObject({ wins: 1, losses: 1, gamesPlayed: 2, spread: -50 });
+  });
+
+  it('credits late entrants for the rounds they missed', () => {
+    const games = [
+      game('g1', 1, 'a', 'b', 400, 300),
+      game('g2', 2, 'a', 'b', 400, 300),
+      game('g3', 3, 'a', 'late', 300, 400)
+    ];
+    const standings = byId(computeStandings(
+      [player('a'), player('b'), player('late', 1500, { late_entry_round: 3 })],
+      games.map(g => g.pairing),
+      games.map(g => g.result),
+      { lateEntryPoints: 0.5 }
+    ));
+
+    expect(standings.get('late')).toMatchObject({ wins: 1, provisionalPoints: 1, points: 2 });
+  });
+
+  it('ignores games against players outside the field', () => {
+    const games = [game('g1', 1, 'a', 'other-division', 500, 100)];
+    const [standing] = computeStandings([player('a')], games.map(g => g.pairing), games.map(g => g.result));
+
+    expect(standing).toMatchObject({ wins: 0, gamesPlayed: 0, spread: 0 });
+  });
+
+  it('only counts rounds up to throughRound', () => {
+    const games = [
+      game('g1', 1, 'a', 'b', 400, 300),
+      game('g2', 2, 'b', 'a', 500, 300)
+    ];
+    const standings = byId(computeStandings(
+      [player('a'), player('b')],
+      games.map(g => g.pairing),
+      games.map(g => g.result),
+      { throughRound: 1 }
+    ));
+
+    expect(standings.get('a')).toMatchObject({ wins: 1, losses: 0, spread: 100 });
+  });
+
+  it('counts starts and replies from the first-move player', () => {
+    const pairings: StandingsPairing[] = [
+      { id: 'g1', round_number: 1, player1_id: 'a', player2_id: 'b', first_move_player_id: 'a' },
+      { id: 'g2', round_number: 2, player1_id: 'a', player2_id: 'b', first_move_player_id: 'a' }
+    ];
+    const results: StandingsResult[] = [
+      { pairing_id: 'g1', player1_score: 400, player2_score: 300 },
+      { pairing_id: 'g2', player1_score: 300, player2_score: 400 }
+    ];
+    const standings = byId(computeStandings([player('a'), player('b')], pairings, results));
+
+    expect(standings.get('a')).toMatchObject({ starts: 2, replies: 0 });
+    expect(standings.get('b')).toMatchObject({ starts: 0, replies: 2 });
+  });
+});
+
+describe('getLastCompleteRound', () => {
+  it('stops before the first round with a missing result', () => {
+    const pairings: StandingsPairing[] = [
+      { id: 'g1', round_number: 1, player1_id: 'a', player2_id: 'b' },
+      { id: 'bye', round_number: 1, player1_id: 'c', player2_id: null, is_bye: true },
+      { id: 'g2', round_number: 2, player1_id: 'a', player2_id: 'c' }
+    ];
+    const results: StandingsResult[] = [{ pairing_id: 'g1', player1_score: 400, player2_score: 300 }];
+
+    expect(getLastCompleteRound(pairings, results)).toBe(1);
+    expect(getLastCompleteRound(pairings, [])).toBe(0);
+  });
+});
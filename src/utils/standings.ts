@@ -0,0 +1,328 @@
+import { Player, TiebreakRule, TournamentConfig } from '../types/database';
+import { rankByTiebreaks, getTiebreakChain, ScoredGame, DEFAULT_TIEBREAK_CHAIN } from './tiebreaks';
+import { missedRounds } from './playerStatus';
+
+/**
+ * The single standings calculation used by every screen (director view,
+ * projector, public page, player details, simulators), so they always agree.
+ * Pure: callers load the data, this module only counts and ranks.
+ */
+
+export interface StandingsPairing {
+  id?: string;
+  round_number: number;
+  player1_id: string;
+  /** Null for a bye */
+  player2_id: string | null;
+  player1_rank?: number;
+  player2_rank?: number | null;
+  first_move_player_id?: string | null;
+  is_bye?: boolean;
+}
+
+export interface StandingsResult {
+  pairing_id: string;
+  player1_score: number;
+  player2_score: number;
+  /** On a forfeit, the player who showed up; null if neither did */
+  winner_id?: string | null;
+  is_forfeit?: boolean;
+}
+
+/** What a player receives for sitting out a round. */
+export interface ByeAward {
+  result: 'win' | 'draw' | 'loss';
+  spread: number;
+}
+
+export const DEFAULT_BYE_AWARD: ByeAward = {
+  result: 'win',
+  spread: 50
+};
+
+export const DEFAULT_FORFEIT_SPREAD = 50;
+
+export interface StandingsOptions {
+  /** Applied in order after points; defaults to spread then rating */
+  tiebreakChain?: TiebreakRule[];
+  /** Defaults to a win with +50 spread */
+  byeAward?: ByeAward;
+  /** Spread won and lost on a forfeit; defaults to 50 */
+  forfeitSpread?: number;
+  /** Provisional points per round a late entrant missed; defaults to none */
+  lateEntryPoints?: number;
+  /** Only count games up to and including this round */
+  throughRound?: number;
+}
+
+export interface LastGame {
+  round: number;
+  result: 'won' | 'lost' | 'drew';
+  playerScore: number;
+  opponentScore: number;
+  opponentId: string;
+  opponentName: string;
+  /** Opponent's rank when the game was paired */
+  opponentRank: number;
+}
+
+export interface PlayerStanding {
+  id: string;
+  name: string;
+  rank: number;
+  rating: number;
+  team_name?: string;
+  wins: number;
+  losses: number;
+  draws: number;
+  points: number;
+  spread: number;
+  pointsFor: number;
+  pointsAgainst: number;
+  /** Games played against an opponent; byes and forfeits are not games */
+  gamesPlayed: number;
+  byes: number;
+  forfeits: number;
+  /** Points credited to a late entrant for the rounds they missed */
+  provisionalPoints: number;
+  /** Games played in which this player moved first */
+  starts: number;
+  /** Games played in which the opponent moved first */
+  replies: number;
+  lastGame: LastGame | null;
+}
+
+/**
+ * Computes ranked standings for a field of players. Games involving anyone
+ * outside `players` (e.g. another division) are ignored, as are pairings
+ * without a result. Withdrawn players keep the results they played.
+ */
+export function computeStandings(
+  players: Player[],
+  pairings: StandingsPairing[],
+  results: StandingsResult[],
+  options: StandingsOptions = {}
+): PlayerStanding[] {
+  const standingsById = new Map<string, PlayerStanding>();
+  players.forEach(player => {
+    standingsById.set(player.id!, {
+      id: player.id!,
+      name: player.name,
+      rank: 0, // Will be calculated after sorting
+      rating: player.rating,
+      team_name: player.team_name,
+      wins: 0,
+      losses: 0,
+      draws: 0,
+      points: 0,
+      spread: 0,
+      pointsFor: 0,
+      pointsAgainst: 0,
+      gamesPlayed: 0,
+      byes: 0,
+      forfeits: 0,
+      provisionalPoints: 0,
+      starts: 0,
+      replies: 0,
+      lastGame: null
+    });
+  });
+
+  const pairingsById = new Map(pairings.filter(p => p.id).map(p => [p.id!, p]));
+  const games: ScoredGame[] = [];
+  const byeAward = options.byeAward || DEFAULT_BYE_AWARD;
+  const forfeitSpread = options.forfeitSpread ?? DEFAULT_FORFEIT_SPREAD;
+  // Spread from byes and forfeits, which have no scores
+  const awardedSpread = new Map<string, number>();
+  const awardSpread = (playerId: string, spread: number) => {
+    awardedSpread.set(playerId, (awardedSpread.get(playerId) || 0) + spread);
+  };
+  // A forfeit is a win for whoever showed up, but not a game for tiebreaks
+  const scoreForfeit = (standing: PlayerStanding, won: boolean) => {
+    if (won) {
+      standing.wins++;
+      awardSpread(standing.id, forfeitSpread);
+    } else {
+      standing.losses++;
+      standing.forfeits++;
+      awardSpread(standing.id, -forfeitSpread);
+    }
+  };
+  const forfeitsByPairing = new Map(
+    results.filter(result => result.is_forfeit).map(result => [result.pairing_id, result])
+  );
+
+  // Byes need no result; the award counts as soon as the bye is paired
+  pairings.forEach(pairing => {
+    if (!pairing.is_bye) return;
+    if (options.throughRound !== undefined && pairing.round_number > options.throughRound) return;
+
+    const standing = standingsById.get(pairing.player1_id);
+    if (!standing) return;
+
+    // A forfeit recorded without its opponent, e.g. imported from a tsh file
+    const forfeit = pairing.id ? forfeitsByPairing.get(pairing.id) : undefined;
+    if (forfeit) {
+      scoreForfeit(standing, forfeit.winner_id === standing.id);
+      return;
+    }
+
+    standing.byes++;
+    if (byeAward.result === 'win') standing.wins++;
+    else if (byeAward.result === 'draw') standing.draws++;
+    else standing.losses++;
+    awardSpread(standing.id, byeAward.spread);
+  });
+
+  results.forEach(result => {
+    const pairing = pairingsById.get(result.pairing_id);
+    if (!pairing) return;
+    if (options.throughRound !== undefined && pairing.round_number > options.throughRound) return;
+
+    if (pairing.is_bye || !pairing.player2_id) return;
+
+    const standing1 = standingsById.get(pairing.player1_id);
+    const standing2 = standingsById.get(pairing.player2_id);
+    if (!standing1 || !standing2) return;
+
+    if (result.is_forfeit) {
+      [standing1, standing2].forEach(standing => scoreForfeit(standing, result.winner_id === standing.id));
+      return;
+    }
+
+    recordGame(standing1, standing2, pairing, result.player1_score, result.player2_score, pairing.player2_rank);
+    recordGame(standing2, standing1, pairing, result.player2_score, result.player1_score, pairing.player1_rank);
+
+    games.push({
+      player1_id: pairing.player1_id,
+      player2_id: pairing.player2_id,
+      round_number: pairing.round_number,
+      player1_score: result.player1_score,
+      player2_score: result.player2_score
+    });
+  });
+
+  // Late entrants are credited for the rounds played before they arrived
+  const lastRound = options.throughRound ?? pairings.reduce((max, pairing) => Math.max(max, pairing.round_number), 0);
+  const lateEntryPoints = options.lateEntryPoints || 0;
+  players.forEach(player => {
+    const standing = standingsById.get(player.id!)!;
+    standing.provisionalPoints = missedRounds(player, lastRound) * lateEntryPoints;
+  });
+
+  const standings = Array.from(standingsById.values());
+  standings.forEach(standing => {
+    standing.points = standing.wins + (standing.draws * 0.5) + standing.provisionalPoints;
+    standing.spread = standing.pointsFor - standing.pointsAgainst + (awardedSpread.get(standing.id) || 0);
+  });
+
+  // Sort by points, then the tournament's tiebreak chain
+  const ranked = rankByTiebreaks(standings, games, options.tiebreakChain || DEFAULT_TIEBREAK_CHAIN);
+
+  // Assign ranks
+  ranked.forEach((standing, index) => {
+    standing.rank = index + 1;
+  });
+
+  return ranked;
+}
+
+/**
+ * Reads the bye award from tournament configuration, falling back to a win with +50 spread.
+ */
+export function getByeAward(config?: Partial<TournamentConfig> | null): ByeAward {
+  return {
+    result: config?.bye_result || DEFAULT_BYE_AWARD.result,
+    spread: config?.bye_spread ?? DEFAULT_BYE_AWARD.spread
+  };
+}
+
+/**
+ * Reads every scoring rule that affects standings from tournament configuration.
+ */
+export function getStandingsOptions(config?: Partial<TournamentConfig> | null): StandingsOptions {
+  return {
+    tiebreakChain: getTiebreakChain(config),
+    byeAward: getByeAward(config),
+    forfeitSpread: config?.forfeit_spread ?? DEFAULT_FORFEIT_SPREAD,
+    lateEntryPoints: config?.late_entry_points ?? 0
+  };
+}
+
+/**
+ * The latest round such that it and every round before it have all their
+ * results in. Standings through this round can be used to pair ahead while
+ * later rounds are still being played.
+ * @returns 0 if round 1 is not complete yet
+ */
+export function getLastCompleteRound(pairings: StandingsPairing[], results: StandingsResult[]): number {
+  const reported = new Set(results.map(result => result.pairing_id));
+  const lastRound = pairings.reduce((max, pairing) => Math.max(max, pairing.round_number), 0);
+
+  for (let round = 1; round <= lastRound; round++) {
+    const roundPairings = pairings.filter(pairing => pairing.round_number === round);
+    const complete = roundPairings.length > 0 && roundPairings.every(pairing =>
+      pairing.is_bye || !pairing.player2_id || (pairing.id !== undefined && reported.has(pairing.id))
+    );
+    if (!complete) return round - 1;
+  }
+  return lastRound;
+}
+
+/**
+ * Adapts results loaded with an embedded `pairing` into the pairings and
+ * results lists `computeStandings` expects. The embedded pairing must include `id`.
+ */
+export function splitJoinedResults<P extends StandingsPairing>(
+  results: Array<StandingsResult & { pairing?: P | null }>
+): { pairings: P[]; results: StandingsResult[] } {
+  const joined = results.filter(result => result.pairing);
+  return {
+    pairings: joined.map(result => result.pairing!),
+    results: joined
+  };
+}
+
+function recordGame(
+  standing: PlayerStanding,
+  opponent: PlayerStanding,
+  pairing: StandingsPairing,
+  playerScore: number,
+  opponentScore: number,
+  opponentRank: number | null | undefined
+) {
+  standing.pointsFor += playerScore;
+  standing.pointsAgainst += opponentScore;
+  standing.gamesPlayed++;
+
+  if (pairing.first_move_player_id === standing.id) {
+    standing.starts++;
+  } else if (pairing.first_move_player_id === opponent.id) {
+    standing.replies++;
+  }
+
+  let gameResult: 'won' | 'lost' | 'drew';
+  if (playerScore > opponentScore) {
+    standing.wins++;
+    gameResult = 'won';
+  } else if (playerScore < opponentScore) {
+    standing.losses++;
+    gameResult = 'lost';
+  } else {
+    standing.draws++;
+    gameResult = 'drew';
+  }
+
+  // Track most recent game
+  if (!standing.lastGame || pairing.round_number > standing.lastGame.round) {
+    standing.lastGame = {
+      round: pairing.round_number,
+      result: gameResult,
+      playerScore,
+      opponentScore,
+      opponentId: opponent.id,
+      opponentName: opponent.name,
+      opponentRank: opponentRank || 0
+    };
+  }
+}
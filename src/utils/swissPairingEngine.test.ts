@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { PlayerWithRank } from '../types/database';
+import { pairSwissByMatching } from './swissPairingEngine';
+
+const player = (id: string, rank: number, points: number): PlayerWithRank => ({
+  id,
+  name: id.toUpperCase(),
+  rating: 1500,
+  tournament_id: 't1',
+  rank,
+  previous_starts: 0,
+  wins: 0,
+  losses: 0,
+  draws: 0,
+  points,
+  spread: 0,
+  is_gibsonized: false
+});
+
+const pairIds = (pairs: Array<[PlayerWithRank, PlayerWithRank]>) =>
+  pairs.map(([a, b]) => [a.id, b.id].sort().join('-')).sort();
+
+describe('pairSwissByMatching', () => {
+  it('pairs within score groups when no rematch is involved', () => {
+    const players = [player('a', 1, 3), player('b', 2, 3), player('c', 3, 1), player('d', 4, 1)];
+    const { pairs } = pairSwissByMatching(players, [], { avoidRematches: true, currentRound: 4 });
+
+    expect(pairIds(pairs)).toEqual(['a-b', 'c-d']);
+  });
+
+  it('avoids a rematch even when both boards must cross a wide score gap', () => {
+    // Each cross-group board costs close to the score-group cap; together
+    // they cost more than one rematch at the base weight
+    const players = [player('a', 1, 15), player('b', 2, 15), player('c', 3, 0), player('d', 4, 0)];
+    const history = [{ player1_id: 'a', player2_id: 'b', round_number: 1 }];
+    const { pairs } = pairSwissByMatching(players, history, { avoidRematches: true, currentRound: 31 });
+
+    expect(pairIds(pairs)).toEqual(['a-c', 'b-d']);
+  });
+
+  it('gives the bye to the lowest-ranked player', () => {
+    const players = [player('a', 1, 2), player('b', 2, 1), player('c', 3, 0)];
+    const { byePlayer } = pairSwissByMatching(players, [], { avoidRematches: true, currentRound: 3 });
+
+    expect(byePlayer?.id).toBe('c');
+  });
+});
@@ -0,0 +1,197 @@
+import { PlayerWithRank } from '../types/database';
+import { minCostPerfectMatching } from './weightedMatching';
+
+/** A previously played (or locked) pairing used for rematch and balance checks. */
+export interface PairingHistoryEntry {
+  player1_id: string;
+  /** Null when player 1 had a bye */
+  player2_id: string | null;
+  round_number?: number;
+  table_number?: number;
+  first_move_player_id?: string;
+  /** Scores, once the game has a result; used for standings tiebreaks */
+  player1_score?: number | null;
+  player2_score?: number | null;
+  is_bye?: boolean;
+}
+
+export interface SwissCostWeights {
+  /**
+   * Cost per previous meeting between the two players; raised for each round
+   * above everything else the round's pairings can cost combined
+   */
+  rematch: number;
+  /** Extra rematch cost divided by the number of rounds since they last met */
+  rematchRecency: number;
+  /** Cost per squared half-point difference in score */
+  scoreGroup: number;
+  /** Cost per place of rank distance (prefers 1v2, 3v4 within a score group) */
+  rankDistance: number;
+  /** Cost per game of shared first/second imbalance (both due to start or both due to reply) */
+  startBalance: number;
+  /** Cost per place a bye recipient sits above the bottom */
+  bottomRank: number;
+}
+
+export const DEFAULT_SWISS_WEIGHTS: SwissCostWeights = {
+  rematch: 1_000_000,
+  rematchRecency: 100_000,
+  scoreGroup: 1_000,
+  rankDistance: 1,
+  startBalance: 50,
+  bottomRank: 1_000
+};
+
+// Keeps one lopsided board from outweighing the rest of the round
+const MAX_SCORE_GROUP_COST = 900_000;
+
+export interface SwissPairingOptions {
+  avoidRematches: boolean;
+  currentRound: number;
+  weights?: Partial<SwissCostWeights>;
+}
+
+export interface SwissPairingResult {
+  pairs: Array<[PlayerWithRank, PlayerWithRank]>;
+  byePlayer: PlayerWithRank | null;
+  totalCost: number;
+}
+
+export interface MeetingSummary {
+  count: number;
+  lastRound: number;
+}
+
+/**
+ * Pairs a whole round as a minimum-cost perfect matching. Players must be
+ * sorted by standings with `rank` assigned; pairs are returned in table order.
+ * Gibsonized players are expected to have been paired beforehand.
+ */
+export function pairSwissByMatching(
+  players: PlayerWithRank[],
+  history: PairingHistoryEntry[],
+  options: SwissPairingOptions
+): SwissPairingResult {
+  const weights = { ...DEFAULT_SWISS_WEIGHTS, ...options.weights };
+  // No amount of score-group drift spread across the boards may buy a rematch
+  weights.rematch = Math.max(weights.rematch, maxNonRematchCost(players, weights) + 1);
+  const meetings = summarizeMeetings(history);
+  const needsBye = players.length % 2 === 1;
+  const size = needsBye ? players.length + 1 : players.length;
+  const byeVertex = needsBye ? players.length : -1;
+
+  if (players.length < 2) {
+    return { pairs: [], byePlayer: players[0] || null, totalCost: 0 };
+  }
+
+  const cost = (i: number, j: number): number => {
+    if (i === byeVertex || j === byeVertex) {
+      return byeCost(i === byeVertex ? j : i, players.length, weights);
+    }
+    return pairCost(players[i], players[j], meetings, options, weights);
+  };
+
+  const mate = minCostPerfectMatching(size, cost);
+
+  const pairs: Array<[PlayerWithRank, PlayerWithRank]> = [];
+  let byePlayer: PlayerWithRank | null = null;
+  let totalCost = 0;
+
+  for (let i = 0; i < players.length; i++) {
+    const j = mate[i];
+    if (j === byeVertex) {
+      byePlayer = players[i];
+      totalCost += cost(i, j);
+    } else if (j > i) {
+      // Higher-ranked player is listed first
+      pairs.push([players[i], players[j]]);
+      totalCost += cost(i, j);
+    }
+  }
+
+  return { pairs, byePlayer, totalCost };
+}
+
+/**
+ * Cost of seating two players against each other this round.
+ */
+export function pairCost(
+  a: PlayerWithRank,
+  b: PlayerWithRank,
+  meetings: Map<string, MeetingSummary>,
+  options: SwissPairingOptions,
+  weights: SwissCostWeights = DEFAULT_SWISS_WEIGHTS
+): number {
+  let cost = 0;
+
+  const meeting = meetings.get(meetingKey(a.id!, b.id!));
+  if (meeting && options.avoidRematches) {
+    cost += meeting.count * weights.rematch;
+    const roundsAgo = Math.max(1, options.currentRound - meeting.lastRound);
+    cost += Math.round(weights.rematchRecency / roundsAgo);
+  }
+
+  const halfPoints = Math.round(Math.abs(a.points - b.points) * 2);
+  cost += Math.min(halfPoints * halfPoints * weights.scoreGroup, MAX_SCORE_GROUP_COST);
+  cost += Math.abs(a.rank - b.rank) * weights.rankDistance;
+
+  cost += startOverlap(a, b) * weights.startBalance;
+
+  return Math.max(0, cost);
+}
+
+/**
+ * The most a round's pairings can cost without a rematch: every board at the
+ * score-group cap with the widest rank gap and start overlap, plus the
+ * costliest bye.
+ */
+function maxNonRematchCost(players: PlayerWithRank[], weights: SwissCostWeights): number {
+  const boards = Math.ceil(players.length / 2);
+  const mostGames = players.reduce((max, player) => Math.max(max, player.wins + player.losses + player.draws), 0);
+  const boardCost = MAX_SCORE_GROUP_COST
+    + (players.length - 1) * weights.rankDistance
+    + mostGames * weights.startBalance;
+  return boards * boardCost + players.length * weights.bottomRank;
+}
+
+function byeCost(position: number, fieldSize: number, weights: SwissCostWeights): number {
+  // Byes go to the lowest-ranked player
+  return (fieldSize - 1 - position) * weights.bottomRank;
+}
+
+/**
+ * How far both players lean the same way on starts: two players who have
+ * both started more than replied (or vice versa) cannot both be balanced.
+ */
+function startOverlap(a: PlayerWithRank, b: PlayerWithRank): number {
+  const balanceA = startBalance(a);
+  const balanceB = startBalance(b);
+  if (balanceA > 0 && balanceB > 0) return Math.min(balanceA, balanceB);
+  if (balanceA < 0 && balanceB < 0) return Math.min(-balanceA, -balanceB);
+  return 0;
+}
+
+function startBalance(player: PlayerWithRank): number {
+  if (player.previous_replies !== undefined) {
+    return player.previous_starts - player.previous_replies;
+  }
+  const gamesPlayed = player.wins + player.losses + player.draws;
+  return player.previous_starts - (gamesPlayed - player.previous_starts);
+}
+
+export function summarizeMeetings(history: PairingHistoryEntry[]): Map<string, MeetingSummary> {
+  const meetings = new Map<string, MeetingSummary>();
+  history.forEach(entry => {
+    if (!entry.player2_id) return;
+    const key = meetingKey(entry.player1_id, entry.player2_id);
+    const summary = meetings.get(key) || { count: 0, lastRound: 0 };
+    summary.count++;
+    summary.lastRound = Math.max(summary.lastRound, entry.round_number || 0);
+    meetings.set(key, summary);
+  });
+  return meetings;
+}
+
+function meetingKey(player1Id: string, player2Id: string): string {
+  return player1Id < player2Id ? `${player1Id}:${player2Id}` : `${player2Id}:${player1Id}`;
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { PairingDisplay, PlayerWithRank } from '../types/database';
+import { assignTables, getTableHistory, parseVenueTables } from './tableAssignment';
+
+const player = (id: string): PlayerWithRank => ({
+  id,
+  name: id.toUpperCase(),
+  rating: 1500,
+  tournament_id: 't1',
+  rank: 0,
+  previous_starts: 0,
+  wins: 0,
+  losses: 0,
+  draws: 0,
+  points: 0,
+  spread: 0,
+  is_gibsonized: false
+});
+
+const game = (player1Id: string, player2Id: string | null, tableNumber = 0): PairingDisplay => ({
+  table_number: tableNumber,
+  player1: player(player1Id),
+  player2: player2Id ? player(player2Id) : null,
+  first_move_player_id: player1Id
+});
+
+const tablesOf = (pairings: PairingDisplay[]) => pairings.map(pairing => pairing.table_number);
+
+describe('assignTables', () => {
+  it('seats fixed tables first, then the top boards, then away from tables already used', () => {
+    const pairings = [game('a', 'b'), game('c', 'd'), game('e', 'f'), game('g', 'h'), game('i', null)];
+
+    const seated = assignTables(pairings, {
+      venueTables: [{ number: 7, name: 'Feature' }, { number: 3 }, { number: 5 }, { number: 1 }],
+      topBoards: 1,
+      fixedTables: new Map([['e', 3]]),
+      previousTables: new Map([['c', new Set([5])]])
+    });
+
+    // The bye is numbered after the highest table in use
+    expect(tablesOf(seated)).toEqual([7, 1, 3, 5, 8]);
+  });
+
+  it('gives a fixed table to the higher board when two games want it', () => {
+    const seated = assignTables([game('a', 'b'), game('c', 'd')], { fixedTables: new Map([['a', 2], ['d', 2]]) });
+
+    expect(tablesOf(seated)).toEqual([2, 1]);
+  });
+
+  it('skips tables another division is using', () => {
+    const seated = assignTables([game('a', 'b'), game('c', null)], { occupiedTables: new Set([1, 2]) });
+
+    expect(tablesOf(seated)).toEqual([3, 4]);
+  });
+});
+
+describe('getTableHistory', () => {
+  it('records the tables each player sat at, but not byes', () => {
+    const history = getTableHistory([
+      { player1_id: 'a', player2_id: 'b', table_number: 2 },
+      { player1_id: 'c', player2_id: null, table_number: 3, is_bye: true }
+    ]);
+
+    expect(history.get('a')).toEqual(new Set([2]));
+    expect(history.get('b')).toEqual(new Set([2]));
+    expect(history.has('c')).toBe(false);
+  });
+});
+
+describe('parseVenueTables', () => {
+  it('reads named tables and ranges, ignoring repeats', () => {
+    expect(parseVenueTables('1 Feature Board\n5-7\n5 Window')).toEqual([
+      { number: 1, name: 'Feature Board' },
+      { number: 5 },
+      { number: 6 },
+      { number: 7 }
+    ]);
+  });
+});
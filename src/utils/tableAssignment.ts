@@ -0,0 +1,152 @@
+import { PairingDisplay, Player, TournamentConfig, VenueTable } from '../types/database';
+
+/**
+ * Seats a paired round at the venue's tables. Pairing decides who plays whom,
+ * in board order (leaders first); this stage decides where:
+ *  1. players with a fixed table play there
+ *  2. the leading games take the first tables of the venue list
+ *  3. everyone else avoids tables they have already played at, if possible
+ * Byes take no table and are numbered after the last game.
+ */
+
+export interface TableAssignmentOptions {
+  /** Venue tables, best boards first; tables 1, 2, 3... if empty */
+  venueTables?: VenueTable[];
+  /** How many leading games always get the first venue tables */
+  topBoards?: number;
+  /** Player id → table the player must play at */
+  fixedTables?: Map<string, number>;
+  /** Player id → tables the player has already played at */
+  previousTables?: Map<string, Set<number>>;
+  /** Tables already used this round, e.g. by another division */
+  occupiedTables?: Set<number>;
+}
+
+/** A stored pairing with the table it was played at. */
+export interface SeatedPairing {
+  player1_id: string;
+  player2_id: string | null;
+  table_number?: number;
+  is_bye?: boolean;
+}
+
+/**
+ * Assigns each game of a round a table. The pairings keep their order; only
+ * table numbers change.
+ */
+export function assignTables(pairings: PairingDisplay[], options: TableAssignmentOptions = {}): PairingDisplay[] {
+  const games = pairings.filter(pairing => pairing.player2);
+  const byes = pairings.filter(pairing => !pairing.player2);
+  const taken = new Set(options.occupiedTables || []);
+  const tables: (number | null)[] = games.map(() => null);
+
+  // Fixed tables first; if two games need the same table the higher board keeps it
+  games.forEach((game, index) => {
+    const fixed = options.fixedTables?.get(game.player1.id!) ?? options.fixedTables?.get(game.player2!.id!);
+    if (fixed && !taken.has(fixed)) {
+      tables[index] = fixed;
+      taken.add(fixed);
+    }
+  });
+
+  const remaining = tables.filter(table => table === null).length;
+  const pool = freeTables(options.venueTables || [], taken, remaining);
+
+  // Leaders take the first tables in the venue's order
+  const topBoards = Math.max(0, options.topBoards || 0);
+  games.forEach((_, index) => {
+    if (index >= topBoards || tables[index] !== null) return;
+    tables[index] = pool.shift()!;
+  });
+
+  // Everyone else takes the first free table neither player has used
+  games.forEach((game, index) => {
+    if (tables[index] !== null) return;
+    const used = (playerId: string) => options.previousTables?.get(playerId) || new Set<number>();
+    const player1Tables = used(game.player1.id!);
+    const player2Tables = used(game.player2!.id!);
+    const fresh = pool.findIndex(table => !player1Tables.has(table) && !player2Tables.has(table));
+    tables[index] = pool.splice(fresh === -1 ? 0 : fresh, 1)[0];
+  });
+
+  const lastTable = Math.max(0, ...tables.map(table => table!), ...Array.from(taken));
+  return [
+    ...games.map((game, index) => ({ ...game, table_number: tables[index]! })),
+    ...byes.map((bye, index) => ({ ...bye, table_number: lastTable + index + 1 }))
+  ];
+}
+
+/**
+ * The tables each player has played at. Byes are not a table.
+ */
+export function getTableHistory(pairings: SeatedPairing[]): Map<string, Set<number>> {
+  const history = new Map<string, Set<number>>();
+  pairings.forEach(pairing => {
+    if (pairing.is_bye || !pairing.player2_id || !pairing.table_number) return;
+    [pairing.player1_id, pairing.player2_id].forEach(playerId => {
+      if (!history.has(playerId)) history.set(playerId, new Set());
+      history.get(playerId)!.add(pairing.table_number!);
+    });
+  });
+  return history;
+}
+
+export function getFixedTables(players: Player[]): Map<string, number> {
+  return new Map(
+    players
+      .filter(player => player.id && player.fixed_table)
+      .map(player => [player.id!, player.fixed_table!])
+  );
+}
+
+/**
+ * The name of a venue table, if the tournament gave it one.
+ */
+export function getTableName(config: Partial<TournamentConfig> | null | undefined, tableNumber: number): string | null {
+  return config?.venue_tables?.find(table => table.number === tableNumber)?.name || null;
+}
+
+/**
+ * Reads a venue table list written one table per line, e.g. "1 Feature Board".
+ * Ranges such as "5-12" add unnamed tables. Repeated numbers are ignored.
+ */
+export function parseVenueTables(text: string): VenueTable[] {
+  const tables: VenueTable[] = [];
+  const seen = new Set<number>();
+  const add = (number: number, name?: string) => {
+    if (number < 1 || seen.has(number)) return;
+    seen.add(number);
+    tables.push(name ? { number, name } : { number });
+  };
+
+  text.split('\n').forEach(line => {
+    const range = line.trim().match(/^(\d+)\s*-\s*(\d+)$/);
+    if (range) {
+      const [from, to] = [parseInt(range[1]), parseInt(range[2])];
+      for (let number = from; number <= to && number - from < 500; number++) add(number);
+      return;
+    }
+    const table = line.trim().match(/^(\d+)\s*(.*)$/);
+    if (table) add(parseInt(table[1]), table[2].trim() || undefined);
+  });
+
+  return tables;
+}
+
+export function formatVenueTables(tables: VenueTable[]): string {
+  return tables.map(table => table.name ? `${table.number} ${table.name}` : String(table.number)).join('\n');
+}
+
+/**
+ * The first `count` free tables: the venue list in order, then the numbers
+ * after the highest venue table.
+ */
+function freeTables(venueTables: VenueTable[], taken: Set<number>, count: number): number[] {
+  const free = venueTables.map(table => table.number).filter(number => !taken.has(number)).slice(0, count);
+  let next = Math.max(0, ...venueTables.map(table => table.number)) + 1;
+  while (free.length < count) {
+    if (!taken.has(next)) free.push(next);
+    next++;
+  }
+  return free;
+}
@@ -1,4 +1,7 @@
 import { PlayerWithRank, PairingDisplay, Player } from '../types/database';
+import { buildRoundRobinSchedule } from './roundRobinScheduler';
+import { computeStandings } from './standings';
+import { buildFirstMoveHistory, chooseFirstMove, FirstMoveGame } from './firstMove';
 
 export interface TeamPairingResult {
   pairings: PairingDisplay[];
@@ -12,8 +15,11 @@ export interface TeamPairingResult {
 export function generateTeamRoundRobinPairings(
   players: PlayerWithRank[],
   currentRound: number,
-  previousTeamMatchups: Array<{ team1: string; team2: string }> = []
+  previousTeamMatchups: Array<{ team1: string; team2: string }> = [],
+  previousGames: FirstMoveGame[] = []
 ): TeamPairingResult {
+  const firstMoveHistory = buildFirstMoveHistory(previousGames);
+
   // Group players by team
   const teams = new Map<string, PlayerWithRank[]>();
   
@@ -38,7 +44,9 @@ export function generateTeamRoundRobinPairings(
   }
 
   // Create round-robin schedule
-  const schedule = generateRoundRobinSchedule(teamNames);
+  const schedule = buildRoundRobinSchedule(teamNames).map(round =>
+    round.games.map(game => ({ team1: game.first, team2: game.second }))
+  );
   
   if (currentRound > schedule.length) {
     throw new Error(`Round ${currentRound} exceeds maximum rounds (${schedule.length})`);
@@ -62,7 +70,7 @@ export function generateTeamRoundRobinPairings(
         const player1 = team1Players[i];
         const player2 = team2Players[j];
         
-        const firstMovePlayerId = determineFirstMove(player1, player2, tableNumber);
+        const firstMovePlayerId = chooseFirstMove(player1.id!, player2.id!, firstMoveHistory, tableNumber);
         
         pairings.push({
           table_number: tableNumber,
@@ -88,62 +96,6 @@ export function generateTeamRoundRobinPairings(
   return { pairings, teamMatchups };
 }
 
-function generateRoundRobinSchedule(teams: string[]): Array<Array<{ team1: string; team2: string }>> {
-  const schedule: Array<Array<{ team1: string; team2: string }>> = [];
-  const teamCount = teams.length;
-  
-  if (teamCount % 2 === 1) {
-    // Add a "bye" team for odd number of teams
-    teams.push('BYE');
-  }
-  
-  const totalRounds = teams.length - 1;
-  const teamsForScheduling = [...teams]; // Create a copy to manipulate
-  
-  for (let round = 0; round < totalRounds; round++) {
-    const roundMatchups: Array<{ team1: string; team2: string }> = [];
-    
-    for (let i = 0; i < teamsForScheduling.length / 2; i++) {
-      const team1Index = i;
-      const team2Index = teamsForScheduling.length - 1 - i;
-      
-      const team1 = teamsForScheduling[team1Index];
-      const team2 = teamsForScheduling[team2Index];
-      
-      // Skip if one team is "BYE"
-      if (team1 !== 'BYE' && team2 !== 'BYE') {
-        roundMatchups.push({ team1, team2 });
-      }
-    }
-    
-    schedule.push(roundMatchups);
-    
-    // Rotate teams (keep first team fixed, rotate others)
-    if (teamsForScheduling.length > 2) {
-      const lastTeam = teamsForScheduling.pop()!;
-      teamsForScheduling.splice(1, 0, lastTeam);
-    }
-  }
-  
-  return schedule;
-}
-
-function determineFirstMove(
-  player1: PlayerWithRank,
-  player2: PlayerWithRank,
-  tableNumber: number
-): string {
-  // Player with fewer previous starts goes first
-  if (player1.previous_starts < player2.previous_starts) {
-    return player1.id!;
-  } else if (player2.previous_starts < player1.previous_starts) {
-    return player2.id!;
-  } else {
-    // If equal starts, alternate by table number
-    return tableNumber % 2 === 1 ? player1.id! : player2.id!;
-  }
-}
-
 export function calculateTeamStandings(
   players: Player[],
   results: any[],
@@ -171,33 +123,23 @@ export function calculateTeamStandings(
     teams.get(player.team_name)!.push(player);
   });
 
+  // Individual game statistics come from the shared standings calculation
+  const playerStandings = new Map(
+    computeStandings(players, pairings, results).map(standing => [standing.id, standing])
+  );
+
   const teamStandings = Array.from(teams.entries()).map(([teamName, teamPlayers]) => {
     let totalGamesWon = 0;
     let totalGamesLost = 0;
     let totalSpread = 0;
     
-    // Calculate individual game statistics
     teamPlayers.forEach(player => {
-      results.forEach(result => {
-        const pairing = pairings.find(p => p.id === result.pairing_id);
-        if (!pairing) return;
-
-        const isPlayer1 = pairing.player1_id === player.id;
-        const isPlayer2 = pairing.player2_id === player.id;
-
-        if (!isPlayer1 && !isPlayer2) return;
+      const standing = playerStandings.get(player.id!);
+      if (!standing) return;
 
-        const playerScore = isPlayer1 ? result.player1_score : result.player2_score;
-        const opponentScore = isPlayer1 ? result.player2_score : result.player1_score;
-
-        totalSpread += playerScore - opponentScore;
-
-        if (playerScore > opponentScore) {
-          totalGamesWon++;
-        } else if (playerScore < opponentScore) {
-          totalGamesLost++;
-        }
-      });
+      totalGamesWon += standing.wins;
+      totalGamesLost += standing.losses;
+      totalSpread += standing.spread;
     });
 
     // Calculate team match results
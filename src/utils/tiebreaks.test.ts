@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { rankByTiebreaks, getTiebreakChain, TiebreakEntry, ScoredGame, DEFAULT_TIEBREAK_CHAIN } from './tiebreaks';
+
+const entry = (id: string, points: number, spread = 0, rating = 1500): TiebreakEntry => ({ id, points, spread, rating });
+
+const order = (entries: TiebreakEntry[]) => entries.map(e => e.id);
+
+describe('rankByTiebreaks', () => {
+  it('ranks by points before any tiebreak', () => {
+    const ranked = rankByTiebreaks([entry('a', 1, 500), entry('b', 2, -500)], []);
+    expect(order(ranked)).toEqual(['b', 'a']);
+  });
+
+  it('breaks ties on spread', () => {
+    const ranked = rankByTiebreaks([entry('a', 2, 10), entry('b', 2, 90)], [], ['spread']);
+    expect(order(ranked)).toEqual(['b', 'a']);
+  });
+
+  it('breaks ties on rating', () => {
+    const ranked = rankByTiebreaks([entry('a', 2, 0, 1400), entry('b', 2, 0, 1800)], [], ['rating']);
+    expect(order(ranked)).toEqual(['b', 'a']);
+  });
+
+  it('falls through to the next rule while players remain tied', () => {
+    const entries = [entry('a', 2, 50, 1400), entry('b', 2, 50, 1800), entry('c', 2, 80, 1000)];
+    expect(order(rankByTiebreaks(entries, [], ['spread', 'rating']))).toEqual(['c', 'b', 'a']);
+  });
+
+  it('keeps input order once the chain is exhausted', () => {
+    const ranked = rankByTiebreaks([entry('a', 2), entry('b', 2)], [], ['spread']);
+    expect(order(ranked)).toEqual(['a', 'b']);
+  });
+
+  it('breaks ties on cumulative spread, rewarding the early lead', () => {
+    // Both finish +100, but A led from round 1 and B only caught up in round 2
+    const games: ScoredGame[] = [
+      { player1_id: 'a', player2_id: 'x', round_number: 1, player1_score: 500, player2_score: 400 },
+      { player1_id: 'a', player2_id: 'y', round_number: 2, player1_score: 400, player2_score: 400 },
+      { player1_id: 'b', player2_id: 'x', round_number: 1, player1_score: 400, player2_score: 400 },
+      { player1_id: 'b', player2_id: 'y', round_number: 2, player1_score: 500, player2_score: 400 }
+    ];
+    const entries = [entry('b', 1.5, 100), entry('a', 1.5, 100), entry('x', 0.5), entry('y', 1)];
+    const ranked = rankByTiebreaks(entries, games, ['cumulative_spread']);
+    expect(order(ranked).slice(0, 2)).toEqual(['a', 'b']);
+  });
+
+  it('breaks ties head-to-head among the tied players only', () => {
+    const games: ScoredGame[] = [
+      { player1_id: 'a', player2_id: 'b', round_number: 1, player1_score: 300, player2_score: 400 },
+      // A beat an outsider; that game must not count towards head-to-head
+      { player1_id: 'a', player2_id: 'x', round_number: 2, player1_score: 500, player2_score: 300 }
+    ];
+    const entries = [entry('a', 1), entry('b', 1), entry('x', 0)];
+    expect(order(rankByTiebreaks(entries, games, ['head_to_head'])).slice(0, 2)).toEqual(['b', 'a']);
+  });
+
+  it('breaks ties on Buchholz, the sum of opponents\' points', () => {
+    const games: ScoredGame[] = [
+      { player1_id: 'a', player2_id: 'strong', round_number: 1, player1_score: 400, player2_score: 300 },
+      { player1_id: 'b', player2_id: 'weak', round_number: 1, player1_score: 400, player2_score: 300 }
+    ];
+    const entries = [entry('b', 1), entry('a', 1), entry('strong', 0.5), entry('weak', 0)];
+    expect(order(rankByTiebreaks(entries, games, ['buchholz'])).slice(0, 2)).toEqual(['a', 'b']);
+  });
+
+  it('drops the best and worst opponent for median Buchholz', () => {
+    // A's opponents have 2.5, 0.5 and 0 points: Buchholz 3, median 0.5.
+    // B's opponents have 1, 1 and 0 points: Buchholz 2, median 1.
+    const games: ScoredGame[] = [
+      { player1_id: 'a', player2_id: 'p3', round_number: 1, player1_score: 400, player2_score: 300 },
+      { player1_id: 'a', player2_id: 'p1', round_number: 2, player1_score: 400, player2_score: 300 },
+      { player1_id: 'a', player2_id: 'p0', round_number: 3, player1_score: 400, player2_score: 300 },
+      { player1_id: 'b', player2_id: 'q2', round_number: 1, player1_score: 400, player2_score: 300 },
+      { player1_id: 'b', player2_id: 'r2', round_number: 2, player1_score: 400, player2_score: 300 },
+      { player1_id: 'b', player2_id: 'q0', round_number: 3, player1_score: 400, player2_score: 300 }
+    ];
+    const entries = [
+      entry('a', 3), entry('b', 3),
+      entry('p3', 2.5), entry('p1', 0.5), entry('p0', 0),
+      entry('q2', 1), entry('r2', 1), entry('q0', 0)
+    ];
+
+    expect(order(rankByTiebreaks(entries, games, ['buchholz'])).slice(0, 2)).toEqual(['a', 'b']);
+    expect(order(rankByTiebreaks(entries, games, ['median_buchholz'])).slice(0, 2)).toEqual(['b', 'a']);
+  });
+
+  it('breaks ties on average opponent rating', () => {
+    const games: ScoredGame[] = [
+      { player1_id: 'a', player2_id: 'low', round_number: 1, player1_score: 400, player2_score: 300 },
+      { player1_id: 'b', player2_id: 'high', round_number: 1, player1_score: 400, player2_score: 300 }
+    ];
+    const entries = [entry('a', 1), entry('b', 1), entry('low', 0, 0, 1200), entry('high', 0, 0, 2000)];
+    expect(order(rankByTiebreaks(entries, games, ['opponent_rating'])).slice(0, 2)).toEqual(['b', 'a']);
+  });
+
+  it('leaves unscored games and byes out of game-based tiebreaks', () => {
+    const games: ScoredGame[] = [
+      { player1_id: 'a', player2_id: null, round_number: 1, player1_score: 50, player2_score: 0 },
+      { player1_id: 'b', player2_id: 'x', round_number: 1, player1_score: null, player2_score: null }
+    ];
+    const entries = [entry('a', 1), entry('b', 1), entry('x', 3)];
+    expect(order(rankByTiebreaks(entries, games, ['buchholz'])).slice(1)).toEqual(['a', 'b']);
+  });
+});
+
+describe('getTiebreakChain', () => {
+  it('falls back to the default chain', () => {
+    expect(getTiebreakChain(null)).toEqual(DEFAULT_TIEBREAK_CHAIN);
+    expect(getTiebreakChain({ tiebreak_chain: [] })).toEqual(DEFAULT_TIEBREAK_CHAIN);
+  });
+
+  it('drops unknown and duplicate rules', () => {
+    const chain = getTiebreakChain({
+      tiebreak_chain: ['buchholz', 'unknown' as never, 'buchholz', 'rating']
+    });
+    expect(chain).toEqual(['buchholz', 'rating']);
+  });
+});
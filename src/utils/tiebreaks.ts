@@ -0,0 +1,179 @@
+import { TiebreakRule, TournamentConfig } from '../types/database';
+
+/**
+ * Standings order: points first, then the tournament's tiebreak chain in order.
+ * Every screen that ranks players goes through `rankByTiebreaks` so the same
+ * tournament always produces the same order.
+ */
+
+export const DEFAULT_TIEBREAK_CHAIN: TiebreakRule[] = ['spread', 'rating'];
+
+export const TIEBREAK_LABELS: Record<TiebreakRule, string> = {
+  spread: 'Spread',
+  cumulative_spread: 'Cumulative Spread',
+  head_to_head: 'Head-to-Head',
+  buchholz: 'Buchholz',
+  median_buchholz: 'Median Buchholz',
+  opponent_rating: 'Avg Opponent Rating',
+  rating: 'Rating'
+};
+
+export const TIEBREAK_DESCRIPTIONS: Record<TiebreakRule, string> = {
+  spread: 'Total points scored minus points conceded',
+  cumulative_spread: 'Sum of the running spread after each round, rewarding early leads',
+  head_to_head: 'Points scored in games between the tied players',
+  buchholz: 'Sum of all opponents\' points',
+  median_buchholz: 'Buchholz with the best and worst opponent removed',
+  opponent_rating: 'Average rating of opponents faced',
+  rating: 'Player rating'
+};
+
+/** The minimum a player entry needs to be ranked. */
+export interface TiebreakEntry {
+  id: string;
+  points: number;
+  spread: number;
+  rating: number;
+}
+
+/** One scored game, as stored on a pairing and its result. */
+export interface ScoredGame {
+  player1_id: string;
+  player2_id: string | null;
+  round_number?: number;
+  player1_score?: number | null;
+  player2_score?: number | null;
+}
+
+interface PlayerGame {
+  opponentId: string;
+  round: number;
+  spread: number;
+  score: number;
+}
+
+/**
+ * Reads the tiebreak chain from tournament configuration, falling back to
+ * spread then rating. Unknown and duplicate rules are dropped.
+ */
+export function getTiebreakChain(config?: Partial<TournamentConfig> | null): TiebreakRule[] {
+  const chain = (config?.tiebreak_chain || []).filter((rule, index, rules) =>
+    rule in TIEBREAK_LABELS && rules.indexOf(rule) === index
+  );
+  return chain.length > 0 ? chain : DEFAULT_TIEBREAK_CHAIN;
+}
+
+/**
+ * Sorts entries by points, then each tiebreak in turn. Rules such as
+ * head-to-head are evaluated only among the players still tied at that point.
+ * @returns A new array in standings order; input order breaks any remaining ties
+ */
+export function rankByTiebreaks<T extends TiebreakEntry>(
+  entries: T[],
+  games: ScoredGame[],
+  chain: TiebreakRule[] = DEFAULT_TIEBREAK_CHAIN
+): T[] {
+  const gamesByPlayer = collectGames(entries, games);
+  const pointsById = new Map(entries.map(entry => [entry.id, entry.points]));
+  const ratingById = new Map(entries.map(entry => [entry.id, entry.rating]));
+  const rules = chain.filter(rule => rule in TIEBREAK_LABELS);
+
+  const value = (entry: T, rule: TiebreakRule, group: T[]): number => {
+    const playerGames = gamesByPlayer.get(entry.id) || [];
+    switch (rule) {
+      case 'spread':
+        return entry.spread;
+      case 'rating':
+        return entry.rating;
+      case 'cumulative_spread': {
+        let running = 0;
+        let cumulative = 0;
+        [...playerGames].sort((a, b) => a.round - b.round).forEach(game => {
+          running += game.spread;
+          cumulative += running;
+        });
+        return cumulative;
+      }
+      case 'head_to_head': {
+        const tied = new Set(group.map(other => other.id));
+        return playerGames
+          .filter(game => tied.has(game.opponentId))
+          .reduce((sum, game) => sum + game.score, 0);
+      }
+      case 'buchholz':
+        return playerGames.reduce((sum, game) => sum + (pointsById.get(game.opponentId) || 0), 0);
+      case 'median_buchholz': {
+        const opponentPoints = playerGames
+          .map(game => pointsById.get(game.opponentId) || 0)
+          .sort((a, b) => a - b);
+        const trimmed = opponentPoints.length > 2 ? opponentPoints.slice(1, -1) : opponentPoints;
+        return trimmed.reduce((sum, points) => sum + points, 0);
+      }
+      case 'opponent_rating': {
+        if (playerGames.length === 0) return 0;
+        const total = playerGames.reduce((sum, game) => sum + (ratingById.get(game.opponentId) || 0), 0);
+        return total / playerGames.length;
+      }
+      default:
+        return 0;
+    }
+  };
+
+  // Sort a tied group by one rule, then break the ties that remain with the next
+  const sortGroup = (group: T[], ruleIndex: number): T[] => {
+    if (group.length <= 1 || ruleIndex >= rules.length) return group;
+
+    const rule = rules[ruleIndex];
+    const values = new Map(group.map(entry => [entry.id, value(entry, rule, group)]));
+    const sorted = [...group].sort((a, b) => values.get(b.id)! - values.get(a.id)!);
+
+    const result: T[] = [];
+    let start = 0;
+    for (let i = 1; i <= sorted.length; i++) {
+      if (i === sorted.length || values.get(sorted[i].id) !== values.get(sorted[start].id)) {
+        result.push(...sortGroup(sorted.slice(start, i), ruleIndex + 1));
+        start = i;
+      }
+    }
+    return result;
+  };
+
+  const byPoints = [...entries].sort((a, b) => b.points - a.points);
+  const ranked: T[] = [];
+  let start = 0;
+  for (let i = 1; i <= byPoints.length; i++) {
+    if (i === byPoints.length || byPoints[i].points !== byPoints[start].points) {
+      ranked.push(...sortGroup(byPoints.slice(start, i), 0));
+      start = i;
+    }
+  }
+  return ranked;
+}
+
+function collectGames(entries: TiebreakEntry[], games: ScoredGame[]): Map<string, PlayerGame[]> {
+  const byPlayer = new Map<string, PlayerGame[]>(entries.map(entry => [entry.id, []]));
+
+  games.forEach(game => {
+    if (game.player1_score == null || game.player2_score == null) return;
+    // Byes and games against players outside this field do not count towards tiebreaks
+    if (!game.player2_id || !byPlayer.has(game.player1_id) || !byPlayer.has(game.player2_id)) return;
+    const round = game.round_number || 0;
+    const margin = game.player1_score - game.player2_score;
+    const player1Score = margin > 0 ? 1 : margin < 0 ? 0 : 0.5;
+
+    byPlayer.get(game.player1_id)!.push({
+      opponentId: game.player2_id,
+      round,
+      spread: margin,
+      score: player1Score
+    });
+    byPlayer.get(game.player2_id)!.push({
+      opponentId: game.player1_id,
+      round,
+      spread: -margin,
+      score: 1 - player1Score
+    });
+  });
+
+  return byPlayer;
+}
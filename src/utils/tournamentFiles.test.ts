@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { Pairing, Player, Result, Tournament } from '../types/database';
+import { computeStandings } from './standings';
+import { exportToTsh, parseTshFile, buildTshGames, buildTshImportRows, TournamentFileData } from './tournamentFiles';
+
+const tournament: Tournament = { id: 't1', name: 'Club Open', created_at: '2025-07-01T00:00:00Z' };
+
+const player = (id: string, extra: Partial<Player> = {}): Player => ({
+  id,
+  name: id.toUpperCase(),
+  rating: 1500,
+  tournament_id: 't1',
+  ...extra
+});
+
+const pairing = (id: string, round: number, player1: string, player2: string | null): Pairing => ({
+  id,
+  round_number: round,
+  tournament_id: 't1',
+  table_number: 1,
+  player1_id: player1,
+  player2_id: player2,
+  player1_rank: 1,
+  player2_rank: player2 ? 2 : null,
+  first_move_player_id: player1,
+  is_bye: player2 === null
+});
+
+const result = (pairingId: string, round: number, player1Score: number, player2Score: number, extra: Partial<Result> = {}): Result => ({
+  pairing_id: pairingId,
+  tournament_id: 't1',
+  round_number: round,
+  player1_score: player1Score,
+  player2_score: player2Score,
+  winner_id: null,
+  submitted_by: null,
+  ...extra
+});
+
+// Three rounds with the awkward cases: a bye, a forfeit, a late entrant
+// who missed round 1 and a player who withdrew after round 2
+const data: TournamentFileData = {
+  tournament,
+  divisions: [],
+  players: [
+    player('a'), player('b'), player('c'), player('d'),
+    player('w', { status: 'withdrawn' }),
+    player('e', { late_entry_round: 2 })
+  ],
+  pairings: [
+    pairing('r1a', 1, 'a', 'b'), pairing('r1b', 1, 'c', 'd'), pairing('r1c', 1, 'w', null),
+    pairing('r2a', 2, 'a', 'c'), pairing('r2b', 2, 'b', 'w'), pairing('r2c', 2, 'd', 'e'),
+    pairing('r3a', 3, 'a', 'd'), pairing('r3b', 3, 'b', 'e'), pairing('r3c', 3, 'c', null)
+  ],
+  results: [
+    result('r1a', 1, 400, 300), result('r1b', 1, 350, 350),
+    result('r2a', 2, 0, 0, { is_forfeit: true, winner_id: 'a' }), result('r2b', 2, 320, 410), result('r2c', 2, 380, 390),
+    result('r3a', 3, 400, 410), result('r3b', 3, 300, 200)
+  ]
+};
+
+const summary = (players: Player[], pairings: Pairing[], results: Result[]) =>
+  Object.fromEntries(computeStandings(players, pairings, results).map(standing => [
+    standing.name,
+    {
+      wins: standing.wins,
+      losses: standing.losses,
+      draws: standing.draws,
+      points: standing.points,
+      spread: standing.spread,
+      gamesPlayed: standing.gamesPlayed,
+      forfeits: standing.forfeits
+    }
+  ]));
+
+const counter = () => {
+  let next = 0;
+  return () => `id-${++next}`;
+};
+
+describe('tsh files', () => {
+  it('writes a missed round as a scoreless opponent 0, apart from byes and forfeits', () => {
+    const lines = exportToTsh(data).trim().split('\n');
+    const parsed = parseTshFile(exportToTsh(data));
+    const byName = new Map(parsed.map(p => [p.name, p]));
+
+    expect(lines).toHaveLength(6);
+    expect(byName.get('E')).toMatchObject({ opponents: [0, 4, 2], scores: [0, 390, 200] });
+    expect(byName.get('W')).toMatchObject({ opponents: [0, 2, 0], scores: [50, 410, 0], withdrawn: true });
+    expect(byName.get('C')).toMatchObject({ opponents: [4, 0, 0], scores: [350, -50, 50] });
+  });
+
+  it('reads opponent 0 as a bye, a forfeit loss or no game, by its score', () => {
+    const games = buildTshGames(parseTshFile('A 1500 0 0 0; 50 -50 0\n'));
+
+    expect(games).toEqual([
+      { round: 1, tableNumber: 1, player1: 0, player2: null, player1Score: 50, player2Score: 0, isForfeit: false },
+      { round: 2, tableNumber: 1, player1: 0, player2: null, player1Score: -50, player2Score: 0, isForfeit: true }
+    ]);
+  });
+
+  it('keeps the standings through an export and re-import', () => {
+    const rows = buildTshImportRows(parseTshFile(exportToTsh(data)), 't2', null, counter());
+
+    expect(rows.lastRound).toBe(3);
+    expect(rows.players.find(p => p.name === 'W')?.status).toBe('withdrawn');
+    // No game is invented for the rounds E and W were not paired in
+    const playerIds = new Map(rows.players.map(p => [p.name, p.id!]));
+    const roundsPlayed = (name: string) => rows.pairings
+      .filter(p => p.player1_id === playerIds.get(name) || p.player2_id === playerIds.get(name))
+      .map(p => p.round_number);
+    expect(roundsPlayed('E')).toEqual([2, 3]);
+    expect(roundsPlayed('W')).toEqual([1, 2]);
+
+    expect(summary(rows.players, rows.pairings, rows.results)).toEqual(summary(data.players, data.pairings, data.results));
+  });
+
+  it('exports an imported forfeit loss the way it was read', () => {
+    const text = exportToTsh(data);
+    const rows = buildTshImportRows(parseTshFile(text), 't2', null, counter());
+    const reexported = exportToTsh({ ...data, players: rows.players, pairings: rows.pairings, results: rows.results });
+
+    expect(parseTshFile(reexported).map(p => p.scores)).toEqual(parseTshFile(text).map(p => p.scores));
+  });
+});
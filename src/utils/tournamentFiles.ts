@@ -0,0 +1,420 @@
+import { Division, Pairing, Player, Result, Tournament } from '../types/database';
+import { getByeAward, DEFAULT_FORFEIT_SPREAD } from './standings';
+
+/**
+ * Conversion between Direktor's tables and the plain-text files used by the
+ * ratings body (.tou) and by tsh (.t). Pure: callers load and save the rows.
+ *
+ * Players are numbered within their division in seed order (rating, then
+ * name), and those numbers are what both formats use to refer to opponents.
+ */
+
+export interface TournamentFileData {
+  tournament: Tournament;
+  divisions: Division[];
+  players: Player[];
+  pairings: Pairing[];
+  results: Result[];
+}
+
+/** One player's line from a tsh `.t` file. */
+export interface TshPlayer {
+  name: string;
+  rating: number;
+  /** Opponent's player number per round; 0 is a bye */
+  opponents: number[];
+  /** Own score per round; for a bye, the spread awarded */
+  scores: number[];
+  /** 1 if the player moved first, 2 if second, 0 for a bye; empty if not recorded */
+  firstMoves: number[];
+  /** The `off` field: the player is no longer paired */
+  withdrawn: boolean;
+}
+
+/** A game (or bye) reconstructed from a tsh file, ready to store. */
+export interface TshGame {
+  round: number;
+  tableNumber: number;
+  /** Indexes into the parsed player list */
+  player1: number;
+  player2: number | null;
+  /** For a bye, the spread recorded in the file */
+  player1Score: number;
+  player2Score: number;
+  /** A bye with a negative score: the player forfeited and the file does not name the opponent */
+  isForfeit: boolean;
+}
+
+/** The rows an imported tsh division is stored as. */
+export interface TshImportRows {
+  players: Player[];
+  pairings: Pairing[];
+  results: Result[];
+  /** Last round in the file */
+  lastRound: number;
+}
+
+interface PlayerGameEntry {
+  round: number;
+  opponentNumber: number;
+  playerScore: number;
+  opponentScore: number;
+  result: 'win' | 'draw' | 'loss';
+  movedFirst: boolean | null;
+}
+
+const TOU_NAME_WIDTH = 20;
+
+/**
+ * Writes every division of a tournament as a single `.tou` file. Each player
+ * line is the name padded to 20 characters, then one entry per round: the
+ * player's score with the result in the thousands place (2 win, 1 draw,
+ * 0 loss) followed by the opponent's number, prefixed with `+` when this
+ * player moved first. Byes, forfeits and rounds the player was not paired in
+ * have opponent 0 and score 0.
+ */
+export function exportToTou(data: TournamentFileData): string {
+  const lines = [`*M${formatTouDate(data.tournament.date)} ${data.tournament.name}`];
+
+  divisionsWithPlayers(data).forEach((division, index) => {
+    lines.push(`*${String.fromCharCode(65 + index)}`);
+
+    const players = numberedPlayers(data.players, division?.id);
+    const entries = collectEntries(data, players);
+    players.forEach(player => {
+      const fields = (entries.get(player.id!) || []).map(entry => {
+        const resultDigit = entry.result === 'win' ? 2 : entry.result === 'draw' ? 1 : 0;
+        const score = entry.opponentNumber === 0 ? 0 : Math.min(999, Math.max(0, entry.playerScore));
+        const opponent = `${entry.movedFirst ? '+' : ''}${entry.opponentNumber}`;
+        return `${String(resultDigit * 1000 + score).padStart(4, '0')} ${opponent.padStart(3)}`;
+      });
+      lines.push(`${player.name.slice(0, TOU_NAME_WIDTH).padEnd(TOU_NAME_WIDTH)}${fields.join(' ')}`.trimEnd());
+    });
+  });
+
+  lines.push('*** END OF FILE ***');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Writes one division as a tsh `.t` file: name, rating, the opponent numbers
+ * for each round, then `;` and the player's score in each round. Byes and
+ * forfeits use opponent 0 with the spread awarded as the score, and a round
+ * the player was not paired in is opponent 0 with score 0. First moves go in
+ * a `p12` field and withdrawn players get an `off` field.
+ */
+export function exportToTsh(data: TournamentFileData, divisionId?: string | null): string {
+  const players = numberedPlayers(data.players, divisionId);
+  const entries = collectEntries(data, players);
+  const forfeitSpread = data.tournament.tournament_config?.forfeit_spread ?? DEFAULT_FORFEIT_SPREAD;
+
+  return players.map(player => {
+    const games = entries.get(player.id!) || [];
+    const fields = [
+      [player.name, player.rating, ...games.map(game => game.opponentNumber)].join(' '),
+      games.map(game => game.opponentNumber === 0 ? game.playerScore - game.opponentScore : game.playerScore).join(' ')
+    ];
+
+    if (games.some(game => game.movedFirst !== null)) {
+      fields.push(`p12 ${games.map(game => game.movedFirst === null ? 0 : game.movedFirst ? 1 : 2).join(' ')}`);
+    }
+    if (player.status === 'withdrawn') {
+      fields.push(`off ${-forfeitSpread}`);
+    }
+    return fields.join('; ').trimEnd();
+  }).join('\n') + '\n';
+}
+
+/**
+ * Parses a tsh `.t` file. Blank lines and `#` comments are skipped.
+ * @throws Error naming the first line that cannot be read
+ */
+export function parseTshFile(text: string): TshPlayer[] {
+  const players: TshPlayer[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    if (!line) return;
+
+    const [main, scoreField = '', ...extraFields] = line.split(';');
+    const match = main.match(/^(.*?\D)\s+(\d+)((?:\s+\d+)*)\s*$/);
+    if (!match) {
+      throw new Error(`Line ${index + 1}: expected a name followed by a rating`);
+    }
+
+    const parseNumbers = (field: string) =>
+      field.trim() ? field.trim().split(/\s+/).map(value => parseInt(value, 10)) : [];
+
+    const opponents = parseNumbers(match[3]);
+    const scores = parseNumbers(scoreField);
+    if (scores.some(isNaN) || scores.length !== opponents.length) {
+      throw new Error(`Line ${index + 1}: ${opponents.length} opponents but ${scores.length} scores`);
+    }
+
+    const player: TshPlayer = {
+      name: match[1].trim(),
+      rating: parseInt(match[2], 10),
+      opponents,
+      scores,
+      firstMoves: [],
+      withdrawn: false
+    };
+
+    extraFields.forEach(field => {
+      const [key, ...values] = field.trim().split(/\s+/);
+      if (key === 'p12') {
+        player.firstMoves = values.map(value => parseInt(value, 10) || 0);
+      } else if (key === 'off') {
+        player.withdrawn = true;
+      }
+    });
+
+    players.push(player);
+  });
+
+  return players;
+}
+
+/**
+ * Rebuilds the games of a parsed tsh division, round by round. Both sides of
+ * a game must name each other; the player recorded as moving first (or the
+ * lower-numbered player) is stored as player 1. Opponent 0 with a positive
+ * score is a bye, with a negative score a forfeit loss, and with no score a
+ * round the player was not paired in, which has no game.
+ * @throws Error describing the first inconsistent pairing
+ */
+export function buildTshGames(players: TshPlayer[]): TshGame[] {
+  const games: TshGame[] = [];
+  const rounds = Math.max(0, ...players.map(player => player.opponents.length));
+
+  for (let round = 1; round <= rounds; round++) {
+    const roundGames: TshGame[] = [];
+    const byes: TshGame[] = [];
+
+    players.forEach((player, index) => {
+      const opponentNumber = player.opponents[round - 1];
+      if (opponentNumber === undefined) return;
+
+      if (opponentNumber === 0) {
+        const spread = player.scores[round - 1];
+        if (spread === 0) return;
+        byes.push({ round, tableNumber: 0, player1: index, player2: null, player1Score: spread, player2Score: 0, isForfeit: spread < 0 });
+        return;
+      }
+
+      const opponentIndex = opponentNumber - 1;
+      const opponent = players[opponentIndex];
+      if (!opponent || opponent.opponents[round - 1] !== index + 1) {
+        throw new Error(`Round ${round}: ${player.name} is paired with #${opponentNumber}, who does not list them back`);
+      }
+      if (opponentIndex < index) return;
+
+      const opponentFirst = opponent.firstMoves[round - 1] === 1 && player.firstMoves[round - 1] !== 1;
+      const [first, second] = opponentFirst ? [opponentIndex, index] : [index, opponentIndex];
+      roundGames.push({
+        round,
+        tableNumber: 0,
+        player1: first,
+        player2: second,
+        player1Score: players[first].scores[round - 1],
+        player2Score: players[second].scores[round - 1],
+        isForfeit: false
+      });
+    });
+
+    [...roundGames, ...byes].forEach((game, index) => {
+      games.push({ ...game, tableNumber: index + 1 });
+    });
+  }
+
+  return games;
+}
+
+/**
+ * The players, pairings and results to store for a parsed tsh division.
+ * Every row gets its id from `newId` up front, so the whole division can be
+ * saved in one step. A forfeit loss is stored as a bye pairing with a
+ * forfeit result, since the file does not say who the opponent was.
+ */
+export function buildTshImportRows(
+  parsed: TshPlayer[],
+  tournamentId: string,
+  divisionId: string | null,
+  newId: () => string = () => crypto.randomUUID()
+): TshImportRows {
+  const players: Player[] = parsed.map(player => ({
+    id: newId(),
+    name: player.name,
+    rating: player.rating,
+    tournament_id: tournamentId,
+    division_id: divisionId,
+    status: player.withdrawn ? 'withdrawn' : 'active'
+  }));
+  const playerIds = players.map(player => player.id!);
+
+  const pairings: Pairing[] = [];
+  const results: Result[] = [];
+  buildTshGames(parsed).forEach(game => {
+    const pairing: Pairing = {
+      id: newId(),
+      round_number: game.round,
+      tournament_id: tournamentId,
+      division_id: divisionId,
+      table_number: game.tableNumber,
+      player1_id: playerIds[game.player1],
+      player2_id: game.player2 === null ? null : playerIds[game.player2],
+      player1_rank: game.player1 + 1,
+      player2_rank: game.player2 === null ? null : game.player2 + 1,
+      first_move_player_id: playerIds[game.player1],
+      is_bye: game.player2 === null
+    };
+    pairings.push(pairing);
+
+    if (game.isForfeit) {
+      results.push({
+        id: newId(),
+        pairing_id: pairing.id!,
+        tournament_id: tournamentId,
+        round_number: game.round,
+        player1_score: 0,
+        player2_score: 0,
+        winner_id: null,
+        submitted_by: null,
+        is_forfeit: true
+      });
+    } else if (game.player2 !== null) {
+      results.push({
+        id: newId(),
+        pairing_id: pairing.id!,
+        tournament_id: tournamentId,
+        round_number: game.round,
+        player1_score: game.player1Score,
+        player2_score: game.player2Score,
+        winner_id: game.player1Score > game.player2Score ? pairing.player1_id :
+                   game.player2Score > game.player1Score ? pairing.player2_id : null,
+        submitted_by: null
+      });
+    }
+  });
+
+  const lastRound = Math.max(0, ...parsed.map(player => player.opponents.length));
+  return { players, pairings, results, lastRound };
+}
+
+/**
+ * File name for a download, e.g. "Spring_Open_A.t".
+ */
+export function tournamentFileName(tournament: Tournament, extension: string, division?: Division | null): string {
+  const base = tournament.name.replace(/[^a-z0-9]+/gi, '_').replace(/^_|_$/g, '') || 'Tournament';
+  return `${base}${division ? `_${division.name.replace(/[^a-z0-9]+/gi, '_')}` : ''}.${extension}`;
+}
+
+function divisionsWithPlayers(data: TournamentFileData): (Division | null)[] {
+  if (data.divisions.length === 0) return [null];
+  return [...data.divisions]
+    .sort((a, b) => a.division_number - b.division_number)
+    .filter(division => data.players.some(player => player.division_id === division.id));
+}
+
+function numberedPlayers(players: Player[], divisionId?: string | null): Player[] {
+  return players
+    .filter(player => !divisionId || player.division_id === divisionId)
+    .sort((a, b) => b.rating - a.rating || a.name.localeCompare(b.name));
+}
+
+/**
+ * Each player's games in round order, with opponents given by player number.
+ * A forfeit counts as a bye for both players with the forfeit spread, and a
+ * round the player was not paired in (late entry, suspension) as a scoreless
+ * loss, which tsh files record as opponent 0 with score 0.
+ */
+function collectEntries(data: TournamentFileData, players: Player[]): Map<string, PlayerGameEntry[]> {
+  const numbers = new Map(players.map((player, index) => [player.id!, index + 1]));
+  const resultsByPairing = new Map(data.results.map(result => [result.pairing_id, result]));
+  const byeAward = getByeAward(data.tournament.tournament_config);
+  const forfeitSpread = data.tournament.tournament_config?.forfeit_spread ?? DEFAULT_FORFEIT_SPREAD;
+  const entries = new Map<string, PlayerGameEntry[]>(players.map(player => [player.id!, []]));
+  let lastRound = 0;
+
+  const forfeitEntry = (round: number, won: boolean): PlayerGameEntry => ({
+    round,
+    opponentNumber: 0,
+    playerScore: won ? forfeitSpread : 0,
+    opponentScore: won ? 0 : forfeitSpread,
+    result: won ? 'win' : 'loss',
+    movedFirst: null
+  });
+
+  const sortedPairings = [...data.pairings].sort((a, b) => a.round_number - b.round_number);
+  sortedPairings.forEach(pairing => {
+    const round = pairing.round_number;
+    if (numbers.has(pairing.player1_id)) lastRound = Math.max(lastRound, round);
+    const result = resultsByPairing.get(pairing.id!);
+
+    if (pairing.is_bye || !pairing.player2_id) {
+      if (!numbers.has(pairing.player1_id)) return;
+      // A forfeit recorded without its opponent, e.g. from an imported file
+      if (result?.is_forfeit) {
+        entries.get(pairing.player1_id)!.push(forfeitEntry(round, result.winner_id === pairing.player1_id));
+        return;
+      }
+      const spread = byeAward.result === 'loss' ? -Math.abs(byeAward.spread) : byeAward.spread;
+      entries.get(pairing.player1_id)!.push({
+        round,
+        opponentNumber: 0,
+        playerScore: Math.max(0, spread),
+        opponentScore: Math.max(0, -spread),
+        result: byeAward.result,
+        movedFirst: null
+      });
+      return;
+    }
+
+    if (!result || !numbers.has(pairing.player1_id) || !numbers.has(pairing.player2_id)) return;
+
+    if (result.is_forfeit) {
+      [pairing.player1_id, pairing.player2_id].forEach(playerId => {
+        entries.get(playerId)!.push(forfeitEntry(round, result.winner_id === playerId));
+      });
+      return;
+    }
+
+    const sides: [string, string, number, number][] = [
+      [pairing.player1_id, pairing.player2_id, result.player1_score, result.player2_score],
+      [pairing.player2_id, pairing.player1_id, result.player2_score, result.player1_score]
+    ];
+    sides.forEach(([playerId, opponentId, playerScore, opponentScore]) => {
+      entries.get(playerId)!.push({
+        round,
+        opponentNumber: numbers.get(opponentId)!,
+        playerScore,
+        opponentScore,
+        result: playerScore > opponentScore ? 'win' : playerScore < opponentScore ? 'loss' : 'draw',
+        movedFirst: pairing.first_move_player_id ? pairing.first_move_player_id === playerId : null
+      });
+    });
+  });
+
+  // Both formats expect one entry per round for every player
+  entries.forEach((games, playerId) => {
+    const byRound = new Map(games.map(game => [game.round, game]));
+    entries.set(playerId, Array.from({ length: lastRound }, (_, index) => byRound.get(index + 1) || {
+      round: index + 1,
+      opponentNumber: 0,
+      playerScore: 0,
+      opponentScore: 0,
+      result: 'loss',
+      movedFirst: null
+    }));
+  });
+
+  return entries;
+}
+
+function formatTouDate(date?: string): string {
+  const parsed = date ? new Date(date) : new Date();
+  const valid = isNaN(parsed.getTime()) ? new Date() : parsed;
+  const day = String(valid.getUTCDate()).padStart(2, '0');
+  const month = String(valid.getUTCMonth() + 1).padStart(2, '0');
+  return `${day}.${month}.${valid.getUTCFullYear()}`;
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { Player } from '../types/database';
+import { StandingsResult } from './standings';
+import {
+  simulateTournament,
+  combineTallies,
+  getPlayerOdds,
+  hasGamesToPlay,
+  formatOdds,
+  SimulationInput,
+  SimulationPairing
+} from './tournamentSimulator';
+
+const player = (id: string, rating: number): Player => ({ id, name: id.toUpperCase(), rating, tournament_id: 't1' });
+
+// Small deterministic generator (mulberry32), so runs can be repeated
+const seeded = (seed: number) => () => {
+  seed = (seed + 0x6D2B79F5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const players = [player('a', 1500), player('b', 1500), player('c', 1500), player('d', 1500)];
+
+// Round 1 reported, round 2 paired ahead, rounds 3 and 4 still to pair
+const pairings: SimulationPairing[] = [
+  { id: 'r1a', round_number: 1, player1_id: 'a', player2_id: 'b' },
+  { id: 'r1b', round_number: 1, player1_id: 'c', player2_id: 'd' },
+  { id: 'r2a', round_number: 2, player1_id: 'a', player2_id: 'c' },
+  { id: 'r2b', round_number: 2, player1_id: 'b', player2_id: 'd' }
+];
+const results: StandingsResult[] = [
+  { pairing_id: 'r1a', player1_score: 450, player2_score: 350 },
+  { pairing_id: 'r1b', player1_score: 400, player2_score: 380 }
+];
+
+const input: SimulationInput = { players, pairings, results, totalRounds: 4, fallbackSystem: 'swiss' };
+
+describe('simulateTournament', () => {
+  it('repeats exactly with the same seed', () => {
+    const first = getPlayerOdds(simulateTournament(input, 50, seeded(7)));
+    const second = getPlayerOdds(simulateTournament(input, 50, seeded(7)));
+
+    expect(second).toEqual(first);
+  });
+
+  it('gives every run a first place and the expected number of wins', () => {
+    const tally = simulateTournament(input, 100, seeded(1));
+    const odds = Array.from(getPlayerOdds(tally).values());
+
+    expect(tally.runs).toBe(100);
+    expect(odds.reduce((sum, o) => sum + o.first, 0)).toBeCloseTo(1);
+    // Two players play each of the four rounds' two games
+    expect(odds.reduce((sum, o) => sum + o.averageWins, 0)).toBeCloseTo(8);
+  });
+
+  it('favours the much stronger player', () => {
+    const field = [player('a', 2200), player('b', 1200), player('c', 1200), player('d', 1200)];
+    const odds = getPlayerOdds(simulateTournament({ ...input, players: field }, 200, seeded(3)));
+
+    expect(odds.get('a')!.first).toBeGreaterThan(0.8);
+  });
+
+  it('counts players Gibsonized in rounds already paired', () => {
+    const gibsonPaired = pairings.map(pairing =>
+      pairing.id === 'r2a' ? { ...pairing, player1_gibsonized: true } : pairing
+    );
+    const odds = getPlayerOdds(simulateTournament({ ...input, pairings: gibsonPaired }, 20, seeded(5)));
+
+    expect(odds.get('a')!.gibsonized).toBe(1);
+  });
+
+  it('adds batches up to the same odds as one long run', () => {
+    const random = seeded(11);
+    const batches = combineTallies(simulateTournament(input, 30, random), simulateTournament(input, 20, random));
+    const whole = simulateTournament(input, 50, seeded(11));
+
+    expect(getPlayerOdds(batches)).toEqual(getPlayerOdds(whole));
+  });
+});
+
+describe('hasGamesToPlay', () => {
+  it('is false once every round is paired and reported', () => {
+    const finished: SimulationInput = {
+      ...input,
+      totalRounds: 1,
+      pairings: pairings.filter(pairing => pairing.round_number === 1)
+    };
+
+    expect(hasGamesToPlay(finished)).toBe(false);
+    expect(hasGamesToPlay(input)).toBe(true);
+  });
+});
+
+describe('formatOdds', () => {
+  it('shows never, rare and near-certain outcomes apart from percentages', () => {
+    expect(formatOdds(0)).toBe('—');
+    expect(formatOdds(0.004)).toBe('<1%');
+    expect(formatOdds(0.372)).toBe('37%');
+    expect(formatOdds(0.995)).toBe('>99%');
+    expect(formatOdds(1)).toBe('100%');
+  });
+});
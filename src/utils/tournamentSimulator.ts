@@ -0,0 +1,336 @@
+import { Pairing, PairingDisplay, PairingFormat, Player, PlayerWithRank, TournamentConfig } from '../types/database';
+import { generatePairings, DEFAULT_PAIRING_OPTIONS } from './pairingAlgorithms';
+import { getRoundPlan } from './pairingSchedule';
+import { getGibsonConfig } from './gibsonization';
+import { getTiebreakChain } from './tiebreaks';
+import { computeStandings, getStandingsOptions, StandingsPairing, StandingsResult } from './standings';
+import { expectedScore } from './ratings';
+import { PairingHistoryEntry } from './swissPairingEngine';
+
+/**
+ * Monte Carlo odds for the rest of a tournament. Each run plays out every
+ * unreported game: rounds already paired keep their pairings, later rounds
+ * are paired with the tournament's pairing schedule, and each game is won
+ * with the probability the players' ratings give. Final standings use the
+ * same calculation as every other screen.
+ * Pure apart from `random`: callers load the data and decide how many runs.
+ */
+
+/** A stored pairing, with who the round manager Gibsonized in it. */
+export type SimulationPairing = StandingsPairing & Partial<Pick<Pairing, 'player1_gibsonized' | 'player2_gibsonized'>>;
+
+export interface SimulationInput {
+  players: Player[];
+  /** Every pairing so far, including rounds paired ahead and not yet reported */
+  pairings: SimulationPairing[];
+  results: StandingsResult[];
+  config?: Partial<TournamentConfig> | null;
+  totalRounds: number;
+  /** Pairing system for rounds the schedule does not cover */
+  fallbackSystem?: PairingFormat;
+}
+
+/** Running totals over a batch of simulated tournaments. */
+export interface SimulationTally {
+  runs: number;
+  players: Map<string, PlayerTally>;
+}
+
+interface PlayerTally {
+  first: number;
+  inTheMoney: number;
+  gibsonized: number;
+  placeTotal: number;
+  winsTotal: number;
+}
+
+export interface PlayerOdds {
+  playerId: string;
+  /** Probability of finishing first, 0 to 1 */
+  first: number;
+  /** Probability of finishing within the paid places */
+  inTheMoney: number;
+  /** Probability of being Gibsonized before the last round */
+  gibsonized: number;
+  averagePlace: number;
+  averageWins: number;
+}
+
+// Enough for odds to settle within a few percent; each run is a whole tournament
+export const DEFAULT_SIMULATION_RUNS = 500;
+
+/** Standard deviation of a game's spread, in points. */
+const GAME_SPREAD_DEVIATION = 100;
+
+/** Score of an even game; only the spread decides anything. */
+const AVERAGE_SCORE = 400;
+
+// Systems that need a director's hand are simulated as Swiss
+const SIMULATED_SYSTEMS: Partial<Record<PairingFormat, PairingFormat>> = {
+  manual: 'swiss',
+  'team-round-robin': 'swiss'
+};
+
+/**
+ * Plays out the rest of the tournament `runs` times.
+ */
+export function simulateTournament(
+  input: SimulationInput,
+  runs: number = DEFAULT_SIMULATION_RUNS,
+  random: () => number = Math.random
+): SimulationTally {
+  const tally = emptyTally(input.players);
+  const prizePlaces = getGibsonConfig(input.config).prizePlaces;
+  const ratings = simulationRatings(input.players);
+
+  // Only this field's games are played out, e.g. not another division's
+  const field = { ...input, pairings: input.pairings.filter(pairing => ratings.has(pairing.player1_id)) };
+
+  for (let run = 0; run < runs; run++) {
+    const { standings, gibsonized } = playOut(field, ratings, random);
+    standings.forEach(standing => {
+      const player = tally.players.get(standing.id);
+      if (!player) return;
+      if (standing.rank === 1) player.first++;
+      if (standing.rank <= prizePlaces) player.inTheMoney++;
+      if (gibsonized.has(standing.id)) player.gibsonized++;
+      player.placeTotal += standing.rank;
+      player.winsTotal += standing.wins + standing.draws / 2;
+    });
+    tally.runs++;
+  }
+
+  return tally;
+}
+
+/**
+ * Adds one batch of runs to another, so a long simulation can report its
+ * progress as it goes.
+ */
+export function combineTallies(total: SimulationTally, batch: SimulationTally): SimulationTally {
+  const players = new Map(total.players);
+  batch.players.forEach((counts, playerId) => {
+    const current = players.get(playerId);
+    players.set(playerId, current ? {
+      first: current.first + counts.first,
+      inTheMoney: current.inTheMoney + counts.inTheMoney,
+      gibsonized: current.gibsonized + counts.gibsonized,
+      placeTotal: current.placeTotal + counts.placeTotal,
+      winsTotal: current.winsTotal + counts.winsTotal
+    } : counts);
+  });
+  return { runs: total.runs + batch.runs, players };
+}
+
+/**
+ * Each player's odds from a tally.
+ */
+export function getPlayerOdds(tally: SimulationTally): Map<string, PlayerOdds> {
+  const odds = new Map<string, PlayerOdds>();
+  const runs = Math.max(1, tally.runs);
+  tally.players.forEach((counts, playerId) => {
+    odds.set(playerId, {
+      playerId,
+      first: counts.first / runs,
+      inTheMoney: counts.inTheMoney / runs,
+      gibsonized: counts.gibsonized / runs,
+      averagePlace: counts.placeTotal / runs,
+      averageWins: counts.winsTotal / runs
+    });
+  });
+  return odds;
+}
+
+/**
+ * Whether any game is left to play. Finished tournaments need no simulation.
+ */
+export function hasGamesToPlay(input: SimulationInput): boolean {
+  const reported = new Set(input.results.map(result => result.pairing_id));
+  const pairedRounds = new Set(input.pairings.map(pairing => pairing.round_number));
+  const unpairedRounds = Array.from({ length: input.totalRounds }, (_, i) => i + 1)
+    .some(round => !pairedRounds.has(round));
+
+  return unpairedRounds || input.pairings.some(pairing =>
+    !pairing.is_bye && pairing.player2_id && !(pairing.id && reported.has(pairing.id))
+  );
+}
+
+/**
+ * Formats a probability for a table cell, e.g. "37%", "<1%" or "—" for never.
+ */
+export function formatOdds(probability: number): string {
+  if (probability <= 0) return '—';
+  if (probability < 0.01) return '<1%';
+  if (probability > 0.99 && probability < 1) return '>99%';
+  return `${Math.round(probability * 100)}%`;
+}
+
+/**
+ * Pairs a round nobody has paired yet, as the round manager would: with the
+ * round's scheduled system, on the standings the schedule bases it on.
+ * `pairings` and `results` are everything played (or imagined) so far.
+ */
+export function pairFutureRound(
+  input: SimulationInput,
+  pairings: StandingsPairing[],
+  results: StandingsResult[],
+  round: number
+): PairingDisplay[] {
+  const plan = getRoundPlan(input.config, round, input.fallbackSystem);
+  const standings = new Map(
+    computeStandings(input.players, pairings, results, {
+      ...getStandingsOptions(input.config),
+      throughRound: plan.based_on_round
+    }).map(standing => [standing.id, standing])
+  );
+  const field: PlayerWithRank[] = input.players.map(player => {
+    const standing = standings.get(player.id!)!;
+    return {
+      ...player,
+      rank: standing.rank,
+      previous_starts: standing.starts,
+      previous_replies: standing.replies,
+      wins: standing.wins,
+      losses: standing.losses,
+      draws: standing.draws,
+      points: standing.points,
+      spread: standing.spread,
+      is_gibsonized: false
+    };
+  });
+
+  return generatePairings(
+    field,
+    SIMULATED_SYSTEMS[plan.pairing_system] || plan.pairing_system,
+    historyOf(pairings, results),
+    round,
+    input.totalRounds,
+    {
+      ...DEFAULT_PAIRING_OPTIONS,
+      avoid_rematches: plan.avoid_rematches,
+      rematch_tolerance: plan.rematch_tolerance,
+      based_on_round: plan.based_on_round
+    },
+    getGibsonConfig(input.config),
+    getTiebreakChain(input.config)
+  );
+}
+
+/**
+ * One simulated tournament: the final standings, and who was Gibsonized on the way.
+ */
+function playOut(
+  input: SimulationInput,
+  ratings: Map<string, number>,
+  random: () => number
+) {
+  const pairings: StandingsPairing[] = [...input.pairings];
+  const results = [...input.results];
+  // Players Gibsonized in the rounds already paired count as well as those
+  // Gibsonized in the rounds simulated here
+  const gibsonized = new Set(input.pairings.flatMap(pairing => [
+    ...(pairing.player1_gibsonized ? [pairing.player1_id] : []),
+    ...(pairing.player2_gibsonized && pairing.player2_id ? [pairing.player2_id] : [])
+  ]));
+  const reported = new Set(results.map(result => result.pairing_id));
+
+  const play = (pairing: StandingsPairing) => {
+    if (pairing.is_bye || !pairing.player2_id || !pairing.id || reported.has(pairing.id)) return;
+    const [player1Score, player2Score] = simulateGame(
+      ratings.get(pairing.player1_id) || 0,
+      ratings.get(pairing.player2_id) || 0,
+      random
+    );
+    results.push({ pairing_id: pairing.id, player1_score: player1Score, player2_score: player2Score });
+    reported.add(pairing.id);
+  };
+
+  for (let round = 1; round <= input.totalRounds; round++) {
+    if (pairings.some(pairing => pairing.round_number === round)) {
+      pairings.filter(pairing => pairing.round_number === round).forEach(play);
+      continue;
+    }
+
+    const roundPairings = pairFutureRound(input, pairings, results, round);
+
+    roundPairings.forEach(pairing => {
+      if (pairing.player1_gibsonized) gibsonized.add(pairing.player1.id!);
+      if (pairing.player2_gibsonized && pairing.player2) gibsonized.add(pairing.player2.id!);
+
+      const simulated: StandingsPairing = {
+        id: `simulated-${round}-${pairing.table_number}`,
+        round_number: round,
+        player1_id: pairing.player1.id!,
+        player2_id: pairing.player2?.id || null,
+        first_move_player_id: pairing.first_move_player_id,
+        is_bye: !pairing.player2
+      };
+      pairings.push(simulated);
+      play(simulated);
+    });
+  }
+
+  return {
+    standings: computeStandings(input.players, pairings, results, getStandingsOptions(input.config)),
+    gibsonized
+  };
+}
+
+/**
+ * Scores for one game: player 1 wins with the rating-based probability, by
+ * a margin drawn from the spread of a typical game.
+ */
+function simulateGame(rating1: number, rating2: number, random: () => number): [number, number] {
+  const player1Wins = random() < expectedScore(rating1, rating2);
+  const margin = Math.max(1, Math.round(Math.abs(normalSample(random)) * GAME_SPREAD_DEVIATION));
+  const winner = AVERAGE_SCORE + Math.ceil(margin / 2);
+  const loser = AVERAGE_SCORE - Math.floor(margin / 2);
+  return player1Wins ? [winner, loser] : [loser, winner];
+}
+
+/**
+ * Ratings used to decide games. Unrated players play at the field's average.
+ */
+function simulationRatings(players: Player[]): Map<string, number> {
+  const rated = players.filter(player => player.rating > 0);
+  const average = rated.length > 0
+    ? rated.reduce((sum, player) => sum + player.rating, 0) / rated.length
+    : 1500;
+  return new Map(players.map(player => [player.id!, player.rating > 0 ? player.rating : average]));
+}
+
+function historyOf(pairings: StandingsPairing[], results: StandingsResult[]): PairingHistoryEntry[] {
+  const resultsById = new Map(results.map(result => [result.pairing_id, result]));
+  return pairings.map(pairing => {
+    const result = pairing.id ? resultsById.get(pairing.id) : undefined;
+    return {
+      player1_id: pairing.player1_id,
+      player2_id: pairing.player2_id,
+      round_number: pairing.round_number,
+      first_move_player_id: pairing.first_move_player_id || undefined,
+      player1_score: result?.player1_score ?? null,
+      player2_score: result?.player2_score ?? null,
+      is_bye: pairing.is_bye
+    };
+  });
+}
+
+function emptyTally(players: Player[]): SimulationTally {
+  return {
+    runs: 0,
+    players: new Map(players.map(player => [player.id!, {
+      first: 0,
+      inTheMoney: 0,
+      gibsonized: 0,
+      placeTotal: 0,
+      winsTotal: 0
+    }]))
+  };
+}
+
+// Standard normal sample (Box-Muller)
+function normalSample(random: () => number): number {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
@@ -0,0 +1,45 @@
+import { simulateTournament, combineTallies, SimulationInput, SimulationTally } from '../utils/tournamentSimulator';
+
+/**
+ * Plays out tournament simulations off the main thread for
+ * `useTournamentOdds`. Each request runs to completion, sending the running
+ * tally back every so often so the odds fill in as it goes; the hook ends a
+ * simulation it no longer needs by terminating the worker.
+ */
+
+export interface OddsRequest {
+  input: SimulationInput;
+  runs: number;
+}
+
+export type OddsMessage =
+  | { type: 'progress'; tally: SimulationTally; done: boolean }
+  | { type: 'error'; message: string };
+
+// Milliseconds between progress messages
+const PROGRESS_INTERVAL = 250;
+
+const worker = self as unknown as Worker;
+
+worker.onmessage = (event: MessageEvent<OddsRequest>) => {
+  const { input, runs } = event.data;
+  let tally: SimulationTally = { runs: 0, players: new Map() };
+  let lastProgress = performance.now();
+
+  try {
+    while (tally.runs < runs) {
+      tally = combineTallies(tally, simulateTournament(input, 1));
+      const now = performance.now();
+      if (tally.runs < runs && now - lastProgress >= PROGRESS_INTERVAL) {
+        worker.postMessage({ type: 'progress', tally, done: false } satisfies OddsMessage);
+        lastProgress = now;
+      }
+    }
+    worker.postMessage({ type: 'progress', tally, done: true } satisfies OddsMessage);
+  } catch (err) {
+    worker.postMessage({
+      type: 'error',
+      message: err instanceof Error ? err.message : String(err)
+    } satisfies OddsMessage);
+  }
+};
@@ -0,0 +1,61 @@
+/*
+  # Bind players and pairings to divisions
+
+  1. Schema Updates
+    - Add `division_id` column to players table (references divisions)
+    - Add `division_id` column to pairings table (references divisions)
+
+  2. Data Backfill
+    - Assign existing players to their tournament's first division
+    - Assign existing pairings to the division of their first player
+
+  3. Indexes
+    - Add indexes for per-division player and pairing lookups
+*/
+
+-- Add division_id to players table
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'players' AND column_name = 'division_id'
+  ) THEN
+    ALTER TABLE players ADD COLUMN division_id uuid REFERENCES divisions(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+-- Add division_id to pairings table
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'pairings' AND column_name = 'division_id'
+  ) THEN
+    ALTER TABLE pairings ADD COLUMN division_id uuid REFERENCES divisions(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+-- Backfill players into the first division of their tournament
+UPDATE players p
+SET division_id = d.id
+FROM divisions d
+WHERE p.division_id IS NULL
+  AND d.tournament_id = p.tournament_id
+  AND d.division_number = (
+    SELECT MIN(d2.division_number) FROM divisions d2 WHERE d2.tournament_id = p.tournament_id
+  );
+
+-- Backfill pairings from their first player's division
+UPDATE pairings pr
+SET division_id = p.division_id
+FROM players p
+WHERE pr.division_id IS NULL
+  AND p.id = pr.player1_id;
+
+-- Add indexes for division queries
+CREATE INDEX IF NOT EXISTS idx_players_division_id ON players(tournament_id, division_id);
+CREATE INDEX IF NOT EXISTS idx_pairings_division_round ON pairings(tournament_id, division_id, round_number);
+
+-- Add comments
+COMMENT ON COLUMN players.division_id IS 'Division the player competes in; pairings and standings are computed per division';
+COMMENT ON COLUMN pairings.division_id IS 'Division this pairing belongs to (both players are in the same division)';
@@ -0,0 +1,43 @@
+/*
+  # Store byes as pairings
+
+  1. Schema Updates
+    - Add `is_bye` boolean column to pairings table
+    - Allow `player2_id` and `player2_rank` to be null for bye pairings
+
+  2. Constraints
+    - A bye pairing has no second player; every other pairing has one
+
+  3. Notes
+    - The bye award (result and spread) comes from the tournament's
+      `tournament_config`, so bye pairings have no row in results
+*/
+
+-- Add is_bye to pairings table
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'pairings' AND column_name = 'is_bye'
+  ) THEN
+    ALTER TABLE pairings ADD COLUMN is_bye boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
+
+-- Bye pairings have no opponent
+ALTER TABLE pairings ALTER COLUMN player2_id DROP NOT NULL;
+ALTER TABLE pairings ALTER COLUMN player2_rank DROP NOT NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'pairings_bye_opponent_check'
+  ) THEN
+    ALTER TABLE pairings ADD CONSTRAINT pairings_bye_opponent_check
+      CHECK ((is_bye AND player2_id IS NULL) OR (NOT is_bye AND player2_id IS NOT NULL));
+  END IF;
+END $$;
+
+-- Add comments
+COMMENT ON COLUMN pairings.is_bye IS 'Player 1 sits out this round and receives the tournament''s bye award';
@@ -0,0 +1,63 @@
+/*
+  # Withdrawals, forfeits and late entries
+
+  1. Schema Updates
+    - Add `status` to players table (active, withdrawn or suspended)
+    - Add `suspended_round` to players table for the round a suspended player sits out
+    - Add `late_entry_round` to players table for the first round a late entrant is paired in
+    - Add `is_forfeit` to results table
+
+  2. Notes
+    - Withdrawn players keep their rows so earlier pairings and results stay intact
+    - Forfeit spread and late entry points come from the tournament's
+      `tournament_config`, so a forfeit result stores no scores
+*/
+
+-- Add status columns to players table
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'players' AND column_name = 'status'
+  ) THEN
+    ALTER TABLE players ADD COLUMN status text NOT NULL DEFAULT 'active'
+      CHECK (status IN ('active', 'withdrawn', 'suspended'));
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'players' AND column_name = 'suspended_round'
+  ) THEN
+    ALTER TABLE players ADD COLUMN suspended_round integer;
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'players' AND column_name = 'late_entry_round'
+  ) THEN
+    ALTER TABLE players ADD COLUMN late_entry_round integer;
+  END IF;
+END $$;
+
+-- Add is_forfeit to results table
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'results' AND column_name = 'is_forfeit'
+  ) THEN
+    ALTER TABLE results ADD COLUMN is_forfeit boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
+
+-- Add comments
+COMMENT ON COLUMN players.status IS 'active, withdrawn (no longer paired) or suspended (sits out suspended_round)';
+COMMENT ON COLUMN players.suspended_round IS 'Round a suspended player is not paired in';
+COMMENT ON COLUMN players.late_entry_round IS 'First round a late entrant is paired in; earlier rounds earn provisional points';
+COMMENT ON COLUMN results.is_forfeit IS 'Game was not played; winner_id is the player who showed up, or null if neither did';
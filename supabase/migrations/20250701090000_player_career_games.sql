@@ -0,0 +1,25 @@
+/*
+  # Career games for rating updates
+
+  1. Schema Updates
+    - Add `career_games` to players table
+
+  2. Notes
+    - Used to pick the K-factor when computing post-tournament rating changes:
+      players with few career games are provisional and move faster
+    - Null means unknown; such players are rated as established
+*/
+
+-- Add career_games to players table
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'players' AND column_name = 'career_games'
+  ) THEN
+    ALTER TABLE players ADD COLUMN career_games integer CHECK (career_games IS NULL OR career_games >= 0);
+  END IF;
+END $$;
+
+-- Add comments
+COMMENT ON COLUMN players.career_games IS 'Rated games played before this tournament; null if unknown';
@@ -0,0 +1,162 @@
+/*
+  # Safe replacement of a round's pairings
+
+  1. Functions
+    - `replace_round_pairings(tournament, division, round, pairings, discard_results)`
+      replaces the pairings of one round in one division in a single transaction
+
+  2. Behaviour
+    - A proposed pairing between the same players as an existing one keeps the
+      existing row (and its result); only its table, first move, ranks and
+      Gibson flags are updated
+    - Existing pairings that are not proposed again are deleted. If any of
+      them has a result the call fails unless `p_discard_results` is true
+    - Replacing a round that already had pairings is recorded in `audit_logs`
+
+  3. Security
+    - Runs with the caller's rights, so the existing pairings and results
+      policies apply
+*/
+
+CREATE OR REPLACE FUNCTION replace_round_pairings(
+  p_tournament_id uuid,
+  p_division_id uuid,
+  p_round_number integer,
+  p_pairings jsonb,
+  p_discard_results boolean DEFAULT false
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_new jsonb;
+  v_existing pairings%ROWTYPE;
+  v_player1 uuid;
+  v_player2 uuid;
+  v_swapped boolean;
+  v_matched uuid[] := '{}';
+  v_matches jsonb := '[]'::jsonb;
+  v_match jsonb;
+  v_existing_count integer;
+  v_results_lost integer;
+  v_kept integer := 0;
+  v_inserted integer := 0;
+  v_deleted integer := 0;
+BEGIN
+  -- Serialise concurrent replacements of the same round
+  PERFORM pg_advisory_xact_lock(
+    hashtext(p_tournament_id::text || ':' || coalesce(p_division_id::text, '') || ':' || p_round_number)
+  );
+
+  SELECT count(*) INTO v_existing_count
+  FROM pairings
+  WHERE tournament_id = p_tournament_id
+    AND round_number = p_round_number
+    AND division_id IS NOT DISTINCT FROM p_division_id;
+
+  -- Match each proposed pairing to an existing one between the same players
+  FOR v_new IN SELECT value FROM jsonb_array_elements(p_pairings) LOOP
+    v_player1 := (v_new->>'player1_id')::uuid;
+    v_player2 := nullif(v_new->>'player2_id', '')::uuid;
+
+    SELECT * INTO v_existing
+    FROM pairings
+    WHERE tournament_id = p_tournament_id
+      AND round_number = p_round_number
+      AND division_id IS NOT DISTINCT FROM p_division_id
+      AND NOT (id = ANY(v_matched))
+      AND (
+        (player1_id = v_player1 AND player2_id IS NOT DISTINCT FROM v_player2)
+        OR (v_player2 IS NOT NULL AND player1_id = v_player2 AND player2_id = v_player1)
+      )
+    LIMIT 1;
+
+    IF FOUND THEN
+      v_matched := v_matched || v_existing.id;
+      v_matches := v_matches || jsonb_build_array(jsonb_build_object(
+        'id', v_existing.id,
+        'swapped', v_existing.player1_id <> v_player1,
+        'pairing', v_new
+      ));
+    ELSE
+      v_matches := v_matches || jsonb_build_array(jsonb_build_object('id', null, 'pairing', v_new));
+    END IF;
+  END LOOP;
+
+  -- Refuse to drop results unless the caller has confirmed it
+  SELECT count(*) INTO v_results_lost
+  FROM results r
+  JOIN pairings p ON p.id = r.pairing_id
+  WHERE p.tournament_id = p_tournament_id
+    AND p.round_number = p_round_number
+    AND p.division_id IS NOT DISTINCT FROM p_division_id
+    AND NOT (p.id = ANY(v_matched));
+
+  IF v_results_lost > 0 AND NOT p_discard_results THEN
+    RAISE EXCEPTION 'Round % has % result(s) on pairings that would be replaced', p_round_number, v_results_lost
+      USING ERRCODE = 'P0001', HINT = 'results_exist';
+  END IF;
+
+  DELETE FROM pairings
+  WHERE tournament_id = p_tournament_id
+    AND round_number = p_round_number
+    AND division_id IS NOT DISTINCT FROM p_division_id
+    AND NOT (id = ANY(v_matched));
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  FOR v_match IN SELECT value FROM jsonb_array_elements(v_matches) LOOP
+    v_new := v_match->'pairing';
+
+    IF v_match->>'id' IS NOT NULL THEN
+      -- Keep the stored player order, since the result's scores follow it
+      v_swapped := (v_match->>'swapped')::boolean;
+      UPDATE pairings SET
+        table_number = (v_new->>'table_number')::integer,
+        first_move_player_id = (v_new->>'first_move_player_id')::uuid,
+        player1_rank = (v_new->>CASE WHEN v_swapped THEN 'player2_rank' ELSE 'player1_rank' END)::integer,
+        player2_rank = (v_new->>CASE WHEN v_swapped THEN 'player1_rank' ELSE 'player2_rank' END)::integer,
+        player1_gibsonized = coalesce((v_new->>CASE WHEN v_swapped THEN 'player2_gibsonized' ELSE 'player1_gibsonized' END)::boolean, false),
+        player2_gibsonized = coalesce((v_new->>CASE WHEN v_swapped THEN 'player1_gibsonized' ELSE 'player2_gibsonized' END)::boolean, false)
+      WHERE id = (v_match->>'id')::uuid;
+      v_kept := v_kept + 1;
+    ELSE
+      INSERT INTO pairings (
+        tournament_id, division_id, round_number, table_number,
+        player1_id, player2_id, player1_rank, player2_rank,
+        first_move_player_id, player1_gibsonized, player2_gibsonized, is_bye
+      ) VALUES (
+        p_tournament_id, p_division_id, p_round_number, (v_new->>'table_number')::integer,
+        (v_new->>'player1_id')::uuid, nullif(v_new->>'player2_id', '')::uuid,
+        (v_new->>'player1_rank')::integer, (v_new->>'player2_rank')::integer,
+        (v_new->>'first_move_player_id')::uuid,
+        coalesce((v_new->>'player1_gibsonized')::boolean, false),
+        coalesce((v_new->>'player2_gibsonized')::boolean, false),
+        coalesce((v_new->>'is_bye')::boolean, false)
+      );
+      v_inserted := v_inserted + 1;
+    END IF;
+  END LOOP;
+
+  IF v_existing_count > 0 THEN
+    INSERT INTO audit_logs (user_id, action, details)
+    VALUES (auth.uid(), 'round_pairings_replaced', jsonb_build_object(
+      'tournament_id', p_tournament_id,
+      'division_id', p_division_id,
+      'round', p_round_number,
+      'previous_pairing_count', v_existing_count,
+      'kept', v_kept,
+      'inserted', v_inserted,
+      'deleted', v_deleted,
+      'results_discarded', v_results_lost
+    ));
+  END IF;
+
+  RETURN jsonb_build_object(
+    'kept', v_kept,
+    'inserted', v_inserted,
+    'deleted', v_deleted,
+    'results_discarded', v_results_lost
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add comment
+COMMENT ON FUNCTION replace_round_pairings(uuid, uuid, integer, jsonb, boolean) IS 'Replaces one round''s pairings in a division, keeping unchanged pairings and their results';
@@ -0,0 +1,25 @@
+/*
+  # Fixed tables for players
+
+  1. Schema Updates
+    - Add `fixed_table` to players table
+
+  2. Notes
+    - A player with a fixed table is seated there every round, e.g. for
+      mobility needs; their opponent comes to them
+    - Null means the player can be seated anywhere
+*/
+
+-- Add fixed_table to players table
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'players' AND column_name = 'fixed_table'
+  ) THEN
+    ALTER TABLE players ADD COLUMN fixed_table integer CHECK (fixed_table IS NULL OR fixed_table > 0);
+  END IF;
+END $$;
+
+-- Add comments
+COMMENT ON COLUMN players.fixed_table IS 'Table the player is always seated at; null if any table will do';
@@ -0,0 +1,46 @@
+/*
+  # Saved standings scenarios
+
+  1. New Tables
+    - `standings_scenarios`
+      - `id` (uuid, primary key)
+      - `tournament_id` (uuid, foreign key to tournaments)
+      - `division_id` (uuid, foreign key to divisions, nullable)
+      - `name` (text)
+      - `description` (text)
+      - `from_round` (integer, the first round the scenario imagines)
+      - `games` (jsonb, imagined scores for this round and any later rounds)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `standings_scenarios`
+    - Authenticated users can manage them
+*/
+
+-- Create standings_scenarios table
+CREATE TABLE IF NOT EXISTS standings_scenarios (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tournament_id uuid NOT NULL REFERENCES tournaments(id) ON DELETE CASCADE,
+  division_id uuid REFERENCES divisions(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  description text,
+  from_round integer NOT NULL CHECK (from_round > 0),
+  games jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_standings_scenarios_tournament
+  ON standings_scenarios(tournament_id, from_round);
+
+-- Enable RLS
+ALTER TABLE standings_scenarios ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage standings scenarios"
+  ON standings_scenarios
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+-- Add comments
+COMMENT ON TABLE standings_scenarios IS 'Named what-if results for the rest of a tournament, from the standings impact visualizer';
@@ -0,0 +1,46 @@
+/*
+  # Row versions for offline sync
+
+  1. Schema Updates
+    - Add `updated_at` to pairings and results, set when a row is inserted
+      and on every update
+
+  2. Notes
+    - A device that queued changes while offline keeps the `updated_at` of
+      each row it based them on; if the server's value has moved on, the row
+      was edited elsewhere and the change is held back for the director
+    - Existing rows start at the time of this migration
+*/
+
+-- Add updated_at to pairings and results
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'pairings' AND column_name = 'updated_at'
+  ) THEN
+    ALTER TABLE pairings ADD COLUMN updated_at timestamptz DEFAULT now();
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'results' AND column_name = 'updated_at'
+  ) THEN
+    ALTER TABLE results ADD COLUMN updated_at timestamptz DEFAULT now();
+  END IF;
+END $$;
+
+-- Keep updated_at current on every change
+DROP TRIGGER IF EXISTS update_pairings_updated_at ON pairings;
+CREATE TRIGGER update_pairings_updated_at
+  BEFORE UPDATE ON pairings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_results_updated_at ON results;
+CREATE TRIGGER update_results_updated_at
+  BEFORE UPDATE ON results
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comments
+COMMENT ON COLUMN pairings.updated_at IS 'Last change to the pairing; offline devices compare it to detect edits made elsewhere';
+COMMENT ON COLUMN results.updated_at IS 'Last change to the result; offline devices compare it to detect edits made elsewhere';
@@ -0,0 +1,27 @@
+/*
+  # Record who entered each result
+
+  1. Schema Updates
+    - Add `entered_by` to results: the name of the scorekeeper whose device
+      saved the result
+
+  2. Notes
+    - Scorekeepers at an event usually share the director's account, so
+      `submitted_by` alone cannot tell them apart; each device is given a
+      scorekeeper name instead
+    - Existing results have no name
+*/
+
+-- Add entered_by to results
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'results' AND column_name = 'entered_by'
+  ) THEN
+    ALTER TABLE results ADD COLUMN entered_by text;
+  END IF;
+END $$;
+
+-- Add comments
+COMMENT ON COLUMN results.entered_by IS 'Name of the scorekeeper whose device saved the result';
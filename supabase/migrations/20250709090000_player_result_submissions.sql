@@ -0,0 +1,176 @@
+/*
+  # Results reported by players
+
+  1. New Tables
+    - `result_submissions`
+      - `id` (uuid, primary key)
+      - `tournament_id` (uuid, foreign key to tournaments)
+      - `pairing_id` (uuid, foreign key to pairings)
+      - `player_id` (uuid, foreign key to players, the player who reported)
+      - `player1_score`, `player2_score` (integer, in the pairing's player order)
+      - `status` (text: pending, confirmed, disputed or resolved)
+      - `created_at`, `updated_at` (timestamp)
+
+  2. Functions
+    - `submit_player_result(pairing, player, player1_score, player2_score)`
+      records one player's report of their game in the current round. When
+      both players have reported the same score the result is entered; when
+      they differ both reports are marked disputed for the director
+
+  3. Security
+    - Enable RLS on `result_submissions`; directors can read and manage the
+      reports for their own tournaments
+    - Players are not signed in, so reports are only made through
+      `submit_player_result`, which runs with its owner's rights and accepts
+      reports only for unscored games in the tournament's current round
+*/
+
+-- Create result_submissions table
+CREATE TABLE IF NOT EXISTS result_submissions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tournament_id uuid NOT NULL REFERENCES tournaments(id) ON DELETE CASCADE,
+  pairing_id uuid NOT NULL REFERENCES pairings(id) ON DELETE CASCADE,
+  player_id uuid NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+  player1_score integer NOT NULL CHECK (player1_score >= 0),
+  player2_score integer NOT NULL CHECK (player2_score >= 0),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'confirmed', 'disputed', 'resolved')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (pairing_id, player_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_result_submissions_tournament
+  ON result_submissions(tournament_id, status);
+
+DROP TRIGGER IF EXISTS update_result_submissions_updated_at ON result_submissions;
+CREATE TRIGGER update_result_submissions_updated_at
+  BEFORE UPDATE ON result_submissions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable RLS
+ALTER TABLE result_submissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Directors can read own tournament result submissions"
+  ON result_submissions
+  FOR SELECT
+  TO authenticated
+  USING (
+    tournament_id IN (
+      SELECT id FROM tournaments WHERE director_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Directors can update own tournament result submissions"
+  ON result_submissions
+  FOR UPDATE
+  TO authenticated
+  USING (
+    tournament_id IN (
+      SELECT id FROM tournaments WHERE director_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Directors can delete own tournament result submissions"
+  ON result_submissions
+  FOR DELETE
+  TO authenticated
+  USING (
+    tournament_id IN (
+      SELECT id FROM tournaments WHERE director_id = auth.uid()
+    )
+  );
+
+-- Record a player's report, entering the result once both players agree
+CREATE OR REPLACE FUNCTION submit_player_result(
+  p_pairing_id uuid,
+  p_player_id uuid,
+  p_player1_score integer,
+  p_player2_score integer
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_pairing pairings%ROWTYPE;
+  v_current_round integer;
+  v_opponent result_submissions%ROWTYPE;
+  v_winner uuid;
+BEGIN
+  SELECT * INTO v_pairing FROM pairings WHERE id = p_pairing_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'pairing_not_found';
+  END IF;
+
+  IF v_pairing.player2_id IS NULL THEN
+    RAISE EXCEPTION 'bye_takes_no_score';
+  END IF;
+
+  IF p_player_id IS DISTINCT FROM v_pairing.player1_id AND p_player_id IS DISTINCT FROM v_pairing.player2_id THEN
+    RAISE EXCEPTION 'player_not_in_pairing';
+  END IF;
+
+  IF p_player1_score IS NULL OR p_player2_score IS NULL
+    OR p_player1_score < 0 OR p_player2_score < 0
+    OR p_player1_score > 9999 OR p_player2_score > 9999 THEN
+    RAISE EXCEPTION 'invalid_score';
+  END IF;
+
+  SELECT coalesce(current_round, 1) INTO v_current_round
+  FROM tournaments
+  WHERE id = v_pairing.tournament_id;
+
+  IF v_pairing.round_number <> v_current_round THEN
+    RAISE EXCEPTION 'round_not_open';
+  END IF;
+
+  -- Serialise the two players' reports for the same game
+  PERFORM pg_advisory_xact_lock(hashtext('result_submission:' || p_pairing_id::text));
+
+  IF EXISTS (SELECT 1 FROM results WHERE pairing_id = p_pairing_id) THEN
+    RETURN jsonb_build_object('status', 'already_entered');
+  END IF;
+
+  INSERT INTO result_submissions (tournament_id, pairing_id, player_id, player1_score, player2_score, status)
+  VALUES (v_pairing.tournament_id, p_pairing_id, p_player_id, p_player1_score, p_player2_score, 'pending')
+  ON CONFLICT (pairing_id, player_id) DO UPDATE
+    SET player1_score = EXCLUDED.player1_score,
+        player2_score = EXCLUDED.player2_score,
+        status = 'pending';
+
+  SELECT * INTO v_opponent
+  FROM result_submissions
+  WHERE pairing_id = p_pairing_id AND player_id <> p_player_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'waiting');
+  END IF;
+
+  IF v_opponent.player1_score <> p_player1_score OR v_opponent.player2_score <> p_player2_score THEN
+    UPDATE result_submissions SET status = 'disputed' WHERE pairing_id = p_pairing_id;
+    RETURN jsonb_build_object('status', 'disputed');
+  END IF;
+
+  v_winner := CASE
+    WHEN p_player1_score > p_player2_score THEN v_pairing.player1_id
+    WHEN p_player2_score > p_player1_score THEN v_pairing.player2_id
+    ELSE NULL
+  END;
+
+  INSERT INTO results (
+    pairing_id, tournament_id, round_number, player1_score, player2_score,
+    winner_id, submitted_by, entered_by
+  )
+  VALUES (
+    p_pairing_id, v_pairing.tournament_id, v_pairing.round_number, p_player1_score, p_player2_score,
+    v_winner, NULL, 'Player report'
+  );
+
+  UPDATE result_submissions SET status = 'confirmed' WHERE pairing_id = p_pairing_id;
+
+  RETURN jsonb_build_object('status', 'confirmed');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION submit_player_result(uuid, uuid, integer, integer) TO anon, authenticated;
+
+-- Add comments
+COMMENT ON TABLE result_submissions IS 'Scores reported by the players of a game, confirmed into results when both agree';
+COMMENT ON FUNCTION submit_player_result(uuid, uuid, integer, integer) IS 'Records a player''s report of a current-round game; enters the result when both players agree, otherwise queues the game for director review';
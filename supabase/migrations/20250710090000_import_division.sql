@@ -0,0 +1,99 @@
+/*
+  # Importing a division in one transaction
+
+  1. Functions
+    - `import_division(tournament, division, players, pairings, results, current_round)`
+      stores an imported division's players, pairings and results together
+      and moves the tournament on to the round after the last one imported
+
+  2. Behaviour
+    - Rows carry the ids the client gave them, so pairings and results can
+      refer to the players and pairings imported alongside them
+    - The division must have no players yet; otherwise the call fails with
+      hint `division_not_empty` and nothing is saved
+    - A failure part way leaves nothing behind, so the import can be retried
+
+  3. Security
+    - Runs with the caller's rights, so the existing players, pairings,
+      results and tournaments policies apply
+*/
+
+CREATE OR REPLACE FUNCTION import_division(
+  p_tournament_id uuid,
+  p_division_id uuid,
+  p_players jsonb,
+  p_pairings jsonb,
+  p_results jsonb,
+  p_current_round integer
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_players integer;
+  v_pairings integer;
+  v_results integer;
+BEGIN
+  -- Serialise concurrent imports into the same division
+  PERFORM pg_advisory_xact_lock(
+    hashtext('import_division:' || p_tournament_id::text || ':' || coalesce(p_division_id::text, ''))
+  );
+
+  IF EXISTS (
+    SELECT 1 FROM players
+    WHERE tournament_id = p_tournament_id
+      AND (p_division_id IS NULL OR division_id = p_division_id)
+  ) THEN
+    RAISE EXCEPTION 'The division already has players'
+      USING ERRCODE = 'P0001', HINT = 'division_not_empty';
+  END IF;
+
+  INSERT INTO players (id, name, rating, tournament_id, division_id, status)
+  SELECT id, name, rating, p_tournament_id, p_division_id, coalesce(status, 'active')
+  FROM jsonb_to_recordset(p_players)
+    AS p(id uuid, name text, rating integer, status text);
+  GET DIAGNOSTICS v_players = ROW_COUNT;
+
+  INSERT INTO pairings (
+    id, tournament_id, division_id, round_number, table_number,
+    player1_id, player2_id, player1_rank, player2_rank,
+    first_move_player_id, is_bye
+  )
+  SELECT
+    id, p_tournament_id, p_division_id, round_number, table_number,
+    player1_id, player2_id, player1_rank, player2_rank,
+    first_move_player_id, coalesce(is_bye, false)
+  FROM jsonb_to_recordset(p_pairings)
+    AS p(
+      id uuid, round_number integer, table_number integer,
+      player1_id uuid, player2_id uuid, player1_rank integer, player2_rank integer,
+      first_move_player_id uuid, is_bye boolean
+    );
+  GET DIAGNOSTICS v_pairings = ROW_COUNT;
+
+  INSERT INTO results (
+    id, pairing_id, tournament_id, round_number,
+    player1_score, player2_score, winner_id, submitted_by, is_forfeit
+  )
+  SELECT
+    id, pairing_id, p_tournament_id, round_number,
+    player1_score, player2_score, winner_id, NULL, coalesce(is_forfeit, false)
+  FROM jsonb_to_recordset(p_results)
+    AS r(
+      id uuid, pairing_id uuid, round_number integer,
+      player1_score integer, player2_score integer, winner_id uuid, is_forfeit boolean
+    );
+  GET DIAGNOSTICS v_results = ROW_COUNT;
+
+  UPDATE tournaments
+  SET current_round = greatest(coalesce(current_round, 1), p_current_round)
+  WHERE id = p_tournament_id;
+
+  RETURN jsonb_build_object(
+    'players', v_players,
+    'pairings', v_pairings,
+    'results', v_results
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add comment
+COMMENT ON FUNCTION import_division(uuid, uuid, jsonb, jsonb, jsonb, integer) IS 'Stores an imported division''s players, pairings and results in one transaction';
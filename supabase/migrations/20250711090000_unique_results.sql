@@ -0,0 +1,136 @@
+/*
+  # One result per game
+
+  1. Schema Updates
+    - Add a unique constraint on `results.pairing_id`
+
+  2. Data
+    - Games that already have more than one result keep the most recently
+      changed one; the others are deleted
+
+  3. Functions
+    - `submit_player_result` leaves a result a scorekeeper entered while the
+      players were reporting in place, and reports the game as already entered
+
+  4. Notes
+    - Two devices saving the same table at once used to store two results,
+      and standings counted both. The second save now fails with a unique
+      violation (23505), which the score entry screen shows
+*/
+
+-- Keep the latest result of each game
+DELETE FROM results r
+USING (
+  SELECT id, row_number() OVER (
+    PARTITION BY pairing_id
+    ORDER BY coalesce(updated_at, created_at) DESC, created_at DESC, id
+  ) AS position
+  FROM results
+) ranked
+WHERE r.id = ranked.id AND ranked.position > 1;
+
+-- Add unique constraint on pairing_id
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'results_pairing_id_key'
+  ) THEN
+    ALTER TABLE results ADD CONSTRAINT results_pairing_id_key UNIQUE (pairing_id);
+  END IF;
+END $$;
+
+-- Enter a result from agreeing reports only if the game has none yet
+CREATE OR REPLACE FUNCTION submit_player_result(
+  p_pairing_id uuid,
+  p_player_id uuid,
+  p_player1_score integer,
+  p_player2_score integer
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_pairing pairings%ROWTYPE;
+  v_current_round integer;
+  v_opponent result_submissions%ROWTYPE;
+  v_winner uuid;
+BEGIN
+  SELECT * INTO v_pairing FROM pairings WHERE id = p_pairing_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'pairing_not_found';
+  END IF;
+
+  IF v_pairing.player2_id IS NULL THEN
+    RAISE EXCEPTION 'bye_takes_no_score';
+  END IF;
+
+  IF p_player_id IS DISTINCT FROM v_pairing.player1_id AND p_player_id IS DISTINCT FROM v_pairing.player2_id THEN
+    RAISE EXCEPTION 'player_not_in_pairing';
+  END IF;
+
+  IF p_player1_score IS NULL OR p_player2_score IS NULL
+    OR p_player1_score < 0 OR p_player2_score < 0
+    OR p_player1_score > 9999 OR p_player2_score > 9999 THEN
+    RAISE EXCEPTION 'invalid_score';
+  END IF;
+
+  SELECT coalesce(current_round, 1) INTO v_current_round
+  FROM tournaments
+  WHERE id = v_pairing.tournament_id;
+
+  IF v_pairing.round_number <> v_current_round THEN
+    RAISE EXCEPTION 'round_not_open';
+  END IF;
+
+  -- Serialise the two players' reports for the same game
+  PERFORM pg_advisory_xact_lock(hashtext('result_submission:' || p_pairing_id::text));
+
+  IF EXISTS (SELECT 1 FROM results WHERE pairing_id = p_pairing_id) THEN
+    RETURN jsonb_build_object('status', 'already_entered');
+  END IF;
+
+  INSERT INTO result_submissions (tournament_id, pairing_id, player_id, player1_score, player2_score, status)
+  VALUES (v_pairing.tournament_id, p_pairing_id, p_player_id, p_player1_score, p_player2_score, 'pending')
+  ON CONFLICT (pairing_id, player_id) DO UPDATE
+    SET player1_score = EXCLUDED.player1_score,
+        player2_score = EXCLUDED.player2_score,
+        status = 'pending';
+
+  SELECT * INTO v_opponent
+  FROM result_submissions
+  WHERE pairing_id = p_pairing_id AND player_id <> p_player_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'waiting');
+  END IF;
+
+  IF v_opponent.player1_score <> p_player1_score OR v_opponent.player2_score <> p_player2_score THEN
+    UPDATE result_submissions SET status = 'disputed' WHERE pairing_id = p_pairing_id;
+    RETURN jsonb_build_object('status', 'disputed');
+  END IF;
+
+  v_winner := CASE
+    WHEN p_player1_score > p_player2_score THEN v_pairing.player1_id
+    WHEN p_player2_score > p_player1_score THEN v_pairing.player2_id
+    ELSE NULL
+  END;
+
+  -- A scorekeeper may have entered the game since the check above
+  INSERT INTO results (
+    pairing_id, tournament_id, round_number, player1_score, player2_score,
+    winner_id, submitted_by, entered_by
+  )
+  VALUES (
+    p_pairing_id, v_pairing.tournament_id, v_pairing.round_number, p_player1_score, p_player2_score,
+    v_winner, NULL, 'Player report'
+  )
+  ON CONFLICT (pairing_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'already_entered');
+  END IF;
+
+  UPDATE result_submissions SET status = 'confirmed' WHERE pairing_id = p_pairing_id;
+
+  RETURN jsonb_build_object('status', 'confirmed');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,217 @@
+/*
+  # Player PINs for reporting results
+
+  1. New Tables
+    - `player_report_pins`
+      - `player_id` (uuid, primary key, foreign key to players)
+      - `tournament_id` (uuid, foreign key to tournaments)
+      - `pin` (text, four digits)
+      - `failed_attempts` (integer, wrong PINs entered so far)
+      - `created_at` (timestamp)
+
+  2. Data
+    - Every player gets a PIN when added; existing players get one now
+
+  3. Functions
+    - `check_tournament_password(tournament, password)` tells the report
+      page whether the password is right, without sending it the password
+    - `submit_player_result(pairing, player, pin, password, player1_score,
+      player2_score)` replaces the version without a PIN. It checks the
+      tournament password and the reporting player's PIN before recording
+      the report, so one phone can no longer report for both players
+    - After 10 wrong PINs a player's reports are refused with status
+      `pin_locked`; the director enters the result instead
+
+  4. Security
+    - Enable RLS on `player_report_pins`; only directors can read the PINs
+      of their own tournaments, to hand them out to the players
+    - Anonymous callers can only reach the PINs and the password through
+      the two functions above
+*/
+
+-- Create player_report_pins table
+CREATE TABLE IF NOT EXISTS player_report_pins (
+  player_id uuid PRIMARY KEY REFERENCES players(id) ON DELETE CASCADE,
+  tournament_id uuid NOT NULL REFERENCES tournaments(id) ON DELETE CASCADE,
+  pin text NOT NULL CHECK (pin ~ '^[0-9]{4}$'),
+  failed_attempts integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_player_report_pins_tournament
+  ON player_report_pins(tournament_id);
+
+-- Enable RLS
+ALTER TABLE player_report_pins ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Directors can read own tournament player PINs"
+  ON player_report_pins
+  FOR SELECT
+  TO authenticated
+  USING (
+    tournament_id IN (
+      SELECT id FROM tournaments WHERE director_id = auth.uid()
+    )
+  );
+
+-- Give each new player a PIN
+CREATE OR REPLACE FUNCTION create_player_report_pin()
+RETURNS trigger AS $$
+BEGIN
+  INSERT INTO player_report_pins (player_id, tournament_id, pin)
+  VALUES (NEW.id, NEW.tournament_id, lpad(floor(random() * 10000)::integer::text, 4, '0'))
+  ON CONFLICT (player_id) DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS create_player_report_pin ON players;
+CREATE TRIGGER create_player_report_pin
+  AFTER INSERT ON players
+  FOR EACH ROW EXECUTE FUNCTION create_player_report_pin();
+
+-- Give existing players a PIN
+INSERT INTO player_report_pins (player_id, tournament_id, pin)
+SELECT id, tournament_id, lpad(floor(random() * 10000)::integer::text, 4, '0')
+FROM players
+ON CONFLICT (player_id) DO NOTHING;
+
+-- Check a tournament's password without revealing it
+CREATE OR REPLACE FUNCTION check_tournament_password(
+  p_tournament_id uuid,
+  p_password text
+)
+RETURNS boolean AS $$
+  SELECT coalesce(password, '') = '' OR password = p_password
+  FROM tournaments
+  WHERE id = p_tournament_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION check_tournament_password(uuid, text) TO anon, authenticated;
+
+-- The version without a PIN trusted whichever player the caller named
+DROP FUNCTION IF EXISTS submit_player_result(uuid, uuid, integer, integer);
+
+-- Record a player's report, entering the result once both players agree
+CREATE OR REPLACE FUNCTION submit_player_result(
+  p_pairing_id uuid,
+  p_player_id uuid,
+  p_pin text,
+  p_password text,
+  p_player1_score integer,
+  p_player2_score integer
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_pairing pairings%ROWTYPE;
+  v_current_round integer;
+  v_pin player_report_pins%ROWTYPE;
+  v_opponent result_submissions%ROWTYPE;
+  v_winner uuid;
+BEGIN
+  SELECT * INTO v_pairing FROM pairings WHERE id = p_pairing_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'pairing_not_found';
+  END IF;
+
+  IF NOT coalesce(check_tournament_password(v_pairing.tournament_id, p_password), false) THEN
+    RAISE EXCEPTION 'wrong_password';
+  END IF;
+
+  IF v_pairing.player2_id IS NULL THEN
+    RAISE EXCEPTION 'bye_takes_no_score';
+  END IF;
+
+  IF p_player_id IS DISTINCT FROM v_pairing.player1_id AND p_player_id IS DISTINCT FROM v_pairing.player2_id THEN
+    RAISE EXCEPTION 'player_not_in_pairing';
+  END IF;
+
+  -- Wrong PINs are counted, so they are returned rather than raised
+  SELECT * INTO v_pin FROM player_report_pins WHERE player_id = p_player_id FOR UPDATE;
+  IF NOT FOUND OR v_pin.failed_attempts >= 10 THEN
+    RETURN jsonb_build_object('status', 'pin_locked');
+  END IF;
+
+  IF p_pin IS DISTINCT FROM v_pin.pin THEN
+    UPDATE player_report_pins SET failed_attempts = failed_attempts + 1 WHERE player_id = p_player_id;
+    RETURN jsonb_build_object('status', 'wrong_pin');
+  END IF;
+
+  IF v_pin.failed_attempts > 0 THEN
+    UPDATE player_report_pins SET failed_attempts = 0 WHERE player_id = p_player_id;
+  END IF;
+
+  IF p_player1_score IS NULL OR p_player2_score IS NULL
+    OR p_player1_score < 0 OR p_player2_score < 0
+    OR p_player1_score > 9999 OR p_player2_score > 9999 THEN
+    RAISE EXCEPTION 'invalid_score';
+  END IF;
+
+  SELECT coalesce(current_round, 1) INTO v_current_round
+  FROM tournaments
+  WHERE id = v_pairing.tournament_id;
+
+  IF v_pairing.round_number <> v_current_round THEN
+    RAISE EXCEPTION 'round_not_open';
+  END IF;
+
+  -- Serialise the two players' reports for the same game
+  PERFORM pg_advisory_xact_lock(hashtext('result_submission:' || p_pairing_id::text));
+
+  IF EXISTS (SELECT 1 FROM results WHERE pairing_id = p_pairing_id) THEN
+    RETURN jsonb_build_object('status', 'already_entered');
+  END IF;
+
+  INSERT INTO result_submissions (tournament_id, pairing_id, player_id, player1_score, player2_score, status)
+  VALUES (v_pairing.tournament_id, p_pairing_id, p_player_id, p_player1_score, p_player2_score, 'pending')
+  ON CONFLICT (pairing_id, player_id) DO UPDATE
+    SET player1_score = EXCLUDED.player1_score,
+        player2_score = EXCLUDED.player2_score,
+        status = 'pending';
+
+  SELECT * INTO v_opponent
+  FROM result_submissions
+  WHERE pairing_id = p_pairing_id AND player_id <> p_player_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'waiting');
+  END IF;
+
+  IF v_opponent.player1_score <> p_player1_score OR v_opponent.player2_score <> p_player2_score THEN
+    UPDATE result_submissions SET status = 'disputed' WHERE pairing_id = p_pairing_id;
+    RETURN jsonb_build_object('status', 'disputed');
+  END IF;
+
+  v_winner := CASE
+    WHEN p_player1_score > p_player2_score THEN v_pairing.player1_id
+    WHEN p_player2_score > p_player1_score THEN v_pairing.player2_id
+    ELSE NULL
+  END;
+
+  -- A scorekeeper may have entered the game since the check above
+  INSERT INTO results (
+    pairing_id, tournament_id, round_number, player1_score, player2_score,
+    winner_id, submitted_by, entered_by
+  )
+  VALUES (
+    p_pairing_id, v_pairing.tournament_id, v_pairing.round_number, p_player1_score, p_player2_score,
+    v_winner, NULL, 'Player report'
+  )
+  ON CONFLICT (pairing_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'already_entered');
+  END IF;
+
+  UPDATE result_submissions SET status = 'confirmed' WHERE pairing_id = p_pairing_id;
+
+  RETURN jsonb_build_object('status', 'confirmed');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION submit_player_result(uuid, uuid, text, text, integer, integer) TO anon, authenticated;
+
+-- Add comments
+COMMENT ON TABLE player_report_pins IS 'The PIN each player enters to report their own results';
+COMMENT ON FUNCTION check_tournament_password(uuid, text) IS 'Whether the password opens the tournament; true when it has none';
+COMMENT ON FUNCTION submit_player_result(uuid, uuid, text, text, integer, integer) IS 'Records a player''s report of a current-round game after checking the tournament password and the player''s PIN; enters the result when both players agree';
@@ -0,0 +1,255 @@
+/*
+  # Limits on wrong PINs and passwords
+
+  1. Schema Updates
+    - Add `locked_until` to `player_report_pins`
+
+  2. New Tables
+    - `tournament_password_attempts`
+      - `tournament_id` (uuid, foreign key to tournaments)
+      - `client` (text, the caller's address as the API gateway forwards it)
+      - `failed_attempts` (integer, wrong passwords in the current window)
+      - `window_started_at` (timestamp)
+
+  3. Functions
+    - `submit_player_result` locks a player's PIN for 15 minutes after 5
+      wrong PINs instead of for good, so nobody can shut a player out by
+      guessing on purpose. A wrong password is returned as status
+      `wrong_password` so that it is counted
+    - `check_tournament_password` allows 10 wrong passwords per caller and
+      tournament every 15 minutes, then fails with `too_many_attempts`
+
+  4. Security
+    - Directors can unlock the PINs of their own tournaments
+    - Enable RLS on `tournament_password_attempts` with no policies; only the
+      functions above read or write it
+*/
+
+-- Add locked_until to player_report_pins
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'player_report_pins' AND column_name = 'locked_until'
+  ) THEN
+    ALTER TABLE player_report_pins ADD COLUMN locked_until timestamptz;
+  END IF;
+END $$;
+
+-- PINs locked for good under the old rule start over
+UPDATE player_report_pins SET failed_attempts = 0 WHERE failed_attempts >= 5;
+
+CREATE POLICY "Directors can unlock own tournament player PINs"
+  ON player_report_pins
+  FOR UPDATE
+  TO authenticated
+  USING (
+    tournament_id IN (
+      SELECT id FROM tournaments WHERE director_id = auth.uid()
+    )
+  );
+
+-- Create tournament_password_attempts table
+CREATE TABLE IF NOT EXISTS tournament_password_attempts (
+  tournament_id uuid NOT NULL REFERENCES tournaments(id) ON DELETE CASCADE,
+  client text NOT NULL,
+  failed_attempts integer NOT NULL DEFAULT 0,
+  window_started_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (tournament_id, client)
+);
+
+-- Enable RLS
+ALTER TABLE tournament_password_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Check a tournament's password without revealing it, counting wrong ones
+CREATE OR REPLACE FUNCTION check_tournament_password(
+  p_tournament_id uuid,
+  p_password text
+)
+RETURNS boolean AS $$
+DECLARE
+  v_password text;
+  v_client text;
+  v_attempts tournament_password_attempts%ROWTYPE;
+BEGIN
+  SELECT password INTO v_password FROM tournaments WHERE id = p_tournament_id;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF coalesce(v_password, '') = '' THEN
+    RETURN true;
+  END IF;
+
+  -- Asking whether the tournament has a password is not a guess
+  IF p_password IS NULL THEN
+    RETURN false;
+  END IF;
+
+  v_client := coalesce(
+    nullif(trim(split_part(
+      nullif(current_setting('request.headers', true), '')::json ->> 'x-forwarded-for', ',', 1
+    )), ''),
+    'unknown'
+  );
+
+  SELECT * INTO v_attempts
+  FROM tournament_password_attempts
+  WHERE tournament_id = p_tournament_id AND client = v_client;
+
+  IF FOUND AND v_attempts.failed_attempts >= 10
+    AND v_attempts.window_started_at > now() - interval '15 minutes' THEN
+    RAISE EXCEPTION 'too_many_attempts';
+  END IF;
+
+  IF p_password = v_password THEN
+    RETURN true;
+  END IF;
+
+  INSERT INTO tournament_password_attempts (tournament_id, client, failed_attempts, window_started_at)
+  VALUES (p_tournament_id, v_client, 1, now())
+  ON CONFLICT (tournament_id, client) DO UPDATE
+    SET failed_attempts = CASE
+          WHEN tournament_password_attempts.window_started_at > now() - interval '15 minutes'
+            THEN tournament_password_attempts.failed_attempts + 1
+          ELSE 1
+        END,
+        window_started_at = CASE
+          WHEN tournament_password_attempts.window_started_at > now() - interval '15 minutes'
+            THEN tournament_password_attempts.window_started_at
+          ELSE now()
+        END;
+
+  RETURN false;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Record a player's report, entering the result once both players agree
+CREATE OR REPLACE FUNCTION submit_player_result(
+  p_pairing_id uuid,
+  p_player_id uuid,
+  p_pin text,
+  p_password text,
+  p_player1_score integer,
+  p_player2_score integer
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_pairing pairings%ROWTYPE;
+  v_current_round integer;
+  v_pin player_report_pins%ROWTYPE;
+  v_opponent result_submissions%ROWTYPE;
+  v_winner uuid;
+BEGIN
+  SELECT * INTO v_pairing FROM pairings WHERE id = p_pairing_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'pairing_not_found';
+  END IF;
+
+  -- Wrong passwords and PINs are counted, so they are returned rather than raised
+  IF NOT check_tournament_password(v_pairing.tournament_id, coalesce(p_password, '')) THEN
+    RETURN jsonb_build_object('status', 'wrong_password');
+  END IF;
+
+  IF v_pairing.player2_id IS NULL THEN
+    RAISE EXCEPTION 'bye_takes_no_score';
+  END IF;
+
+  IF p_player_id IS DISTINCT FROM v_pairing.player1_id AND p_player_id IS DISTINCT FROM v_pairing.player2_id THEN
+    RAISE EXCEPTION 'player_not_in_pairing';
+  END IF;
+
+  SELECT * INTO v_pin FROM player_report_pins WHERE player_id = p_player_id FOR UPDATE;
+  IF NOT FOUND OR v_pin.locked_until > now() THEN
+    RETURN jsonb_build_object('status', 'pin_locked');
+  END IF;
+
+  IF p_pin IS DISTINCT FROM v_pin.pin THEN
+    -- The fifth wrong PIN locks the player out for 15 minutes
+    UPDATE player_report_pins
+    SET failed_attempts = CASE WHEN failed_attempts + 1 >= 5 THEN 0 ELSE failed_attempts + 1 END,
+        locked_until = CASE WHEN failed_attempts + 1 >= 5 THEN now() + interval '15 minutes' ELSE locked_until END
+    WHERE player_id = p_player_id;
+
+    RETURN jsonb_build_object(
+      'status',
+      CASE WHEN v_pin.failed_attempts + 1 >= 5 THEN 'pin_locked' ELSE 'wrong_pin' END
+    );
+  END IF;
+
+  IF v_pin.failed_attempts > 0 THEN
+    UPDATE player_report_pins SET failed_attempts = 0 WHERE player_id = p_player_id;
+  END IF;
+
+  IF p_player1_score IS NULL OR p_player2_score IS NULL
+    OR p_player1_score < 0 OR p_player2_score < 0
+    OR p_player1_score > 9999 OR p_player2_score > 9999 THEN
+    RAISE EXCEPTION 'invalid_score';
+  END IF;
+
+  SELECT coalesce(current_round, 1) INTO v_current_round
+  FROM tournaments
+  WHERE id = v_pairing.tournament_id;
+
+  IF v_pairing.round_number <> v_current_round THEN
+    RAISE EXCEPTION 'round_not_open';
+  END IF;
+
+  -- Serialise the two players' reports for the same game
+  PERFORM pg_advisory_xact_lock(hashtext('result_submission:' || p_pairing_id::text));
+
+  IF EXISTS (SELECT 1 FROM results WHERE pairing_id = p_pairing_id) THEN
+    RETURN jsonb_build_object('status', 'already_entered');
+  END IF;
+
+  INSERT INTO result_submissions (tournament_id, pairing_id, player_id, player1_score, player2_score, status)
+  VALUES (v_pairing.tournament_id, p_pairing_id, p_player_id, p_player1_score, p_player2_score, 'pending')
+  ON CONFLICT (pairing_id, player_id) DO UPDATE
+    SET player1_score = EXCLUDED.player1_score,
+        player2_score = EXCLUDED.player2_score,
+        status = 'pending';
+
+  SELECT * INTO v_opponent
+  FROM result_submissions
+  WHERE pairing_id = p_pairing_id AND player_id <> p_player_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'waiting');
+  END IF;
+
+  IF v_opponent.player1_score <> p_player1_score OR v_opponent.player2_score <> p_player2_score THEN
+    UPDATE result_submissions SET status = 'disputed' WHERE pairing_id = p_pairing_id;
+    RETURN jsonb_build_object('status', 'disputed');
+  END IF;
+
+  v_winner := CASE
+    WHEN p_player1_score > p_player2_score THEN v_pairing.player1_id
+    WHEN p_player2_score > p_player1_score THEN v_pairing.player2_id
+    ELSE NULL
+  END;
+
+  -- A scorekeeper may have entered the game since the check above
+  INSERT INTO results (
+    pairing_id, tournament_id, round_number, player1_score, player2_score,
+    winner_id, submitted_by, entered_by
+  )
+  VALUES (
+    p_pairing_id, v_pairing.tournament_id, v_pairing.round_number, p_player1_score, p_player2_score,
+    v_winner, NULL, 'Player report'
+  )
+  ON CONFLICT (pairing_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'already_entered');
+  END IF;
+
+  UPDATE result_submissions SET status = 'confirmed' WHERE pairing_id = p_pairing_id;
+
+  RETURN jsonb_build_object('status', 'confirmed');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Add comments
+COMMENT ON TABLE tournament_password_attempts IS 'Wrong tournament passwords per caller, for limiting guesses';
+COMMENT ON COLUMN player_report_pins.locked_until IS 'Reports with this PIN are refused until then, after repeated wrong PINs';
+COMMENT ON FUNCTION check_tournament_password(uuid, text) IS 'Whether the password opens the tournament; true when it has none. Limits wrong guesses per caller';
@@ -1,11 +1,39 @@
-import { defineConfig } from 'vite';
+import { createHash } from 'node:crypto';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 import viteCompression from 'vite-plugin-compression';
 
+// Files from public/ the service worker precaches alongside the build
+const PRECACHED_PUBLIC_FILES = ['/manifest.webmanifest', '/icon.svg', '/icon-maskable.svg'];
+
+// Writes precache-manifest.js for public/sw.js: the app shell's URLs and a
+// version that changes with them, so each deploy installs a new worker
+function precacheManifest(): Plugin {
+  return {
+    name: 'precache-manifest',
+    apply: 'build',
+    generateBundle(_options, bundle) {
+      const assets = Object.keys(bundle)
+        .filter(fileName => fileName.startsWith('assets/') && !/\.(gz|br|map)$/.test(fileName))
+        .map(fileName => `/${fileName}`)
+        .sort();
+      const urls = ['/index.html', ...PRECACHED_PUBLIC_FILES, ...assets];
+      const version = createHash('sha256').update(urls.join('\n')).digest('hex').slice(0, 12);
+
+      this.emitFile({
+        type: 'asset',
+        fileName: 'precache-manifest.js',
+        source: `self.__PRECACHE_VERSION = ${JSON.stringify(version)};\nself.__PRECACHE_URLS = ${JSON.stringify(urls)};\n`
+      });
+    }
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [
     react(),
+    precacheManifest(),
     viteCompression({
       algorithm: 'gzip',
       ext: '.gz',